@@ -0,0 +1,98 @@
+/**
+ * Offline queue end to end: Server talking to the Canoe123 simulator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { Server } from '../server.js';
+import { C123Simulator } from '../simulator/index.js';
+import { resetAppSettings } from '../config/index.js';
+
+const eventXml = `<?xml version="1.0" standalone="yes"?>
+<Canoe123Data xmlns="http://siwidata.com/Canoe123/Data.xsd">
+  <Participants>
+    <Id>12054.K1M_ST</Id>
+    <ClassId>K1M_ST</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+    <IsTeam>false</IsTeam>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_ST_BR1_6</RaceId>
+    <RaceOrder>101</RaceOrder>
+    <ClassId>K1M_ST</ClassId>
+    <DisId>BR1</DisId>
+    <RaceStatus>0</RaceStatus>
+    <CourseNr>1</CourseNr>
+  </Schedule>
+  <CourseData>
+    <CourseNr>1</CourseNr>
+    <CourseConfig>NNRSNN</CourseConfig>
+  </CourseData>
+</Canoe123Data>`;
+
+describe('Offline queue', () => {
+  let tempDir: string;
+  let simulator: C123Simulator;
+  let server: Server;
+
+  async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  const gatesOf = (bib: string) => server.getEventState().state.onCourse.find((c) => c.bib === bib)?.gates;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'offline-queue-test-'));
+    process.env.HOME = tempDir;
+    const xmlPath = path.join(tempDir, 'event.xml');
+    fs.writeFileSync(xmlPath, eventXml);
+
+    simulator = new C123Simulator({
+      xmlPath,
+      port: 0,
+      udpAddress: null,
+      tickMs: 50,
+      startIntervalMs: 10000,
+      runDurationMs: 60000,
+      autoPenalties: false,
+    });
+    await simulator.start();
+
+    server = new Server({ port: 0, autoDiscovery: false, tcpHost: '127.0.0.1', tcpPort: simulator.getPort() });
+    await server.start();
+    await waitFor(() => server.isScoringAvailable() && gatesOf('1') !== undefined);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await simulator.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    resetAppSettings();
+  });
+
+  it('sends directly only once no queued command is waiting', () => {
+    expect(server.shouldQueueCommands()).toBe(false);
+  });
+
+  it('queues newer commands behind older ones and replays them in order', async () => {
+    server.queueCommand('scoring', { bib: '1', gate: 3, value: 2 });
+    // The older command is still on its way, so a newer correction must
+    // follow it through the queue
+    expect(server.shouldQueueCommands()).toBe(true);
+    server.queueCommand('scoring', { bib: '1', gate: 3, value: 50 });
+
+    await waitFor(() => server.getCommandQueue().getAll().length === 0);
+    await waitFor(() => gatesOf('1') === ',,50,,');
+    expect(server.shouldQueueCommands()).toBe(false);
+  });
+});
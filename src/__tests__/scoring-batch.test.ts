@@ -0,0 +1,253 @@
+/**
+ * Batch scoring over HTTP: Server talking to the Canoe123 simulator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { Server } from '../server.js';
+import { C123Simulator } from '../simulator/index.js';
+import { getAppSettings, resetAppSettings } from '../config/index.js';
+
+const eventXml = `<?xml version="1.0" standalone="yes"?>
+<Canoe123Data xmlns="http://siwidata.com/Canoe123/Data.xsd">
+  <Participants>
+    <Id>12054.K1M_ST</Id>
+    <ClassId>K1M_ST</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+    <IsTeam>false</IsTeam>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_ST_BR1_6</RaceId>
+    <RaceOrder>101</RaceOrder>
+    <ClassId>K1M_ST</ClassId>
+    <DisId>BR1</DisId>
+    <RaceStatus>0</RaceStatus>
+    <CustomTitle>K1m - 1. jízda</CustomTitle>
+    <CourseNr>1</CourseNr>
+  </Schedule>
+  <CourseData>
+    <CourseNr>1</CourseNr>
+    <CourseConfig>NNRSNN</CourseConfig>
+  </CourseData>
+</Canoe123Data>`;
+
+describe('Scoring batch API', () => {
+  let tempDir: string;
+  let simulator: C123Simulator;
+  let server: Server;
+
+  async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  const gatesOf = (bib: string) => server.getEventState().state.onCourse.find((c) => c.bib === bib)?.gates;
+
+  function post(path: string, body: unknown, headers: Record<string, string> = {}): Promise<globalThis.Response> {
+    return fetch(`http://127.0.0.1:${server.getPort()}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const postBatch = (items: unknown, headers?: Record<string, string>) =>
+    post('/api/c123/scoring/batch', { items }, headers);
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoring-batch-test-'));
+    process.env.HOME = tempDir;
+    const xmlPath = path.join(tempDir, 'event.xml');
+    fs.writeFileSync(xmlPath, eventXml);
+
+    simulator = new C123Simulator({
+      xmlPath,
+      port: 0,
+      udpAddress: null,
+      tickMs: 50,
+      startIntervalMs: 10000,
+      runDurationMs: 60000,
+      autoPenalties: false,
+    });
+    await simulator.start();
+
+    server = new Server({ port: 0, autoDiscovery: false, tcpHost: '127.0.0.1', tcpPort: simulator.getPort() });
+    await server.start();
+    await waitFor(
+      () =>
+        server.isScoringAvailable() &&
+        gatesOf('1') !== undefined &&
+        server.getEventState().state.raceConfig !== null
+    );
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await simulator.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    resetAppSettings();
+  });
+
+  it('sends every item in order and reports each one', async () => {
+    const res = await postBatch([
+      { bib: '1', gate: 1, value: 0 },
+      { bib: '1', gate: 2, value: 2 },
+      { bib: '1', gate: 4, value: 50 },
+    ]);
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body).toMatchObject({ success: true, sent: 3, failed: 0 });
+    expect(body.results.map((r: { index: number; gate: number }) => [r.index, r.gate])).toEqual([
+      [0, 1],
+      [1, 2],
+      [2, 4],
+    ]);
+    expect(body.results[0].commandId).toEqual(expect.any(String));
+
+    await waitFor(() => gatesOf('1') === '0,2,,50,');
+    expect(server.getAuditLog().query({ bib: '1' })).toHaveLength(3);
+  });
+
+  it('sends nothing when one item is invalid', async () => {
+    const res = await postBatch([
+      { bib: '1', gate: 1, value: 0 },
+      { bib: '1', gate: 9, value: 2 },
+    ]);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({
+      error: 'Batch validation failed',
+      errors: [{ index: 1, error: 'gate 9 does not exist, the current course has 5 gates' }],
+    });
+    expect(server.getAuditLog().query({})).toHaveLength(0);
+  });
+
+  it('rejects an empty batch', async () => {
+    const res = await postBatch([]);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'items must be a non-empty array' });
+  });
+
+  it('rejects team penalties in an individual race', async () => {
+    const withoutXml = await post('/api/c123/scoring', { bib: '1', gate: 3, value: 52, team: true });
+    expect(withoutXml.status).toBe(400);
+    expect(await withoutXml.json()).toEqual({ error: 'cannot confirm team race without XML data' });
+
+    server.setXmlPath(path.join(tempDir, 'event.xml'), false);
+    const expected = { error: 'team penalties are only allowed in team races (K1M_ST_BR1_6 is not one)' };
+
+    const single = await post('/api/c123/scoring', { bib: '1', gate: 3, value: 52, team: true });
+    expect(single.status).toBe(400);
+    expect(await single.json()).toEqual(expected);
+
+    const boats = await post('/api/c123/scoring', { bib: '1', gate: 3, boats: [2, 50] });
+    expect(boats.status).toBe(400);
+
+    const batch = await postBatch([{ bib: '1', gate: 3, boats: [0, 2] }]);
+    expect(batch.status).toBe(400);
+    expect((await batch.json()).errors).toEqual([{ index: 0, ...expected }]);
+
+    const unknownRace = await post('/api/c123/scoring', { raceId: 'K1M_ST_BR2_6', bib: '1', gate: 3, value: 52, team: true });
+    expect(await unknownRace.json()).toEqual({ error: 'cannot confirm team race: K1M_ST_BR2_6 is not in the XML schedule' });
+  });
+
+  describe('judge sections', () => {
+    const tablet = { 'X-Client-Id': 'tablet-1' };
+
+    beforeEach(() => {
+      getAppSettings().setJudgeSections([{ id: 's1', label: 'Section 1', fromGate: 1, toGate: 3 }]);
+      getAppSettings().setClientJudgeSection('tablet-1', 's1');
+    });
+
+    it('rejects single scoring outside the section', async () => {
+      const res = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 }, tablet);
+
+      expect(res.status).toBe(403);
+      expect(await res.json()).toEqual({
+        error: 'Gate outside judge section',
+        detail: 'Gate 4 is outside section Section 1 (gates 1-3)',
+      });
+      expect(server.getAuditLog().query({})[0]).toMatchObject({ success: false, xml: null });
+    });
+
+    it('rejects a batch touching a gate outside the section', async () => {
+      const res = await postBatch(
+        [
+          { bib: '1', gate: 3, value: 0 },
+          { bib: '1', gate: 4, value: 0 },
+        ],
+        tablet
+      );
+
+      expect(res.status).toBe(400);
+      expect((await res.json()).errors).toEqual([
+        { index: 1, error: 'Gate 4 is outside section Section 1 (gates 1-3)' },
+      ]);
+    });
+
+    it('rejects writes from clients without a section', async () => {
+      const res = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 }, { 'X-Client-Id': 'unassigned' });
+
+      expect(res.status).toBe(403);
+      expect((await res.json()).detail).toBe('Writing requires a judge section once sections are configured');
+      expect((await post('/api/c123/timing', { bib: '1', channelPosition: 'Finish' })).status).toBe(403);
+    });
+
+    it('does not let X-Client-Id override the section of the IP address', async () => {
+      getAppSettings().setJudgeSections([
+        { id: 's1', label: 'Section 1', fromGate: 1, toGate: 3 },
+        { id: 'all', label: 'Chief judge', fromGate: 1, toGate: 24 },
+      ]);
+      getAppSettings().setClientJudgeSection('127.0.0.1', 's1');
+      getAppSettings().setClientJudgeSection('chief', 'all');
+
+      const res = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 }, { 'X-Client-Id': 'chief' });
+      expect(res.status).toBe(403);
+      expect((await res.json()).error).toBe('Gate outside judge section');
+    });
+
+    it('takes the section from the token and lets an admin token write anywhere', async () => {
+      getAppSettings().updateAuthConfig({
+        enabled: true,
+        tokens: [
+          { token: 'judge-token', role: 'judge', judgeSection: 's1' },
+          { token: 'admin-token', role: 'admin' },
+        ],
+      });
+
+      const judge = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 }, { Authorization: 'Bearer judge-token' });
+      expect(judge.status).toBe(403);
+      expect((await judge.json()).error).toBe('Gate outside judge section');
+
+      const admin = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 }, { Authorization: 'Bearer admin-token' });
+      expect(admin.status).toBe(200);
+    });
+
+    it('does not let an admin PIN write without a section', async () => {
+      getAppSettings().updateAuthConfig({ enabled: true, pin: '1234', pinRole: 'admin' });
+
+      const res = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 }, { Authorization: 'Bearer 1234' });
+      expect(res.status).toBe(403);
+      expect((await res.json()).detail).toBe('Writing requires a judge section once sections are configured');
+    });
+
+    it('does not let anonymous admins write without a section', async () => {
+      getAppSettings().updateAuthConfig({ enabled: true, anonymousRole: 'admin' });
+
+      const res = await post('/api/c123/scoring', { bib: '1', gate: 4, value: 2 });
+      expect(res.status).toBe(403);
+      expect((await res.json()).detail).toBe('Writing requires a judge section once sections are configured');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Scoring undo end to end: Server talking to the Canoe123 simulator.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { Server } from '../server.js';
+import { C123Simulator } from '../simulator/index.js';
+import { ScoringRevertError } from '../service/index.js';
+import { resetAppSettings } from '../config/index.js';
+
+const eventXml = `<?xml version="1.0" standalone="yes"?>
+<Canoe123Data xmlns="http://siwidata.com/Canoe123/Data.xsd">
+  <Participants>
+    <Id>12054.K1M_ST</Id>
+    <ClassId>K1M_ST</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+    <IsTeam>false</IsTeam>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_ST_BR1_6</RaceId>
+    <RaceOrder>101</RaceOrder>
+    <ClassId>K1M_ST</ClassId>
+    <DisId>BR1</DisId>
+    <RaceStatus>0</RaceStatus>
+    <CustomTitle>K1m - 1. jízda</CustomTitle>
+    <CourseNr>1</CourseNr>
+  </Schedule>
+  <CourseData>
+    <CourseNr>1</CourseNr>
+    <CourseConfig>NNRSNN</CourseConfig>
+  </CourseData>
+</Canoe123Data>`;
+
+describe('Scoring revert', () => {
+  let tempDir: string;
+  let simulator: C123Simulator;
+  let server: Server;
+
+  async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  const gatesOf = (bib: string) => server.getEventState().state.onCourse.find((c) => c.bib === bib)?.gates;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scoring-revert-test-'));
+    process.env.HOME = tempDir;
+    const xmlPath = path.join(tempDir, 'event.xml');
+    fs.writeFileSync(xmlPath, eventXml);
+
+    simulator = new C123Simulator({
+      xmlPath,
+      port: 0,
+      udpAddress: null,
+      tickMs: 50,
+      startIntervalMs: 10000,
+      runDurationMs: 60000,
+      autoPenalties: false,
+    });
+    await simulator.start();
+
+    server = new Server({ port: 0, autoDiscovery: false, tcpHost: '127.0.0.1', tcpPort: simulator.getPort() });
+    await server.start();
+    await waitFor(() => server.isScoringAvailable() && gatesOf('1') !== undefined);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await simulator.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    resetAppSettings();
+  });
+
+  it('remembers the previous value and sends it back on revert', async () => {
+    const first = await server.sendScoring({ bib: '1', gate: 3, value: 2 });
+    expect(first.previousValue).toBeNull();
+    await waitFor(() => gatesOf('1') === ',,2,,');
+
+    const second = await server.sendScoring({ bib: '1', gate: 3, value: 50 });
+    expect(second.previousValue).toBe(2);
+    await waitFor(() => gatesOf('1') === ',,50,,');
+
+    const revert = await server.revertScoring(second.id, { clientIp: '10.0.0.5' });
+    expect(revert.revertOf).toBe(second.id);
+    expect(revert.payload).toEqual({ bib: '1', gate: 3, value: 2 });
+    expect(revert.clientIp).toBe('10.0.0.5');
+    await waitFor(() => gatesOf('1') === ',,2,,');
+  });
+
+  it('refuses to revert twice or an unknown command', async () => {
+    const sent = await server.sendScoring({ bib: '1', gate: 1, value: 2 });
+    await server.revertScoring(sent.id);
+
+    await expect(server.revertScoring(sent.id)).rejects.toMatchObject({ statusCode: 409 });
+    await expect(server.revertScoring('nope')).rejects.toBeInstanceOf(ScoringRevertError);
+    await expect(server.revertScoring('nope')).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it('reverts to a stored team sum even if the reverted command was not a team one', async () => {
+    await server.sendScoring({ bib: '1', gate: 3, value: 52, team: true });
+    await waitFor(() => gatesOf('1') === ',,52,,');
+
+    const sent = await server.sendScoring({ bib: '1', gate: 3, value: 2 });
+    expect(sent.previousValue).toBe(52);
+    await waitFor(() => gatesOf('1') === ',,2,,');
+
+    const revert = await server.revertScoring(sent.id);
+    expect(revert.payload).toEqual({ bib: '1', gate: 3, value: 52, team: true });
+    await waitFor(() => gatesOf('1') === ',,52,,');
+  });
+
+  it('cannot revert when the previous value was unknown', async () => {
+    const sent = await server.sendScoring({ bib: '99', gate: 1, value: 2 });
+    expect(sent.previousValue).toBeUndefined();
+
+    await expect(server.revertScoring(sent.id)).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -309,6 +309,49 @@ function hideError(elementId) {
   }
 }
 
+// ===========================================
+// Authentication
+// ===========================================
+
+const AUTH_TOKEN_KEY = 'c123-server-token';
+let authPromptDismissed = false;
+
+function getAuthToken() {
+  return localStorage.getItem(AUTH_TOKEN_KEY) || '';
+}
+
+// Attach the stored token or PIN to every API call. Only needed when auth is
+// enabled in settings.json; otherwise the server ignores it.
+const nativeFetch = window.fetch.bind(window);
+window.fetch = async function(input, init) {
+  const url = typeof input === 'string' ? input : input.url;
+  if (!url.startsWith('/api/')) return nativeFetch(input, init);
+
+  const options = Object.assign({}, init);
+  const token = getAuthToken();
+  if (token) {
+    options.headers = new Headers(options.headers || {});
+    options.headers.set('Authorization', 'Bearer ' + token);
+  }
+
+  const res = await nativeFetch(input, options);
+  if (res.status === 401) promptForAuthToken();
+  if (res.status === 403) showToast('Not permitted for this token', 'error');
+  return res;
+};
+
+function promptForAuthToken() {
+  if (authPromptDismissed) return;
+  const value = window.prompt('This server requires an admin token or PIN:');
+  if (value && value.trim()) {
+    localStorage.setItem(AUTH_TOKEN_KEY, value.trim());
+    window.location.reload();
+  } else {
+    // Don't nag on every poll; a page reload asks again
+    authPromptDismissed = true;
+  }
+}
+
 // ===========================================
 // Status Refresh
 // ===========================================
@@ -753,7 +796,9 @@ async function loadInitialLogs() {
 
 function connectLogWebSocket() {
   const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-  ws = new WebSocket(protocol + '//' + window.location.host + '/ws?admin=1');
+  const token = getAuthToken();
+  ws = new WebSocket(protocol + '//' + window.location.host + '/ws?admin=1' +
+    (token ? '&token=' + encodeURIComponent(token) : ''));
 
   ws.onmessage = function(event) {
     try {
@@ -791,6 +836,189 @@ function connectLogWebSocket() {
   };
 }
 
+// ===========================================
+// Record & Replay Functions
+// ===========================================
+
+let recordingActive = false;
+
+async function loadReplayStatus() {
+  try {
+    const [recRes, replayRes] = await Promise.all([fetch('/api/recording'), fetch('/api/replay')]);
+    const recording = await recRes.json();
+    const replay = await replayRes.json();
+
+    recordingActive = !!recording.active;
+    document.getElementById('recordingStatus').textContent = recording.active
+      ? 'Recording to ' + recording.path + ' (' + recording.entries + ' messages)'
+      : (recording.path ? 'Stopped - last file ' + recording.path : 'Not recording');
+    document.getElementById('recordingBtn').textContent = recording.active ? 'Stop Recording' : 'Start Recording';
+
+    let replayText = 'Live C123 data';
+    if (replay.active) {
+      const speed = replay.speed === 'max' ? 'max speed' : replay.speed + 'x';
+      const progress = replay.progress ? ' ' + replay.progress.position + '/' + replay.progress.total : '';
+      replayText = (replay.status === 'disconnected' ? 'Finished ' : 'Replaying ') +
+        replay.path + ' at ' + speed + progress;
+    }
+    document.getElementById('replayStatus').textContent = replayText;
+  } catch (e) {
+    // Ignore - next poll will retry
+  }
+}
+
+async function loadRecordings() {
+  const select = document.getElementById('replayFileSelect');
+  if (!select) return;
+
+  try {
+    const res = await fetch('/api/recordings');
+    const data = await res.json();
+    const current = select.value;
+    select.innerHTML = data.recordings.length
+      ? data.recordings.map(r =>
+          '<option value="' + escapeHtml(r.name) + '">' + escapeHtml(r.name) + '</option>'
+        ).join('')
+      : '<option value="">No recordings</option>';
+    if (current) select.value = current;
+  } catch (e) {
+    // Ignore
+  }
+}
+
+async function toggleRecording() {
+  try {
+    const res = await fetch('/api/recording/' + (recordingActive ? 'stop' : 'start'), { method: 'POST' });
+    const data = await res.json();
+    if (data.error) {
+      showToast('Recording failed: ' + data.error, 'error');
+      return;
+    }
+    showToast(data.active ? 'Recording started' : 'Recording stopped', 'success');
+    loadReplayStatus();
+    loadRecordings();
+  } catch (e) {
+    showToast('Recording failed: ' + e.message, 'error');
+  }
+}
+
+async function startReplay() {
+  const file = document.getElementById('replayFileSelect').value;
+  if (!file) {
+    showToast('No recording selected', 'warning');
+    return;
+  }
+  const speedValue = document.getElementById('replaySpeedSelect').value;
+
+  try {
+    const res = await fetch('/api/replay/start', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ file: file, speed: speedValue === 'max' ? 'max' : Number(speedValue) })
+    });
+    const data = await res.json();
+    if (data.error) {
+      showToast('Replay failed: ' + data.error, 'error');
+      return;
+    }
+    showToast('Replaying ' + file, 'success');
+    loadReplayStatus();
+  } catch (e) {
+    showToast('Replay failed: ' + e.message, 'error');
+  }
+}
+
+async function stopReplay() {
+  try {
+    await fetch('/api/replay/stop', { method: 'POST' });
+    showToast('Back to live C123 data', 'success');
+    loadReplayStatus();
+  } catch (e) {
+    showToast('Failed to stop replay: ' + e.message, 'error');
+  }
+}
+
+// ===========================================
+// Offline Command Queue Functions
+// ===========================================
+
+function describeQueuedPayload(cmd) {
+  const p = cmd.payload;
+  if (cmd.command === 'scoring') {
+    return 'Gate ' + p.gate + ' = ' + (p.value === null ? 'delete' : p.value) + (p.raceId ? ' (' + p.raceId + ')' : '');
+  }
+  if (cmd.command === 'remove-from-course') return p.reason;
+  return p.channelPosition;
+}
+
+function describeQueueStatus(cmd) {
+  if (!cmd.conflict) {
+    return cmd.failedAttempts ? 'Pending (failed ' + cmd.failedAttempts + 'x)' : 'Pending';
+  }
+  const label = cmd.conflict.reason === 'send-failed' ? 'Send failed' : 'Conflict: ' + escapeHtml(cmd.conflict.reason);
+  return '<span title="' + escapeHtml(cmd.conflict.detail) + '">' + label + '</span>';
+}
+
+async function loadCommandQueue() {
+  const card = document.getElementById('queueCard');
+  if (!card) return;
+
+  try {
+    const res = await fetch('/api/c123/queue');
+    if (!res.ok) return;
+    const data = await res.json();
+
+    // Only worth the space when the queue is on or still holds something
+    card.style.display = data.enabled || data.commands.length ? '' : 'none';
+
+    const conflicts = data.commands.length - data.pending;
+    document.getElementById('queueStatus').textContent = data.commands.length === 0
+      ? 'None'
+      : data.pending + ' waiting for C123' + (conflicts ? ', ' + conflicts + ' need a decision' : '') +
+        (data.replaying ? ' (replaying...)' : '');
+
+    const tbody = document.querySelector('#queueTable tbody');
+    tbody.innerHTML = data.commands.map(cmd =>
+      '<tr>' +
+        '<td>' + formatTime(cmd.queuedAt) + '</td>' +
+        '<td>' + escapeHtml(cmd.command) + '</td>' +
+        '<td>' + escapeHtml(cmd.payload.bib) + '</td>' +
+        '<td>' + escapeHtml(describeQueuedPayload(cmd)) + '</td>' +
+        '<td>' + describeQueueStatus(cmd) + '</td>' +
+        '<td>' +
+          '<button class="btn btn-sm btn-secondary" onclick="sendQueuedCommand(\'' + cmd.id + '\')">Send</button> ' +
+          '<button class="btn btn-sm btn-danger-outline" onclick="discardQueuedCommand(\'' + cmd.id + '\')">Discard</button>' +
+        '</td>' +
+      '</tr>'
+    ).join('');
+  } catch (e) {
+    // Ignore - next poll will retry
+  }
+}
+
+async function sendQueuedCommand(id) {
+  try {
+    const res = await fetch('/api/c123/queue/' + encodeURIComponent(id) + '/send', { method: 'POST' });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'HTTP ' + res.status);
+    showToast('Command sent to C123', 'success');
+  } catch (e) {
+    showToast('Send failed: ' + e.message, 'error');
+  }
+  loadCommandQueue();
+}
+
+async function discardQueuedCommand(id) {
+  if (!confirm('Discard this command? It will not be sent to C123.')) return;
+  try {
+    await fetch('/api/c123/queue/' + encodeURIComponent(id), { method: 'DELETE' });
+    showToast('Command discarded', 'success');
+  } catch (e) {
+    showToast('Discard failed: ' + e.message, 'error');
+  }
+  loadCommandQueue();
+}
+
 // ===========================================
 // Client Management Functions
 // ===========================================
@@ -2768,6 +2996,9 @@ function init() {
   loadMismatchStatus();
   loadLiveStatus();
   loadUpdateCheck();
+  loadReplayStatus();
+  loadRecordings();
+  loadCommandQueue();
   connectLogWebSocket();
 
   // Periodic refresh
@@ -2775,6 +3006,9 @@ function init() {
   setInterval(loadXmlConfig, 5000);
   setInterval(loadEventName, 5000);
   setInterval(loadClients, 3000);
+  setInterval(loadReplayStatus, 2000);
+  setInterval(loadCommandQueue, 2000);
+  setInterval(loadRecordings, 10000);
   // Update check is hourly — the server caches responses for 1 hour so
   // more frequent polling would just return the same payload.
   setInterval(loadUpdateCheck, 60 * 60 * 1000);
@@ -12,7 +12,7 @@ import type {
   ScoreboardConfig,
 } from './types.js';
 import { Logger } from '../utils/logger.js';
-import { getAppSettings, WindowsConfigDetector } from '../config/index.js';
+import { getAppSettings, publicSettings, WindowsConfigDetector } from '../config/index.js';
 
 const DEFAULT_PORT = 8084;
 const VERSION = '0.9.0';
@@ -803,7 +803,7 @@ export class AdminServer {
     };
 
     res.json({
-      settings,
+      settings: publicSettings(settings),
       xml: xmlInfo,
       isWindows: WindowsConfigDetector.isWindows(),
       settingsPath: getAppSettings().getPath(),
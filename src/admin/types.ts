@@ -5,7 +5,7 @@ import type { SourceStatus } from '../sources/types.js';
  */
 export interface SourceStatusInfo {
   name: string;
-  type: 'tcp' | 'udp' | 'xml';
+  type: 'tcp' | 'udp' | 'xml' | 'replay';
   status: SourceStatus;
   host?: string;
   port?: number;
@@ -0,0 +1,396 @@
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as crypto from 'node:crypto';
+import { Logger } from '../utils/logger.js';
+import { XmlDataService } from '../service/XmlDataService.js';
+import { computeScheduleFingerprint, isSameEvent } from '../checks/fingerprint.js';
+import type { ChecksFileData } from '../checks/types.js';
+import type { AuditEntry } from '../audit/types.js';
+import type { AppSettings } from '../config/types.js';
+import type { ArchiveInput, ArchivedEventInfo, ArchivedFiles, EventArchiveEvents } from './types.js';
+
+/**
+ * Configuration for EventArchive
+ */
+export interface EventArchiveConfig {
+  /** Directory for archived events (default: app data dir /archive) */
+  dir?: string;
+}
+
+const XML_FILE = 'event.xml';
+const CHECKS_FILE = 'checks.json';
+const AUDIT_FILE = 'audit.jsonl';
+const SETTINGS_FILE = 'settings.json';
+const INFO_FILE = 'archive.json';
+/** Kept copy of the live XML; the leading dot keeps it out of the archive IDs */
+const KEPT_XML_FILE = '.kept-event.xml';
+
+/** Archive IDs are directory names and appear in URLs */
+const ARCHIVE_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+/**
+ * Get platform-specific archive directory path
+ * - Windows: %APPDATA%\c123-server\archive\
+ * - Linux/macOS: ~/.c123-server/archive/
+ */
+export function getArchiveDirectory(): string {
+  if (os.platform() === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    return path.join(appData, 'c123-server', 'archive');
+  }
+  return path.join(os.homedir(), '.c123-server', 'archive');
+}
+
+/**
+ * EventArchive keeps a snapshot of every finished event: the final XML, the
+ * penalty checks, the audit log and the settings, one directory per event.
+ *
+ * Archived events are read-only. Their XML is served through the same REST
+ * shapes as the live file, so past results stay available after the server
+ * has moved on to the next event.
+ */
+export class EventArchive extends EventEmitter<EventArchiveEvents> {
+  private readonly dir: string;
+  private readonly xmlServices = new Map<string, XmlDataService>();
+  private keepCount = 0;
+  private keptCount = 0;
+
+  constructor(config?: EventArchiveConfig) {
+    super();
+    this.dir = config?.dir ?? getArchiveDirectory();
+  }
+
+  /**
+   * Directory holding the archived events
+   */
+  getDirectory(): string {
+    return this.dir;
+  }
+
+  /**
+   * Keep a copy of the live XML while it still holds the event of the checks.
+   *
+   * Canoe123 reuses the XML file for the next event, so by the time a schedule
+   * change ends an event the live file already holds the next one. archive()
+   * falls back to this copy then. The file is copied before it is parsed, so a
+   * rewrite in between cannot slip a different event into the copy.
+   *
+   * @param fingerprint Fingerprint pinned by the checks, null if unpinned
+   */
+  async keepXml(xmlPath: string, fingerprint: string | null): Promise<void> {
+    const count = ++this.keepCount;
+    const tmp = path.join(this.dir, `${KEPT_XML_FILE}.${count}.tmp`);
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.copyFileSync(xmlPath, tmp);
+      const service = new XmlDataService();
+      service.setPath(tmp);
+      const xmlFingerprint = computeScheduleFingerprint(await service.getSchedule());
+      if (!xmlFingerprint || (fingerprint && !isSameEvent(fingerprint, xmlFingerprint))) {
+        return;
+      }
+      // Parses finish out of order; an older copy must not replace a newer one
+      if (count > this.keptCount) {
+        fs.renameSync(tmp, path.join(this.dir, KEPT_XML_FILE));
+        this.keptCount = count;
+      }
+    } catch (error) {
+      Logger.warn('EventArchive', `Could not keep a copy of the XML file: ${error}`);
+    } finally {
+      fs.rmSync(tmp, { force: true });
+    }
+  }
+
+  /**
+   * Snapshot an outgoing event.
+   *
+   * The files are copied synchronously before anything else happens, since
+   * the live ones change as soon as the next event starts. An XML file that
+   * already holds a different event than the checks (Canoe123 reuses the file
+   * for the next event) is replaced by the copy from keepXml(), or left out
+   * rather than archived under the wrong event. The kept copy only stands in
+   * when the checks pin an event to compare it against.
+   *
+   * @returns The archived event, or null if there was nothing new to keep
+   */
+  async archive(input: ArchiveInput): Promise<ArchivedEventInfo | null> {
+    const keptXmlPath = path.join(this.dir, KEPT_XML_FILE);
+    const hasLiveXml = input.xmlPath !== null && fs.existsSync(input.xmlPath);
+    const hasKeptXml = !!input.checks?.fingerprint && fs.existsSync(keptXmlPath);
+    const hasXml = hasLiveXml || hasKeptXml;
+    const hasChecks =
+      input.checks !== null &&
+      (Object.keys(input.checks.races).length > 0 || input.checks.fingerprint !== null);
+    const hasAudit = input.auditPath !== null && hasContent(input.auditPath);
+
+    if (!hasXml && !hasChecks && !hasAudit) {
+      Logger.debug('EventArchive', 'Nothing to archive');
+      return null;
+    }
+
+    const xmlFilename = input.xmlPath ? path.basename(input.xmlPath) : (input.checks?.xmlFilename ?? null);
+    const id = this.freeId(xmlFilename);
+    const target = path.join(this.dir, id);
+    const files: ArchivedFiles = { xml: hasXml, checks: hasChecks, audit: hasAudit, settings: input.settings !== null };
+    const xmlCandidates: string[] = [];
+
+    try {
+      fs.mkdirSync(target, { recursive: true });
+      if (hasLiveXml) {
+        fs.copyFileSync(input.xmlPath as string, path.join(target, XML_FILE));
+        xmlCandidates.push(XML_FILE);
+      }
+      if (hasKeptXml) {
+        fs.copyFileSync(keptXmlPath, path.join(target, KEPT_XML_FILE));
+        xmlCandidates.push(KEPT_XML_FILE);
+      }
+      if (hasChecks) {
+        fs.writeFileSync(path.join(target, CHECKS_FILE), JSON.stringify(input.checks, null, 2), 'utf-8');
+      }
+      if (hasAudit) {
+        fs.copyFileSync(input.auditPath as string, path.join(target, AUDIT_FILE));
+      }
+      if (input.settings) {
+        fs.writeFileSync(path.join(target, SETTINGS_FILE), JSON.stringify(redactSettings(input.settings), null, 2), 'utf-8');
+      }
+    } catch (error) {
+      Logger.error('EventArchive', `Error archiving event: ${error}`);
+      fs.rmSync(target, { recursive: true, force: true });
+      return null;
+    }
+
+    let eventName: string | null = null;
+    let fingerprint = input.checks?.fingerprint ?? null;
+    let raceCount = 0;
+    let participantCount = 0;
+    let archivedXml: string | null = null;
+
+    for (const candidate of xmlCandidates) {
+      const service = new XmlDataService();
+      service.setPath(path.join(target, candidate));
+      try {
+        const schedule = await service.getSchedule();
+        const xmlFingerprint = computeScheduleFingerprint(schedule);
+        if (fingerprint && !isSameEvent(fingerprint, xmlFingerprint)) {
+          throw new Error('XML file holds a different event');
+        }
+        eventName = await service.getEventName();
+        fingerprint = xmlFingerprint || fingerprint;
+        raceCount = schedule.length;
+        participantCount = (await service.getParticipants()).length;
+        archivedXml = candidate;
+        break;
+      } catch (error) {
+        const what = candidate === XML_FILE ? 'the XML file' : 'the kept XML copy';
+        Logger.warn('EventArchive', `Leaving ${what} out of the archive: ${error}`);
+      }
+    }
+
+    if (archivedXml === KEPT_XML_FILE) {
+      fs.renameSync(path.join(target, KEPT_XML_FILE), path.join(target, XML_FILE));
+    } else {
+      fs.rmSync(path.join(target, KEPT_XML_FILE), { force: true });
+      if (archivedXml === null) {
+        fs.rmSync(path.join(target, XML_FILE), { force: true });
+        files.xml = false;
+      }
+    }
+
+    if (!files.xml && !files.checks && !files.audit) {
+      fs.rmSync(target, { recursive: true, force: true });
+      return null;
+    }
+
+    const checksum = this.computeChecksum(target, files);
+    const existing = this.list().find((a) => a.checksum === checksum);
+    if (existing) {
+      Logger.info('EventArchive', `Event already archived as ${existing.id}`);
+      fs.rmSync(target, { recursive: true, force: true });
+      return null;
+    }
+
+    const info: ArchivedEventInfo = {
+      id,
+      archivedAt: new Date().toISOString(),
+      reason: input.reason,
+      xmlFilename,
+      eventName,
+      fingerprint,
+      raceCount,
+      participantCount,
+      files,
+      checksum,
+    };
+
+    try {
+      fs.writeFileSync(path.join(target, INFO_FILE), JSON.stringify(info, null, 2), 'utf-8');
+    } catch (error) {
+      Logger.error('EventArchive', `Error writing archive info: ${error}`);
+      fs.rmSync(target, { recursive: true, force: true });
+      return null;
+    }
+
+    Logger.info('EventArchive', `Archived event ${eventName ?? xmlFilename ?? id} (${input.reason}) as ${id}`);
+    this.emit('archived', info);
+    return info;
+  }
+
+  /**
+   * All archived events, newest first
+   */
+  list(): ArchivedEventInfo[] {
+    let ids: string[];
+    try {
+      ids = fs.readdirSync(this.dir);
+    } catch {
+      return [];
+    }
+
+    return ids
+      .map((id) => this.get(id))
+      .filter((info): info is ArchivedEventInfo => info !== undefined)
+      .sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+  }
+
+  /**
+   * Get an archived event by ID
+   */
+  get(id: string): ArchivedEventInfo | undefined {
+    if (!ARCHIVE_ID_PATTERN.test(id)) {
+      return undefined;
+    }
+
+    try {
+      const content = fs.readFileSync(path.join(this.dir, id, INFO_FILE), 'utf-8');
+      return JSON.parse(content) as ArchivedEventInfo;
+    } catch {
+      // Not an archive, or one whose info file was never written
+      return undefined;
+    }
+  }
+
+  /**
+   * Read-only XML data of an archived event, null if it has no XML
+   */
+  getXmlService(id: string): XmlDataService | null {
+    const info = this.get(id);
+    if (!info?.files.xml) {
+      return null;
+    }
+
+    let service = this.xmlServices.get(id);
+    if (!service) {
+      service = new XmlDataService();
+      service.setPath(path.join(this.dir, id, XML_FILE));
+      this.xmlServices.set(id, service);
+    }
+    return service;
+  }
+
+  /**
+   * Checks of an archived event, null if it has none
+   */
+  getChecks(id: string): ChecksFileData | null {
+    const info = this.get(id);
+    if (!info?.files.checks) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.dir, id, CHECKS_FILE), 'utf-8')) as ChecksFileData;
+    } catch (error) {
+      Logger.error('EventArchive', `Error reading archived checks of ${id}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Audit entries of an archived event, newest first
+   */
+  getAudit(id: string): AuditEntry[] {
+    const info = this.get(id);
+    if (!info?.files.audit) {
+      return [];
+    }
+
+    let content: string;
+    try {
+      content = fs.readFileSync(path.join(this.dir, id, AUDIT_FILE), 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A torn line must not hide the rest of the log
+      }
+    }
+    return entries.reverse();
+  }
+
+  /**
+   * Pick an unused archive ID from the time and the XML filename
+   */
+  private freeId(xmlFilename: string | null): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const name = (xmlFilename ?? 'event').replace(/\.xml$/i, '').replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 80);
+    const base = `${timestamp}_${name}`;
+
+    let candidate = base;
+    let suffix = 1;
+    while (fs.existsSync(path.join(this.dir, candidate))) {
+      candidate = `${base}-${suffix}`;
+      suffix++;
+    }
+    return candidate;
+  }
+
+  /**
+   * Hash of the event data in an archive. Settings are left out: they carry
+   * client last-seen times that change without the event changing.
+   */
+  private computeChecksum(target: string, files: ArchivedFiles): string {
+    const hash = crypto.createHash('sha256');
+    const parts: [boolean, string][] = [
+      [files.xml, XML_FILE],
+      [files.checks, CHECKS_FILE],
+      [files.audit, AUDIT_FILE],
+    ];
+    for (const [present, name] of parts) {
+      hash.update(name);
+      if (present) {
+        hash.update(fs.readFileSync(path.join(target, name)));
+      }
+    }
+    return hash.digest('hex');
+  }
+}
+
+function hasContent(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).size > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Settings without credentials: auth tokens, the PIN and the live API key
+ */
+function redactSettings(settings: AppSettings): Partial<AppSettings> {
+  const copy: Partial<AppSettings> = { ...settings };
+  delete copy.auth;
+  if (copy.live) {
+    copy.live = { ...copy.live, apiKey: null };
+  }
+  return copy;
+}
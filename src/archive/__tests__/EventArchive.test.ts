@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync, readFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { EventArchive } from '../EventArchive.js';
+import type { ArchiveInput } from '../types.js';
+import type { ChecksFileData } from '../../checks/types.js';
+import { DEFAULT_APP_SETTINGS } from '../../config/types.js';
+
+function eventXml(title: string, raceId: string): string {
+  return `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>${title}</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+  </Participants>
+  <Schedule>
+    <RaceId>${raceId}</RaceId>
+    <RaceOrder>1</RaceOrder>
+    <StartTime>2026-10-17T10:00:00+02:00</StartTime>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+  </Schedule>
+  <Results>
+    <RaceId>${raceId}</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>82000</Time>
+    <Pen>2</Pen>
+    <Total>84000</Total>
+    <Rnk>1</Rnk>
+  </Results>
+</Canoe123Data>`;
+}
+
+function checks(fingerprint: string | null): ChecksFileData {
+  return {
+    xmlFilename: 'cup.xml',
+    fingerprint,
+    lastModified: '2026-10-17T12:00:00.000Z',
+    races: {
+      K1M_ST_BR1_6: {
+        checks: { '1:3': { checkedAt: '2026-10-17T10:05:00.000Z', value: 2 } },
+        flags: [],
+      },
+    },
+  };
+}
+
+describe('EventArchive', () => {
+  let tempDir: string;
+  let archive: EventArchive;
+  let xmlPath: string;
+  let auditPath: string;
+
+  const input = (overrides: Partial<ArchiveInput> = {}): ArchiveInput => ({
+    reason: 'xml-path-change',
+    xmlPath,
+    checks: checks('K1M_ST_BR1_6@2026-10-17'),
+    auditPath,
+    settings: null,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'event-archive-test-'));
+    archive = new EventArchive({ dir: join(tempDir, 'archive') });
+    xmlPath = join(tempDir, 'cup.xml');
+    auditPath = join(tempDir, 'cup.xml.audit.jsonl');
+    writeFileSync(xmlPath, eventXml('Czech Cup', 'K1M_ST_BR1_6'));
+    writeFileSync(auditPath, JSON.stringify({ id: 'a1', bib: '1' }) + '\n' + JSON.stringify({ id: 'a2', bib: '2' }) + '\n');
+  });
+
+  afterEach(() => {
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('snapshots the XML, checks and audit log of an event', async () => {
+    const info = await archive.archive(input());
+
+    expect(info).toMatchObject({
+      reason: 'xml-path-change',
+      xmlFilename: 'cup.xml',
+      eventName: 'Czech Cup',
+      fingerprint: 'K1M_ST_BR1_6@2026-10-17',
+      raceCount: 1,
+      participantCount: 1,
+      files: { xml: true, checks: true, audit: true, settings: false },
+    });
+    expect(info!.id).toMatch(/_cup$/);
+    expect(archive.list()).toEqual([info]);
+    expect(archive.getChecks(info!.id)?.races).toHaveProperty('K1M_ST_BR1_6');
+    expect(archive.getAudit(info!.id).map((e) => e.id)).toEqual(['a2', 'a1']);
+  });
+
+  it('serves the archived XML after the live file changed', async () => {
+    const info = await archive.archive(input());
+    writeFileSync(xmlPath, eventXml('Next Event', 'C1W_ST_BR1_7'));
+
+    const service = archive.getXmlService(info!.id)!;
+    expect(await service.getEventName()).toBe('Czech Cup');
+    expect(await service.getResultsForRace('K1M_ST_BR1_6')).toHaveLength(1);
+  });
+
+  it('leaves out an XML file that already holds the next event', async () => {
+    writeFileSync(xmlPath, eventXml('Next Event', 'C1W_ST_BR1_7'));
+
+    const info = await archive.archive(input({ reason: 'schedule-change' }));
+
+    expect(info?.files).toMatchObject({ xml: false, checks: true, audit: true });
+    expect(info?.eventName).toBeNull();
+    expect(archive.getXmlService(info!.id)).toBeNull();
+  });
+
+  it('archives the kept copy once the live file holds the next event', async () => {
+    await archive.keepXml(xmlPath, 'K1M_ST_BR1_6@2026-10-17');
+    writeFileSync(xmlPath, eventXml('Next Event', 'C1W_ST_BR1_7'));
+
+    const info = await archive.archive(input({ reason: 'schedule-change' }));
+
+    expect(info).toMatchObject({ eventName: 'Czech Cup', raceCount: 1, files: { xml: true } });
+    expect(readdirSync(join(tempDir, 'archive', info!.id)).sort()).toEqual([
+      'archive.json',
+      'audit.jsonl',
+      'checks.json',
+      'event.xml',
+    ]);
+    expect(await archive.getXmlService(info!.id)!.getEventName()).toBe('Czech Cup');
+  });
+
+  it('does not keep an XML file that holds a different event than the checks', async () => {
+    await archive.keepXml(xmlPath, 'K1M_ST_BR1_6@2026-10-17');
+    writeFileSync(xmlPath, eventXml('Next Event', 'C1W_ST_BR1_7'));
+    await archive.keepXml(xmlPath, 'K1M_ST_BR1_6@2026-10-17');
+
+    const info = await archive.archive(input({ reason: 'schedule-change' }));
+
+    expect(info?.eventName).toBe('Czech Cup');
+    expect(archive.list()).toEqual([info]);
+  });
+
+  it('prefers the live XML while it still holds the event', async () => {
+    await archive.keepXml(xmlPath, null);
+    writeFileSync(xmlPath, eventXml('Czech Cup - final', 'K1M_ST_BR1_6'));
+
+    const info = await archive.archive(input());
+
+    expect(info?.eventName).toBe('Czech Cup - final');
+  });
+
+  it('drops credentials from the settings snapshot', async () => {
+    const info = await archive.archive(
+      input({
+        settings: {
+          ...DEFAULT_APP_SETTINGS,
+          live: { ...DEFAULT_APP_SETTINGS.live!, apiKey: 'secret-key' },
+          auth: { ...DEFAULT_APP_SETTINGS.auth!, pin: '1234' },
+        },
+      })
+    );
+
+    const saved = JSON.parse(readFileSync(join(archive.getDirectory(), info!.id, 'settings.json'), 'utf-8'));
+    expect(saved.auth).toBeUndefined();
+    expect(saved.live.apiKey).toBeNull();
+    expect(saved.xmlSourceMode).toBe(DEFAULT_APP_SETTINGS.xmlSourceMode);
+  });
+
+  it('does not archive the same state twice', async () => {
+    expect(await archive.archive(input())).not.toBeNull();
+    expect(await archive.archive(input({ reason: 'new-event' }))).toBeNull();
+
+    expect(readdirSync(archive.getDirectory())).toHaveLength(1);
+  });
+
+  it('skips an event without any data', async () => {
+    const info = await archive.archive({
+      reason: 'new-event',
+      xmlPath: join(tempDir, 'missing.xml'),
+      checks: { xmlFilename: 'cup.xml', fingerprint: null, lastModified: '', races: {} },
+      auditPath: join(tempDir, 'missing.audit.jsonl'),
+      settings: null,
+    });
+
+    expect(info).toBeNull();
+    expect(archive.list()).toEqual([]);
+  });
+
+  it('rejects archive IDs that are not plain directory names', () => {
+    expect(archive.get('../cup')).toBeUndefined();
+    expect(archive.getXmlService('..')).toBeNull();
+    expect(archive.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,56 @@
+import type { ChecksFileData } from '../checks/types.js';
+import type { AppSettings } from '../config/types.js';
+
+/**
+ * Why an event was archived:
+ * - 'new-event': the operator started a new event (POST /api/checks/new-event)
+ * - 'schedule-change': the XML schedule turned into a different event
+ * - 'xml-path-change': the server switched to another XML file
+ */
+export type ArchiveReason = 'new-event' | 'schedule-change' | 'xml-path-change';
+
+/** Everything the server knows about the outgoing event */
+export interface ArchiveInput {
+  reason: ArchiveReason;
+  /** XML file of the event, null if none was configured */
+  xmlPath: string | null;
+  /** Checks of the event, null if none were loaded */
+  checks: ChecksFileData | null;
+  /** Audit file of the event */
+  auditPath: string | null;
+  /** Settings at the time of archiving; secrets are dropped before saving */
+  settings: AppSettings | null;
+}
+
+/** Files kept in an archive */
+export interface ArchivedFiles {
+  xml: boolean;
+  checks: boolean;
+  audit: boolean;
+  settings: boolean;
+}
+
+/** One archived event, as stored in archive.json and listed by GET /api/archive */
+export interface ArchivedEventInfo {
+  /** Archive ID, also the directory name */
+  id: string;
+  /** When the event was archived */
+  archivedAt: string; // ISO 8601
+  reason: ArchiveReason;
+  /** XML filename the event was run from */
+  xmlFilename: string | null;
+  /** MainTitle of the archived XML */
+  eventName: string | null;
+  /** Schedule fingerprint of the archived XML, else the pinned one of the checks */
+  fingerprint: string | null;
+  raceCount: number;
+  participantCount: number;
+  files: ArchivedFiles;
+  /** Hash of the archived files, to skip archiving the same state twice */
+  checksum: string;
+}
+
+/** Events emitted by EventArchive */
+export interface EventArchiveEvents {
+  archived: [info: ArchivedEventInfo];
+}
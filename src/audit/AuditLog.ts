@@ -0,0 +1,223 @@
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as crypto from 'node:crypto';
+import { Logger } from '../utils/logger.js';
+import type { AuditEntry, AuditEntryInput, AuditQuery, AuditLogEvents } from './types.js';
+
+/**
+ * Configuration for AuditLog
+ */
+export interface AuditLogConfig {
+  /** Directory for audit files (default: app data dir /audit) */
+  dir?: string;
+}
+
+/** File used while no XML file is configured */
+const UNASSIGNED_FILENAME = 'unassigned';
+
+/**
+ * Get platform-specific audit directory path
+ * - Windows: %APPDATA%\c123-server\audit\
+ * - Linux/macOS: ~/.c123-server/audit/
+ */
+export function getAuditDirectory(): string {
+  if (os.platform() === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    return path.join(appData, 'c123-server', 'audit');
+  }
+  return path.join(os.homedir(), '.c123-server', 'audit');
+}
+
+/**
+ * AuditLog keeps a durable, append-only record of every write command sent
+ * to C123, one file per event.
+ *
+ * File naming: {xmlFilename}.audit.jsonl, one AuditEntry per line; a finished
+ * event's file is set aside as {xmlFilename}.audit.ended-{timestamp}.jsonl,
+ * since Canoe123 reuses the XML file for the next event. Entries are
+ * written synchronously as they happen — unlike checks, an audit trail that
+ * loses its last few lines on a crash is worthless for resolving disputes.
+ */
+export class AuditLog extends EventEmitter<AuditLogEvents> {
+  private readonly dir: string;
+  private currentFilePath: string;
+
+  /**
+   * The current file ends without a newline, i.e. the last write was torn by
+   * a crash. The next entry must start on a fresh line or it is lost too.
+   */
+  private endsMidLine = false;
+
+  constructor(config?: AuditLogConfig) {
+    super();
+    this.dir = config?.dir ?? getAuditDirectory();
+    this.currentFilePath = this.getFilePath(UNASSIGNED_FILENAME);
+    this.endsMidLine = this.checkEndsMidLine();
+  }
+
+  /**
+   * Get file path for a given XML filename
+   */
+  private getFilePath(xmlFilename: string): string {
+    return path.join(this.dir, `${xmlFilename}.audit.jsonl`);
+  }
+
+  /**
+   * Path of the audit file currently written to
+   */
+  getPath(): string {
+    return this.currentFilePath;
+  }
+
+  /**
+   * Switch to the audit file for an XML file. Earlier entries stay in the
+   * previous file.
+   */
+  loadForFile(xmlFilename: string): void {
+    this.currentFilePath = this.getFilePath(xmlFilename || UNASSIGNED_FILENAME);
+    this.endsMidLine = this.checkEndsMidLine();
+    Logger.info('AuditLog', `Audit log: ${this.currentFilePath}`);
+  }
+
+  /**
+   * Set the current audit file aside when its event has ended, so the next
+   * event starts on an empty file under the same name.
+   *
+   * @returns Path of the set-aside file, or null if there was nothing to move
+   */
+  endEvent(): string | null {
+    if (!fs.existsSync(this.currentFilePath)) {
+      return null;
+    }
+
+    const target = this.freeEndedPath();
+    try {
+      fs.renameSync(this.currentFilePath, target);
+    } catch (error) {
+      Logger.error('AuditLog', `Error setting aside audit file: ${error}`);
+      return null;
+    }
+
+    this.endsMidLine = false;
+    Logger.info('AuditLog', `Moved ended audit file to ${path.basename(target)}`);
+    return target;
+  }
+
+  /**
+   * Pick a file name for an ended event's audit file that does not exist yet
+   */
+  private freeEndedPath(): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const base = this.currentFilePath.replace(/\.audit\.jsonl$/, `.audit.ended-${timestamp}`);
+
+    let candidate = `${base}.jsonl`;
+    let suffix = 1;
+    while (fs.existsSync(candidate)) {
+      candidate = `${base}-${suffix}.jsonl`;
+      suffix++;
+    }
+    return candidate;
+  }
+
+  /**
+   * Append an entry to the current audit file.
+   *
+   * A write failure is logged but never thrown: the command has already been
+   * sent, and failing the request afterwards would only invite a resend.
+   */
+  append(input: AuditEntryInput): AuditEntry {
+    const entry: AuditEntry = {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...input,
+    };
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      const prefix = this.endsMidLine ? '\n' : '';
+      fs.appendFileSync(this.currentFilePath, prefix + JSON.stringify(entry) + '\n', 'utf-8');
+      this.endsMidLine = false;
+    } catch (error) {
+      Logger.error('AuditLog', `Error writing audit entry: ${error}`);
+    }
+
+    this.emit('entry', entry);
+    return entry;
+  }
+
+  private checkEndsMidLine(): boolean {
+    let fd: number | null = null;
+    try {
+      fd = fs.openSync(this.currentFilePath, 'r');
+      const size = fs.fstatSync(fd).size;
+      if (size === 0) {
+        return false;
+      }
+      const last = Buffer.alloc(1);
+      fs.readSync(fd, last, 0, 1, size - 1);
+      return last[0] !== 0x0a;
+    } catch {
+      return false;
+    } finally {
+      if (fd !== null) {
+        fs.closeSync(fd);
+      }
+    }
+  }
+
+  /**
+   * Read entries from the current audit file, newest first.
+   *
+   * Bibs are compared trimmed: Canoe123 pads them, and entries keep the bib
+   * exactly as the command sent it.
+   */
+  query(filter: AuditQuery = {}): AuditEntry[] {
+    const bib = filter.bib?.trim();
+    const entries = this.readAll().filter(
+      (entry) =>
+        (filter.raceId === undefined || entry.raceId === filter.raceId) &&
+        (bib === undefined || entry.bib.trim() === bib)
+    );
+
+    entries.reverse();
+    return filter.limit !== undefined ? entries.slice(0, filter.limit) : entries;
+  }
+
+  /**
+   * Find an entry in the current audit file by ID
+   */
+  get(id: string): AuditEntry | undefined {
+    return this.readAll().find((entry) => entry.id === id);
+  }
+
+  /**
+   * Find the successful command that reverted the given one, if any
+   */
+  findRevertOf(id: string): AuditEntry | undefined {
+    return this.readAll().find((entry) => entry.revertOf === id && entry.success);
+  }
+
+  private readAll(): AuditEntry[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.currentFilePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of content.split(/\r?\n/)) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        entries.push(JSON.parse(line) as AuditEntry);
+      } catch {
+        // A torn last line after a crash must not hide the rest of the log
+      }
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from '../AuditLog.js';
+import type { AuditEntryInput } from '../types.js';
+
+function scoringEntry(bib: string, raceId: string | null, success = true): AuditEntryInput {
+  return {
+    command: 'scoring',
+    clientIp: '192.168.1.50',
+    raceId,
+    bib,
+    payload: { bib, gate: 3, value: 2 },
+    xml: `<Canoe123 System="Main"><Scoring Bib="${bib}"><Penalty Gate="3" Value="2" /></Scoring></Canoe123>`,
+    success,
+  };
+}
+
+describe('AuditLog', () => {
+  let tempDir: string;
+  let log: AuditLog;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'auditlog-test-'));
+    log = new AuditLog({ dir: tempDir });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('appends entries as JSON lines with id and timestamp', () => {
+    log.loadForFile('event.xml');
+    const entry = log.append(scoringEntry('10', 'K1M_ST_BR1_6'));
+
+    expect(entry.id).toBeTruthy();
+    expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    expect(log.getPath()).toBe(join(tempDir, 'event.xml.audit.jsonl'));
+
+    const lines = readFileSync(log.getPath(), 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual(entry);
+  });
+
+  it('writes to the unassigned file before an XML file is loaded', () => {
+    log.append(scoringEntry('10', null));
+    expect(log.getPath()).toBe(join(tempDir, 'unassigned.audit.jsonl'));
+    expect(log.query()).toHaveLength(1);
+  });
+
+  it('emits every appended entry', () => {
+    const seen: string[] = [];
+    log.on('entry', (entry) => seen.push(entry.bib));
+
+    log.append(scoringEntry('10', 'R1'));
+    log.append(scoringEntry('11', 'R1'));
+
+    expect(seen).toEqual(['10', '11']);
+  });
+
+  it('queries newest first with raceId, bib and limit filters', () => {
+    log.loadForFile('event.xml');
+    log.append(scoringEntry('10', 'R1'));
+    log.append(scoringEntry('11', 'R1', false));
+    log.append(scoringEntry('10', 'R2'));
+    log.append(scoringEntry('10', 'R1'));
+
+    expect(log.query().map((e) => e.raceId)).toEqual(['R1', 'R2', 'R1', 'R1']);
+    expect(log.query({ raceId: 'R1' })).toHaveLength(3);
+    expect(log.query({ raceId: 'R1', bib: '10' })).toHaveLength(2);
+    expect(log.query({ bib: '11' })[0].success).toBe(false);
+    expect(log.query({ limit: 1 })[0].raceId).toBe('R1');
+  });
+
+  it('matches padded bibs when filtering by bib', () => {
+    log.loadForFile('event.xml');
+    log.append(scoringEntry('  12', 'R1'));
+    log.append(scoringEntry('120', 'R1'));
+
+    expect(log.query({ bib: '12' }).map((e) => e.bib)).toEqual(['  12']);
+    expect(log.query({ bib: ' 12 ' })).toHaveLength(1);
+  });
+
+  it('keeps entries per XML file', () => {
+    log.loadForFile('a.xml');
+    log.append(scoringEntry('10', 'R1'));
+    log.loadForFile('b.xml');
+
+    expect(log.query()).toEqual([]);
+
+    log.loadForFile('a.xml');
+    expect(log.query()).toHaveLength(1);
+  });
+
+  it('sets an ended event aside and starts the next one empty', () => {
+    log.loadForFile('event.xml');
+    log.append(scoringEntry('10', 'R1'));
+
+    const ended = log.endEvent();
+
+    expect(ended).toMatch(/event\.xml\.audit\.ended-.+\.jsonl$/);
+    expect(readFileSync(ended!, 'utf-8')).toContain('"bib":"10"');
+    expect(log.query()).toEqual([]);
+
+    log.append(scoringEntry('11', 'R1'));
+    expect(log.query().map((e) => e.bib)).toEqual(['11']);
+    expect(log.endEvent()).not.toBe(ended);
+  });
+
+  it('has nothing to set aside before the first entry', () => {
+    log.loadForFile('event.xml');
+
+    expect(log.endEvent()).toBeNull();
+  });
+
+  it('skips a line torn by a crash and appends after it', () => {
+    log.loadForFile('event.xml');
+    log.append(scoringEntry('10', 'R1'));
+    appendFileSync(log.getPath(), '{"id":"trunc');
+
+    // Restart after the crash
+    log = new AuditLog({ dir: tempDir });
+    log.loadForFile('event.xml');
+    log.append(scoringEntry('11', 'R1'));
+
+    expect(log.query().map((e) => e.bib)).toEqual(['11', '10']);
+  });
+});
@@ -0,0 +1,52 @@
+import type { ScoringCommandType, ScoringCommandRecord } from '../service/ScoringService.js';
+
+/** One write command sent (or attempted) to C123 */
+export interface AuditEntry {
+  /** Unique entry ID */
+  id: string;
+  /** When the command was sent */
+  timestamp: string; // ISO 8601
+  /** Command kind */
+  command: ScoringCommandType;
+  /** IP address of the client that issued the command, null if internal */
+  clientIp: string | null;
+  /**
+   * Race the command applies to: the explicit raceId of a correction, else the
+   * race the bib was on course in at the time. Null when neither was known.
+   */
+  raceId: string | null;
+  /** Bib number from the payload */
+  bib: string;
+  /** Request payload as received by ScoringService */
+  payload: ScoringCommandRecord['payload'];
+  /** XML written to the TCP socket, null if validation failed before formatting */
+  xml: string | null;
+  /** Whether the write succeeded */
+  success: boolean;
+  /** Validation or TCP error message */
+  error?: string;
+  /**
+   * Gate value before a scoring command, null if the gate was not judged.
+   * Absent when it could not be determined, which makes the command
+   * impossible to revert.
+   */
+  previousValue?: number | null;
+  /** ID of the scoring command this one reverts */
+  revertOf?: string;
+}
+
+/** Fields supplied by the caller; id and timestamp are assigned by AuditLog */
+export type AuditEntryInput = Omit<AuditEntry, 'id' | 'timestamp'>;
+
+/** Filter for AuditLog.query() */
+export interface AuditQuery {
+  raceId?: string;
+  bib?: string;
+  /** Maximum number of entries returned (newest first) */
+  limit?: number;
+}
+
+/** Events emitted by AuditLog */
+export interface AuditLogEvents {
+  entry: [AuditEntry];
+}
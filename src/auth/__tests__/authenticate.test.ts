@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { IncomingMessage } from 'node:http';
+import { authenticate, extractCredential, hasRole } from '../authenticate.js';
+import type { AuthConfig } from '../../config/types.js';
+
+function config(overrides: Partial<AuthConfig> = {}): AuthConfig {
+  return {
+    enabled: true,
+    tokens: [
+      { token: 'admin-secret', role: 'admin', label: 'Race office' },
+      { token: 'judge-secret', role: 'judge' },
+    ],
+    anonymousRole: 'scoreboard',
+    allowedOrigins: ['*'],
+    ...overrides,
+  };
+}
+
+function request(url: string, authorization?: string): IncomingMessage {
+  return { url, headers: authorization ? { authorization } : {} } as IncomingMessage;
+}
+
+describe('hasRole', () => {
+  it('orders roles viewer < scoreboard < judge < admin', () => {
+    expect(hasRole('admin', 'judge')).toBe(true);
+    expect(hasRole('judge', 'judge')).toBe(true);
+    expect(hasRole('scoreboard', 'judge')).toBe(false);
+    expect(hasRole('viewer', 'scoreboard')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+});
+
+describe('extractCredential', () => {
+  it('reads a Bearer token', () => {
+    expect(extractCredential(request('/api/status', 'Bearer abc'))).toBe('abc');
+  });
+
+  it('falls back to the token query parameter', () => {
+    expect(extractCredential(request('/ws?admin=1&token=abc'))).toBe('abc');
+  });
+
+  it('returns null without a credential', () => {
+    expect(extractCredential(request('/api/status'))).toBeNull();
+    expect(extractCredential(request('/api/status', 'Basic Zm9vOmJhcg=='))).toBeNull();
+  });
+});
+
+describe('authenticate', () => {
+  it('grants admin to everybody when disabled', () => {
+    expect(authenticate(null, config({ enabled: false }))).toEqual({ role: 'admin', label: null });
+    expect(authenticate('wrong', config({ enabled: false }))?.role).toBe('admin');
+  });
+
+  it('grants the anonymous role without a credential', () => {
+    expect(authenticate(null, config())?.role).toBe('scoreboard');
+    expect(authenticate(null, config({ anonymousRole: null }))?.role).toBeNull();
+  });
+
+  it('matches tokens', () => {
+    expect(authenticate('admin-secret', config())).toEqual({ role: 'admin', label: 'Race office', viaToken: true });
+    expect(authenticate('judge-secret', config())).toEqual({ role: 'judge', label: null, viaToken: true });
+  });
+
+  it('matches the PIN with its role, judge by default', () => {
+    expect(authenticate('1234', config({ pin: '1234' }))).toEqual({ role: 'judge', label: 'PIN' });
+    expect(authenticate('1234', config({ pin: '1234', pinRole: 'admin' }))?.role).toBe('admin');
+  });
+
+  it('rejects an unknown credential instead of falling back to anonymous', () => {
+    expect(authenticate('nope', config())).toBeNull();
+    expect(authenticate('', config({ pin: '' }))?.role).toBe('scoreboard');
+  });
+
+  it('ignores tokens with an unknown role', () => {
+    const cfg = config({ tokens: [{ token: 'x', role: 'root' as never }] });
+    expect(authenticate('x', cfg)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import type { IncomingMessage } from 'node:http';
+import * as crypto from 'node:crypto';
+import type { AuthConfig, AuthRole } from '../config/types.js';
+
+/**
+ * Roles ordered from least to most privileged
+ */
+export const AUTH_ROLES: readonly AuthRole[] = ['viewer', 'scoreboard', 'judge', 'admin'];
+
+/**
+ * Who a request was authenticated as
+ */
+export interface AuthIdentity {
+  /** Granted role, null when anonymous access is disabled */
+  role: AuthRole | null;
+  /** Label of the matched token, 'PIN' for the PIN, null if anonymous */
+  label: string | null;
+  /** Judge section the matched token is bound to */
+  judgeSection?: string | undefined;
+  /** Set when a token matched; token labels are optional, so check this rather than the label */
+  viaToken?: boolean | undefined;
+}
+
+/**
+ * Check whether a role is one of the known roles
+ */
+export function isAuthRole(value: unknown): value is AuthRole {
+  return AUTH_ROLES.includes(value as AuthRole);
+}
+
+/**
+ * Whether `role` grants at least the permissions of `required`
+ */
+export function hasRole(role: AuthRole | null, required: AuthRole): boolean {
+  return role !== null && AUTH_ROLES.indexOf(role) >= AUTH_ROLES.indexOf(required);
+}
+
+/**
+ * Get the credential from a request: `Authorization: Bearer <token>`, or the
+ * `token` query parameter for clients that cannot set headers (browser
+ * WebSocket, EventSource).
+ */
+export function extractCredential(request: IncomingMessage): string | null {
+  const header = request.headers.authorization;
+  if (header) {
+    const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+    if (match) {
+      return match[1].trim();
+    }
+  }
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  return url.searchParams.get('token') || null;
+}
+
+/**
+ * Resolve the identity for a credential.
+ *
+ * With auth disabled everybody is admin, matching the behaviour before auth
+ * existed. A credential that matches nothing returns null rather than falling
+ * back to the anonymous role: a mistyped token should fail loudly, not
+ * silently leave a judge without write access.
+ */
+export function authenticate(credential: string | null, config: AuthConfig): AuthIdentity | null {
+  if (!config.enabled) {
+    return { role: 'admin', label: null };
+  }
+
+  if (!credential) {
+    return { role: config.anonymousRole, label: null };
+  }
+
+  for (const entry of config.tokens) {
+    if (entry.token && isAuthRole(entry.role) && safeEqual(credential, entry.token)) {
+      return { role: entry.role, label: entry.label ?? null, judgeSection: entry.judgeSection, viaToken: true };
+    }
+  }
+
+  if (config.pin && safeEqual(credential, config.pin)) {
+    return { role: config.pinRole ?? 'judge', label: 'PIN' };
+  }
+
+  return null;
+}
+
+/**
+ * Constant-time string comparison, so response timing does not leak how much
+ * of a token was guessed right
+ */
+function safeEqual(a: string, b: string): boolean {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+}
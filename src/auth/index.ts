@@ -0,0 +1 @@
+export * from './authenticate.js';
@@ -16,6 +16,8 @@ import type {
   NewEventReset,
 } from './types.js';
 import { isSameEvent } from './fingerprint.js';
+import type { JudgeSection } from '../config/types.js';
+import { isGateInSection } from '../config/judgeSections.js';
 
 /**
  * ChecksStore manages persistent penalty check and flag data.
@@ -238,7 +240,7 @@ export class ChecksStore extends EventEmitter<ChecksStoreEvents> {
     }
 
     Logger.info('ChecksStore', 'Starting a new event: archiving current checks');
-    if (!this.archiveAndReset()) {
+    if (!this.archiveAndReset('new-event')) {
       // Reported to the operator rather than silently doing nothing, or
       // worse, discarding the checks it could not back up.
       return 'archive-failed';
@@ -365,7 +367,7 @@ export class ChecksStore extends EventEmitter<ChecksStoreEvents> {
       `Schedule confirmed as a different event (stored: ${stored}, current: ${this.liveFingerprint}). Archiving.`
     );
 
-    if (!this.archiveAndReset()) {
+    if (!this.archiveAndReset('schedule-change')) {
       // Could not preserve the outgoing checks, so nothing was discarded.
       // Leave the suspicion armed: the next schedule change retries, and the
       // obstruction (a scanner holding the file, say) may be gone by then.
@@ -398,7 +400,7 @@ export class ChecksStore extends EventEmitter<ChecksStoreEvents> {
    * case nothing is reset — losing the data is worse than declining to
    * archive, so the caller is expected to surface the failure and retry later.
    */
-  private archiveAndReset(): boolean {
+  private archiveAndReset(reason: 'new-event' | 'schedule-change'): boolean {
     if (!this.currentData || !this.currentFilePath) {
       return false;
     }
@@ -425,10 +427,12 @@ export class ChecksStore extends EventEmitter<ChecksStoreEvents> {
       }
     }
 
-    this.currentData = this.emptyData(this.currentData.xmlFilename);
+    const previous = this.currentData;
+    this.currentData = this.emptyData(previous.xmlFilename);
 
     const event: CheckChangedEvent = { event: 'checks-reset', raceId: '' };
     this.emit('checkChanged', event);
+    this.emit('eventEnded', previous, reason);
 
     this.flush();
     return true;
@@ -436,21 +440,34 @@ export class ChecksStore extends EventEmitter<ChecksStoreEvents> {
 
   /**
    * Get checks data for a specific race
+   *
+   * @param section - Only checks and flags for gates of this judge section
    */
-  getChecks(raceId: string): RaceChecksData {
+  getChecks(raceId: string, section?: JudgeSection): RaceChecksData {
     if (!this.currentData) {
       Logger.debug('ChecksStore', 'getChecks: no data loaded');
       return { checks: {}, flags: [] };
     }
 
-    return this.currentData.races[raceId] || { checks: {}, flags: [] };
+    const data = this.currentData.races[raceId] || { checks: {}, flags: [] };
+    return section ? filterBySection(data, section) : data;
   }
 
   /**
    * Get all checks data
+   *
+   * @param section - Only checks and flags for gates of this judge section
    */
-  getAllChecks(): ChecksFileData | null {
-    return this.currentData;
+  getAllChecks(section?: JudgeSection): ChecksFileData | null {
+    if (!this.currentData || !section) {
+      return this.currentData;
+    }
+
+    const races: Record<string, RaceChecksData> = {};
+    for (const [raceId, data] of Object.entries(this.currentData.races)) {
+      races[raceId] = filterBySection(data, section);
+    }
+    return { ...this.currentData, races };
   }
 
   /**
@@ -780,3 +797,21 @@ export class ChecksStore extends EventEmitter<ChecksStoreEvents> {
     Logger.info('ChecksStore', 'Destroyed ChecksStore');
   }
 }
+
+/**
+ * Copy of a race's checks and flags limited to the gates of a judge section
+ */
+function filterBySection(data: RaceChecksData, section: JudgeSection): RaceChecksData {
+  const checks: Record<string, CheckEntry> = {};
+  for (const [key, entry] of Object.entries(data.checks)) {
+    // Keys are "bib:gate"
+    const gate = Number(key.slice(key.lastIndexOf(':') + 1));
+    if (isGateInSection(section, gate)) {
+      checks[key] = entry;
+    }
+  }
+  return {
+    checks,
+    flags: data.flags.filter((flag) => isGateInSection(section, flag.gate)),
+  };
+}
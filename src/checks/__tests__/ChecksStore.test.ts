@@ -331,6 +331,35 @@ describe('ChecksStore', () => {
     });
   });
 
+  describe('Judge section filter', () => {
+    const section = { id: 's2', fromGate: 7, toGate: 12 };
+
+    beforeEach(() => {
+      store.loadForFile(getUniqueTestFile());
+      store.setCheck('K1M-1', '1', 3, 2);
+      store.setCheck('K1M-1', '1', 7, 0);
+      store.setCheck('K1M-1', '12', 12, 50);
+      store.createFlag('K1M-1', '1', 4, 'touch?');
+      store.createFlag('K1M-1', '1', 8, 'missed?');
+      store.setCheck('C1W-1', '5', 2, 0);
+    });
+
+    it('getChecks() keeps only gates of the section', () => {
+      const data = store.getChecks('K1M-1', section);
+
+      expect(Object.keys(data.checks).sort()).toEqual(['12:12', '1:7']);
+      expect(data.flags.map((f) => f.gate)).toEqual([8]);
+    });
+
+    it('getAllChecks() filters every race without touching the stored data', () => {
+      const data = store.getAllChecks(section)!;
+
+      expect(Object.keys(data.races['K1M-1'].checks)).toHaveLength(2);
+      expect(data.races['C1W-1'].checks).toEqual({});
+      expect(Object.keys(store.getChecks('K1M-1').checks)).toHaveLength(3);
+    });
+  });
+
   describe('Events', () => {
     beforeEach(() => {
       store.loadForFile(getUniqueTestFile());
@@ -1093,6 +1122,21 @@ describe('ChecksStore', () => {
       expect(store.resetForNewEvent()).toBe('no-file');
     });
 
+    it('hands the outgoing checks to eventEnded listeners', () => {
+      const filename = getUniqueTestFile();
+      store.loadForFile(filename);
+      store.setScheduleFingerprint('A@2026-04-19');
+      store.setCheck('A', '1', 1, 2);
+
+      const ended: [string | null, string[], string][] = [];
+      store.on('eventEnded', (previous, reason) => {
+        ended.push([previous.fingerprint, Object.keys(previous.races), reason]);
+      });
+      store.resetForNewEvent();
+
+      expect(ended).toEqual([['A@2026-04-19', ['A'], 'new-event']]);
+    });
+
     it('keeps both archives when reset twice in the same millisecond', () => {
       const filename = getUniqueTestFile();
       store.loadForFile(filename);
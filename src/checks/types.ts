@@ -83,6 +83,8 @@ export type NewEventReset = 'reset' | 'no-file' | 'archive-failed';
 export interface ChecksStoreEvents {
   checkChanged: [data: CheckChangedEvent];
   flagChanged: [data: FlagChangedEvent];
+  /** The checks of an event were archived and reset; carries the outgoing data */
+  eventEnded: [previous: ChecksFileData, reason: 'new-event' | 'schedule-change'];
 }
 
 export interface CheckChangedEvent {
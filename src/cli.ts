@@ -4,8 +4,26 @@ import * as os from 'node:os';
 import * as path from 'node:path';
 import { format } from 'node:util';
 import { Server, ServerConfig } from './server.js';
+import { parseReplaySpeed } from './sources/ReplaySource.js';
+import type { C123HostConfig } from './sources/FailoverSource.js';
+import type { C123SimulatorConfig } from './simulator/index.js';
 import { Logger } from './utils/logger.js';
 
+/**
+ * Parse a --host value: "<ip>" or "<ip>:<port>"
+ */
+function parseHostArg(value: string): C123HostConfig | null {
+  const match = /^([^:\s]+)(?::(\d+))?$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  if (match[2] === undefined) {
+    return { host: match[1] };
+  }
+  const port = parseInt(match[2], 10);
+  return port > 0 && port < 65536 ? { host: match[1], port } : null;
+}
+
 /**
  * Parse command line arguments
  */
@@ -18,6 +36,7 @@ function parseArgs(): {
   let debug = false;
   let noTray = false;
   const config: ServerConfig = {};
+  const hosts: C123HostConfig[] = [];
 
   // Environment variables for port (C123_SERVER_PORT takes precedence over PORT)
   const envPort = process.env.C123_SERVER_PORT || process.env.PORT;
@@ -28,6 +47,18 @@ function parseArgs(): {
     }
   }
 
+  // `c123-server replay <file>` - play back a recording instead of live C123
+  if (args[0] === 'replay') {
+    const file = args[1];
+    if (!file || file.startsWith('-')) {
+      console.error('Usage: c123-server replay <file> [--speed <n|max>]');
+      process.exit(1);
+    }
+    config.replayPath = path.resolve(file);
+    config.autoDiscovery = false;
+    args.splice(0, 2);
+  }
+
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
 
@@ -42,7 +73,12 @@ function parseArgs(): {
     }
 
     if (arg === '--host' && args[i + 1]) {
-      config.tcpHost = args[++i];
+      const host = parseHostArg(args[++i]);
+      if (!host) {
+        console.error(`Invalid --host value: ${args[i]} (expected <ip> or <ip>:<port>)`);
+        process.exit(1);
+      }
+      hosts.push(host);
       config.autoDiscovery = false;
     }
 
@@ -50,6 +86,15 @@ function parseArgs(): {
       config.tcpPort = parseInt(args[++i], 10);
     }
 
+    if (arg === '--stale-timeout' && args[i + 1]) {
+      const seconds = Number(args[++i]);
+      if (!Number.isFinite(seconds) || seconds < 0) {
+        console.error(`Invalid --stale-timeout value: ${args[i]} (expected seconds, 0 to disable)`);
+        process.exit(1);
+      }
+      config.staleTimeout = seconds * 1000;
+    }
+
     if (arg === '--server-port' && args[i + 1]) {
       config.port = parseInt(args[++i], 10);
     }
@@ -73,6 +118,30 @@ function parseArgs(): {
     if (arg === '--no-tray') {
       noTray = true;
     }
+
+    if (arg === '--speed' && args[i + 1]) {
+      const speed = parseReplaySpeed(args[++i]);
+      if (speed === null) {
+        console.error(`Invalid --speed value: ${args[i]} (expected a positive number or 'max')`);
+        process.exit(1);
+      }
+      config.replaySpeed = speed;
+    }
+
+    if (arg === '--record') {
+      config.record = true;
+    }
+  }
+
+  // Repeated --host: primary first, failover to the next ones
+  if (hosts.length > 1) {
+    config.tcpHosts = hosts;
+    config.tcpHost = hosts[0].host;
+  } else if (hosts.length === 1) {
+    config.tcpHost = hosts[0].host;
+    if (hosts[0].port !== undefined) {
+      config.tcpPort = hosts[0].port;
+    }
   }
 
   return { config, debug, noTray };
@@ -86,19 +155,35 @@ function printHelp(): void {
 c123-server - C123 to Scoreboard bridge
 
 Usage: c123-server [options]
+       c123-server replay <file> [options]
+       c123-server simulate <event.xml> [simulator options]
 
 Options:
-  --host <ip>         C123 host IP (disables auto-discovery)
+  --host <ip[:port]>  C123 host IP (disables auto-discovery). Repeat for
+                      failover hosts, primary first
   --port <port>       C123 source port (default: 27333)
+  --stale-timeout <s> Reconnect when C123 sends no TimeOfDay for this long
+                      (default: 10, 0 disables)
   --server-port <p>   Server port for HTTP + WebSocket (default: 27123)
   --xml <path>        XML file path for results data
   --no-discovery      Disable UDP auto-discovery
   --no-autodetect     Disable Canoe123 XML autodetection (Windows)
   --no-tray           Disable system tray icon
+  --record            Record C123 traffic to the recordings folder (JSONL)
+  --speed <n|max>     Replay speed multiplier (replay only, default: 1)
   -d, --debug         Enable verbose debug logging
   -h, --help          Show this help message
   -v, --version       Show version
 
+Simulator options (c123-server simulate):
+  --port <port>       TCP port to serve on (default: 27333)
+  --race <raceId>     Race to simulate first (default: first unfinished)
+  --start-interval <s> Seconds between starts (default: 20)
+  --run-time <s>      Nominal run duration in seconds (default: 90)
+  --udp-address <ip>  UDP announcement address (default: 255.255.255.255)
+  --no-udp            Do not announce over UDP
+  --no-penalties      Do not judge gates automatically
+
 Environment variables:
   C123_SERVER_PORT    Server port (overrides default, overridden by --server-port)
   PORT                Fallback for server port (if C123_SERVER_PORT not set)
@@ -106,7 +191,11 @@ Environment variables:
 Examples:
   c123-server                     # Run with auto-discovery
   c123-server --host 192.168.1.5  # Connect to specific C123
+  c123-server --host 192.168.1.5 --host 192.168.1.6  # Primary with hot standby
   c123-server --no-tray           # Headless mode (no tray icon)
+  c123-server --record            # Record C123 traffic for later replay
+  c123-server replay rec.jsonl --speed 4  # Replay a recording at 4x speed
+  c123-server simulate event.xml  # Pretend to be Canoe123 for offline testing
 `);
 }
 
@@ -282,6 +371,26 @@ async function runServer(config: ServerConfig, debug: boolean, noTray: boolean):
     notifications.notify({ title: 'C123 Server', message: `Connected to C123 at ${host}`, type: 'info' });
   });
 
+  server.on('tcpFailover', (host, previous) => {
+    const message = host
+      ? `Switched C123 from ${previous} to ${host}`
+      : `C123 at ${previous} went silent, no backup host available`;
+    Logger.warn('Server', message);
+    tray?.setStatus('warning', message);
+    notifications.notify({ title: 'C123 Server', message, type: 'warning' });
+  });
+
+  server.on('tcpStale', (stale) => {
+    if (stale) {
+      Logger.warn('Server', 'No data from C123, reconnecting...');
+      tray?.setStatus('warning', 'No data from C123');
+      notifications.notify({ title: 'C123 Server', message: 'No data from C123, reconnecting', type: 'warning' });
+    } else {
+      tray?.setStatus('ok', 'C123 data flowing again');
+      notifications.notify({ title: 'C123 Server', message: 'C123 data flowing again', type: 'info' });
+    }
+  });
+
   server.on('tcpDisconnected', () => {
     Logger.warn('Server', 'Disconnected from C123, reconnecting...');
     tray?.setStatus('warning', 'Disconnected from C123');
@@ -313,7 +422,9 @@ async function runServer(config: ServerConfig, debug: boolean, noTray: boolean):
     Logger.info('CLI', `WebSocket: ws://localhost:${port}/ws`);
     Logger.info('CLI', `REST API:  http://localhost:${port}/api/*`);
 
-    if (config.autoDiscovery !== false && !config.tcpHost) {
+    if (config.replayPath) {
+      Logger.info('CLI', `Replaying ${config.replayPath}`);
+    } else if (config.autoDiscovery !== false && !config.tcpHost) {
       Logger.info('CLI', 'Waiting for C123 discovery...');
     }
   } catch (err) {
@@ -333,10 +444,102 @@ async function runServer(config: ServerConfig, debug: boolean, noTray: boolean):
   }
 }
 
+/**
+ * Parse `c123-server simulate` arguments
+ */
+function parseSimulateArgs(args: string[]): { config: C123SimulatorConfig; debug: boolean } {
+  const xmlPath = args[0];
+  if (!xmlPath || xmlPath.startsWith('-')) {
+    console.error('Usage: c123-server simulate <event.xml> [--port <port>] [--race <raceId>]');
+    process.exit(1);
+  }
+
+  const config: C123SimulatorConfig = { xmlPath: path.resolve(xmlPath) };
+  let debug = false;
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--port' && args[i + 1]) {
+      config.port = parseInt(args[++i], 10);
+    }
+
+    if (arg === '--race' && args[i + 1]) {
+      config.raceId = args[++i];
+    }
+
+    if (arg === '--start-interval' && args[i + 1]) {
+      config.startIntervalMs = parseFloat(args[++i]) * 1000;
+    }
+
+    if (arg === '--run-time' && args[i + 1]) {
+      config.runDurationMs = parseFloat(args[++i]) * 1000;
+    }
+
+    if (arg === '--udp-address' && args[i + 1]) {
+      config.udpAddress = args[++i];
+    }
+
+    if (arg === '--no-udp') {
+      config.udpAddress = null;
+    }
+
+    if (arg === '--no-penalties') {
+      config.autoPenalties = false;
+    }
+
+    if (arg === '--debug' || arg === '-d') {
+      debug = true;
+    }
+  }
+
+  return { config, debug };
+}
+
+/**
+ * Run the Canoe123 simulator (no server, no tray)
+ */
+async function runSimulator(config: C123SimulatorConfig, debug: boolean): Promise<void> {
+  if (debug) {
+    Logger.setLevel('debug');
+  }
+
+  const { C123Simulator } = await import('./simulator/index.js');
+  const simulator = new C123Simulator(config);
+
+  simulator.on('error', (err) => {
+    Logger.error('Simulator', err.message, err);
+  });
+
+  const shutdown = async () => {
+    Logger.info('CLI', 'Shutting down simulator...');
+    await simulator.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  try {
+    await simulator.start();
+    Logger.info('CLI', `Canoe123 simulator running on port ${simulator.getPort()}`);
+    Logger.info('CLI', `Connect with: c123-server --host 127.0.0.1 --port ${simulator.getPort()}`);
+  } catch (err) {
+    Logger.error('CLI', 'Failed to start simulator', err);
+    process.exit(1);
+  }
+}
+
 /**
  * Main entry point
  */
 async function main(): Promise<void> {
+  if (process.argv[2] === 'simulate') {
+    const { config, debug } = parseSimulateArgs(process.argv.slice(3));
+    await runSimulator(config, debug);
+    return;
+  }
+
   const { config, debug, noTray } = parseArgs();
   await runServer(config, debug, noTray);
 }
@@ -18,6 +18,9 @@ import {
   ClientConfig,
   CustomParamDefinition,
   AssetUrls,
+  AuthConfig,
+  JudgeSection,
+  RankingSettings,
 } from './types.js';
 import type { LiveConfig } from '../live/types.js';
 
@@ -224,6 +227,39 @@ export class AppSettingsManager {
     this.save();
   }
 
+  // =========================================================================
+  // XML Event Files
+  // =========================================================================
+
+  /**
+   * Get the XML files registered under event keys (key → path)
+   */
+  getXmlEvents(): Record<string, string> {
+    return { ...(this.settings.xmlEvents || {}) };
+  }
+
+  /**
+   * Register or replace the XML file of an event key
+   */
+  setXmlEvent(key: string, xmlPath: string): void {
+    this.settings.xmlEvents = { ...(this.settings.xmlEvents || {}), [key]: xmlPath };
+    this.save();
+  }
+
+  /**
+   * Remove an event key
+   *
+   * @returns true if the key existed
+   */
+  removeXmlEvent(key: string): boolean {
+    if (!this.settings.xmlEvents || !(key in this.settings.xmlEvents)) {
+      return false;
+    }
+    delete this.settings.xmlEvents[key];
+    this.save();
+    return true;
+  }
+
   // =========================================================================
   // Client Configuration Management
   // =========================================================================
@@ -598,6 +634,131 @@ export class AppSettingsManager {
   }): void {
     this.updateLiveConfig(channels);
   }
+
+  // =========================================================================
+  // Judge Sections
+  // =========================================================================
+
+  /**
+   * Get penalty-judge sections
+   */
+  getJudgeSections(): JudgeSection[] {
+    return [...(this.settings.judgeSections || [])];
+  }
+
+  /**
+   * Replace all judge sections. Clients assigned to a section that no longer
+   * exists lose their assignment.
+   */
+  setJudgeSections(sections: JudgeSection[]): void {
+    this.settings.judgeSections = sections;
+
+    const ids = new Set(sections.map((s) => s.id));
+    for (const config of Object.values(this.settings.clientConfigs || {})) {
+      if (config.judgeSection !== undefined && !ids.has(config.judgeSection)) {
+        delete config.judgeSection;
+      }
+    }
+
+    this.save();
+  }
+
+  /**
+   * Assign a client to a judge section, or clear the assignment with null
+   */
+  setClientJudgeSection(key: string, sectionId: string | null): void {
+    if (!this.settings.clientConfigs) {
+      this.settings.clientConfigs = {};
+    }
+
+    const config = { ...(this.settings.clientConfigs[key] || {}) };
+    if (sectionId === null) {
+      delete config.judgeSection;
+    } else {
+      config.judgeSection = sectionId;
+    }
+    this.settings.clientConfigs[key] = config;
+    this.save();
+  }
+
+  /**
+   * Get the judge section a client is assigned to, if any
+   *
+   * @param key - Client config key (explicit clientId or IP address)
+   */
+  getJudgeSectionForClient(key: string): JudgeSection | undefined {
+    const sectionId = this.settings.clientConfigs?.[key]?.judgeSection;
+    if (sectionId === undefined) {
+      return undefined;
+    }
+    return this.settings.judgeSections?.find((s) => s.id === sectionId);
+  }
+
+  // =========================================================================
+  // Ranking
+  // =========================================================================
+
+  /**
+   * Get the ranking rules
+   */
+  getRanking(): RankingSettings {
+    return { ...(this.settings.ranking || {}) };
+  }
+
+  /**
+   * Replace the ranking rules
+   */
+  setRanking(ranking: RankingSettings): void {
+    this.settings.ranking = ranking;
+    this.save();
+  }
+
+  // =========================================================================
+  // Authentication Configuration
+  // =========================================================================
+
+  /**
+   * Get authentication configuration, with defaults for missing fields
+   */
+  getAuthConfig(): AuthConfig {
+    return {
+      ...DEFAULT_APP_SETTINGS.auth!,
+      ...this.settings.auth,
+    };
+  }
+
+  /**
+   * Update authentication configuration (partial update)
+   */
+  updateAuthConfig(updates: Partial<AuthConfig>): AuthConfig {
+    this.settings.auth = {
+      ...this.getAuthConfig(),
+      ...updates,
+    };
+    this.save();
+    return this.getAuthConfig();
+  }
+}
+
+/**
+ * Settings safe to show to any client: auth tokens, the PIN and the live
+ * API key are left out
+ */
+export function publicSettings(settings: AppSettingsType): AppSettingsType {
+  const { auth, live, ...rest } = settings;
+  const copy: AppSettingsType = { ...rest };
+  if (auth) {
+    copy.auth = {
+      enabled: auth.enabled,
+      tokens: [],
+      anonymousRole: auth.anonymousRole,
+      allowedOrigins: auth.allowedOrigins,
+    };
+  }
+  if (live) {
+    copy.live = { ...live, apiKey: null };
+  }
+  return copy;
 }
 
 // Singleton instance
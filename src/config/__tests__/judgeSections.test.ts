@@ -0,0 +1,101 @@
+/**
+ * Tests for judge sections: validation and client assignment
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AppSettingsManager, resetAppSettings } from '../AppSettings.js';
+import { isGateInSection, parseJudgeSections } from '../judgeSections.js';
+
+describe('parseJudgeSections', () => {
+  it('normalizes valid sections', () => {
+    expect(
+      parseJudgeSections([
+        { id: ' s1 ', label: 'Section 1', fromGate: 1, toGate: '6' },
+        { id: 's2', label: '', fromGate: 7, toGate: 12 },
+      ])
+    ).toEqual([
+      { id: 's1', label: 'Section 1', fromGate: 1, toGate: 6 },
+      { id: 's2', fromGate: 7, toGate: 12 },
+    ]);
+  });
+
+  it('accepts an empty list', () => {
+    expect(parseJudgeSections([])).toEqual([]);
+  });
+
+  it('rejects invalid input', () => {
+    expect(parseJudgeSections('s1')).toBe('sections must be an array');
+    expect(parseJudgeSections([{ fromGate: 1, toGate: 6 }])).toBe('sections[0].id must be a non-empty string');
+    expect(parseJudgeSections([{ id: 's1', fromGate: 6, toGate: 1 }])).toBe(
+      'sections[0] must have 1 <= fromGate <= toGate <= 24'
+    );
+    expect(parseJudgeSections([{ id: 's1', fromGate: 1, toGate: 25 }])).toBe(
+      'sections[0] must have 1 <= fromGate <= toGate <= 24'
+    );
+    expect(
+      parseJudgeSections([
+        { id: 's1', fromGate: 1, toGate: 6 },
+        { id: 's1', fromGate: 7, toGate: 12 },
+      ])
+    ).toBe('Duplicate section id: s1');
+  });
+});
+
+describe('isGateInSection', () => {
+  it('includes both ends of the range', () => {
+    const section = { id: 's2', fromGate: 7, toGate: 12 };
+    expect(isGateInSection(section, 6)).toBe(false);
+    expect(isGateInSection(section, 7)).toBe(true);
+    expect(isGateInSection(section, 12)).toBe(true);
+    expect(isGateInSection(section, 13)).toBe(false);
+  });
+});
+
+describe('judge section assignment', () => {
+  let tempDir: string;
+  let settingsManager: AppSettingsManager;
+
+  beforeEach(() => {
+    resetAppSettings();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'c123-test-'));
+    settingsManager = new AppSettingsManager();
+    (settingsManager as unknown as { settingsPath: string }).settingsPath = path.join(tempDir, 'settings.json');
+    settingsManager.setJudgeSections([
+      { id: 's1', fromGate: 1, toGate: 6 },
+      { id: 's2', fromGate: 7, toGate: 12 },
+    ]);
+  });
+
+  afterEach(() => {
+    resetAppSettings();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('resolves the section of an assigned client', () => {
+    settingsManager.setClientJudgeSection('tablet-2', 's2');
+
+    expect(settingsManager.getJudgeSectionForClient('tablet-2')).toEqual({ id: 's2', fromGate: 7, toGate: 12 });
+    expect(settingsManager.getJudgeSectionForClient('tablet-1')).toBeUndefined();
+  });
+
+  it('keeps the rest of the client config when assigning', () => {
+    settingsManager.setClientConfig('tablet-2', { label: 'Gate 7-12' });
+    settingsManager.setClientJudgeSection('tablet-2', 's2');
+    settingsManager.setClientJudgeSection('tablet-2', null);
+
+    expect(settingsManager.getClientConfig('tablet-2')).toEqual({ label: 'Gate 7-12' });
+  });
+
+  it('drops assignments to removed sections', () => {
+    settingsManager.setClientJudgeSection('tablet-1', 's1');
+    settingsManager.setClientJudgeSection('tablet-2', 's2');
+
+    settingsManager.setJudgeSections([{ id: 's1', fromGate: 1, toGate: 8 }]);
+
+    expect(settingsManager.getJudgeSectionForClient('tablet-1')).toEqual({ id: 's1', fromGate: 1, toGate: 8 });
+    expect(settingsManager.getClientConfig('tablet-2')?.judgeSection).toBeUndefined();
+  });
+});
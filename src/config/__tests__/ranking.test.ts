@@ -0,0 +1,61 @@
+/**
+ * Tests for ranking settings: validation and per-class resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseRankingSettings, resolveRankingOptions } from '../ranking.js';
+import type { RankingSettings } from '../types.js';
+
+describe('parseRankingSettings', () => {
+  it('normalizes defaults and per-class rankings', () => {
+    expect(
+      parseRankingSettings({
+        rule: 'best',
+        classes: { K1M: { rule: 'progression', semiQualifiers: '20', tieBreak: null } },
+        finalQualifiers: 10,
+      })
+    ).toEqual({
+      rule: 'best',
+      classes: { K1M: { rule: 'progression', semiQualifiers: 20 } },
+      finalQualifiers: 10,
+    });
+  });
+
+  it('requires a rule in every class ranking', () => {
+    expect(parseRankingSettings({ classes: { K1M: { tieBreak: 'shared' } } })).toBe(
+      'classes.K1M.rule must be one of: best, sum, progression'
+    );
+    expect(parseRankingSettings({ classes: { K1M: { rule: 'sum', tieBreak: 'coin' } } })).toBe(
+      'classes.K1M.tieBreak must be one of: icf, shared'
+    );
+  });
+});
+
+describe('resolveRankingOptions', () => {
+  const settings: RankingSettings = {
+    rule: 'best',
+    classes: { K1M: { rule: 'progression', finalQualifiers: 6 } },
+    tieBreak: 'shared',
+    semiQualifiers: 20,
+    finalQualifiers: 10,
+  };
+
+  it('fills in what the class ranking leaves out from the defaults', () => {
+    expect(resolveRankingOptions(settings, 'K1M')).toEqual({
+      rule: 'progression',
+      tieBreak: 'shared',
+      semiQualifiers: 20,
+      finalQualifiers: 6,
+    });
+    expect(resolveRankingOptions(settings, 'C1W')).toMatchObject({ rule: 'best', finalQualifiers: 10 });
+  });
+
+  it('lets a requested rule override the configured one', () => {
+    expect(resolveRankingOptions(settings, 'K1M', 'sum')).toMatchObject({ rule: 'sum', finalQualifiers: 6 });
+    expect(resolveRankingOptions({}, 'K1M', 'sum')).toEqual({ rule: 'sum' });
+  });
+
+  it('has no options for a class without any rule', () => {
+    expect(resolveRankingOptions({ tieBreak: 'shared' }, 'K1M')).toBeUndefined();
+  });
+});
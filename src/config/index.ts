@@ -5,3 +5,5 @@
 export * from './types.js';
 export * from './WindowsConfigDetector.js';
 export * from './AppSettings.js';
+export * from './judgeSections.js';
+export * from './ranking.js';
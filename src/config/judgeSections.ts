@@ -0,0 +1,62 @@
+import type { JudgeSection } from './types.js';
+
+/**
+ * Whether a gate belongs to a judge section
+ */
+export function isGateInSection(section: JudgeSection, gate: number): boolean {
+  return gate >= section.fromGate && gate <= section.toGate;
+}
+
+/**
+ * Human-readable section description, e.g. "Section 2 (gates 7-12)"
+ */
+export function describeJudgeSection(section: JudgeSection): string {
+  return `${section.label ?? section.id} (gates ${section.fromGate}-${section.toGate})`;
+}
+
+/**
+ * Validate a list of judge sections from API input.
+ *
+ * @returns the normalized sections, or an error message
+ */
+export function parseJudgeSections(value: unknown): JudgeSection[] | string {
+  if (!Array.isArray(value)) {
+    return 'sections must be an array';
+  }
+
+  const sections: JudgeSection[] = [];
+  const ids = new Set<string>();
+
+  for (const [index, item] of value.entries()) {
+    if (!item || typeof item !== 'object') {
+      return `sections[${index}] must be an object`;
+    }
+    const { id, label, fromGate, toGate } = item as Record<string, unknown>;
+
+    if (typeof id !== 'string' || id.trim() === '') {
+      return `sections[${index}].id must be a non-empty string`;
+    }
+    const trimmedId = id.trim();
+    if (ids.has(trimmedId)) {
+      return `Duplicate section id: ${trimmedId}`;
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      return `sections[${index}].label must be a string`;
+    }
+
+    const from = Number(fromGate);
+    const to = Number(toGate);
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 1 || to > 24 || from > to) {
+      return `sections[${index}] must have 1 <= fromGate <= toGate <= 24`;
+    }
+
+    const section: JudgeSection = { id: trimmedId, fromGate: from, toGate: to };
+    if (label !== undefined && label.trim() !== '') {
+      section.label = label.trim();
+    }
+    ids.add(trimmedId);
+    sections.push(section);
+  }
+
+  return sections;
+}
@@ -0,0 +1,144 @@
+import type { RankingOptions } from '../service/ranking.js';
+import {
+  RANKING_RULES,
+  TIE_BREAKS,
+  type ClassRankingSettings,
+  type RankingRule,
+  type RankingSettings,
+  type TieBreak,
+} from './types.js';
+
+function isRankingRule(value: unknown): value is RankingRule {
+  return typeof value === 'string' && (RANKING_RULES as readonly string[]).includes(value);
+}
+
+function isTieBreak(value: unknown): value is TieBreak {
+  return typeof value === 'string' && (TIE_BREAKS as readonly string[]).includes(value);
+}
+
+/**
+ * Validate a qualifier count from API input.
+ *
+ * @returns the count, or an error message
+ */
+export function parseQualifiers(name: string, value: unknown): number | string {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    return `${name} must be a positive integer`;
+  }
+  return count;
+}
+
+/**
+ * Validate the tie-break and qualifier fields shared by the defaults and the
+ * per-class rankings. `prefix` names the object in error messages.
+ *
+ * @returns the fields present, or an error message
+ */
+function parseRankingFields(
+  fields: Record<string, unknown>,
+  prefix: string
+): Pick<RankingSettings, 'tieBreak' | 'semiQualifiers' | 'finalQualifiers'> | string {
+  const { tieBreak, semiQualifiers, finalQualifiers } = fields;
+  const parsed: Pick<RankingSettings, 'tieBreak' | 'semiQualifiers' | 'finalQualifiers'> = {};
+
+  if (tieBreak !== undefined && tieBreak !== null) {
+    if (!isTieBreak(tieBreak)) {
+      return `${prefix}tieBreak must be one of: ${TIE_BREAKS.join(', ')}`;
+    }
+    parsed.tieBreak = tieBreak;
+  }
+
+  for (const [name, count] of [
+    ['semiQualifiers', semiQualifiers],
+    ['finalQualifiers', finalQualifiers],
+  ] as const) {
+    if (count === undefined || count === null) {
+      continue;
+    }
+    const qualifiers = parseQualifiers(`${prefix}${name}`, count);
+    if (typeof qualifiers === 'string') {
+      return qualifiers;
+    }
+    parsed[name] = qualifiers;
+  }
+
+  return parsed;
+}
+
+/**
+ * Validate ranking settings from API input.
+ *
+ * @returns the normalized settings, or an error message
+ */
+export function parseRankingSettings(value: unknown): RankingSettings | string {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return 'ranking must be an object';
+  }
+  const fields = value as Record<string, unknown>;
+  const { rule, classes } = fields;
+  const ranking: RankingSettings = {};
+
+  if (rule !== undefined && rule !== null) {
+    if (!isRankingRule(rule)) {
+      return `rule must be one of: ${RANKING_RULES.join(', ')}`;
+    }
+    ranking.rule = rule;
+  }
+
+  if (classes !== undefined && classes !== null) {
+    if (typeof classes !== 'object' || Array.isArray(classes)) {
+      return 'classes must be an object';
+    }
+    const perClass: Record<string, ClassRankingSettings> = {};
+    for (const [classId, classRanking] of Object.entries(classes)) {
+      if (!classRanking || typeof classRanking !== 'object' || Array.isArray(classRanking)) {
+        return `classes.${classId} must be an object`;
+      }
+      const classFields = classRanking as Record<string, unknown>;
+      if (!isRankingRule(classFields.rule)) {
+        return `classes.${classId}.rule must be one of: ${RANKING_RULES.join(', ')}`;
+      }
+      const options = parseRankingFields(classFields, `classes.${classId}.`);
+      if (typeof options === 'string') {
+        return options;
+      }
+      perClass[classId] = { rule: classFields.rule, ...options };
+    }
+    if (Object.keys(perClass).length > 0) {
+      ranking.classes = perClass;
+    }
+  }
+
+  const defaults = parseRankingFields(fields, '');
+  if (typeof defaults === 'string') {
+    return defaults;
+  }
+
+  return { ...ranking, ...defaults };
+}
+
+/**
+ * Ranking options of a class from the settings: its own ranking, with the
+ * defaults filling in what it leaves out.
+ *
+ * @param rule Rule that overrides the configured one, e.g. of a `?ranking=` request
+ * @returns undefined if no rule applies to the class
+ */
+export function resolveRankingOptions(
+  settings: RankingSettings,
+  classId: string,
+  rule?: RankingRule
+): RankingOptions | undefined {
+  const own = settings.classes?.[classId];
+  const resolvedRule = rule ?? own?.rule ?? settings.rule;
+  if (!resolvedRule) {
+    return undefined;
+  }
+  return {
+    rule: resolvedRule,
+    tieBreak: own?.tieBreak ?? settings.tieBreak,
+    semiQualifiers: own?.semiQualifiers ?? settings.semiQualifiers,
+    finalQualifiers: own?.finalQualifiers ?? settings.finalQualifiers,
+  };
+}
@@ -101,6 +101,11 @@ export interface ClientConfig {
    */
   clientId?: string;
 
+  // === Penalty judging ===
+
+  /** ID of the judge section this client scores (see AppSettings.judgeSections) */
+  judgeSection?: string;
+
   // === Assets (per-client overrides) ===
 
   /**
@@ -129,6 +134,128 @@ export interface CustomParamDefinition {
   defaultValue?: string | number | boolean;
 }
 
+// ============================================================================
+// Judge Section Types
+// ============================================================================
+
+/**
+ * Gate range covered by one penalty-judge section, e.g. gates 7-12.
+ * Sections may overlap, e.g. for a chief judge covering the whole course.
+ */
+export interface JudgeSection {
+  /** Unique identifier, referenced by ClientConfig.judgeSection */
+  id: string;
+  /** Display name (e.g. "Section 2") */
+  label?: string;
+  /** First gate of the section (1-based, inclusive) */
+  fromGate: number;
+  /** Last gate of the section (inclusive) */
+  toGate: number;
+}
+
+// ============================================================================
+// Ranking Types
+// ============================================================================
+
+/**
+ * How the runs of a class combine into one result:
+ * - 'best': the better of the runs (Czech BR1/BR2 format)
+ * - 'sum': the sum of all runs
+ * - 'progression': heats → semi-final → final, ranked by the last phase reached
+ */
+export type RankingRule = 'best' | 'sum' | 'progression';
+
+export const RANKING_RULES: readonly RankingRule[] = ['best', 'sum', 'progression'];
+
+/**
+ * How equal results are ranked:
+ * - 'icf': broken per ICF rules, shared only if still equal
+ * - 'shared': equal results share the rank
+ */
+export type TieBreak = 'icf' | 'shared';
+
+export const TIE_BREAKS: readonly TieBreak[] = ['icf', 'shared'];
+
+/**
+ * Ranking of one class. Fields left out fall back to the defaults of
+ * RankingSettings.
+ */
+export interface ClassRankingSettings {
+  rule: RankingRule;
+  /** How equal results are ranked */
+  tieBreak?: TieBreak;
+  /** Progression: boats advancing from the heats to the semi-final */
+  semiQualifiers?: number;
+  /** Progression: boats advancing to the final */
+  finalQualifiers?: number;
+}
+
+/**
+ * Ranking rules for combined results (RankedResults message, default
+ * parameters of `?ranking=` requests)
+ */
+export interface RankingSettings {
+  /** Rule for classes without their own; no RankedResults messages if unset */
+  rule?: RankingRule;
+  /** Rankings per class, keyed by ClassId */
+  classes?: Record<string, ClassRankingSettings>;
+  /** How equal results are ranked (default: 'icf') */
+  tieBreak?: TieBreak;
+  /** Progression: boats advancing from the heats to the semi-final */
+  semiQualifiers?: number;
+  /** Progression: boats advancing to the final */
+  finalQualifiers?: number;
+}
+
+// ============================================================================
+// Authentication Types
+// ============================================================================
+
+/**
+ * Access roles, from least to most privileged. Each role includes the
+ * permissions of all roles before it.
+ * - 'viewer': read-only REST access
+ * - 'scoreboard': scoreboard WebSocket connection
+ * - 'judge': C123 Write API, penalty checks and flags
+ * - 'admin': configuration, Live-Mini, admin dashboard
+ */
+export type AuthRole = 'viewer' | 'scoreboard' | 'judge' | 'admin';
+
+/**
+ * API token granting a role
+ */
+export interface AuthToken {
+  /** Secret sent as `Authorization: Bearer <token>` or `?token=` */
+  token: string;
+  /** Role granted by this token */
+  role: AuthRole;
+  /** Human-readable label (e.g. "Judge tablet 1") */
+  label?: string;
+  /** ID of the judge section this token scores, overriding client assignments */
+  judgeSection?: string;
+}
+
+/**
+ * Optional authentication for the REST and WebSocket APIs
+ */
+export interface AuthConfig {
+  /** Enforce authentication (default: false, everything is open) */
+  enabled: boolean;
+  /** API tokens */
+  tokens: AuthToken[];
+  /** Short PIN accepted in place of a token, e.g. for judges on tablets */
+  pin?: string;
+  /** Role granted by the PIN (default: 'judge') */
+  pinRole?: AuthRole;
+  /**
+   * Role of requests without credentials (default: 'scoreboard', so existing
+   * scoreboards keep working). Null requires a credential for everything.
+   */
+  anonymousRole: AuthRole | null;
+  /** Origins allowed by CORS (default: ['*']) */
+  allowedOrigins: string[];
+}
+
 // ============================================================================
 // XML Configuration Types
 // ============================================================================
@@ -207,6 +334,11 @@ export interface AppSettings {
   eventNameOverride?: string;
   /** TTL in ms for XML data cache — skips file re-read within this window (default: 5000) */
   xmlCacheTtlMs?: number;
+  /**
+   * Additional XML files under event keys (key → path), e.g. one Canoe123
+   * file per day of a multi-day event, in registration order
+   */
+  xmlEvents?: Record<string, string>;
   /**
    * Enable GitHub release update checks.
    * When true (default), the admin UI periodically calls /api/update-check
@@ -215,6 +347,11 @@ export interface AppSettings {
    * HTTPS to api.github.com is not desired.
    */
   updateCheck?: boolean;
+  /**
+   * Queue C123 write commands while the TCP connection is down and replay
+   * them on reconnect (default: false, commands fail with 503 instead)
+   */
+  offlineQueue?: boolean;
   /** Timestamp of settings last update */
   lastUpdated?: string;
 
@@ -225,6 +362,19 @@ export interface AppSettings {
   /** Definitions of custom parameters available for clients */
   customParamDefinitions?: CustomParamDefinition[];
 
+  // === Judge Sections ===
+
+  /**
+   * Penalty-judge sections. A client assigned to a section may only score
+   * gates within it; clients without a section are not restricted.
+   */
+  judgeSections?: JudgeSection[];
+
+  // === Ranking ===
+
+  /** Ranking rules for combined results across runs and phases */
+  ranking?: RankingSettings;
+
   // === Default Assets ===
 
   /**
@@ -240,6 +390,11 @@ export interface AppSettings {
    * Enables public live results viewing via c123-live.
    */
   live?: LiveConfig;
+
+  // === Authentication ===
+
+  /** Optional token/PIN authentication with roles */
+  auth?: AuthConfig;
 }
 
 /**
@@ -262,4 +417,10 @@ export const DEFAULT_APP_SETTINGS: AppSettings = {
     pushResults: true,
     autoStatus: true,
   },
+  auth: {
+    enabled: false,
+    tokens: [],
+    anonymousRole: 'scoreboard',
+    allowedOrigins: ['*'],
+  },
 };
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { formatCsv, renderCsv, renderDocumentCsv } from '../csv.js';
+
+describe('formatCsv', () => {
+  it('quotes fields with separators, quotes and line breaks', () => {
+    expect(formatCsv([['a', 'b,c', 'say "hi"', 'x\ny']])).toBe('a,"b,c","say ""hi""","x\ny"\r\n');
+  });
+
+  it('supports another separator', () => {
+    expect(formatCsv([['1,5', 'a;b']], ';')).toBe('1,5;"a;b"\r\n');
+  });
+
+  it('keeps spreadsheets from running fields as formulas', () => {
+    expect(formatCsv([['=SUM(A1)', '@cmd', '-2+3', '+1.25', '-3', 'a=b']])).toBe("'=SUM(A1),'@cmd,'-2+3,+1.25,-3,a=b\r\n");
+  });
+});
+
+describe('renderCsv', () => {
+  const table = {
+    title: 'Results',
+    columns: [{ header: 'Rank', width: 1 }, { header: 'Name', width: 4 }],
+    rows: [{ cells: ['1.', 'PRSKAVEC Jiří'], detail: 'Gates: 0 2', csvCells: ['0 2'] }, { cells: ['', 'FUKSA Martin'] }],
+  };
+
+  it('writes the header and one line per row', () => {
+    expect(renderCsv(table)).toBe('Rank,Name\r\n1.,PRSKAVEC Jiří\r\n,FUKSA Martin\r\n');
+  });
+
+  it('adds the CSV-only columns last and leaves out the printed detail line', () => {
+    expect(renderCsv({ ...table, csvColumns: ['Gates'] })).toBe(
+      'Rank,Name,Gates\r\n1.,PRSKAVEC Jiří,0 2\r\n,FUKSA Martin,\r\n'
+    );
+  });
+});
+
+describe('renderDocumentCsv', () => {
+  const columns = [{ header: 'Bib', width: 1 }];
+
+  it('renders a single table without key header as it is', () => {
+    const csv = renderDocumentCsv({ title: 'Event', tables: [{ title: 'K1m', columns, rows: [{ cells: ['1'] }] }] });
+
+    expect(csv).toBe('Bib\r\n1\r\n');
+  });
+
+  it('combines several tables with a leading key column', () => {
+    const csv = renderDocumentCsv({
+      title: 'Event',
+      keyHeader: 'RaceId',
+      tables: [
+        { title: 'K1m', key: 'K1M_BR1_1', columns, rows: [{ cells: ['1'] }, { cells: ['2'] }] },
+        { title: 'C1w', columns, rows: [{ cells: ['7'] }] },
+      ],
+    });
+
+    expect(csv).toBe('RaceId,Bib\r\nK1M_BR1_1,1\r\nK1M_BR1_1,2\r\nC1w,7\r\n');
+  });
+
+  it('keeps the key column for a single table when the document names it', () => {
+    const csv = renderDocumentCsv({
+      title: 'Event',
+      keyHeader: 'RaceId',
+      tables: [{ title: 'K1m', key: 'K1M_BR1_1', columns, rows: [{ cells: ['1'] }] }],
+    });
+
+    expect(csv).toBe('RaceId,Bib\r\nK1M_BR1_1,1\r\n');
+  });
+});
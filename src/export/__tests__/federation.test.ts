@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { XMLParser } from 'fast-xml-parser';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { collectFederationResults, renderCzechRankingCsv, renderIcfResultsXml } from '../federation.js';
+
+const xml = `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>Czech Cup &amp; Ranking</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <ICFId>12054</ICFId>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+    <Year>1993</Year>
+    <CatId>A</CatId>
+  </Participants>
+  <Participants>
+    <Id>2.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <ICFId>12055</ICFId>
+    <FamilyName>FUKSA</FamilyName>
+    <GivenName>Martin</GivenName>
+    <Club>DUKLA Praha</Club>
+    <Year>1987</Year>
+    <CatId>A</CatId>
+  </Participants>
+  <Participants>
+    <Id>10.C2M</Id>
+    <ClassId>C2M</ClassId>
+    <FamilyName>NOVAK</FamilyName>
+    <GivenName>Petr</GivenName>
+    <FamilyName2>DVORAK</FamilyName2>
+    <GivenName2>Jan</GivenName2>
+    <Club>Kanoe Troja</Club>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_BR1_1</RaceId>
+    <RaceOrder>101</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+    <CustomTitle>K1m</CustomTitle>
+  </Schedule>
+  <Schedule>
+    <RaceId>C2M_SR_1</RaceId>
+    <RaceOrder>102</RaceOrder>
+    <ClassId>C2M</ClassId>
+    <DisId>SR</DisId>
+    <CustomTitle>C2m</CustomTitle>
+  </Schedule>
+  <Schedule>
+    <RaceId>K1M_BR2_1</RaceId>
+    <RaceOrder>201</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>BR2</DisId>
+    <CustomTitle>K1m</CustomTitle>
+  </Schedule>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>80000</Time>
+    <Pen>2</Pen>
+    <Total>82000</Total>
+    <Rnk>1</Rnk>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>2.K1M</Id>
+    <Bib>2</Bib>
+    <Status>DNS</Status>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR2_1</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>79500</Time>
+    <Pen>0</Pen>
+    <Total>79500</Total>
+    <Rnk>1</Rnk>
+  </Results>
+  <Results>
+    <RaceId>C2M_SR_1</RaceId>
+    <Id>10.C2M</Id>
+    <Bib>10</Bib>
+    <Time>95120</Time>
+    <Pen>4</Pen>
+    <Total>99120</Total>
+    <Rnk>1</Rnk>
+  </Results>
+</Canoe123Data>`;
+
+describe('federation export', () => {
+  let service: XmlDataService;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'federation-export-test-'));
+    const xmlPath = path.join(tempDir, 'event.xml');
+    await fsPromises.writeFile(xmlPath, xml);
+    service = new XmlDataService();
+    service.setCacheTtl(0);
+    service.setPath(xmlPath);
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('merges BR1/BR2 into one class result filed under BR1', async () => {
+    const races = await collectFederationResults(service);
+
+    expect(races.map((r) => r.raceId)).toEqual(['K1M_BR1_1', 'C2M_SR_1']);
+    const [k1m] = races;
+    expect(k1m.entries.map((e) => [e.bib, e.rank, e.total, e.status])).toEqual([
+      ['1', 1, 79500, undefined],
+      ['2', undefined, undefined, 'DNS'],
+    ]);
+    expect(k1m.entries[0].runs.map((r) => [r.run, r.total])).toEqual([
+      [1, 82000],
+      [2, 79500],
+    ]);
+    expect(k1m.entries[0].participant?.icfId).toBe('12054');
+  });
+
+  it('renders results XML with ICF IDs and IRM codes', async () => {
+    const out = renderIcfResultsXml('Czech Cup & Ranking', await collectFederationResults(service));
+    const parsed = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '' }).parse(out);
+
+    expect(parsed.Results.Event).toBe('Czech Cup & Ranking');
+    const [k1m, c2m] = parsed.Results.Race;
+    expect(k1m.RaceId).toBe('K1M_BR1_1');
+    expect(k1m.Result[0]).toMatchObject({ Rank: '1', Bib: '1', Total: '79.50', Category: 'A' });
+    expect(k1m.Result[0].Athlete).toMatchObject({ ICFId: '12054', FamilyName: 'PRSKAVEC', Year: '1993' });
+    expect(k1m.Result[0].Run).toEqual([
+      { Nr: '1', Time: '80.00', Pen: '2', Total: '82.00', Rank: '1' },
+      { Nr: '2', Time: '79.50', Pen: '0', Total: '79.50', Rank: '1' },
+    ]);
+    expect(k1m.Result[1]).toMatchObject({ Bib: '2', IRM: 'DNS' });
+    expect(k1m.Result[1].Run).toEqual({ Nr: '1', IRM: 'DNS' });
+    expect(c2m.Result.Athlete.map((a: { FamilyName: string }) => a.FamilyName)).toEqual(['NOVAK', 'DVORAK']);
+  });
+
+  it('renders the Czech ranking CSV with semicolons and decimal commas', async () => {
+    const lines = renderCzechRankingCsv(await collectFederationResults(service)).split('\r\n');
+
+    expect(lines[0]).toBe(
+      'RaceId;ClassId;Category;Rank;Bib;ICFId;FamilyName;GivenName;Year;FamilyName2;GivenName2;Club;' +
+        'Run1;Pen1;Total1;Run2;Pen2;Total2;Result;IRM'
+    );
+    expect(lines[1]).toBe('K1M_BR1_1;K1M;A;1;1;12054;PRSKAVEC;Jiří;1993;;;USK Praha;80,00;2;82,00;79,50;0;79,50;79,50;');
+    expect(lines[2]).toBe('K1M_BR1_1;K1M;A;;2;12055;FUKSA;Martin;1987;;;DUKLA Praha;;;DNS;;;;;DNS');
+    expect(lines[3]).toBe('C2M_SR_1;C2M;;1;10;;NOVAK;Petr;;DVORAK;Jan;Kanoe Troja;95,12;4;99,12;;;;99,12;');
+  });
+});
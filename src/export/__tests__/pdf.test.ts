@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import zlib from 'node:zlib';
+import { renderPdf } from '../pdf.js';
+import type { ExportDocument, ExportTable } from '../types.js';
+
+/** Uncompressed content streams of all pages */
+function pageContents(pdf: Buffer): string[] {
+  const text = pdf.toString('latin1');
+  const contents: string[] = [];
+  const re = /\/Length (\d+) \/Filter \/FlateDecode >>\nstream\n/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    const start = match.index + match[0].length;
+    contents.push(zlib.inflateSync(pdf.subarray(start, start + Number(match[1]))).toString('latin1'));
+  }
+  return contents;
+}
+
+function table(rows: number): ExportTable {
+  return {
+    title: 'Results – K1m',
+    columns: [
+      { header: 'Rank', width: 1, align: 'right' },
+      { header: 'Name', width: 4 },
+    ],
+    rows: Array.from({ length: rows }, (_, i) => ({ cells: [`${i + 1}.`, `Competitor ${i + 1}`] })),
+  };
+}
+
+describe('renderPdf', () => {
+  it('writes a PDF whose cross-reference table points at its objects', () => {
+    const pdf = renderPdf({ title: 'Event', tables: [table(3)] });
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = text
+      .slice(startxref)
+      .split('\n')
+      .filter((line) => line.endsWith(' 00000 n '))
+      .map((line) => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) => {
+      expect(text.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+  });
+
+  it('prints the event title, table and page numbers', () => {
+    const [content] = pageContents(renderPdf({ title: 'Event', tables: [table(2)], footer: 'Printed 10:00' }));
+
+    expect(content).toContain('(Event) Tj');
+    expect(content).toContain('(Results \\226 K1m) Tj');
+    expect(content).toContain('(Competitor 2) Tj');
+    expect(content).toContain('(Printed 10:00) Tj');
+    expect(content).toContain('(Page 1 / 1) Tj');
+  });
+
+  it('continues long tables on further pages with the column header repeated', () => {
+    const pages = pageContents(renderPdf({ title: 'Event', tables: [table(150)] }));
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(pages[1]).toContain('(Results \\226 K1m \\(continued\\)) Tj');
+    expect(pages[1]).toContain('(Rank) Tj');
+    expect(pages[pages.length - 1]).toContain('(Competitor 150) Tj');
+    expect(pages[pages.length - 1]).toContain(`(Page ${pages.length} / ${pages.length}) Tj`);
+  });
+
+  it('prints Czech names with their diacritics', () => {
+    const doc: ExportDocument = {
+      title: 'Šárka Jiří (CZE)',
+      tables: [
+        {
+          title: 'Results',
+          columns: [{ header: 'Name', width: 1 }],
+          rows: [{ cells: ['ŘEHOŘ Čeněk Růžička'] }, { cells: ['Nguyễn'] }],
+        },
+      ],
+    };
+    const pdf = renderPdf(doc);
+    const [content] = pageContents(pdf);
+
+    // WinAnsi letters keep their codes: Š = 0x8A, á = 0xE1, í = 0xED, ž = 0x9E
+    expect(content).toContain('(\\212\\341rka Ji\\201\\355 \\(CZE\\)) Tj');
+    expect(content).toContain('(\\215EHO\\215 \\217en\\220k R\\235\\236i\\200ka) Tj');
+    // The others are mapped onto codes the document does not use
+    expect(pdf.toString('latin1')).toContain(
+      '/Encoding << /Type /Encoding /BaseEncoding /WinAnsiEncoding ' +
+        '/Differences [128 /ccaron 129 /rcaron 141 /Rcaron 143 /Ccaron 144 /ecaron 157 /uring] >>'
+    );
+    // Letters the standard fonts lack fall back to the base letter
+    expect(content).toContain('(Nguyen) Tj');
+    expect(pdf.toString('latin1')).toContain(`/Title <FEFF${Buffer.from(doc.title, 'utf16le').swap16().toString('hex').toUpperCase()}>`);
+  });
+
+  it('keeps plain WinAnsi when every letter is in it', () => {
+    const text = renderPdf({ title: 'Šárka', tables: [] }).toString('latin1');
+
+    expect(text).toContain('/BaseFont /Helvetica /Encoding /WinAnsiEncoding');
+  });
+
+  it('shortens cells that do not fit the column', () => {
+    const doc: ExportDocument = {
+      title: 'Event',
+      tables: [
+        {
+          title: 'Narrow',
+          columns: [{ header: 'Name', width: 1 }, { header: 'Rest', width: 6 }],
+          rows: [{ cells: ['A very long competitor name'] }],
+        },
+      ],
+    };
+    const [content] = pageContents(renderPdf(doc));
+
+    expect(content).not.toContain('A very long competitor name');
+    expect(content).toMatch(/\(A[^)]*\\205\) Tj/);
+  });
+
+  it('uses landscape A4 when asked', () => {
+    const text = renderPdf({ title: 'Event', tables: [], orientation: 'landscape' }).toString('latin1');
+
+    expect(text).toContain('/MediaBox [0 0 842 595]');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { buildResultsExport } from '../results.js';
+import { formatGatePenalties, formatParticipantName } from '../format.js';
+
+const xml = `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>Czech Cup Troja</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+    <CatId>A</CatId>
+  </Participants>
+  <Participants>
+    <Id>2.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>2</EventBib>
+    <FamilyName>FUKSA</FamilyName>
+    <GivenName>Martin</GivenName>
+    <Club>DUKLA Praha</Club>
+    <CatId>U23</CatId>
+  </Participants>
+  <Participants>
+    <Id>3.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>3</EventBib>
+    <FamilyName>NOVAK</FamilyName>
+    <GivenName>Petr</GivenName>
+    <Club>Kanoe Troja</Club>
+    <CatId>A</CatId>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_BR1_1</RaceId>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+    <CustomTitle>K1m - 1st run</CustomTitle>
+  </Schedule>
+  <Schedule>
+    <RaceId>K1M_BR2_1</RaceId>
+    <ClassId>K1M</ClassId>
+    <DisId>BR2</DisId>
+    <CustomTitle>K1m - 2nd run</CustomTitle>
+  </Schedule>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>80000</Time>
+    <Pen>2</Pen>
+    <Total>82000</Total>
+    <Rnk>1</Rnk>
+    <CatRnk>1</CatRnk>
+    <Gates>  0  2  0</Gates>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>2.K1M</Id>
+    <Bib>2</Bib>
+    <Time>84500</Time>
+    <Pen>0</Pen>
+    <Total>84500</Total>
+    <Rnk>2</Rnk>
+    <CatRnk>1</CatRnk>
+    <Gates>  0  0  0</Gates>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>3.K1M</Id>
+    <Bib>3</Bib>
+    <Status>DNS</Status>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR2_1</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Status>DNF</Status>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR2_1</RaceId>
+    <Id>2.K1M</Id>
+    <Bib>2</Bib>
+    <Time>79000</Time>
+    <Pen>0</Pen>
+    <Total>79000</Total>
+    <Rnk>1</Rnk>
+    <Gates>  0  0   </Gates>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR2_1</RaceId>
+    <Id>3.K1M</Id>
+    <Bib>3</Bib>
+  </Results>
+</Canoe123Data>`;
+
+describe('results export', () => {
+  let service: XmlDataService;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'results-export-test-'));
+    const xmlPath = path.join(tempDir, 'event.xml');
+    await fsPromises.writeFile(xmlPath, xml);
+    service = new XmlDataService();
+    service.setCacheTtl(0);
+    service.setPath(xmlPath);
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('formats gate penalties with unjudged gates as a dash', () => {
+    expect(formatGatePenalties('  0  2   50')).toBe('0 2 - 50');
+    expect(formatGatePenalties('   ')).toBe('');
+  });
+
+  it('formats both crew members of a C2', () => {
+    expect(formatParticipantName({ familyName: 'A', givenName: 'B', familyName2: 'C', givenName2: 'D' })).toBe('A B / C D');
+  });
+
+  it('lists a single run with times, gates, category ranks and status codes', async () => {
+    const doc = await buildResultsExport(service, 'K1M_BR1_1');
+
+    expect(doc?.title).toBe('Czech Cup Troja');
+    expect(doc?.orientation).toBe('portrait');
+    const [table] = doc!.tables;
+    expect(table.title).toBe('Results – K1m - 1st run');
+    expect(table.rows.map((r) => r.cells)).toEqual([
+      ['1.', '1', 'PRSKAVEC Jiří', 'USK Praha', 'A', '1.', '80.00', '2', '82.00', ''],
+      ['2.', '2', 'FUKSA Martin', 'DUKLA Praha', 'U23', '1.', '84.50', '0', '84.50', '+2.50'],
+      ['', '3', 'NOVAK Petr', 'Kanoe Troja', 'A', '', '', '', 'DNS', ''],
+    ]);
+    expect(table.rows[0].detail).toBe('Gates: 0 2 0');
+    expect(table.rows[2].detail).toBeUndefined();
+    expect(table.csvColumns).toEqual(['Gates']);
+    expect(table.rows.map((r) => r.csvCells)).toEqual([['0 2 0'], ['0 0 0'], ['']]);
+  });
+
+  it('lists both runs of a BR2 race ranked by the better run', async () => {
+    const doc = await buildResultsExport(service, 'K1M_BR2_1');
+
+    expect(doc?.orientation).toBe('landscape');
+    const [table] = doc!.tables;
+    expect(table.rows.map((r) => r.cells)).toEqual([
+      ['1.', '2', 'FUKSA Martin', 'DUKLA Praha', 'U23', '1.', '84.50', '0', '84.50', '79.00', '0', '79.00', '79.00', ''],
+      ['2.', '1', 'PRSKAVEC Jiří', 'USK Praha', 'A', '1.', '80.00', '2', '82.00', '', '', 'DNF', '82.00', '+3.00'],
+      ['', '3', 'NOVAK Petr', 'Kanoe Troja', 'A', '', '', '', 'DNS', '', '', '', 'DNS', ''],
+    ]);
+    expect(table.rows[0].detail).toBe('Gates 1st: 0 0 0   2nd: 0 0');
+    expect(table.csvColumns).toEqual(['1st run gates', '2nd run gates']);
+    expect(table.rows[0].csvCells).toEqual(['0 0 0', '0 0']);
+  });
+
+  it('returns null for a race not in the schedule', async () => {
+    expect(await buildResultsExport(service, 'C1W_BR1_1')).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { buildDayStartlistExport, buildStartlistExport } from '../startlist.js';
+
+const xml = `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>Czech Cup</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+  </Participants>
+  <Participants>
+    <Id>2.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>2</EventBib>
+    <FamilyName>FUKSA</FamilyName>
+    <GivenName>Martin</GivenName>
+    <Club>DUKLA Praha</Club>
+  </Participants>
+  <Participants>
+    <Id>10.C2M</Id>
+    <ClassId>C2M</ClassId>
+    <EventBib>10</EventBib>
+    <FamilyName>NOVAK</FamilyName>
+    <GivenName>Petr</GivenName>
+    <FamilyName2>DVORAK</FamilyName2>
+    <GivenName2>Jan</GivenName2>
+    <Club>Kanoe Troja</Club>
+  </Participants>
+  <Schedule>
+    <RaceId>C2M_BR1_1</RaceId>
+    <RaceOrder>102</RaceOrder>
+    <StartTime>2024-04-06T09:30:00+02:00</StartTime>
+    <ClassId>C2M</ClassId>
+    <DisId>BR1</DisId>
+    <CustomTitle>C2m - 1st run</CustomTitle>
+  </Schedule>
+  <Schedule>
+    <RaceId>K1M_BR1_1</RaceId>
+    <RaceOrder>101</RaceOrder>
+    <StartTime>2024-04-06T08:30:00+02:00</StartTime>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+    <CustomTitle>K1m - 1st run</CustomTitle>
+  </Schedule>
+  <Schedule>
+    <RaceId>K1M_BR2_1</RaceId>
+    <RaceOrder>201</RaceOrder>
+    <StartTime>2024-04-07T10:00:00+02:00</StartTime>
+    <ClassId>K1M</ClassId>
+    <DisId>BR2</DisId>
+    <CustomTitle>K1m - 2nd run</CustomTitle>
+  </Schedule>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>2.K1M</Id>
+    <StartOrder>1</StartOrder>
+    <Bib>2</Bib>
+    <StartTime>8:30:00</StartTime>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>1.K1M</Id>
+    <StartOrder>2</StartOrder>
+    <Bib>1</Bib>
+    <StartTime>8:30:45</StartTime>
+  </Results>
+</Canoe123Data>`;
+
+describe('startlist export', () => {
+  let service: XmlDataService;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'startlist-export-test-'));
+    const xmlPath = path.join(tempDir, 'event.xml');
+    await fsPromises.writeFile(xmlPath, xml);
+    service = new XmlDataService();
+    service.setCacheTtl(0);
+    service.setPath(xmlPath);
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists start order, bib, start time, name and club', async () => {
+    const doc = await buildStartlistExport(service, 'K1M_BR1_1');
+
+    expect(doc?.title).toBe('Czech Cup');
+    const [table] = doc!.tables;
+    expect(table.title).toBe('Startlist – K1m - 1st run');
+    expect(table.subtitle).toBe('K1M_BR1_1, 2024-04-06 08:30');
+    expect(table.rows.map((r) => r.cells)).toEqual([
+      ['1', '2', '8:30:00', 'FUKSA Martin', 'DUKLA Praha'],
+      ['2', '1', '8:30:45', 'PRSKAVEC Jiří', 'USK Praha'],
+    ]);
+  });
+
+  it('lists both crew members of a team boat', async () => {
+    const doc = await buildStartlistExport(service, 'C2M_BR1_1');
+
+    expect(doc!.tables[0].rows[0].cells).toEqual(['1', '10', '', 'NOVAK Petr / DVORAK Jan', 'Kanoe Troja']);
+  });
+
+  it('returns null for a race not in the schedule', async () => {
+    expect(await buildStartlistExport(service, 'C1W_BR1_1')).toBeNull();
+  });
+
+  it('combines the races of a day ordered by race order', async () => {
+    const { day, document } = await buildDayStartlistExport(service, '2024-04-06');
+
+    expect(day).toBe('2024-04-06');
+    expect(document.title).toBe('Czech Cup – 2024-04-06');
+    expect(document.tables.map((t) => t.key)).toEqual(['K1M_BR1_1', 'C2M_BR1_1']);
+  });
+
+  it('defaults to today, or the first day when no race runs today', async () => {
+    const today = await buildDayStartlistExport(service, undefined, new Date(2024, 3, 7, 9));
+    expect(today.day).toBe('2024-04-07');
+    expect(today.document.tables.map((t) => t.key)).toEqual(['K1M_BR2_1']);
+
+    const other = await buildDayStartlistExport(service, undefined, new Date(2025, 0, 1));
+    expect(other.day).toBe('2024-04-06');
+  });
+
+  it('returns no races for a day without races', async () => {
+    const { document } = await buildDayStartlistExport(service, '2024-05-01');
+
+    expect(document.tables).toEqual([]);
+  });
+});
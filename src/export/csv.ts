@@ -0,0 +1,65 @@
+import type { ExportDocument, ExportRow, ExportTable } from './types.js';
+
+/**
+ * Quote a CSV field if it contains a separator, quote or line break.
+ *
+ * A field starting with `=`, `+`, `-` or `@` is prefixed with `'` so that
+ * spreadsheets show it as text instead of running it as a formula; plain
+ * numbers such as `+1.25` are left alone.
+ */
+function csvField(value: string, separator: string): string {
+  if (/^[=+\-@]/.test(value) && !/^[+-]\d+(?:[.,]\d+)?$/.test(value)) {
+    value = `'${value}`;
+  }
+  if (value.includes(separator) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Join rows of fields into CSV text (RFC 4180, CRLF line endings)
+ *
+ * @param separator - Field separator, `,` by default
+ */
+export function formatCsv(rows: string[][], separator = ','): string {
+  return rows.map((row) => row.map((field) => csvField(field, separator)).join(separator) + '\r\n').join('');
+}
+
+/**
+ * Cells of a row with the table's CSV-only columns after the printed ones
+ */
+function csvRow(table: ExportTable, row: ExportRow): string[] {
+  const extra = table.csvColumns?.map((_, i) => row.csvCells?.[i] ?? '') ?? [];
+  return [...row.cells, ...extra];
+}
+
+/**
+ * Render a table as CSV: a header line, then one line per row, with the
+ * table's CSV-only columns last. The printed detail lines are left out.
+ */
+export function renderCsv(table: ExportTable, separator = ','): string {
+  const header = [...table.columns.map((c) => c.header), ...(table.csvColumns ?? [])];
+  return formatCsv([header, ...table.rows.map((row) => csvRow(table, row))], separator);
+}
+
+/**
+ * Render a document as one CSV. A document with a key header, or with more
+ * than one table, gets a leading key column (table key, or title without
+ * one) and its tables must share their columns.
+ */
+export function renderDocumentCsv(doc: ExportDocument, separator = ','): string {
+  if (doc.tables.length === 1 && doc.keyHeader === undefined) {
+    return renderCsv(doc.tables[0], separator);
+  }
+
+  const [first] = doc.tables;
+  const header = [
+    doc.keyHeader ?? 'Table',
+    ...(first?.columns.map((c) => c.header) ?? []),
+    ...(first?.csvColumns ?? []),
+  ];
+
+  const rows = doc.tables.flatMap((table) => table.rows.map((row) => [table.key ?? table.title, ...csvRow(table, row)]));
+  return formatCsv([header, ...rows], separator);
+}
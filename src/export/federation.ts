@@ -0,0 +1,245 @@
+import type { XmlDataService, XmlParticipant } from '../service/XmlDataService.js';
+import { formatCsv } from './csv.js';
+import { formatExportTime } from './format.js';
+
+/**
+ * One run of a federation result entry
+ */
+export interface FederationRun {
+  /** 1 or 2 */
+  run: number;
+  time?: number | undefined;
+  pen?: number | undefined;
+  total?: number | undefined;
+  rank?: number | undefined;
+  status?: string | undefined;
+}
+
+/**
+ * Final result of one boat in a class
+ */
+export interface FederationEntry {
+  bib: string;
+  participantId: string;
+  participant?: XmlParticipant | undefined;
+  rank?: number | undefined;
+  /** Result time in ms, the better run for BR races */
+  total?: number | undefined;
+  /** IRM code when the boat has no valid result */
+  status?: string | undefined;
+  runs: FederationRun[];
+}
+
+/**
+ * Final results of one class (a BR1/BR2 pair or a single-run race)
+ */
+export interface FederationRace {
+  /** Race the results are filed under, BR1 of a pair */
+  raceId: string;
+  classId: string;
+  name: string;
+  entries: FederationEntry[];
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function hasOutcome(run: FederationRun | undefined): boolean {
+  return run !== undefined && (run.total !== undefined || !!run.status);
+}
+
+/**
+ * Collect the final results of every class from the XML data, ordered by
+ * race order.
+ *
+ * BR1/BR2 pairs are merged into one class result ranked by the better run,
+ * filed under the BR1 race. Other races are taken as they are. Boats without
+ * a time or status in any run (not started) are left out, as are classes
+ * without any result.
+ */
+export async function collectFederationResults(service: XmlDataService): Promise<FederationRace[]> {
+  const races = (await service.getRaces()).sort((a, b) => (a.raceOrder ?? Infinity) - (b.raceOrder ?? Infinity));
+  const raceIds = new Set(races.map((r) => r.raceId));
+  const participants = new Map((await service.getParticipants()).map((p) => [p.id, p]));
+  const collected: FederationRace[] = [];
+
+  for (const race of races) {
+    let entries: FederationEntry[];
+
+    if (/_BR[12]_/.test(race.raceId)) {
+      // A BR2 is filed with its BR1, unless the schedule has no BR1
+      if (/_BR2_/.test(race.raceId) && raceIds.has(race.raceId.replace(/_BR2_/, '_BR1_'))) {
+        continue;
+      }
+      entries = (await service.getMergedResults(race.raceId)).map((m) => {
+        const runs: FederationRun[] = [];
+        if (m.run1) runs.push({ run: 1, ...m.run1 });
+        if (m.run2) runs.push({ run: 2, ...m.run2 });
+        const valid = m.bestTotal !== undefined;
+        return {
+          bib: m.bib,
+          participantId: m.participantId,
+          participant: participants.get(m.participantId),
+          rank: valid ? m.bestRank : undefined,
+          total: m.bestTotal,
+          status: valid ? undefined : (m.run2?.status ?? m.run1?.status),
+          runs: runs.filter(hasOutcome),
+        };
+      });
+    } else {
+      entries = ((await service.getResultsWithParticipants(race.raceId)) ?? []).map((r) => {
+        const valid = !r.status && r.total !== undefined;
+        return {
+          bib: r.bib,
+          participantId: r.id,
+          participant: r.participant,
+          rank: valid ? r.rank : undefined,
+          total: valid ? r.total : undefined,
+          status: r.status,
+          runs: [{ run: 1, time: r.time, pen: r.pen, total: r.total, rank: r.rank, status: r.status }].filter(hasOutcome),
+        };
+      });
+    }
+
+    entries = entries.filter((e) => e.runs.length > 0);
+    if (entries.length > 0) {
+      collected.push({
+        raceId: race.raceId.replace(/_BR2_/, '_BR1_'),
+        classId: race.classId,
+        name: race.name,
+        entries,
+      });
+    }
+  }
+
+  return collected;
+}
+
+/**
+ * Render results XML: one Race element per class with a Result per boat, its
+ * athletes (ICF ID on the first) and runs. Times are seconds with hundredths,
+ * invalid results carry their ICF IRM code. The element layout is this
+ * server's own, not a published ICF schema; map it to the receiving system's
+ * import template.
+ */
+export function renderIcfResultsXml(eventName: string, races: FederationRace[]): string {
+  const attrs = (values: Record<string, string | number | undefined>): string =>
+    Object.entries(values)
+      .filter(([, v]) => v !== undefined && v !== '')
+      .map(([k, v]) => ` ${k}="${escapeXml(String(v))}"`)
+      .join('');
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<Results${attrs({ Event: eventName })}>`];
+
+  for (const race of races) {
+    lines.push(`  <Race${attrs({ RaceId: race.raceId, ClassId: race.classId, Title: race.name })}>`);
+    for (const entry of race.entries) {
+      const p = entry.participant;
+      lines.push(
+        `    <Result${attrs({
+          Rank: entry.rank,
+          Bib: entry.bib,
+          Club: p?.club,
+          Category: p?.catId,
+          Total: entry.total !== undefined ? formatExportTime(entry.total) : undefined,
+          IRM: entry.status,
+        })}>`
+      );
+      lines.push(
+        `      <Athlete${attrs({ ICFId: p?.icfId, FamilyName: p?.familyName, GivenName: p?.givenName, Year: p?.year })} />`
+      );
+      if (p?.familyName2) {
+        lines.push(`      <Athlete${attrs({ FamilyName: p.familyName2, GivenName: p.givenName2 })} />`);
+      }
+      for (const run of entry.runs) {
+        lines.push(
+          `      <Run${attrs({
+            Nr: run.run,
+            Time: run.status ? undefined : formatExportTime(run.time),
+            Pen: run.status ? undefined : run.pen,
+            Total: run.status ? undefined : formatExportTime(run.total),
+            Rank: run.status ? undefined : run.rank,
+            IRM: run.status,
+          })} />`
+        );
+      }
+      lines.push('    </Result>');
+    }
+    lines.push('  </Race>');
+  }
+
+  lines.push('</Results>');
+  return lines.join('\n') + '\n';
+}
+
+/** Columns of the Czech federation ranking CSV */
+export const CZ_RANKING_COLUMNS = [
+  'RaceId',
+  'ClassId',
+  'Category',
+  'Rank',
+  'Bib',
+  'ICFId',
+  'FamilyName',
+  'GivenName',
+  'Year',
+  'FamilyName2',
+  'GivenName2',
+  'Club',
+  'Run1',
+  'Pen1',
+  'Total1',
+  'Run2',
+  'Pen2',
+  'Total2',
+  'Result',
+  'IRM',
+];
+
+/**
+ * Render the ranking CSV: one row per boat, `;` separated with decimal commas
+ * so a Czech-locale spreadsheet opens it as columns and numbers for checking
+ * and transfer into the ranking system. The column layout is this server's
+ * own, not a published ČSK template. An invalid run has its IRM code in the
+ * total column.
+ */
+export function renderCzechRankingCsv(races: FederationRace[]): string {
+  const time = (ms: number | undefined): string => formatExportTime(ms).replace('.', ',');
+  const run = (r: FederationRun | undefined): string[] => {
+    if (!r) return ['', '', ''];
+    if (r.status) return ['', '', r.status];
+    return [time(r.time), r.pen !== undefined ? String(r.pen) : '', time(r.total)];
+  };
+
+  const rows = races.flatMap((race) =>
+    race.entries.map((e) => {
+      const p = e.participant;
+      return [
+        race.raceId,
+        race.classId,
+        p?.catId ?? '',
+        e.rank !== undefined ? String(e.rank) : '',
+        e.bib,
+        p?.icfId ?? '',
+        p?.familyName ?? '',
+        p?.givenName ?? '',
+        p?.year ?? '',
+        p?.familyName2 ?? '',
+        p?.givenName2 ?? '',
+        p?.club ?? '',
+        ...run(e.runs.find((r) => r.run === 1)),
+        ...run(e.runs.find((r) => r.run === 2)),
+        time(e.total),
+        e.status ?? '',
+      ];
+    })
+  );
+
+  return formatCsv([CZ_RANKING_COLUMNS, ...rows], ';');
+}
@@ -0,0 +1,47 @@
+/**
+ * Format a time in milliseconds as seconds with hundredths, e.g. "76.99"
+ */
+export function formatExportTime(ms: number | undefined): string {
+  return ms === undefined || !Number.isFinite(ms) ? '' : (ms / 1000).toFixed(2);
+}
+
+/**
+ * Printed name of a participant, with the second crew member of a C2
+ */
+export function formatParticipantName(p: {
+  familyName: string;
+  givenName: string;
+  familyName2?: string | undefined;
+  givenName2?: string | undefined;
+}): string {
+  const first = `${p.familyName} ${p.givenName}`.trim();
+  const second = `${p.familyName2 ?? ''} ${p.givenName2 ?? ''}`.trim();
+  return second ? `${first} / ${second}` : first;
+}
+
+/**
+ * Gate penalties of a fixed-width gates string, e.g. "0 2 0 50 - 0".
+ * Unjudged gates are shown as "-".
+ */
+export function formatGatePenalties(gates: string | undefined): string {
+  if (!gates || gates.trim() === '') {
+    return '';
+  }
+  const values: string[] = [];
+  for (let i = 0; i < gates.trimEnd().length; i += 3) {
+    values.push(gates.slice(i, i + 3).trim() || '-');
+  }
+  return values.join(' ');
+}
+
+/**
+ * Schedule start time for print: "2024-04-06T08:30:00+02:00" becomes
+ * "2024-04-06 08:30", other values are kept as they are
+ */
+export function formatStartTime(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/.exec(value);
+  return match ? `${match[1]} ${match[2]}` : value;
+}
@@ -0,0 +1,19 @@
+/**
+ * Printable exports (PDF, CSV) of XML race data
+ */
+
+export * from './types.js';
+export { formatCsv, renderCsv, renderDocumentCsv } from './csv.js';
+export { renderPdf } from './pdf.js';
+export { formatExportTime, formatGatePenalties, formatParticipantName, formatStartTime } from './format.js';
+export { buildResultsExport } from './results.js';
+export { buildDayStartlistExport, buildStartlistExport } from './startlist.js';
+export {
+  collectFederationResults,
+  renderCzechRankingCsv,
+  renderIcfResultsXml,
+  CZ_RANKING_COLUMNS,
+  type FederationEntry,
+  type FederationRace,
+  type FederationRun,
+} from './federation.js';
@@ -0,0 +1,466 @@
+import zlib from 'node:zlib';
+import type { ExportColumn, ExportDocument } from './types.js';
+
+/**
+ * Minimal PDF writer for printable tables.
+ *
+ * Uses the standard Helvetica fonts, which every PDF viewer has, so nothing
+ * is embedded. Their glyph set covers the Latin-1 and Latin-2 letters (ř, č,
+ * ě, ů, ő, ł, ...), but WinAnsi, the usual encoding, reaches only Latin-1.
+ * Each document therefore gets its own encoding: WinAnsi, with the letters
+ * it lacks mapped onto codes the document does not use (see PdfEncoding).
+ */
+
+interface PdfFont {
+  resource: 'F1' | 'F2';
+  /** Glyph widths (1/1000 em) of characters 32..126 */
+  widths: number[];
+  /** Widths of other characters that differ from their base letter */
+  otherWidths: Record<string, number>;
+}
+
+const HELVETICA: PdfFont = {
+  resource: 'F1',
+  widths: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  otherWidths: { '…': 1000, '—': 1000, 'ď': 643, 'ľ': 299, 'ť': 317 },
+};
+
+const HELVETICA_BOLD: PdfFont = {
+  resource: 'F2',
+  widths: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+  otherWidths: { '…': 1000, '—': 1000, 'ď': 743, 'ľ': 400, 'ť': 389 },
+};
+
+/** WinAnsi codes 0x80-0x9F, which differ from Latin-1 */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+const PAGE_SIZES = { portrait: [595, 842], landscape: [842, 595] } as const;
+const MARGIN = 36;
+const CELL_PADDING = 2;
+const FOOTER_HEIGHT = 14;
+const ROW_HEIGHT = 11;
+const DETAIL_HEIGHT = 8.5;
+const TABLE_GAP = 14;
+
+const TEXT_SIZE = 8;
+const DETAIL_SIZE = 6.5;
+const HEADER_SIZE = 7.5;
+
+/** Accents of the standard glyph names, by combining mark */
+const COMBINING_ACCENTS: Record<string, string> = {
+  '\u0300': 'grave', '\u0301': 'acute', '\u0302': 'circumflex', '\u0303': 'tilde', '\u0304': 'macron',
+  '\u0306': 'breve', '\u0307': 'dotaccent', '\u0308': 'dieresis', '\u030a': 'ring', '\u030b': 'hungarumlaut',
+  '\u030c': 'caron', '\u0326': 'commaaccent', '\u0327': 'cedilla', '\u0328': 'ogonek',
+};
+
+/** Letters the standard fonts have with each accent */
+const ACCENTED_LETTERS: Record<string, string> = {
+  grave: 'AaEeIiOoUu',
+  acute: 'AaCcEeIiLlNnOoRrSsUuYyZz',
+  circumflex: 'AaEeIiOoUu',
+  tilde: 'AaNnOo',
+  macron: 'AaEeIiOoUu',
+  breve: 'AaGg',
+  dotaccent: 'EeIZz',
+  dieresis: 'AaEeIiOoUuYy',
+  ring: 'AaUu',
+  hungarumlaut: 'OoUu',
+  caron: 'CcDdEeLlNnRrSsTtZz',
+  commaaccent: 'GgKkLlNnRrSsTt',
+  cedilla: 'CcSs',
+  ogonek: 'AaEeIiUu',
+};
+
+/** Glyph names of letters without a decomposition */
+const OTHER_GLYPHS: Record<string, string> = {
+  'Ł': 'Lslash', 'ł': 'lslash', 'Đ': 'Dcroat', 'đ': 'dcroat', 'ı': 'dotlessi',
+};
+
+/**
+ * Standard glyph name of a letter WinAnsi lacks, e.g. "rcaron" for ř
+ */
+function glyphName(char: string): string | undefined {
+  if (OTHER_GLYPHS[char]) {
+    return OTHER_GLYPHS[char];
+  }
+  const [base, mark, ...rest] = Array.from(char.normalize('NFD'));
+  let accent = mark !== undefined && rest.length === 0 ? COMBINING_ACCENTS[mark] : undefined;
+  if (!base || !accent) {
+    return undefined;
+  }
+  // Ģ, Ķ, Ļ, Ņ, Ŗ and Ţ decompose with a cedilla but are named with a comma
+  if (accent === 'cedilla' && !ACCENTED_LETTERS.cedilla.includes(base)) {
+    accent = 'commaaccent';
+  }
+  return ACCENTED_LETTERS[accent]?.includes(base) ? base + accent : undefined;
+}
+
+/**
+ * WinAnsi code of a character, undefined if WinAnsi lacks it
+ */
+function winAnsiCode(char: string): number | undefined {
+  const code = char.codePointAt(0) ?? 0;
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRA[char];
+}
+
+/** WinAnsi codes without a character, used first for other letters */
+const UNUSED_WIN_ANSI_CODES = [0x81, 0x8d, 0x8f, 0x90, 0x9d];
+
+/**
+ * Single-byte encoding of one document: WinAnsi, with the letters WinAnsi
+ * lacks mapped onto codes (0x80-0xFF) of characters the document does not
+ * use. The fonts name those codes in their /Differences. Characters without
+ * a code are printed as their base letter, or `?`.
+ */
+class PdfEncoding {
+  private readonly codes = new Map<string, number>();
+  /** Glyph names of the remapped codes */
+  readonly differences = new Map<number, string>();
+
+  constructor(texts: Iterable<string>) {
+    const taken = new Set<number>();
+    const missing: string[] = [];
+    for (const char of new Set(Array.from(texts).flatMap((text) => Array.from(text)))) {
+      const code = winAnsiCode(char);
+      if (code !== undefined) {
+        taken.add(code);
+      } else if (glyphName(char)) {
+        missing.push(char);
+      }
+    }
+
+    const free = [...UNUSED_WIN_ANSI_CODES];
+    for (let code = 0x80; code <= 0xff; code++) {
+      if (!UNUSED_WIN_ANSI_CODES.includes(code) && !taken.has(code)) {
+        free.push(code);
+      }
+    }
+    for (const char of missing) {
+      const code = free.shift();
+      if (code === undefined) {
+        break;
+      }
+      this.codes.set(char, code);
+      this.differences.set(code, glyphName(char) as string);
+    }
+  }
+
+  /**
+   * Code of one character, falling back to its base letter
+   */
+  code(char: string): number {
+    const code = this.codes.get(char) ?? winAnsiCode(char);
+    if (code !== undefined) {
+      return code;
+    }
+    const base = char.normalize('NFD')[0];
+    if (base !== char && base !== undefined) {
+      return this.code(base);
+    }
+    return char === '\t' || char === '\n' || char === '\r' ? 0x20 : 0x3f;
+  }
+
+  /**
+   * Encoding dictionary for the font objects
+   */
+  toPdf(): string {
+    const differences = [...this.differences.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([code, name]) => `${code} /${name}`);
+    return differences.length === 0
+      ? '/WinAnsiEncoding'
+      : `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [${differences.join(' ')}] >>`;
+  }
+}
+
+/**
+ * Width of a text in points
+ */
+function textWidth(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of text) {
+    // Accented letters are as wide as their base letter, with a few exceptions
+    const base = char.normalize('NFD')[0] ?? '?';
+    const code = base.charCodeAt(0);
+    width +=
+      font.otherWidths[char] ?? (code >= 0x20 && code <= 0x7e ? font.widths[code - 0x20] : 556);
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Shorten a text with an ellipsis so it fits into maxWidth
+ */
+function fitText(text: string, maxWidth: number, font: PdfFont, size: number): string {
+  if (textWidth(text, font, size) <= maxWidth) {
+    return text;
+  }
+  const chars = Array.from(text);
+  while (chars.length > 0 && textWidth(chars.join('') + '…', font, size) > maxWidth) {
+    chars.pop();
+  }
+  return chars.length > 0 ? chars.join('') + '…' : '';
+}
+
+/**
+ * Encode a text as a PDF literal string, non-ASCII as octal escapes
+ */
+function pdfString(text: string, encoding: PdfEncoding): string {
+  let out = '(';
+  for (const char of text) {
+    const code = encoding.code(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      out += '\\' + String.fromCharCode(code);
+    } else if (code > 0x7e) {
+      out += '\\' + code.toString(8).padStart(3, '0');
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return out + ')';
+}
+
+/**
+ * Encode a text outside page content (document info) as UTF-16 hex string
+ */
+function pdfTextString(text: string): string {
+  const utf16 = Buffer.from(text, 'utf16le').swap16();
+  return `<FEFF${utf16.toString('hex').toUpperCase()}>`;
+}
+
+/**
+ * Every text a document prints, for building its encoding
+ */
+function documentTexts(doc: ExportDocument): string[] {
+  // Fixed texts are ASCII, apart from the ellipsis of shortened ones
+  const texts = [doc.title, doc.footer ?? '', '…'];
+  for (const table of doc.tables) {
+    texts.push(table.title, table.subtitle ?? '', ...table.columns.map((c) => c.header));
+    for (const row of table.rows) {
+      texts.push(...row.cells, row.detail ?? '');
+    }
+  }
+  return texts;
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Content stream of one page under construction
+ */
+class PageContent {
+  readonly ops: string[] = [];
+
+  constructor(private readonly encoding: PdfEncoding) {}
+
+  text(value: string, x: number, y: number, font: PdfFont, size: number, gray = 0): void {
+    if (value === '') {
+      return;
+    }
+    this.ops.push(`${num(gray)} g BT /${font.resource} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(value, this.encoding)} Tj ET`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.ops.push(`${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+}
+
+/**
+ * Lay out a document into page content streams
+ */
+function layout(doc: ExportDocument, pageWidth: number, pageHeight: number, encoding: PdfEncoding): PageContent[] {
+  const contentWidth = pageWidth - 2 * MARGIN;
+  const top = pageHeight - MARGIN;
+  const bottom = MARGIN + FOOTER_HEIGHT;
+  const pages: PageContent[] = [];
+  let page = new PageContent(encoding);
+  let y = top;
+
+  const newPage = (): void => {
+    page = new PageContent(encoding);
+    pages.push(page);
+    page.text(fitText(doc.title, contentWidth, HELVETICA_BOLD, 13), MARGIN, top - 12, HELVETICA_BOLD, 13);
+    page.line(MARGIN, top - 17, pageWidth - MARGIN, top - 17);
+    y = top - 27;
+  };
+
+  for (const table of doc.tables) {
+    const positions = columnPositions(table.columns, contentWidth);
+    const headingHeight = 14 + (table.subtitle ? 10 : 0);
+    const firstRowHeight = ROW_HEIGHT + (table.rows[0]?.detail ? DETAIL_HEIGHT : 0);
+
+    if (pages.length === 0) {
+      newPage();
+    } else if (y - TABLE_GAP - headingHeight - ROW_HEIGHT - firstRowHeight < bottom) {
+      newPage();
+    } else {
+      y -= TABLE_GAP;
+    }
+
+    page.text(fitText(table.title, contentWidth, HELVETICA_BOLD, 11), MARGIN, y - 10, HELVETICA_BOLD, 11);
+    y -= 14;
+    if (table.subtitle) {
+      page.text(fitText(table.subtitle, contentWidth, HELVETICA, 8), MARGIN, y - 7, HELVETICA, 8, 0.35);
+      y -= 10;
+    }
+
+    const drawHeader = (): void => {
+      table.columns.forEach((column, i) => {
+        drawCell(page, column.header, column, positions[i], y - 8, HELVETICA_BOLD, HEADER_SIZE);
+      });
+      page.line(MARGIN, y - ROW_HEIGHT + 0.5, pageWidth - MARGIN, y - ROW_HEIGHT + 0.5);
+      y -= ROW_HEIGHT;
+    };
+    drawHeader();
+
+    if (table.rows.length === 0) {
+      page.text('No entries', MARGIN + CELL_PADDING, y - 8.5, HELVETICA, TEXT_SIZE, 0.35);
+      y -= ROW_HEIGHT;
+    }
+
+    for (const row of table.rows) {
+      const height = ROW_HEIGHT + (row.detail ? DETAIL_HEIGHT : 0);
+      if (y - height < bottom) {
+        newPage();
+        page.text(fitText(`${table.title} (continued)`, contentWidth, HELVETICA_BOLD, 9), MARGIN, y - 8, HELVETICA_BOLD, 9);
+        y -= 12;
+        drawHeader();
+      }
+
+      table.columns.forEach((column, i) => {
+        drawCell(page, row.cells[i] ?? '', column, positions[i], y - 8.5, HELVETICA, TEXT_SIZE);
+      });
+      y -= ROW_HEIGHT;
+
+      if (row.detail) {
+        const x = positions[Math.min(1, positions.length - 1)]?.x ?? MARGIN;
+        const maxWidth = pageWidth - MARGIN - x - CELL_PADDING;
+        page.text(fitText(row.detail, maxWidth, HELVETICA, DETAIL_SIZE), x + CELL_PADDING, y - 6, HELVETICA, DETAIL_SIZE, 0.35);
+        y -= DETAIL_HEIGHT;
+      }
+    }
+  }
+
+  if (pages.length === 0) {
+    newPage();
+  }
+
+  pages.forEach((p, index) => {
+    const label = `Page ${index + 1} / ${pages.length}`;
+    const footerY = MARGIN;
+    p.line(MARGIN, footerY + 9, pageWidth - MARGIN, footerY + 9, 0.3);
+    if (doc.footer) {
+      p.text(fitText(doc.footer, contentWidth - 80, HELVETICA, 7), MARGIN, footerY, HELVETICA, 7, 0.35);
+    }
+    p.text(label, pageWidth - MARGIN - textWidth(label, HELVETICA, 7), footerY, HELVETICA, 7, 0.35);
+  });
+
+  return pages;
+}
+
+function columnPositions(columns: ExportColumn[], contentWidth: number): { x: number; width: number }[] {
+  const total = columns.reduce((sum, c) => sum + c.width, 0) || 1;
+  let x = MARGIN;
+  return columns.map((c) => {
+    const width = (c.width / total) * contentWidth;
+    const position = { x, width };
+    x += width;
+    return position;
+  });
+}
+
+function drawCell(
+  page: PageContent,
+  value: string,
+  column: ExportColumn,
+  position: { x: number; width: number },
+  baseline: number,
+  font: PdfFont,
+  size: number
+): void {
+  const text = fitText(value, position.width - 2 * CELL_PADDING, font, size);
+  const x =
+    column.align === 'right'
+      ? position.x + position.width - CELL_PADDING - textWidth(text, font, size)
+      : position.x + CELL_PADDING;
+  page.text(text, x, baseline, font, size);
+}
+
+/**
+ * Render a document as PDF (A4, one or more pages)
+ */
+export function renderPdf(doc: ExportDocument): Buffer {
+  const [pageWidth, pageHeight] = PAGE_SIZES[doc.orientation ?? 'portrait'];
+  const encoding = new PdfEncoding(documentTexts(doc));
+  const pages = layout(doc, pageWidth, pageHeight, encoding);
+
+  // Objects 1-5 are fixed, then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`),
+    Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding ${encoding.toPdf()} >>`),
+    Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding ${encoding.toPdf()} >>`),
+    Buffer.from(`<< /Title ${pdfTextString(doc.title)} /Producer (c123-server) >>`),
+  ];
+
+  pages.forEach((page, i) => {
+    const contentId = pageIds[i] + 1;
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      )
+    );
+    const stream = zlib.deflateSync(Buffer.from(page.ops.join('\n'), 'latin1'));
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream'),
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    offsets.push(offset);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref =
+    `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n` +
+    offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('') +
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+  chunks.push(Buffer.from(xref));
+
+  return Buffer.concat(chunks);
+}
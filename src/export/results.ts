@@ -0,0 +1,176 @@
+import type { XmlDataService, XmlMergedResult, XmlParticipant } from '../service/XmlDataService.js';
+import type { ExportColumn, ExportDocument, ExportRow, ExportTable } from './types.js';
+import { formatExportTime, formatGatePenalties, formatParticipantName, formatStartTime } from './format.js';
+
+/**
+ * Category ranks from an ordered list of valid results: the position of each
+ * participant among those of the same category
+ */
+function categoryRanks(ids: string[], participants: Map<string, XmlParticipant>): Map<string, number> {
+  const counters = new Map<string, number>();
+  const ranks = new Map<string, number>();
+  for (const id of ids) {
+    const catId = participants.get(id)?.catId;
+    if (!catId) continue;
+    const rank = (counters.get(catId) ?? 0) + 1;
+    counters.set(catId, rank);
+    ranks.set(id, rank);
+  }
+  return ranks;
+}
+
+const SINGLE_RUN_COLUMNS: ExportColumn[] = [
+  { header: 'Rank', width: 4, align: 'right' },
+  { header: 'Bib', width: 4, align: 'right' },
+  { header: 'Name', width: 24 },
+  { header: 'Club', width: 20 },
+  { header: 'Cat', width: 5 },
+  { header: 'Cat rank', width: 6, align: 'right' },
+  { header: 'Time', width: 8, align: 'right' },
+  { header: 'Pen', width: 5, align: 'right' },
+  { header: 'Total', width: 8, align: 'right' },
+  { header: 'Behind', width: 7, align: 'right' },
+];
+
+const MERGED_COLUMNS: ExportColumn[] = [
+  { header: 'Rank', width: 4, align: 'right' },
+  { header: 'Bib', width: 4, align: 'right' },
+  { header: 'Name', width: 24 },
+  { header: 'Club', width: 18 },
+  { header: 'Cat', width: 4 },
+  { header: 'Cat rank', width: 5, align: 'right' },
+  { header: '1st run', width: 7, align: 'right' },
+  { header: 'Pen', width: 4, align: 'right' },
+  { header: 'Total', width: 7, align: 'right' },
+  { header: '2nd run', width: 7, align: 'right' },
+  { header: 'Pen', width: 4, align: 'right' },
+  { header: 'Total', width: 7, align: 'right' },
+  { header: 'Result', width: 7, align: 'right' },
+  { header: 'Behind', width: 7, align: 'right' },
+];
+
+/**
+ * Build the printable result list of a race from the XML data.
+ *
+ * A single run (or BR1) lists the run with its gate penalties. A BR2 race
+ * lists both runs side by side ranked by the better one, built on the
+ * merged results. Invalid runs show their status code (DNS/DNF/DSQ) in place
+ * of the total. Rows without a time or status (not started yet) are left out.
+ *
+ * @returns null if the race is not in the schedule
+ */
+export async function buildResultsExport(service: XmlDataService, raceId: string): Promise<ExportDocument | null> {
+  const race = await service.getRaceDetail(raceId);
+  if (!race) {
+    return null;
+  }
+
+  const participants = new Map((await service.getParticipants()).map((p) => [p.id, p]));
+  const eventName = (await service.getEventName()) ?? 'Results';
+  const table = /_BR2_/.test(raceId)
+    ? await buildMergedTable(service, raceId, participants)
+    : await buildSingleRunTable(service, raceId, participants);
+
+  return {
+    title: eventName,
+    orientation: /_BR2_/.test(raceId) ? 'landscape' : 'portrait',
+    tables: [
+      {
+        ...table,
+        title: `Results – ${race.name}`,
+        subtitle: race.startTime ? `${raceId}, ${formatStartTime(race.startTime)}` : raceId,
+      },
+    ],
+  };
+}
+
+async function buildSingleRunTable(
+  service: XmlDataService,
+  raceId: string,
+  participants: Map<string, XmlParticipant>
+): Promise<Omit<ExportTable, 'title'>> {
+  const results = ((await service.getResultsWithParticipants(raceId)) ?? []).filter(
+    (r) => r.total !== undefined || r.status
+  );
+  const valid = results.filter((r) => !r.status && r.total !== undefined);
+  const leader = valid.length > 0 ? Math.min(...valid.map((r) => r.total as number)) : undefined;
+
+  const rows: ExportRow[] = results.map((r) => {
+    const participant = r.participant ?? participants.get(r.id);
+    const isValid = !r.status && r.total !== undefined;
+    return {
+      cells: [
+        isValid && r.rank !== undefined ? `${r.rank}.` : '',
+        r.bib,
+        participant ? formatParticipantName(participant) : '',
+        participant?.club ?? '',
+        participant?.catId ?? '',
+        isValid && r.catRank !== undefined ? `${r.catRank}.` : '',
+        isValid ? formatExportTime(r.time) : '',
+        isValid && r.pen !== undefined ? String(r.pen) : '',
+        isValid ? formatExportTime(r.total) : (r.status ?? ''),
+        isValid && leader !== undefined && r.total !== leader ? `+${formatExportTime((r.total as number) - leader)}` : '',
+      ],
+      detail: r.gates && isValid ? `Gates: ${formatGatePenalties(r.gates)}` : undefined,
+      csvCells: [isValid ? formatGatePenalties(r.gates) : ''],
+    };
+  });
+
+  return { columns: SINGLE_RUN_COLUMNS, rows, csvColumns: ['Gates'] };
+}
+
+async function buildMergedTable(
+  service: XmlDataService,
+  raceId: string,
+  participants: Map<string, XmlParticipant>
+): Promise<Omit<ExportTable, 'title'>> {
+  const merged = (await service.getMergedResults(raceId)).filter(
+    (m) => m.run1?.total !== undefined || m.run1?.status || m.run2?.total !== undefined || m.run2?.status
+  );
+
+  // Gate strings of both runs, keyed by participant
+  const gatesOf = async (id: string): Promise<Map<string, string | undefined>> =>
+    new Map(((await service.getResultsForRace(id)) ?? []).map((r) => [r.id, r.gates]));
+  const gates1 = await gatesOf(raceId.replace(/_BR2_/, '_BR1_'));
+  const gates2 = await gatesOf(raceId);
+
+  const ranked = merged.filter((m) => m.bestTotal !== undefined);
+  const catRanks = categoryRanks(ranked.map((m) => m.participantId), participants);
+  const leader = ranked[0]?.bestTotal;
+
+  const run = (r: XmlMergedResult['run1']): string[] => {
+    if (!r || (r.total === undefined && !r.status)) return ['', '', ''];
+    if (r.status) return ['', '', r.status];
+    return [formatExportTime(r.time), r.pen !== undefined ? String(r.pen) : '', formatExportTime(r.total)];
+  };
+
+  const rows: ExportRow[] = merged.map((m) => {
+    const isValid = m.bestTotal !== undefined;
+    const runGates = [formatGatePenalties(gates1.get(m.participantId)), formatGatePenalties(gates2.get(m.participantId))];
+    const details = [
+      runGates[0] ? `1st: ${runGates[0]}` : '',
+      runGates[1] ? `2nd: ${runGates[1]}` : '',
+    ].filter((d) => d !== '');
+
+    return {
+      cells: [
+        isValid && m.bestRank !== undefined ? `${m.bestRank}.` : '',
+        m.bib,
+        formatParticipantName(m),
+        m.club,
+        participants.get(m.participantId)?.catId ?? '',
+        catRanks.has(m.participantId) ? `${catRanks.get(m.participantId)}.` : '',
+        ...run(m.run1),
+        ...run(m.run2),
+        isValid ? formatExportTime(m.bestTotal) : (m.run2?.status ?? m.run1?.status ?? ''),
+        isValid && leader !== undefined && m.bestTotal !== leader
+          ? `+${formatExportTime((m.bestTotal as number) - leader)}`
+          : '',
+      ],
+      detail: details.length > 0 ? `Gates ${details.join('   ')}` : undefined,
+      csvCells: runGates,
+    };
+  });
+
+  return { columns: MERGED_COLUMNS, rows, csvColumns: ['1st run gates', '2nd run gates'] };
+}
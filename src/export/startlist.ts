@@ -0,0 +1,100 @@
+import type { XmlDataService, XmlRace } from '../service/XmlDataService.js';
+import type { ExportColumn, ExportDocument, ExportTable } from './types.js';
+import { formatParticipantName, formatStartTime } from './format.js';
+
+const STARTLIST_COLUMNS: ExportColumn[] = [
+  { header: 'No.', width: 4, align: 'right' },
+  { header: 'Bib', width: 4, align: 'right' },
+  { header: 'Start', width: 7, align: 'right' },
+  { header: 'Name', width: 34 },
+  { header: 'Club', width: 24 },
+];
+
+/**
+ * Day of a schedule start time ("2024-04-06T08:30:00+02:00" → "2024-04-06")
+ */
+function scheduleDay(startTime: string | undefined): string | undefined {
+  return startTime ? /^\d{4}-\d{2}-\d{2}/.exec(startTime)?.[0] : undefined;
+}
+
+/**
+ * Local date as YYYY-MM-DD
+ */
+function localDay(date: Date): string {
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const dd = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${mm}-${dd}`;
+}
+
+async function buildStartlistTable(service: XmlDataService, race: XmlRace): Promise<ExportTable> {
+  const entries = (await service.getStartlist(race.raceId)) ?? [];
+  return {
+    title: `Startlist – ${race.name}`,
+    key: race.raceId,
+    subtitle: race.startTime ? `${race.raceId}, ${formatStartTime(race.startTime)}` : race.raceId,
+    columns: STARTLIST_COLUMNS,
+    rows: entries.map((e) => ({
+      cells: [String(e.startOrder), e.bib, e.startTime ?? '', formatParticipantName(e), e.club],
+    })),
+  };
+}
+
+/**
+ * Build the printable startlist of a race. Team boats list all crew members
+ * in the name column.
+ *
+ * @returns null if the race is not in the schedule
+ */
+export async function buildStartlistExport(service: XmlDataService, raceId: string): Promise<ExportDocument | null> {
+  const race = (await service.getRaces()).find((r) => r.raceId === raceId);
+  if (!race) {
+    return null;
+  }
+
+  return {
+    title: (await service.getEventName()) ?? 'Startlist',
+    tables: [await buildStartlistTable(service, race)],
+  };
+}
+
+/**
+ * Build the start sheets of all races of one day, ordered by race order.
+ *
+ * Without a date the current day is used if the schedule has races on it,
+ * otherwise the first day of the schedule. A schedule without dated races
+ * prints every race.
+ *
+ * @param date - Day as YYYY-MM-DD
+ * @param now - Current time, for choosing the default day
+ */
+export async function buildDayStartlistExport(
+  service: XmlDataService,
+  date?: string,
+  now: Date = new Date()
+): Promise<{ day: string | null; document: ExportDocument }> {
+  const races = (await service.getRaces()).sort((a, b) => (a.raceOrder ?? Infinity) - (b.raceOrder ?? Infinity));
+  const days = Array.from(new Set(races.map((r) => scheduleDay(r.startTime)).filter((d) => d !== undefined))).sort();
+
+  let day: string | null = null;
+  if (date) {
+    day = date;
+  } else if (days.length > 0) {
+    day = days.includes(localDay(now)) ? localDay(now) : days[0];
+  }
+
+  const selected = day === null ? races : races.filter((r) => scheduleDay(r.startTime) === day);
+  const tables: ExportTable[] = [];
+  for (const race of selected) {
+    tables.push(await buildStartlistTable(service, race));
+  }
+
+  const eventName = (await service.getEventName()) ?? 'Startlist';
+  return {
+    day,
+    document: {
+      title: day ? `${eventName} – ${day}` : eventName,
+      tables,
+      keyHeader: 'RaceId',
+    },
+  };
+}
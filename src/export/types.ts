@@ -0,0 +1,48 @@
+/**
+ * Column of an export table
+ */
+export interface ExportColumn {
+  header: string;
+  /** Relative width, scaled to the printable page width */
+  width: number;
+  align?: 'left' | 'right' | undefined;
+}
+
+/**
+ * One line of an export table
+ */
+export interface ExportRow {
+  cells: string[];
+  /** Secondary line printed below the row (e.g. gate penalties), PDF only */
+  detail?: string | undefined;
+  /** Values of the table's CSV-only columns */
+  csvCells?: string[] | undefined;
+}
+
+/**
+ * Table with a heading, e.g. the results of one race
+ */
+export interface ExportTable {
+  title: string;
+  /** Identifies the table in a combined CSV, e.g. the race ID */
+  key?: string | undefined;
+  subtitle?: string | undefined;
+  columns: ExportColumn[];
+  rows: ExportRow[];
+  /** Headers of columns that only CSV gets, after the printed ones */
+  csvColumns?: string[] | undefined;
+}
+
+/**
+ * Printable document made of one or more tables
+ */
+export interface ExportDocument {
+  /** Printed at the top of every page, usually the event name */
+  title: string;
+  tables: ExportTable[];
+  orientation?: 'portrait' | 'landscape' | undefined;
+  /** Printed in the footer of every page */
+  footer?: string | undefined;
+  /** CSV header of the key column when several tables share one CSV */
+  keyHeader?: string | undefined;
+}
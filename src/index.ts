@@ -4,6 +4,7 @@ export * from './state/index.js';
 export * from './ws/index.js';
 export * from './admin/index.js';
 export * from './service/index.js';
+export * from './metrics/index.js';
 export { Server } from './server.js';
 export type { ServerConfig, ServerEvents } from './server.js';
 export { Logger } from './utils/logger.js';
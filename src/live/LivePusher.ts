@@ -22,6 +22,7 @@ import type {
   EventStatus,
 } from './types.js';
 import { Logger } from '../utils/logger.js';
+import { getMetrics } from '../metrics/index.js';
 
 /**
  * Pusher events
@@ -798,6 +799,7 @@ export class LivePusher extends EventEmitter<LivePusherEvents> {
     channelStatus.lastPushAt = new Date().toISOString();
     channelStatus.lastError = null;
     channelStatus.totalPushes++;
+    getMetrics().livePushes.inc({ channel, result: 'success' });
 
     this.emitStatusChange();
   }
@@ -825,6 +827,7 @@ export class LivePusher extends EventEmitter<LivePusherEvents> {
     const channelStatus = this.status.channels[channel];
     channelStatus.lastError = error.message;
     channelStatus.totalErrors++;
+    getMetrics().livePushes.inc({ channel, result: 'failure' });
 
     // Update global error
     this.status.lastError = `${channel}: ${error.message}`;
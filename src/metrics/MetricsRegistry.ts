@@ -0,0 +1,209 @@
+/**
+ * Minimal Prometheus metrics: counters, gauges and histograms with labels,
+ * rendered in the text exposition format (version 0.0.4) that Prometheus and
+ * OpenMetrics scrapers accept.
+ */
+
+/**
+ * Label values of one time series
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Content-Type of the text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default histogram buckets in seconds, tuned for file parsing and HTTP calls
+ */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+interface Metric {
+  render(): string[];
+}
+
+abstract class LabeledMetric<T> implements Metric {
+  protected readonly series = new Map<string, { labels: MetricLabels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: readonly string[],
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  /**
+   * Drop all recorded values
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected entry(labels: MetricLabels, init: () => T): { labels: MetricLabels; value: T } {
+    const key = this.labelNames.map((name) => labels[name] ?? '').join('\u0000');
+    let entry = this.series.get(key);
+    if (!entry) {
+      const picked: MetricLabels = {};
+      for (const name of this.labelNames) {
+        picked[name] = labels[name] ?? '';
+      }
+      entry = { labels: picked, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+  }
+
+  protected abstract renderSeries(): string[];
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames, 'counter');
+  }
+
+  inc(labels: MetricLabels = {}, value = 1): void {
+    this.entry(labels, () => 0).value += value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.entry(labels, () => 0).value;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+}
+
+/**
+ * Value that can go up and down
+ */
+export class Gauge extends LabeledMetric<number> {
+  constructor(name: string, help: string, labelNames: readonly string[] = []) {
+    super(name, help, labelNames, 'gauge');
+  }
+
+  set(value: number, labels: MetricLabels = {}): void {
+    this.entry(labels, () => 0).value = value;
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.entry(labels, () => 0).value;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map((s) => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values in cumulative buckets
+ */
+export class Histogram extends LabeledMetric<HistogramValue> {
+  private readonly buckets: readonly number[];
+
+  constructor(name: string, help: string, buckets: readonly number[] = DEFAULT_BUCKETS, labelNames: readonly string[] = []) {
+    super(name, help, labelNames, 'histogram');
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: MetricLabels = {}): void {
+    const entry = this.entry(labels, () => ({ buckets: this.buckets.map(() => 0), sum: 0, count: 0 })).value;
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.buckets[i]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  /**
+   * Start a timer; calling the returned function observes the elapsed seconds
+   */
+  startTimer(labels: MetricLabels = {}): () => number {
+    const start = process.hrtime.bigint();
+    return () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe(seconds, labels);
+      return seconds;
+    };
+  }
+
+  protected renderSeries(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(value.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Collection of metrics rendered together
+ */
+export class MetricsRegistry {
+  private readonly metrics: Metric[] = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, buckets?: readonly number[], labelNames: readonly string[] = []): Histogram {
+    return this.register(new Histogram(name, help, buckets, labelNames));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  render(): string {
+    return this.metrics.flatMap((m) => m.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
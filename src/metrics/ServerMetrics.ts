@@ -0,0 +1,89 @@
+import { MetricsRegistry } from './MetricsRegistry.js';
+import type { Counter, Gauge, Histogram } from './MetricsRegistry.js';
+
+/**
+ * Outcome of a Write API command
+ */
+export type WriteCommandResult = 'success' | 'failure' | 'queued';
+
+/**
+ * Metrics exposed on GET /metrics.
+ *
+ * Counters and the histogram are updated where things happen (TcpSource,
+ * Server, XmlDataService, LivePusher). Gauges describe current state and are
+ * refreshed by UnifiedServer right before rendering.
+ */
+export class ServerMetrics {
+  readonly registry = new MetricsRegistry();
+
+  readonly tcpMessages: Counter = this.registry.counter(
+    'c123_tcp_messages_total',
+    'C123 messages received, by parsed message type',
+    ['type']
+  );
+  readonly tcpReconnects: Counter = this.registry.counter(
+    'c123_tcp_reconnects_total',
+    'Reconnect attempts to the C123 TCP source'
+  );
+  readonly tcpConnected: Gauge = this.registry.gauge(
+    'c123_tcp_connected',
+    'Whether the C123 TCP source is connected (1) or not (0)'
+  );
+  readonly scoreboardSessions: Gauge = this.registry.gauge(
+    'c123_scoreboard_sessions',
+    'Connected scoreboard WebSocket sessions'
+  );
+  readonly xmlReloads: Counter = this.registry.counter(
+    'c123_xml_reloads_total',
+    'XML file reloads after a content change'
+  );
+  readonly xmlParseDuration: Histogram = this.registry.histogram(
+    'c123_xml_parse_duration_seconds',
+    'Time spent parsing the XML file'
+  );
+  readonly livePushes: Counter = this.registry.counter(
+    'c123_live_pushes_total',
+    'Pushes to c123-live, by channel and result',
+    ['channel', 'result']
+  );
+  readonly liveCircuitBreakerOpen: Gauge = this.registry.gauge(
+    'c123_live_circuit_breaker_open',
+    'Whether the c123-live circuit breaker is open (1) or closed (0)'
+  );
+  readonly liveConsecutiveFailures: Gauge = this.registry.gauge(
+    'c123_live_consecutive_failures',
+    'Consecutive failed pushes to c123-live'
+  );
+  readonly writeCommands: Counter = this.registry.counter(
+    'c123_write_commands_total',
+    'Write API commands, by command and result',
+    ['command', 'result']
+  );
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  render(): string {
+    return this.registry.render();
+  }
+}
+
+// Global metrics instance
+let globalMetrics: ServerMetrics | null = null;
+
+/**
+ * Get or create the global metrics instance
+ */
+export function getMetrics(): ServerMetrics {
+  if (!globalMetrics) {
+    globalMetrics = new ServerMetrics();
+  }
+  return globalMetrics;
+}
+
+/**
+ * Reset the global metrics instance (for testing)
+ */
+export function resetMetrics(): void {
+  globalMetrics = null;
+}
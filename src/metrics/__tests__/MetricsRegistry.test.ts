@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MetricsRegistry } from '../MetricsRegistry.js';
+import { getMetrics, resetMetrics } from '../ServerMetrics.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('renders HELP and TYPE lines for every metric', () => {
+    registry.counter('jobs_total', 'Jobs done');
+    registry.gauge('queue_size', 'Items waiting');
+
+    const lines = registry.render().split('\n');
+    expect(lines).toContain('# HELP jobs_total Jobs done');
+    expect(lines).toContain('# TYPE jobs_total counter');
+    expect(lines).toContain('# TYPE queue_size gauge');
+  });
+
+  it('keeps one series per label combination', () => {
+    const counter = registry.counter('messages_total', 'Messages', ['type']);
+    counter.inc({ type: 'oncourse' });
+    counter.inc({ type: 'oncourse' });
+    counter.inc({ type: 'results' }, 3);
+
+    const output = registry.render();
+    expect(output).toContain('messages_total{type="oncourse"} 2');
+    expect(output).toContain('messages_total{type="results"} 3');
+    expect(counter.get({ type: 'oncourse' })).toBe(2);
+  });
+
+  it('renders unlabeled metrics without braces', () => {
+    registry.gauge('connected', 'Connected').set(1);
+    expect(registry.render()).toContain('\nconnected 1\n');
+  });
+
+  it('escapes label values', () => {
+    registry.counter('errors_total', 'Errors', ['message']).inc({ message: 'a "quoted"\\path\nnext' });
+    expect(registry.render()).toContain('errors_total{message="a \\"quoted\\"\\\\path\\nnext"} 1');
+  });
+
+  it('renders cumulative histogram buckets with sum and count', () => {
+    const histogram = registry.histogram('parse_seconds', 'Parse time', [0.1, 1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    histogram.observe(2);
+
+    const output = registry.render();
+    expect(output).toContain('# TYPE parse_seconds histogram');
+    expect(output).toContain('parse_seconds_bucket{le="0.1"} 1');
+    expect(output).toContain('parse_seconds_bucket{le="1"} 2');
+    expect(output).toContain('parse_seconds_bucket{le="+Inf"} 3');
+    expect(output).toContain('parse_seconds_sum 2.55');
+    expect(output).toContain('parse_seconds_count 3');
+  });
+
+  it('observes elapsed seconds with startTimer', () => {
+    const histogram = registry.histogram('op_seconds', 'Op time');
+    const seconds = histogram.startTimer()();
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(registry.render()).toContain('op_seconds_count 1');
+  });
+});
+
+describe('getMetrics', () => {
+  beforeEach(() => {
+    resetMetrics();
+  });
+
+  it('returns the same instance until reset', () => {
+    const metrics = getMetrics();
+    metrics.tcpReconnects.inc();
+    expect(getMetrics()).toBe(metrics);
+
+    resetMetrics();
+    expect(getMetrics()).not.toBe(metrics);
+    expect(getMetrics().tcpReconnects.get()).toBe(0);
+  });
+});
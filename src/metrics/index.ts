@@ -0,0 +1,11 @@
+export {
+  Counter,
+  Gauge,
+  Histogram,
+  MetricsRegistry,
+  DEFAULT_BUCKETS,
+  PROMETHEUS_CONTENT_TYPE,
+} from './MetricsRegistry.js';
+export type { MetricLabels } from './MetricsRegistry.js';
+export { ServerMetrics, getMetrics, resetMetrics } from './ServerMetrics.js';
+export type { WriteCommandResult } from './ServerMetrics.js';
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { applyJsonPatch, createJsonPatch } from '../json-patch.js';
+
+function roundTrip(from: unknown, to: unknown): unknown {
+  return applyJsonPatch(from, createJsonPatch(from, to));
+}
+
+describe('createJsonPatch', () => {
+  it('returns no operations for equal documents', () => {
+    expect(createJsonPatch({ a: [1, { b: 'x' }] }, { a: [1, { b: 'x' }] })).toEqual([]);
+  });
+
+  it('replaces changed values by path', () => {
+    expect(createJsonPatch({ time: '81', rows: [{ pen: 0 }] }, { time: '82', rows: [{ pen: 2 }] })).toEqual([
+      { op: 'replace', path: '/time', value: '82' },
+      { op: 'replace', path: '/rows/0/pen', value: 2 },
+    ]);
+  });
+
+  it('adds and removes object keys', () => {
+    expect(createJsonPatch({ a: 1, b: 2 }, { b: 2, c: 3 })).toEqual([
+      { op: 'remove', path: '/a' },
+      { op: 'add', path: '/c', value: 3 },
+    ]);
+  });
+
+  it('appends and trims array elements from the end', () => {
+    expect(createJsonPatch([1, 2], [1, 2, 3, 4])).toEqual([
+      { op: 'add', path: '/2', value: 3 },
+      { op: 'add', path: '/3', value: 4 },
+    ]);
+    expect(createJsonPatch([1, 2, 3, 4], [1, 2])).toEqual([
+      { op: 'remove', path: '/3' },
+      { op: 'remove', path: '/2' },
+    ]);
+  });
+
+  it('escapes keys in paths', () => {
+    expect(createJsonPatch({ 'a/b': 1, 'c~d': 1 }, { 'a/b': 2, 'c~d': 2 })).toEqual([
+      { op: 'replace', path: '/a~1b', value: 2 },
+      { op: 'replace', path: '/c~0d', value: 2 },
+    ]);
+  });
+
+  it('replaces values whose type changed', () => {
+    expect(createJsonPatch({ a: [1] }, { a: { 0: 1 } })).toEqual([{ op: 'replace', path: '/a', value: { 0: 1 } }]);
+    expect(createJsonPatch({ a: null }, { a: 'x' })).toEqual([{ op: 'replace', path: '/a', value: 'x' }]);
+  });
+});
+
+describe('applyJsonPatch', () => {
+  it('reproduces the target document', () => {
+    const cases: Array<[unknown, unknown]> = [
+      [{ competitors: [{ bib: '1' }, { bib: '2' }] }, { competitors: [{ bib: '2' }] }],
+      [{ competitors: [] }, { competitors: [{ bib: '3', gates: '0,2' }] }],
+      [{ a: { b: { c: 1 } } }, { a: { b: { d: [1, 2] } } }],
+      [{ 'x/y': ['~'] }, { 'x/y': ['~', '/'] }],
+      [[1, [2, 3]], [[4], 1]],
+    ];
+    for (const [from, to] of cases) {
+      expect(roundTrip(from, to)).toEqual(to);
+    }
+  });
+
+  it('does not modify the input document', () => {
+    const doc = { rows: [{ pen: 0 }] };
+    applyJsonPatch(doc, [{ op: 'replace', path: '/rows/0/pen', value: 2 }]);
+    expect(doc).toEqual({ rows: [{ pen: 0 }] });
+  });
+
+  it('supports - for appending to arrays', () => {
+    expect(applyJsonPatch({ a: [1] }, [{ op: 'add', path: '/a/-', value: 2 }])).toEqual({ a: [1, 2] });
+  });
+
+  it('throws for paths that do not exist', () => {
+    expect(() => applyJsonPatch({ a: 1 }, [{ op: 'replace', path: '/b/c', value: 1 }])).toThrow('Path not found');
+    expect(() => applyJsonPatch({ a: [] }, [{ op: 'add', path: '/a/5', value: 1 }])).toThrow('Invalid array index');
+  });
+});
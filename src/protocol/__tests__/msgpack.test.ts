@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { decodeMsgPack, encodeMsgPack } from '../msgpack.js';
+
+describe('encodeMsgPack', () => {
+  it('uses the compact forms for small values', () => {
+    expect([...encodeMsgPack(null)]).toEqual([0xc0]);
+    expect([...encodeMsgPack(true)]).toEqual([0xc3]);
+    expect([...encodeMsgPack(false)]).toEqual([0xc2]);
+    expect([...encodeMsgPack(5)]).toEqual([0x05]);
+    expect([...encodeMsgPack(-3)]).toEqual([0xfd]);
+    expect([...encodeMsgPack('ab')]).toEqual([0xa2, 0x61, 0x62]);
+    expect([...encodeMsgPack([1, 2])]).toEqual([0x92, 0x01, 0x02]);
+    expect([...encodeMsgPack({ a: 1 })]).toEqual([0x81, 0xa1, 0x61, 0x01]);
+  });
+
+  it('picks the integer width by range', () => {
+    expect([...encodeMsgPack(200)]).toEqual([0xcc, 200]);
+    expect([...encodeMsgPack(1000)]).toEqual([0xcd, 0x03, 0xe8]);
+    expect([...encodeMsgPack(-100)]).toEqual([0xd0, 0x9c]);
+    expect(encodeMsgPack(70000)[0]).toBe(0xce);
+    expect(encodeMsgPack(-40000)[0]).toBe(0xd2);
+  });
+
+  it('writes floats and large integers as float64', () => {
+    expect(encodeMsgPack(81.23)[0]).toBe(0xcb);
+    expect(encodeMsgPack(2 ** 40)[0]).toBe(0xcb);
+  });
+
+  it('leaves out undefined object values like JSON does', () => {
+    expect(decodeMsgPack(encodeMsgPack({ a: 1, b: undefined }))).toEqual({ a: 1 });
+  });
+
+  it('uses 8, 16 and 32 bit lengths for long strings', () => {
+    expect(encodeMsgPack('x'.repeat(40))[0]).toBe(0xd9);
+    expect(encodeMsgPack('x'.repeat(300))[0]).toBe(0xda);
+    expect(encodeMsgPack('x'.repeat(70000))[0]).toBe(0xdb);
+  });
+});
+
+describe('decodeMsgPack', () => {
+  it('round-trips a scoreboard message', () => {
+    const message = {
+      type: 'OnCourse',
+      timestamp: '2025-01-02T10:31:12.000Z',
+      seq: 1042,
+      data: {
+        total: 1,
+        competitors: [
+          {
+            bib: '9',
+            name: 'PRSKAVEC Jiří',
+            gates: '0,0,2,,,,,,,,,,,,,,,,,,,,,',
+            pen: 2,
+            time: '81.23',
+            ttbDiff: '-1.05',
+            position: 1,
+            completed: false,
+          },
+        ],
+      },
+    };
+
+    expect(decodeMsgPack(encodeMsgPack(message))).toEqual(message);
+  });
+
+  it('round-trips large collections', () => {
+    const rows = Array.from({ length: 300 }, (_, i) => ({ rank: i + 1, total: 90 + i / 100 }));
+    expect(decodeMsgPack(encodeMsgPack({ rows }))).toEqual({ rows });
+  });
+
+  it('round-trips binary data', () => {
+    const decoded = decodeMsgPack(encodeMsgPack(Buffer.from([1, 2, 3])));
+    expect(Buffer.isBuffer(decoded)).toBe(true);
+    expect([...(decoded as Buffer)]).toEqual([1, 2, 3]);
+  });
+
+  it('reads float32 and 64 bit integers', () => {
+    const float32 = Buffer.from([0xca, 0, 0, 0, 0]);
+    float32.writeFloatBE(1.5, 1);
+    expect(decodeMsgPack(float32)).toBe(1.5);
+    expect(decodeMsgPack(Buffer.from([0xcf, 0, 0, 0, 1, 0, 0, 0, 0]))).toBe(2 ** 32);
+  });
+
+  it('rejects truncated data', () => {
+    expect(() => decodeMsgPack(Buffer.from([0xa3, 0x61]))).toThrow('Truncated');
+  });
+
+  it('rejects trailing bytes', () => {
+    expect(() => decodeMsgPack(Buffer.from([0x01, 0x02]))).toThrow('Unexpected data');
+  });
+
+  it('rejects ext types', () => {
+    expect(() => decodeMsgPack(Buffer.from([0xd4, 0x01, 0x00]))).toThrow('Unsupported');
+  });
+});
@@ -6,3 +6,5 @@ export * from './parser-types.js';
 export * from './types.js';
 export * from './factory.js';
 export * from './xml-parser.js';
+export * from './json-patch.js';
+export * from './msgpack.js';
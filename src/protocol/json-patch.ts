@@ -0,0 +1,133 @@
+/**
+ * Minimal JSON Patch (RFC 6902) support for delta-encoded messages.
+ *
+ * Only `add`, `remove` and `replace` are produced. Paths are JSON Pointers
+ * (RFC 6901). Documents are expected to be plain JSON (no undefined values,
+ * dates or class instances).
+ */
+
+/**
+ * One JSON Patch operation
+ */
+export type JsonPatchOp =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown };
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapeToken(token: string): string {
+  return token.replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+/**
+ * Operations that turn `from` into `to`.
+ *
+ * Arrays are compared index by index; extra elements are appended or removed
+ * from the end.
+ */
+export function createJsonPatch(from: unknown, to: unknown): JsonPatchOp[] {
+  const ops: JsonPatchOp[] = [];
+  diff(from, to, '', ops);
+  return ops;
+}
+
+function diff(from: unknown, to: unknown, path: string, ops: JsonPatchOp[]): void {
+  if (from === to) {
+    return;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length);
+    for (let i = 0; i < common; i++) {
+      diff(from[i], to[i], `${path}/${i}`, ops);
+    }
+    for (let i = from.length - 1; i >= to.length; i--) {
+      ops.push({ op: 'remove', path: `${path}/${i}` });
+    }
+    for (let i = from.length; i < to.length; i++) {
+      ops.push({ op: 'add', path: `${path}/${i}`, value: to[i] });
+    }
+    return;
+  }
+
+  if (isObject(from) && isObject(to)) {
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) {
+        ops.push({ op: 'remove', path: `${path}/${escapeToken(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(to)) {
+      const childPath = `${path}/${escapeToken(key)}`;
+      if (key in from) {
+        diff(from[key], value, childPath, ops);
+      } else {
+        ops.push({ op: 'add', path: childPath, value });
+      }
+    }
+    return;
+  }
+
+  ops.push({ op: 'replace', path, value: to });
+}
+
+/**
+ * Apply operations to a copy of a document
+ *
+ * @throws Error if a path does not exist in the document
+ */
+export function applyJsonPatch<T>(document: T, ops: JsonPatchOp[]): T {
+  let root: unknown = structuredClone(document);
+
+  for (const op of ops) {
+    if (op.path === '') {
+      if (op.op === 'remove') {
+        throw new Error('Cannot remove the document root');
+      }
+      root = structuredClone(op.value);
+      continue;
+    }
+
+    const tokens = op.path.slice(1).split('/').map(unescapeToken);
+    const last = tokens.pop()!;
+    let parent: unknown = root;
+    for (const token of tokens) {
+      parent = Array.isArray(parent) ? parent[Number(token)] : isObject(parent) ? parent[token] : undefined;
+      if (parent === undefined) {
+        throw new Error(`Path not found: ${op.path}`);
+      }
+    }
+
+    if (Array.isArray(parent)) {
+      const index = last === '-' ? parent.length : Number(last);
+      if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+        throw new Error(`Invalid array index in ${op.path}`);
+      }
+      if (op.op === 'add') {
+        parent.splice(index, 0, structuredClone(op.value));
+      } else if (op.op === 'remove') {
+        parent.splice(index, 1);
+      } else {
+        parent[index] = structuredClone(op.value);
+      }
+    } else if (isObject(parent)) {
+      if (op.op === 'remove') {
+        delete parent[last];
+      } else {
+        parent[last] = structuredClone(op.value);
+      }
+    } else {
+      throw new Error(`Path not found: ${op.path}`);
+    }
+  }
+
+  return root as T;
+}
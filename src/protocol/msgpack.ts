@@ -0,0 +1,235 @@
+/**
+ * Minimal MessagePack encoder/decoder for the binary WebSocket encoding.
+ *
+ * Covers the JSON data model (nil, booleans, numbers, strings, arrays, maps)
+ * plus binary data. Object keys with undefined values are left out, as
+ * JSON.stringify does. Integers outside the 32-bit range are written as
+ * float64.
+ */
+
+/**
+ * Encode a value as MessagePack
+ */
+export function encodeMsgPack(value: unknown): Buffer {
+  const chunks: Buffer[] = [];
+  write(value, chunks);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Type byte and length for a string, binary, array or map
+ *
+ * @param fix - Fix-format prefix and the largest length it can hold, or null
+ * @param codes - Type bytes for 8, 16 and 32 bit lengths (0 = no 8 bit form)
+ */
+function header(length: number, fix: [number, number] | null, codes: [number, number, number]): Buffer {
+  if (fix && length <= fix[1]) {
+    return Buffer.from([fix[0] | length]);
+  }
+  if (codes[0] !== 0 && length < 0x100) {
+    return Buffer.from([codes[0], length]);
+  }
+  if (length < 0x10000) {
+    const buf = Buffer.alloc(3);
+    buf[0] = codes[1];
+    buf.writeUInt16BE(length, 1);
+    return buf;
+  }
+  const buf = Buffer.alloc(5);
+  buf[0] = codes[2];
+  buf.writeUInt32BE(length, 1);
+  return buf;
+}
+
+function writeNumber(value: number, chunks: Buffer[]): void {
+  if (Number.isInteger(value) && value >= -0x80000000 && value <= 0xffffffff) {
+    if (value >= 0) {
+      if (value < 0x80) {
+        chunks.push(Buffer.from([value]));
+      } else if (value < 0x100) {
+        chunks.push(Buffer.from([0xcc, value]));
+      } else if (value < 0x10000) {
+        const buf = Buffer.alloc(3);
+        buf[0] = 0xcd;
+        buf.writeUInt16BE(value, 1);
+        chunks.push(buf);
+      } else {
+        const buf = Buffer.alloc(5);
+        buf[0] = 0xce;
+        buf.writeUInt32BE(value, 1);
+        chunks.push(buf);
+      }
+      return;
+    }
+    if (value >= -32) {
+      chunks.push(Buffer.from([value & 0xff]));
+    } else if (value >= -0x80) {
+      const buf = Buffer.alloc(2);
+      buf[0] = 0xd0;
+      buf.writeInt8(value, 1);
+      chunks.push(buf);
+    } else if (value >= -0x8000) {
+      const buf = Buffer.alloc(3);
+      buf[0] = 0xd1;
+      buf.writeInt16BE(value, 1);
+      chunks.push(buf);
+    } else {
+      const buf = Buffer.alloc(5);
+      buf[0] = 0xd2;
+      buf.writeInt32BE(value, 1);
+      chunks.push(buf);
+    }
+    return;
+  }
+
+  const buf = Buffer.alloc(9);
+  buf[0] = 0xcb;
+  buf.writeDoubleBE(value, 1);
+  chunks.push(buf);
+}
+
+function write(value: unknown, chunks: Buffer[]): void {
+  if (value === null || value === undefined) {
+    chunks.push(Buffer.from([0xc0]));
+  } else if (typeof value === 'boolean') {
+    chunks.push(Buffer.from([value ? 0xc3 : 0xc2]));
+  } else if (typeof value === 'number') {
+    // JSON has no NaN or Infinity either
+    writeNumber(Number.isFinite(value) ? value : 0, chunks);
+  } else if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf-8');
+    chunks.push(header(bytes.length, [0xa0, 31], [0xd9, 0xda, 0xdb]));
+    chunks.push(bytes);
+  } else if (value instanceof Uint8Array) {
+    chunks.push(header(value.length, null, [0xc4, 0xc5, 0xc6]));
+    chunks.push(Buffer.from(value));
+  } else if (Array.isArray(value)) {
+    chunks.push(header(value.length, [0x90, 15], [0, 0xdc, 0xdd]));
+    for (const item of value) {
+      write(item, chunks);
+    }
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>).filter(([, v]) => v !== undefined);
+    chunks.push(header(entries.length, [0x80, 15], [0, 0xde, 0xdf]));
+    for (const [key, item] of entries) {
+      write(key, chunks);
+      write(item, chunks);
+    }
+  } else {
+    throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+  }
+}
+
+/**
+ * Decode a MessagePack value
+ *
+ * @throws Error for truncated input or unsupported types (ext, timestamps)
+ */
+export function decodeMsgPack(data: Uint8Array): unknown {
+  const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const reader = { buf, pos: 0 };
+  const value = read(reader);
+  if (reader.pos !== buf.length) {
+    throw new Error('Unexpected data after MessagePack value');
+  }
+  return value;
+}
+
+interface Reader {
+  buf: Buffer;
+  pos: number;
+}
+
+function take(reader: Reader, length: number): number {
+  const start = reader.pos;
+  if (start + length > reader.buf.length) {
+    throw new Error('Truncated MessagePack data');
+  }
+  reader.pos += length;
+  return start;
+}
+
+function readString(reader: Reader, length: number): string {
+  const start = take(reader, length);
+  return reader.buf.toString('utf-8', start, start + length);
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) {
+    items.push(read(reader));
+  }
+  return items;
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = read(reader);
+    map[String(key)] = read(reader);
+  }
+  return map;
+}
+
+function read(reader: Reader): unknown {
+  const { buf } = reader;
+  const type = buf[take(reader, 1)];
+
+  if (type < 0x80) return type;
+  if (type >= 0xe0) return type - 0x100;
+  if ((type & 0xf0) === 0x80) return readMap(reader, type & 0x0f);
+  if ((type & 0xf0) === 0x90) return readArray(reader, type & 0x0f);
+  if ((type & 0xe0) === 0xa0) return readString(reader, type & 0x1f);
+
+  switch (type) {
+    case 0xc0:
+      return null;
+    case 0xc2:
+      return false;
+    case 0xc3:
+      return true;
+    case 0xc4:
+    case 0xc5:
+    case 0xc6: {
+      const length = type === 0xc4 ? buf.readUInt8(take(reader, 1)) : type === 0xc5 ? buf.readUInt16BE(take(reader, 2)) : buf.readUInt32BE(take(reader, 4));
+      const start = take(reader, length);
+      return Buffer.from(buf.subarray(start, start + length));
+    }
+    case 0xca:
+      return buf.readFloatBE(take(reader, 4));
+    case 0xcb:
+      return buf.readDoubleBE(take(reader, 8));
+    case 0xcc:
+      return buf.readUInt8(take(reader, 1));
+    case 0xcd:
+      return buf.readUInt16BE(take(reader, 2));
+    case 0xce:
+      return buf.readUInt32BE(take(reader, 4));
+    case 0xcf:
+      return Number(buf.readBigUInt64BE(take(reader, 8)));
+    case 0xd0:
+      return buf.readInt8(take(reader, 1));
+    case 0xd1:
+      return buf.readInt16BE(take(reader, 2));
+    case 0xd2:
+      return buf.readInt32BE(take(reader, 4));
+    case 0xd3:
+      return Number(buf.readBigInt64BE(take(reader, 8)));
+    case 0xd9:
+      return readString(reader, buf.readUInt8(take(reader, 1)));
+    case 0xda:
+      return readString(reader, buf.readUInt16BE(take(reader, 2)));
+    case 0xdb:
+      return readString(reader, buf.readUInt32BE(take(reader, 4)));
+    case 0xdc:
+      return readArray(reader, buf.readUInt16BE(take(reader, 2)));
+    case 0xdd:
+      return readArray(reader, buf.readUInt32BE(take(reader, 4)));
+    case 0xde:
+      return readMap(reader, buf.readUInt16BE(take(reader, 2)));
+    case 0xdf:
+      return readMap(reader, buf.readUInt32BE(take(reader, 4)));
+    default:
+      throw new Error(`Unsupported MessagePack type 0x${type.toString(16)}`);
+  }
+}
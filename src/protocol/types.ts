@@ -13,6 +13,8 @@ import type {
   ScheduleMessage,
 } from './parser-types.js';
 import type { ClientConfig } from '../config/types.js';
+import type { JsonPatchOp } from './json-patch.js';
+import type { RankedRaceResults } from '../service/ranking.js';
 
 // Re-export parser types for convenience
 export type {
@@ -33,6 +35,8 @@ export type {
 interface C123MessageBase {
   /** ISO 8601 timestamp when message was received/created */
   timestamp: string;
+  /** Sequence number of a scoreboard broadcast (absent on per-client messages) */
+  seq?: number;
 }
 
 /**
@@ -85,8 +89,16 @@ export interface C123Connected extends C123MessageBase {
     version: string;
     /** Whether C123 source is connected */
     c123Connected: boolean;
+    /** Set while the C123 feed is stale (see SourceStale) */
+    c123Stale?: boolean;
     /** Whether XML file is loaded */
     xmlLoaded: boolean;
+    /** Server epoch; resume with `?since=<epoch>-<seq>` */
+    epoch?: string;
+    /** Sequence number of the latest broadcast, to resume from later */
+    seq?: number;
+    /** Whether the missed broadcasts follow (reconnect with ?since=) */
+    resumed?: boolean;
   };
 }
 
@@ -196,7 +208,7 @@ export interface C123ScoringEvent extends C123MessageBase {
     bib: string;
     /** Event-specific details */
     details:
-      | { gate: number; value: 0 | 2 | 50 | null; raceId?: string }  // for penalty (raceId = finished, null = delete)
+      | { gate: number; value: number | null; raceId?: string }  // for penalty (0/2/50, team race sums up to 150; raceId = finished, null = delete)
       | { reason: 'DNS' | 'DNF' | 'CAP'; position: number }  // for remove
       | { channelPosition: 'Start' | 'Finish' | 'Split1' | 'Split2' };  // for timing
   };
@@ -240,6 +252,69 @@ export interface C123FlagChanged extends C123MessageBase {
   data: import('../checks/types.js').FlagChangedEvent;
 }
 
+/**
+ * Projected ranks of the competitors on course, sent after every OnCourse
+ * (server-generated)
+ */
+export interface C123OnCourseProjection extends C123MessageBase {
+  type: 'OnCourseProjection';
+  data: import('../state/types.js').OnCourseProjection;
+}
+
+/**
+ * C123 feed went silent or came back (server-generated). Sent when no
+ * TimeOfDay heartbeat arrived for the stale timeout, and again once one does.
+ */
+export interface C123SourceStale extends C123MessageBase {
+  type: 'SourceStale';
+  data: {
+    /** Whether live data is stale (true) or flowing again (false) */
+    stale: boolean;
+    /** Time of the last TimeOfDay heartbeat (ISO 8601), null if none yet */
+    lastHeartbeat: string | null;
+  };
+}
+
+/**
+ * Results of the current race's class under its configured ranking rule,
+ * sent whenever the XML results change (server-generated)
+ */
+export interface C123RankedResults extends C123MessageBase {
+  type: 'RankedResults';
+  data: RankedRaceResults & {
+    /** Race the ranking was computed for */
+    raceId: string;
+  };
+}
+
+/**
+ * Split times of a race, sent whenever a competitor passes a split point
+ * (server-generated)
+ */
+export interface C123SplitTimes extends C123MessageBase {
+  type: 'SplitTimes';
+  data: import('../state/types.js').RaceSplits & {
+    /** The split impulse that triggered this message */
+    latest: { bib: string; split: number };
+  };
+}
+
+/**
+ * Delta against the previous OnCourse or Results message the client received
+ * (server-generated, only for clients with the 'delta' capability)
+ */
+export interface C123Delta extends C123MessageBase {
+  type: 'Delta';
+  data: {
+    /** Message type the patch applies to */
+    target: 'OnCourse' | 'Results';
+    /** seq of the message the patch applies to */
+    baseSeq: number;
+    /** JSON Patch operations on that message's data */
+    ops: JsonPatchOp[];
+  };
+}
+
 /**
  * Union of all C123 protocol messages
  */
@@ -259,7 +334,12 @@ export type C123Message =
   | C123ClientState
   | C123ScoringEvent
   | C123ChecksChanged
-  | C123FlagChanged;
+  | C123FlagChanged
+  | C123SplitTimes
+  | C123OnCourseProjection
+  | C123SourceStale
+  | C123RankedResults
+  | C123Delta;
 
 /**
  * Type guard for C123TimeOfDay
@@ -372,3 +452,31 @@ export function isChecksChanged(msg: C123Message): msg is C123ChecksChanged {
 export function isFlagChanged(msg: C123Message): msg is C123FlagChanged {
   return msg.type === 'FlagChanged';
 }
+
+/**
+ * Type guard for C123SplitTimes
+ */
+export function isSplitTimes(msg: C123Message): msg is C123SplitTimes {
+  return msg.type === 'SplitTimes';
+}
+
+/**
+ * Type guard for C123OnCourseProjection
+ */
+export function isOnCourseProjection(msg: C123Message): msg is C123OnCourseProjection {
+  return msg.type === 'OnCourseProjection';
+}
+
+/**
+ * Type guard for C123SourceStale
+ */
+export function isSourceStale(msg: C123Message): msg is C123SourceStale {
+  return msg.type === 'SourceStale';
+}
+
+/**
+ * Type guard for C123RankedResults
+ */
+export function isRankedResults(msg: C123Message): msg is C123RankedResults {
+  return msg.type === 'RankedResults';
+}
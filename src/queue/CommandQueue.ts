@@ -0,0 +1,240 @@
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import * as crypto from 'node:crypto';
+import { Logger } from '../utils/logger.js';
+import type {
+  QueuedCommand,
+  QueuedCommandInput,
+  QueueConflict,
+  QueueReplayResult,
+  CommandQueueEvents,
+} from './types.js';
+
+/**
+ * Configuration for CommandQueue
+ */
+export interface CommandQueueConfig {
+  /** Queue file path (default: app data dir /command-queue.json) */
+  path?: string;
+  /** Failed sends after which a command is parked (default: 3) */
+  maxSendAttempts?: number;
+}
+
+/**
+ * Default number of failed sends after which a command is parked
+ */
+export const DEFAULT_MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * Get platform-specific command queue file path
+ * - Windows: %APPDATA%\c123-server\command-queue.json
+ * - Linux/macOS: ~/.c123-server/command-queue.json
+ */
+export function getCommandQueuePath(): string {
+  if (os.platform() === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    return path.join(appData, 'c123-server', 'command-queue.json');
+  }
+  return path.join(os.homedir(), '.c123-server', 'command-queue.json');
+}
+
+/**
+ * CommandQueue holds write commands issued while C123 was unreachable and
+ * replays them in order once it is back.
+ *
+ * The queue is written to disk on every change, so a judge's penalties
+ * survive a server restart during the outage as well. Commands that conflict
+ * with the live state at replay time are kept with the conflict attached and
+ * wait for an operator to send or discard them. So are commands that failed
+ * to send too often, so that one bad command cannot hold up the queue.
+ */
+export class CommandQueue extends EventEmitter<CommandQueueEvents> {
+  private readonly filePath: string;
+  private readonly maxSendAttempts: number;
+  private commands: QueuedCommand[] = [];
+  private replaying = false;
+
+  constructor(config?: CommandQueueConfig) {
+    super();
+    this.filePath = config?.path ?? getCommandQueuePath();
+    this.maxSendAttempts = config?.maxSendAttempts ?? DEFAULT_MAX_SEND_ATTEMPTS;
+    this.load();
+  }
+
+  /**
+   * All queued commands in replay order
+   */
+  getAll(): QueuedCommand[] {
+    return this.commands.map((c) => ({ ...c }));
+  }
+
+  /**
+   * Get a queued command by ID
+   */
+  get(id: string): QueuedCommand | undefined {
+    const command = this.commands.find((c) => c.id === id);
+    return command ? { ...command } : undefined;
+  }
+
+  /**
+   * Number of queued commands without a conflict
+   */
+  get pendingCount(): number {
+    return this.commands.filter((c) => !c.conflict).length;
+  }
+
+  /**
+   * Whether a replay is in progress
+   */
+  get isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  /**
+   * Add a command to the end of the queue
+   */
+  enqueue(input: QueuedCommandInput): QueuedCommand {
+    const command: QueuedCommand = {
+      id: crypto.randomUUID(),
+      queuedAt: new Date().toISOString(),
+      ...input,
+    };
+    this.commands.push(command);
+    this.changed();
+    return { ...command };
+  }
+
+  /**
+   * Remove a command (sent manually or discarded)
+   *
+   * @returns true if the command was queued
+   */
+  remove(id: string): boolean {
+    const index = this.commands.findIndex((c) => c.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.commands.splice(index, 1);
+    this.changed();
+    return true;
+  }
+
+  /**
+   * Replay pending commands in order.
+   *
+   * Commands with a conflict are held back and skipped; the rest continue.
+   * A send failure stops the run, since C123 has most likely gone away again
+   * and every later command would fail the same way. A command that failed
+   * maxSendAttempts times is parked with a 'send-failed' conflict instead and
+   * the run continues with the next one.
+   *
+   * @param send - Sends one command to C123, throws on failure
+   * @param detectConflict - Checks a command against the live state
+   */
+  async replay(
+    send: (command: QueuedCommand) => Promise<void>,
+    detectConflict: (command: QueuedCommand) => QueueConflict | null
+  ): Promise<QueueReplayResult> {
+    const result: QueueReplayResult = { sent: 0, conflicts: 0, remaining: this.commands.length };
+    if (this.replaying) {
+      return result;
+    }
+
+    this.replaying = true;
+    const tried = new Set<string>();
+    try {
+      // Look the next command up afresh each time: commands may be discarded
+      // or sent by an operator, or queued behind the others, while a send is
+      // in flight
+      for (;;) {
+        const command = this.commands.find((c) => !c.conflict && !tried.has(c.id));
+        if (!command) {
+          break;
+        }
+        tried.add(command.id);
+
+        const conflict = detectConflict(command);
+        if (conflict) {
+          command.conflict = conflict;
+          result.conflicts++;
+          Logger.warn('CommandQueue', `Held back ${command.command} bib=${command.payload.bib}: ${conflict.detail}`);
+          this.changed();
+          continue;
+        }
+
+        try {
+          await send(command);
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          command.failedAttempts = (command.failedAttempts ?? 0) + 1;
+          if (command.failedAttempts >= this.maxSendAttempts) {
+            command.conflict = {
+              reason: 'send-failed',
+              detail: `Sending failed ${command.failedAttempts} times: ${message}`,
+            };
+            result.conflicts++;
+            Logger.warn('CommandQueue', `Parked ${command.command} bib=${command.payload.bib}: ${message}`);
+            this.changed();
+            continue;
+          }
+          this.changed();
+          Logger.warn('CommandQueue', `Replay stopped: ${message}`);
+          break;
+        }
+
+        this.commands = this.commands.filter((c) => c.id !== command.id);
+        result.sent++;
+        this.changed();
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    result.remaining = this.commands.length;
+    if (result.sent > 0 || result.conflicts > 0) {
+      Logger.info(
+        'CommandQueue',
+        `Replayed ${result.sent} command(s), ${result.conflicts} conflict(s), ${result.remaining} left`
+      );
+    }
+    return result;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as { commands?: QueuedCommand[] };
+      this.commands = Array.isArray(data.commands) ? data.commands : [];
+      if (this.commands.length > 0) {
+        Logger.info('CommandQueue', `Loaded ${this.commands.length} queued command(s) from ${this.filePath}`);
+      }
+    } catch (error) {
+      Logger.error('CommandQueue', `Error loading command queue: ${error}`);
+    }
+  }
+
+  private changed(): void {
+    this.save();
+    this.emit('change', this.getAll());
+  }
+
+  /**
+   * Write the queue atomically (temp file + rename), so a crash mid-write
+   * cannot leave a truncated queue behind
+   */
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify({ commands: this.commands }, null, 2), 'utf-8');
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      Logger.error('CommandQueue', `Error saving command queue: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CommandQueue } from '../CommandQueue.js';
+import type { QueuedCommand, QueuedCommandInput } from '../types.js';
+
+function scoring(bib: string, gate = 1): QueuedCommandInput {
+  return {
+    command: 'scoring',
+    payload: { bib, gate, value: 2 },
+    clientIp: '192.168.1.50',
+    raceId: 'K1M_ST_BR1_6',
+  };
+}
+
+describe('CommandQueue', () => {
+  let tempDir: string;
+  let filePath: string;
+  let queue: CommandQueue;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'command-queue-test-'));
+    filePath = join(tempDir, 'command-queue.json');
+    queue = new CommandQueue({ path: filePath });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('enqueues in order and persists to disk', () => {
+    queue.enqueue(scoring('1'));
+    queue.enqueue(scoring('2'));
+
+    expect(queue.getAll().map((c) => c.payload.bib)).toEqual(['1', '2']);
+    expect(queue.pendingCount).toBe(2);
+
+    const stored = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(stored.commands).toHaveLength(2);
+    expect(existsSync(`${filePath}.tmp`)).toBe(false);
+  });
+
+  it('survives a restart', () => {
+    const queued = queue.enqueue(scoring('7'));
+
+    const reloaded = new CommandQueue({ path: filePath });
+    expect(reloaded.get(queued.id)?.payload.bib).toBe('7');
+  });
+
+  it('removes commands', () => {
+    const queued = queue.enqueue(scoring('1'));
+    expect(queue.remove(queued.id)).toBe(true);
+    expect(queue.remove(queued.id)).toBe(false);
+    expect(queue.getAll()).toEqual([]);
+  });
+
+  it('emits change events', () => {
+    const sizes: number[] = [];
+    queue.on('change', (commands) => sizes.push(commands.length));
+
+    const queued = queue.enqueue(scoring('1'));
+    queue.remove(queued.id);
+
+    expect(sizes).toEqual([1, 0]);
+  });
+
+  describe('replay', () => {
+    it('sends commands in order and empties the queue', async () => {
+      queue.enqueue(scoring('1'));
+      queue.enqueue(scoring('2'));
+      queue.enqueue(scoring('3'));
+      const sent: string[] = [];
+
+      const result = await queue.replay(
+        async (c) => {
+          sent.push(c.payload.bib);
+        },
+        () => null
+      );
+
+      expect(sent).toEqual(['1', '2', '3']);
+      expect(result).toEqual({ sent: 3, conflicts: 0, remaining: 0 });
+      expect(queue.getAll()).toEqual([]);
+    });
+
+    it('holds back conflicting commands and continues with the rest', async () => {
+      queue.enqueue(scoring('1'));
+      queue.enqueue(scoring('2'));
+      const sent: string[] = [];
+
+      const result = await queue.replay(
+        async (c) => {
+          sent.push(c.payload.bib);
+        },
+        (c) => (c.payload.bib === '1' ? { reason: 'bib-finished', detail: 'finished' } : null)
+      );
+
+      expect(sent).toEqual(['2']);
+      expect(result).toEqual({ sent: 1, conflicts: 1, remaining: 1 });
+      expect(queue.getAll()[0].conflict?.reason).toBe('bib-finished');
+      expect(queue.pendingCount).toBe(0);
+    });
+
+    it('does not retry held-back commands on the next replay', async () => {
+      queue.enqueue(scoring('1'));
+      await queue.replay(async () => {}, () => ({ reason: 'not-on-course', detail: 'gone' }));
+
+      let calls = 0;
+      const result = await queue.replay(
+        async () => {
+          calls++;
+        },
+        () => null
+      );
+
+      expect(calls).toBe(0);
+      expect(result.remaining).toBe(1);
+    });
+
+    it('stops at the first send failure and keeps the remaining commands', async () => {
+      queue.enqueue(scoring('1'));
+      queue.enqueue(scoring('2'));
+      queue.enqueue(scoring('3'));
+
+      const result = await queue.replay(
+        async (c: QueuedCommand) => {
+          if (c.payload.bib === '2') throw new Error('Not connected');
+        },
+        () => null
+      );
+
+      expect(result).toEqual({ sent: 1, conflicts: 0, remaining: 2 });
+      expect(queue.getAll().map((c) => c.payload.bib)).toEqual(['2', '3']);
+    });
+
+    it('parks a command that keeps failing and lets the later ones through', async () => {
+      queue = new CommandQueue({ path: filePath, maxSendAttempts: 2 });
+      queue.enqueue(scoring('1'));
+      queue.enqueue(scoring('2'));
+      const sent: string[] = [];
+      const send = async (c: QueuedCommand) => {
+        if (c.payload.bib === '1') throw new Error('Rejected by C123');
+        sent.push(c.payload.bib);
+      };
+
+      expect(await queue.replay(send, () => null)).toEqual({ sent: 0, conflicts: 0, remaining: 2 });
+      expect(queue.get(queue.getAll()[0].id)?.failedAttempts).toBe(1);
+
+      expect(await queue.replay(send, () => null)).toEqual({ sent: 1, conflicts: 1, remaining: 1 });
+      expect(sent).toEqual(['2']);
+      expect(queue.pendingCount).toBe(0);
+      expect(queue.getAll()[0]).toMatchObject({
+        failedAttempts: 2,
+        conflict: { reason: 'send-failed', detail: 'Sending failed 2 times: Rejected by C123' },
+      });
+      expect(new CommandQueue({ path: filePath }).getAll()[0].conflict?.reason).toBe('send-failed');
+    });
+
+    it('skips commands discarded during the replay and picks up newly queued ones', async () => {
+      queue.enqueue(scoring('1'));
+      const discarded = queue.enqueue(scoring('2'));
+      const sent: string[] = [];
+
+      const result = await queue.replay(
+        async (c) => {
+          sent.push(c.payload.bib);
+          if (c.payload.bib === '1') {
+            queue.remove(discarded.id);
+            queue.enqueue(scoring('3'));
+          }
+        },
+        () => null
+      );
+
+      expect(sent).toEqual(['1', '3']);
+      expect(result).toEqual({ sent: 2, conflicts: 0, remaining: 0 });
+    });
+
+    it('ignores a replay while one is running', async () => {
+      queue.enqueue(scoring('1'));
+      let release: () => void = () => {};
+      const first = queue.replay(
+        () => new Promise<void>((resolve) => (release = resolve)),
+        () => null
+      );
+
+      expect(queue.isReplaying).toBe(true);
+      const second = await queue.replay(async () => {}, () => null);
+      expect(second.sent).toBe(0);
+
+      release();
+      expect((await first).sent).toBe(1);
+    });
+  });
+});
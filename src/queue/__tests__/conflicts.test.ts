@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { detectQueueConflict } from '../conflicts.js';
+import type { QueuedCommand } from '../types.js';
+import type { EventStateData } from '../../state/types.js';
+import type { OnCourseCompetitor, ResultsMessage } from '../../protocol/index.js';
+
+const RACE = 'K1M_ST_BR1_6';
+
+function command(payload: QueuedCommand['payload'], raceId: string | null = RACE): QueuedCommand {
+  const type = 'gate' in payload ? 'scoring' : 'reason' in payload ? 'remove-from-course' : 'timing';
+  return { id: 'x', queuedAt: '', command: type, payload, clientIp: null, raceId };
+}
+
+function competitor(bib: string, overrides: Partial<OnCourseCompetitor> = {}): OnCourseCompetitor {
+  return {
+    bib,
+    name: 'Test',
+    club: '',
+    nat: '',
+    raceId: RACE,
+    raceName: '',
+    startOrder: 1,
+    warning: '',
+    gates: '',
+    completed: false,
+    dtStart: '10:00:00.000',
+    dtFinish: null,
+    pen: 0,
+    time: null,
+    total: null,
+    ttbDiff: '',
+    ttbName: '',
+    rank: 0,
+    position: 1,
+    ...overrides,
+  };
+}
+
+function state(overrides: Partial<EventStateData> = {}): EventStateData {
+  return {
+    timeOfDay: null,
+    raceConfig: null,
+    schedule: [],
+    currentRaceId: RACE,
+    onCourse: [],
+    results: null,
+    highlightBib: null,
+    scheduleFingerprint: null,
+    ...overrides,
+  };
+}
+
+function resultsWith(bib: string, raceId = RACE): ResultsMessage {
+  return { raceId, rows: [{ bib }] } as unknown as ResultsMessage;
+}
+
+describe('detectQueueConflict', () => {
+  const penalty = { bib: '10', gate: 3, value: 2 as const };
+
+  it('allows a penalty for a bib still on course in the same race', () => {
+    expect(detectQueueConflict(command(penalty), state({ onCourse: [competitor('10')] }))).toBeNull();
+  });
+
+  it('never flags a penalty correction with an explicit raceId', () => {
+    expect(detectQueueConflict(command({ ...penalty, raceId: RACE }), state())).toBeNull();
+  });
+
+  it('flags a bib that finished while disconnected', () => {
+    const onCourse = [competitor('10', { dtFinish: '10:01:30.000', completed: true })];
+    expect(detectQueueConflict(command(penalty), state({ onCourse }))?.reason).toBe('bib-finished');
+  });
+
+  it('flags a bib that already left OnCourse for the results', () => {
+    expect(detectQueueConflict(command(penalty), state({ results: resultsWith('10') }))?.reason).toBe('bib-finished');
+  });
+
+  it('flags the same bib on course in another race', () => {
+    const onCourse = [competitor('10', { raceId: 'C1W_ST_BR1_7' })];
+    expect(detectQueueConflict(command(penalty), state({ onCourse }))?.reason).toBe('race-changed');
+  });
+
+  it('flags a race change when the bib is gone', () => {
+    const conflict = detectQueueConflict(command(penalty), state({ currentRaceId: 'C1W_ST_BR1_7' }));
+    expect(conflict?.reason).toBe('race-changed');
+  });
+
+  it('flags a bib that is no longer on course', () => {
+    expect(detectQueueConflict(command(penalty), state())?.reason).toBe('not-on-course');
+    expect(detectQueueConflict(command({ bib: '10', reason: 'DNF' }), state())?.reason).toBe('not-on-course');
+  });
+
+  it('allows a start impulse for a bib not yet on course', () => {
+    expect(detectQueueConflict(command({ bib: '10', channelPosition: 'Start' }), state())).toBeNull();
+  });
+
+  it('flags a finish impulse for a bib that already finished', () => {
+    const onCourse = [competitor('10', { dtFinish: '10:01:30.000' })];
+    const conflict = detectQueueConflict(command({ bib: '10', channelPosition: 'Finish' }), state({ onCourse }));
+    expect(conflict?.reason).toBe('bib-finished');
+  });
+});
@@ -0,0 +1,65 @@
+import type { EventStateData } from '../state/types.js';
+import type { QueuedCommand, QueueConflict } from './types.js';
+
+/**
+ * Check a queued command against the live state before replaying it.
+ *
+ * Bibs are only unique within a race, so the race the bib was on course in
+ * when the command was queued is what identifies the competitor. A penalty
+ * correction (explicit raceId) targets a finished run by definition and
+ * never conflicts.
+ *
+ * @returns the conflict, or null if the command can be sent as queued
+ */
+export function detectQueueConflict(command: QueuedCommand, state: Readonly<EventStateData>): QueueConflict | null {
+  const { payload } = command;
+  if ('raceId' in payload && payload.raceId) {
+    return null;
+  }
+
+  const bib = payload.bib.trim();
+  const onCourse = state.onCourse.find((c) => c.bib.trim() === bib);
+  const isStartImpulse = 'channelPosition' in payload && payload.channelPosition === 'Start';
+
+  if (onCourse) {
+    if (command.raceId && onCourse.raceId !== command.raceId) {
+      return {
+        reason: 'race-changed',
+        detail: `Bib ${bib} is now on course in ${onCourse.raceId}, command was for ${command.raceId}`,
+      };
+    }
+    if (onCourse.dtFinish && !isStartImpulse) {
+      return {
+        reason: 'bib-finished',
+        detail: `Bib ${bib} finished while C123 was unreachable`,
+      };
+    }
+    return null;
+  }
+
+  // A start impulse for a bib not yet on course is the normal case
+  if (isStartImpulse) {
+    return null;
+  }
+
+  const results = state.results;
+  const raceId = command.raceId ?? state.currentRaceId;
+  if (results && results.raceId === raceId && results.rows.some((r) => r.bib.trim() === bib)) {
+    return {
+      reason: 'bib-finished',
+      detail: `Bib ${bib} finished while C123 was unreachable`,
+    };
+  }
+
+  if (command.raceId && state.currentRaceId && command.raceId !== state.currentRaceId) {
+    return {
+      reason: 'race-changed',
+      detail: `Race changed from ${command.raceId} to ${state.currentRaceId}`,
+    };
+  }
+
+  return {
+    reason: 'not-on-course',
+    detail: `Bib ${bib} is no longer on course`,
+  };
+}
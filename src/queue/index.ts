@@ -0,0 +1,3 @@
+export * from './types.js';
+export * from './CommandQueue.js';
+export * from './conflicts.js';
@@ -0,0 +1,57 @@
+import type { ScoringCommandType, ScoringCommandRecord } from '../service/ScoringService.js';
+
+/**
+ * Why a queued command was held back instead of replayed
+ * - 'bib-finished': the competitor finished while C123 was unreachable
+ * - 'not-on-course': the competitor is no longer (or not yet) on course
+ * - 'race-changed': the bib is now on course in a different race
+ * - 'send-failed': C123 kept rejecting the command, so it was parked to let
+ *   the commands behind it through
+ */
+export type QueueConflictReason = 'bib-finished' | 'not-on-course' | 'race-changed' | 'send-failed';
+
+/** Conflict found when replaying a queued command */
+export interface QueueConflict {
+  reason: QueueConflictReason;
+  /** Human-readable explanation for the admin UI */
+  detail: string;
+}
+
+/** A write command held while C123 was not writable */
+export interface QueuedCommand {
+  /** Unique queue entry ID */
+  id: string;
+  /** When the command was queued */
+  queuedAt: string; // ISO 8601
+  /** Command kind */
+  command: ScoringCommandType;
+  /** Request payload, replayed as-is */
+  payload: ScoringCommandRecord['payload'];
+  /** IP address of the client that issued the command */
+  clientIp: string | null;
+  /** Race the bib was on course in when the command was queued */
+  raceId: string | null;
+  /** Set when replay detected a conflict; the command waits for a decision */
+  conflict?: QueueConflict;
+  /** Failed replay sends so far */
+  failedAttempts?: number;
+}
+
+/** Fields supplied by the caller; id and queuedAt are assigned by CommandQueue */
+export type QueuedCommandInput = Omit<QueuedCommand, 'id' | 'queuedAt' | 'conflict' | 'failedAttempts'>;
+
+/** Outcome of a replay run */
+export interface QueueReplayResult {
+  /** Commands sent to C123 and removed from the queue */
+  sent: number;
+  /** Commands newly held back because of a conflict (or parked after failed sends) */
+  conflicts: number;
+  /** Commands still queued afterwards (conflicts included) */
+  remaining: number;
+}
+
+/** Events emitted by CommandQueue */
+export interface CommandQueueEvents {
+  /** Queue contents changed */
+  change: [commands: QueuedCommand[]];
+}
@@ -4,16 +4,33 @@ import type { ParsedMessage } from './protocol/index.js';
 import { parseXmlMessage } from './protocol/index.js';
 import type { Source, SourceStatus } from './sources/types.js';
 import { TcpSource } from './sources/TcpSource.js';
+import { FailoverSource, type C123HostConfig } from './sources/FailoverSource.js';
 import { UdpDiscovery } from './sources/UdpDiscovery.js';
 import { XmlFileSource } from './sources/XmlFileSource.js';
+import { Recorder } from './sources/Recorder.js';
+import { ReplaySource, type ReplaySpeed, type ReplayProgress } from './sources/ReplaySource.js';
 import { EventState } from './state/EventState.js';
 import { UnifiedServer } from './unified/UnifiedServer.js';
-import { XmlDataService } from './service/XmlDataService.js';
-import { ScoringService, type ScoringRequest, type RemoveFromCourseRequest, type TimingRequest } from './service/index.js';
+import { XmlDataService, type XmlParticipant, type XmlScheduleItem } from './service/XmlDataService.js';
+import { XmlEventRegistry } from './service/XmlEventRegistry.js';
+import {
+  ScoringService,
+  ScoringRevertError,
+  GateOutsideSectionError,
+  onCourseGateValue,
+  resultsGateValue,
+  isPenaltyValue,
+  type PenaltyValue,
+  type ScoringRequest,
+  type RemoveFromCourseRequest,
+  type TimingRequest,
+  type ScoringCommandRecord,
+} from './service/index.js';
 import { XmlChangeNotifier } from './xml/XmlChangeNotifier.js';
 import { XmlMismatchDetector } from './xml/XmlMismatchDetector.js';
 import { LivePusher } from './live/LivePusher.js';
 import { Logger } from './utils/logger.js';
+import { getMetrics } from './metrics/index.js';
 import {
   createTimeOfDay,
   createOnCourse,
@@ -21,10 +38,16 @@ import {
   createRaceConfig,
   createSchedule,
 } from './protocol/index.js';
-import { WindowsConfigDetector, getAppSettings } from './config/index.js';
-import type { AvailableXmlPaths, XmlPathDetectionResult, XmlSourceMode } from './config/index.js';
+import { WindowsConfigDetector, getAppSettings, isGateInSection, resolveRankingOptions } from './config/index.js';
+import type { AvailableXmlPaths, JudgeSection, XmlPathDetectionResult, XmlSourceMode } from './config/index.js';
 import { ChecksStore } from './checks/ChecksStore.js';
 import { computeScheduleFingerprint } from './checks/fingerprint.js';
+import { AuditLog } from './audit/AuditLog.js';
+import type { AuditEntry, AuditEntryInput } from './audit/types.js';
+import { EventArchive } from './archive/EventArchive.js';
+import type { ArchiveReason } from './archive/types.js';
+import type { ChecksFileData } from './checks/types.js';
+import { CommandQueue, detectQueueConflict, type QueuedCommand } from './queue/index.js';
 
 /**
  * Wrapper to make UdpDiscovery compatible with Source interface for admin display
@@ -48,6 +71,13 @@ export interface ServerConfig {
   tcpHost?: string;
   /** TCP source port (default: 27333) */
   tcpPort?: number;
+  /**
+   * Several C123 hosts (primary first) with automatic failover. With more
+   * than one host this replaces tcpHost; hosts without a port use tcpPort.
+   */
+  tcpHosts?: C123HostConfig[];
+  /** Mark the C123 feed stale and reconnect after this long without TimeOfDay, in ms (default: 10000, 0 disables) */
+  staleTimeout?: number;
   /** Enable UDP auto-discovery (default: true) */
   autoDiscovery?: boolean;
   /** UDP discovery port (default: 27333) */
@@ -62,6 +92,44 @@ export interface ServerConfig {
   xmlAutoDetect?: boolean;
   /** Canoe123 autodetection check interval in ms (default: 30000) */
   xmlAutoDetectInterval?: number;
+  /** Replay this recording instead of connecting to C123 */
+  replayPath?: string;
+  /** Replay speed multiplier or 'max' (default: 1) */
+  replaySpeed?: ReplaySpeed;
+  /** Record C123 traffic from startup (default: false) */
+  record?: boolean;
+}
+
+/**
+ * Replay state for the admin dashboard
+ */
+export interface ReplayStatus {
+  active: boolean;
+  path: string | null;
+  speed: ReplaySpeed | null;
+  status: SourceStatus;
+  progress: ReplayProgress | null;
+}
+
+/**
+ * Recording state for the admin dashboard
+ */
+export interface RecordingStatus {
+  active: boolean;
+  path: string | null;
+  entries: number;
+}
+
+/**
+ * Who issued a write command and why, recorded in the audit log
+ */
+export interface WriteCommandContext {
+  /** IP address of the requesting client */
+  clientIp?: string;
+  /** ID of the scoring command being reverted */
+  revertOf?: string;
+  /** Judge section of the client; scoring outside it is rejected */
+  section?: JudgeSection;
 }
 
 /**
@@ -73,6 +141,10 @@ export interface ServerEvents {
   error: [Error];
   tcpConnected: [string];
   tcpDisconnected: [];
+  /** Failover switched to another C123 host ("ip:port", null when none is healthy) */
+  tcpFailover: [host: string | null, previous: string | null];
+  /** C123 TimeOfDay heartbeats stopped (true) or came back (false) */
+  tcpStale: [stale: boolean];
   clientConnected: [sessionId: string];
   clientDisconnected: [sessionId: string];
   liveError: [message: string];
@@ -87,9 +159,18 @@ export interface ServerEvents {
  */
 const MISMATCH_CONFIRM_DELAY_MS = 1500;
 
+/**
+ * Longest wait for a fresh OnCourse after reconnecting before the offline
+ * queue is replayed anyway. Conflict detection needs the live state, but
+ * C123 sends nothing while no competitor is on course.
+ */
+const QUEUE_REPLAY_FALLBACK_MS = 5000;
+
 const DEFAULT_CONFIG: Required<ServerConfig> = {
   tcpHost: '',
   tcpPort: 27333,
+  tcpHosts: [],
+  staleTimeout: 10000,
   autoDiscovery: true,
   udpPort: 27333,
   xmlPath: '',
@@ -97,6 +178,9 @@ const DEFAULT_CONFIG: Required<ServerConfig> = {
   port: 27123, // Unified server port (HTTP + WebSocket)
   xmlAutoDetect: true,
   xmlAutoDetectInterval: 30000,
+  replayPath: '',
+  replaySpeed: 1,
+  record: false,
 };
 
 /**
@@ -105,6 +189,7 @@ const DEFAULT_CONFIG: Required<ServerConfig> = {
  * Coordinates all components:
  * - UDP discovery (auto-find C123)
  * - TCP source (C123 connection)
+ * - Replay source (recorded C123 traffic, replaces UDP/TCP)
  * - XML file source (optional)
  * - Event state (finish detection, race tracking)
  * - UnifiedServer (HTTP + WebSocket on single port 27123)
@@ -113,16 +198,23 @@ export class Server extends EventEmitter<ServerEvents> {
   private readonly config: Required<ServerConfig>;
 
   private udpDiscovery: UdpDiscovery | null = null;
-  private tcpSource: TcpSource | null = null;
+  private tcpSource: TcpSource | FailoverSource | null = null;
+  private replaySource: ReplaySource | null = null;
+  private recorder: Recorder = new Recorder();
   private xmlSource: XmlFileSource | null = null;
   private xmlChangeNotifier: XmlChangeNotifier | null = null;
   private xmlMismatchDetector: XmlMismatchDetector | null = null;
   private eventState: EventState;
   private unifiedServer: UnifiedServer;
   private xmlDataService: XmlDataService;
+  private xmlEvents: XmlEventRegistry;
   private windowsConfigDetector: WindowsConfigDetector | null = null;
   private livePusher: LivePusher;
   private checksStore: ChecksStore;
+  private auditLog: AuditLog;
+  private eventArchive: EventArchive;
+  private commandQueue: CommandQueue;
+  private queueReplayTimer: NodeJS.Timeout | null = null;
   private mismatchConfirmTimer: NodeJS.Timeout | null = null;
 
   private isRunning = false;
@@ -136,8 +228,12 @@ export class Server extends EventEmitter<ServerEvents> {
     this.eventState = new EventState();
     this.unifiedServer = new UnifiedServer({ port: this.config.port });
     this.xmlDataService = new XmlDataService();
+    this.xmlEvents = new XmlEventRegistry();
     this.livePusher = new LivePusher(this.xmlDataService);
     this.checksStore = new ChecksStore();
+    this.auditLog = new AuditLog();
+    this.eventArchive = new EventArchive();
+    this.commandQueue = new CommandQueue();
 
     this.setupEventHandlers();
   }
@@ -156,15 +252,22 @@ export class Server extends EventEmitter<ServerEvents> {
     // Register components with unified server
     this.unifiedServer.setEventState(this.eventState);
     this.unifiedServer.setXmlDataService(this.xmlDataService);
+    this.unifiedServer.setXmlEventRegistry(this.xmlEvents);
     this.unifiedServer.setServer(this);
     this.unifiedServer.setLivePusher(this.livePusher);
     this.unifiedServer.setChecksStore(this.checksStore);
+    this.unifiedServer.setAuditLog(this.auditLog);
+    this.unifiedServer.setEventArchive(this.eventArchive);
 
     // Start data sources
-    if (this.config.autoDiscovery && !this.config.tcpHost) {
-      this.startUdpDiscovery();
-    } else if (this.config.tcpHost) {
-      this.startTcpSource(this.config.tcpHost, this.config.tcpPort);
+    if (this.config.replayPath) {
+      this.startReplaySource(this.config.replayPath, this.config.replaySpeed);
+    } else {
+      this.startLiveSources();
+    }
+
+    if (this.config.record) {
+      this.startRecording();
     }
 
     // Start mismatch detector (works regardless of XML path — listens for TCP events)
@@ -180,6 +283,7 @@ export class Server extends EventEmitter<ServerEvents> {
       // Load checks for this XML file. The fingerprint is not needed here — it
       // is pinned on the first write and validated when the schedule arrives.
       this.checksStore.loadForFile(path.basename(this.config.xmlPath));
+      this.auditLog.loadForFile(path.basename(this.config.xmlPath));
     }
 
     // Start XML autodetection if enabled and no manual path set
@@ -212,6 +316,8 @@ export class Server extends EventEmitter<ServerEvents> {
     // Stop data sources
     this.udpDiscovery?.stop();
     this.tcpSource?.stop();
+    this.replaySource?.stop();
+    await this.recorder.stop();
     this.xmlSource?.stop();
     await this.xmlChangeNotifier?.stop();
     this.xmlMismatchDetector?.stop();
@@ -221,6 +327,7 @@ export class Server extends EventEmitter<ServerEvents> {
       clearTimeout(this.mismatchConfirmTimer);
       this.mismatchConfirmTimer = null;
     }
+    this.cancelQueueReplay();
 
     // Flush and cleanup checks
     this.checksStore.destroy();
@@ -284,6 +391,34 @@ export class Server extends EventEmitter<ServerEvents> {
     return this.checksStore;
   }
 
+  /**
+   * Get AuditLog (for external access)
+   */
+  getAuditLog(): AuditLog {
+    return this.auditLog;
+  }
+
+  /**
+   * Get EventArchive (for external access)
+   */
+  getEventArchive(): EventArchive {
+    return this.eventArchive;
+  }
+
+  /**
+   * Get the XML files registered under event keys (for external access)
+   */
+  getXmlEventRegistry(): XmlEventRegistry {
+    return this.xmlEvents;
+  }
+
+  /**
+   * Get CommandQueue (for external access)
+   */
+  getCommandQueue(): CommandQueue {
+    return this.commandQueue;
+  }
+
   /**
    * Manually set TCP source host (useful for switching)
    */
@@ -304,6 +439,12 @@ export class Server extends EventEmitter<ServerEvents> {
       this.mismatchConfirmTimer = null;
     }
 
+    // The outgoing XML file is still intact, so this is the one switch that
+    // can archive the event complete with its final results.
+    if (this.config.xmlPath && this.config.xmlPath !== xmlPath) {
+      this.archiveEvent('xml-path-change', this.checksStore.getAllChecks());
+    }
+
     this.xmlSource?.stop();
     this.xmlChangeNotifier?.stop();
     this.config.xmlPath = xmlPath;
@@ -320,6 +461,7 @@ export class Server extends EventEmitter<ServerEvents> {
       this.startXmlChangeNotifier();
 
       this.checksStore.loadForFile(path.basename(xmlPath));
+      this.auditLog.loadForFile(path.basename(xmlPath));
     }
   }
 
@@ -386,17 +528,21 @@ export class Server extends EventEmitter<ServerEvents> {
   }
 
   /**
-   * Send a scoring (penalty) command to C123
+   * Send a scoring (penalty) command to C123.
    *
+   * The gate value before the command is looked up first and kept in the
+   * audit entry, so the command can be reverted later.
+   *
+   * @returns the audit entry, whose ID identifies the command for revert
    * @throws Error if TCP is not connected or validation fails
    */
-  async sendScoring(request: ScoringRequest): Promise<void> {
-    if (!this.tcpSource) {
-      throw new Error('TCP source not initialized');
+  async sendScoring(request: ScoringRequest, context?: WriteCommandContext): Promise<AuditEntry> {
+    const previousValue = await this.lookupGateValue(request);
+    const extra: Partial<AuditEntryInput> = previousValue !== undefined ? { previousValue } : {};
+    if (context?.revertOf) {
+      extra.revertOf = context.revertOf;
     }
-
-    const scoringService = new ScoringService(this.tcpSource);
-    await scoringService.sendScoring(request);
+    return this.runAudited('scoring', request, context, (service) => service.sendScoring(request, context?.section), extra);
   }
 
   /**
@@ -404,13 +550,8 @@ export class Server extends EventEmitter<ServerEvents> {
    *
    * @throws Error if TCP is not connected or validation fails
    */
-  async sendRemoveFromCourse(request: RemoveFromCourseRequest): Promise<void> {
-    if (!this.tcpSource) {
-      throw new Error('TCP source not initialized');
-    }
-
-    const scoringService = new ScoringService(this.tcpSource);
-    await scoringService.sendRemoveFromCourse(request);
+  async sendRemoveFromCourse(request: RemoveFromCourseRequest, context?: WriteCommandContext): Promise<AuditEntry> {
+    return this.runAudited('remove-from-course', request, context, (service) => service.sendRemoveFromCourse(request));
   }
 
   /**
@@ -418,13 +559,403 @@ export class Server extends EventEmitter<ServerEvents> {
    *
    * @throws Error if TCP is not connected or validation fails
    */
-  async sendTiming(request: TimingRequest): Promise<void> {
+  async sendTiming(request: TimingRequest, context?: WriteCommandContext): Promise<AuditEntry> {
+    return this.runAudited('timing', request, context, (service) => service.sendTiming(request));
+  }
+
+  /**
+   * Revert a scoring command by sending its previous gate value.
+   *
+   * The inverse targets the same run: an on-course Scoring while the bib is
+   * still on course in that race, otherwise a PenaltyCorrection.
+   *
+   * @returns the audit entry of the inverse command
+   * @throws ScoringRevertError if the command cannot be reverted
+   */
+  async revertScoring(commandId: string, context?: WriteCommandContext): Promise<AuditEntry> {
+    const original = this.auditLog.get(commandId);
+    if (!original || original.command !== 'scoring') {
+      throw new ScoringRevertError('Scoring command not found', 404);
+    }
+    if (!original.success) {
+      throw new ScoringRevertError('Command was never sent to C123, nothing to revert', 409);
+    }
+    if (original.previousValue === undefined) {
+      throw new ScoringRevertError('Previous gate value was not known when the command was sent', 409);
+    }
+    if (this.auditLog.findRevertOf(commandId)) {
+      throw new ScoringRevertError('Command was already reverted', 409);
+    }
+
+    const payload = original.payload as ScoringRequest;
+    const raceId = payload.raceId ?? original.raceId;
+    const bib = payload.bib.trim();
+    const stillOnCourse =
+      !payload.raceId &&
+      this.eventState.state.onCourse.some((c) => c.bib.trim() === bib && c.raceId === raceId && !c.dtFinish);
+
+    const value = original.previousValue as PenaltyValue;
+    const inverse: ScoringRequest =
+      stillOnCourse || !raceId
+        ? { bib: payload.bib, gate: payload.gate, value }
+        : { raceId, bib: payload.bib, gate: payload.gate, value };
+    // The previous value came from C123, so it may be a team sum even if the
+    // command being reverted was sent without the team flag
+    if (payload.team || (value !== null && !isPenaltyValue(value, false))) {
+      inverse.team = true;
+    }
+
+    Logger.info('Server', `Reverting ${commandId}: bib=${payload.bib} gate=${payload.gate} back to ${value ?? 'empty'}`);
+    return this.sendScoring(inverse, { ...context, revertOf: commandId });
+  }
+
+  /**
+   * Check that a team penalty (team flag or per-boat penalties) targets a
+   * team race. The race is the command's raceId, else the race the bib is on
+   * course in, else the current race; it is a team race when its class has
+   * team participants in the XML.
+   *
+   * @returns an error message, or null if the request is fine
+   */
+  async checkTeamScoring(request: ScoringRequest): Promise<string | null> {
+    if (!request.team) {
+      return null;
+    }
+
+    const raceId = this.resolveCommandRaceId(request);
+    if (!raceId) {
+      return 'team penalties need a known race';
+    }
+    let schedule: XmlScheduleItem[];
+    let participants: XmlParticipant[];
+    try {
+      schedule = await this.xmlDataService.getSchedule();
+      participants = await this.xmlDataService.getParticipants();
+    } catch {
+      return 'cannot confirm team race without XML data';
+    }
+
+    const classId = schedule.find((s) => s.raceId === raceId)?.classId;
+    if (!classId) {
+      return `cannot confirm team race: ${raceId} is not in the XML schedule`;
+    }
+    if (participants.some((p) => p.classId === classId && p.isTeam)) {
+      return null;
+    }
+    return `team penalties are only allowed in team races (${raceId} is not one)`;
+  }
+
+  /**
+   * Current value of the gate a scoring command is about to change, from the
+   * live TCP state first (fresher), then the XML file.
+   *
+   * @returns the value, null if not judged, undefined if unknown
+   */
+  private async lookupGateValue(request: ScoringRequest): Promise<number | null | undefined> {
+    const bib = request.bib.trim();
+    const state = this.eventState.state;
+
+    if (!request.raceId) {
+      const onCourse = state.onCourse.find((c) => c.bib.trim() === bib);
+      return onCourse ? onCourseGateValue(onCourse.gates, request.gate) : undefined;
+    }
+
+    if (state.results?.raceId === request.raceId) {
+      const row = state.results.rows.find((r) => r.bib.trim() === bib);
+      if (row) {
+        return resultsGateValue(row.gates, request.gate);
+      }
+    }
+
+    try {
+      const rows = await this.xmlDataService.getResultsForRace(request.raceId);
+      const row = rows?.find((r) => r.bib.trim() === bib);
+      return row ? resultsGateValue(row.gates ?? '', request.gate) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Run a ScoringService call whose outcome lands in the audit log.
+   *
+   * A missing TCP source is audited here too, since ScoringService never
+   * gets to see the attempt.
+   *
+   * @returns the audit entry of the successful command
+   */
+  private async runAudited(
+    command: ScoringCommandRecord['command'],
+    payload: ScoringCommandRecord['payload'],
+    context: WriteCommandContext | undefined,
+    run: (service: ScoringService) => Promise<void>,
+    extra: Partial<AuditEntryInput> = {}
+  ): Promise<AuditEntry> {
+    let entry: AuditEntry | null = null;
+    const audit = (record: ScoringCommandRecord): void => {
+      const input: AuditEntryInput = {
+        command: record.command,
+        clientIp: context?.clientIp ?? null,
+        raceId: this.resolveCommandRaceId(record.payload),
+        bib: record.payload.bib,
+        payload: record.payload,
+        xml: record.xml,
+        success: record.success,
+        ...extra,
+      };
+      if (record.error !== undefined) {
+        input.error = record.error;
+      }
+      entry = this.auditLog.append(input);
+      getMetrics().writeCommands.inc({ command: record.command, result: record.success ? 'success' : 'failure' });
+    };
+
     if (!this.tcpSource) {
-      throw new Error('TCP source not initialized');
+      const error = 'TCP source not initialized';
+      audit({ command, payload, xml: null, success: false, error });
+      throw new Error(error);
+    }
+
+    await run(new ScoringService(this.tcpSource, audit));
+    return entry!;
+  }
+
+  /**
+   * Race a write command applies to: explicit raceId, else the race the bib
+   * is on course in, else the current race.
+   */
+  private resolveCommandRaceId(payload: ScoringCommandRecord['payload']): string | null {
+    if ('raceId' in payload && payload.raceId) {
+      return payload.raceId;
+    }
+    const state = this.eventState.state;
+    const onCourse = state.onCourse.find((c) => c.bib.trim() === payload.bib.trim());
+    return onCourse?.raceId || state.currentRaceId;
+  }
+
+  /**
+   * Whether write commands are queued while C123 is not writable
+   */
+  isOfflineQueueEnabled(): boolean {
+    return getAppSettings().get().offlineQueue === true;
+  }
+
+  /**
+   * Whether a write command must go through the queue rather than straight
+   * to C123: while C123 is not writable, and while older queued commands
+   * still wait for their replay. A newer command sent directly would be
+   * overwritten when they are replayed after it.
+   */
+  shouldQueueCommands(): boolean {
+    return !this.isScoringAvailable() || this.commandQueue.pendingCount > 0 || this.commandQueue.isReplaying;
+  }
+
+  /**
+   * Queue a write command for replay once C123 is writable again.
+   * The payload must already be validated.
+   *
+   * @throws GateOutsideSectionError for scoring outside the sender's section,
+   * which could not be checked any more at replay time
+   */
+  queueCommand(
+    command: QueuedCommand['command'],
+    payload: QueuedCommand['payload'],
+    context?: WriteCommandContext
+  ): QueuedCommand {
+    if (context?.section && 'gate' in payload && !isGateInSection(context.section, payload.gate)) {
+      throw new GateOutsideSectionError(payload.gate, context.section);
     }
+    const queued = this.commandQueue.enqueue({
+      command,
+      payload,
+      clientIp: context?.clientIp ?? null,
+      raceId: this.resolveCommandRaceId(payload),
+    });
+    getMetrics().writeCommands.inc({ command, result: 'queued' });
+    Logger.info('Server', `Queued ${command} bib=${payload.bib} (${this.commandQueue.pendingCount} pending)`);
 
-    const scoringService = new ScoringService(this.tcpSource);
-    await scoringService.sendTiming(request);
+    // Queued behind older commands while C123 is writable: nothing else
+    // would replay it if no replay is armed or running
+    if (this.isScoringAvailable() && !this.queueReplayTimer && !this.commandQueue.isReplaying) {
+      void this.replayCommandQueue();
+    }
+    return queued;
+  }
+
+  /**
+   * Send a queued command now, regardless of any conflict, and remove it
+   * from the queue
+   *
+   * @throws Error if the command is not queued or sending fails
+   */
+  async sendQueuedCommand(id: string): Promise<QueuedCommand> {
+    const queued = this.commandQueue.get(id);
+    if (!queued) {
+      throw new Error(`Queued command ${id} not found`);
+    }
+    await this.dispatchQueuedCommand(queued);
+    this.commandQueue.remove(id);
+    return queued;
+  }
+
+  /**
+   * Replay the offline queue in order, holding back conflicting commands.
+   * If a send failed while C123 is still writable, the replay is retried
+   * later, until the command goes through or gets parked.
+   */
+  async replayCommandQueue(): Promise<void> {
+    if (this.commandQueue.pendingCount === 0 || !this.isScoringAvailable()) {
+      return;
+    }
+    await this.commandQueue.replay(
+      (command) => this.dispatchQueuedCommand(command),
+      (command) => detectQueueConflict(command, this.eventState.state)
+    );
+    if (this.commandQueue.pendingCount > 0 && this.isScoringAvailable() && !this.queueReplayTimer) {
+      this.scheduleQueueReplay();
+    }
+  }
+
+  private async dispatchQueuedCommand(queued: QueuedCommand): Promise<void> {
+    const context: WriteCommandContext = queued.clientIp ? { clientIp: queued.clientIp } : {};
+    const { payload } = queued;
+
+    if ('gate' in payload) {
+      await this.sendScoring(payload, context);
+      this.unifiedServer.broadcastScoringEvent({
+        eventType: 'penalty',
+        bib: payload.bib,
+        details: payload.raceId
+          ? { gate: payload.gate, value: payload.value, raceId: payload.raceId }
+          : { gate: payload.gate, value: payload.value },
+      });
+      // Same invalidation the Write API does for a live penalty
+      const raceId = payload.raceId ?? queued.raceId;
+      if (raceId) {
+        this.checksStore.invalidateCheck(raceId, payload.bib, payload.gate);
+      }
+    } else if ('reason' in payload) {
+      await this.sendRemoveFromCourse(payload, context);
+      this.unifiedServer.broadcastScoringEvent({
+        eventType: 'remove',
+        bib: payload.bib,
+        details: { reason: payload.reason, position: payload.position ?? 1 },
+      });
+    } else {
+      await this.sendTiming(payload, context);
+      this.unifiedServer.broadcastScoringEvent({
+        eventType: 'timing',
+        bib: payload.bib,
+        details: { channelPosition: payload.channelPosition },
+      });
+    }
+  }
+
+  /**
+   * Arm the queue replay after a reconnect. It runs on the first OnCourse
+   * message, or after a fallback delay if none arrives.
+   */
+  private scheduleQueueReplay(): void {
+    if (this.commandQueue.pendingCount === 0) {
+      return;
+    }
+    this.cancelQueueReplay();
+    this.queueReplayTimer = setTimeout(() => {
+      this.queueReplayTimer = null;
+      void this.replayCommandQueue();
+    }, QUEUE_REPLAY_FALLBACK_MS);
+  }
+
+  private cancelQueueReplay(): void {
+    if (this.queueReplayTimer) {
+      clearTimeout(this.queueReplayTimer);
+      this.queueReplayTimer = null;
+    }
+  }
+
+
+  // ==========================================================================
+  // Record & Replay
+  // ==========================================================================
+
+  /**
+   * Replace the live C123 connection with a recording.
+   *
+   * UDP discovery and TCP are stopped and event state is reset, so the replay
+   * starts from a clean slate. Call stopReplay() to go back to live data.
+   */
+  startReplay(recordingPath: string, speed: ReplaySpeed = 1): void {
+    this.udpDiscovery?.stop();
+    this.udpDiscovery = null;
+    this.tcpSource?.stop();
+    this.tcpSource = null;
+    this.discoveredHost = null;
+    this.unifiedServer.unregisterSource('UDP Discovery');
+    this.unifiedServer.unregisterSource('C123 TCP');
+
+    this.eventState.reset();
+    this.startReplaySource(recordingPath, speed);
+  }
+
+  /**
+   * Stop an active replay and reconnect to the live C123.
+   */
+  stopReplay(): void {
+    if (!this.replaySource) {
+      return;
+    }
+
+    this.replaySource.stop();
+    this.replaySource = null;
+    this.config.replayPath = '';
+    this.unifiedServer.unregisterSource('Replay');
+    Logger.info('Server', 'Replay stopped, returning to live C123 data');
+
+    this.eventState.reset();
+    this.startLiveSources();
+  }
+
+  /**
+   * Get replay state
+   */
+  getReplayStatus(): ReplayStatus {
+    const source = this.replaySource;
+    return {
+      active: source !== null,
+      path: source?.getPath() ?? null,
+      speed: source?.getSpeed() ?? null,
+      status: source?.status ?? 'disconnected',
+      progress: source?.getProgress() ?? null,
+    };
+  }
+
+  /**
+   * Start recording C123 traffic (TCP frames and UDP broadcasts).
+   *
+   * @returns path of the recording file
+   */
+  startRecording(): string {
+    return this.recorder.start({
+      host: this.discoveredHost ?? (this.config.tcpHost || null),
+    });
+  }
+
+  /**
+   * Stop recording and close the file
+   */
+  async stopRecording(): Promise<void> {
+    await this.recorder.stop();
+  }
+
+  /**
+   * Get recording state
+   */
+  getRecordingStatus(): RecordingStatus {
+    return {
+      active: this.recorder.isRecording,
+      path: this.recorder.getPath(),
+      entries: this.recorder.getEntryCount(),
+    };
   }
 
   /**
@@ -523,6 +1054,16 @@ export class Server extends EventEmitter<ServerEvents> {
     // Apply XML cache TTL
     if (settings.xmlCacheTtlMs !== undefined) {
       this.xmlDataService.setCacheTtl(settings.xmlCacheTtlMs);
+      this.xmlEvents.setCacheTtl(settings.xmlCacheTtlMs);
+    }
+
+    // Additional XML files under event keys
+    for (const [key, xmlPath] of Object.entries(settings.xmlEvents ?? {})) {
+      try {
+        this.xmlEvents.register(key, xmlPath);
+      } catch (err) {
+        Logger.warn('Server', `Skipping XML event from settings: ${(err as Error).message}`);
+      }
     }
 
     // Handle XML source mode
@@ -613,6 +1154,20 @@ export class Server extends EventEmitter<ServerEvents> {
     }
   }
 
+  /**
+   * Handle the C123 feed going silent or recovering - tell scoreboards so
+   * they stop presenting old data as live
+   */
+  private handleTcpStale(stale: boolean, lastHeartbeat: number | null): void {
+    if (stale) {
+      Logger.warn('Server', 'C123 data is stale (no TimeOfDay received)');
+    } else {
+      Logger.info('Server', 'C123 data is flowing again');
+    }
+    this.unifiedServer.broadcastSourceStale(stale, lastHeartbeat);
+    this.emit('tcpStale', stale);
+  }
+
   private setupEventHandlers(): void {
     // Log race changes
     this.eventState.on('raceChange', (raceId) => {
@@ -624,6 +1179,11 @@ export class Server extends EventEmitter<ServerEvents> {
       Logger.info('Server', `Finish detected: bib ${competitor.bib}`);
     });
 
+    // Forward split impulses to WebSocket broadcast
+    this.eventState.on('split', (impulse) => {
+      this.unifiedServer.broadcastSplitTimes(impulse);
+    });
+
     // Log errors
     this.unifiedServer.on('error', (err) => {
       this.emit('error', err);
@@ -653,6 +1213,75 @@ export class Server extends EventEmitter<ServerEvents> {
     this.checksStore.on('flagChanged', (data) => {
       this.unifiedServer.broadcastFlagChanged(data);
     });
+
+    this.checksStore.on('eventEnded', (previous, reason) => {
+      this.archiveEvent(reason, previous);
+    });
+  }
+
+  /**
+   * Snapshot the outgoing event into the archive.
+   *
+   * Must be called before switching the XML path or audit file: the archive
+   * copies the current files synchronously, the rest happens in the background.
+   * The audit file is set aside first, so the next event under the same XML
+   * filename starts its own and the archive holds only this event's entries.
+   */
+  private archiveEvent(reason: ArchiveReason, checks: ChecksFileData | null): void {
+    this.eventArchive
+      .archive({
+        reason,
+        xmlPath: this.config.xmlPath || null,
+        checks,
+        auditPath: this.auditLog.endEvent(),
+        settings: getAppSettings().get(),
+      })
+      .catch((err: unknown) => {
+        Logger.error('Server', `Could not archive event: ${err instanceof Error ? err.message : String(err)}`);
+      });
+  }
+
+  private startLiveSources(): void {
+    if (this.config.tcpHosts.length > 1) {
+      this.startFailoverSource(this.config.tcpHosts);
+    } else if (this.config.autoDiscovery && !this.config.tcpHost) {
+      this.startUdpDiscovery();
+    } else if (this.config.tcpHost) {
+      this.startTcpSource(this.config.tcpHost, this.config.tcpPort);
+    }
+  }
+
+  private startReplaySource(recordingPath: string, speed: ReplaySpeed): void {
+    this.replaySource?.stop();
+
+    this.replaySource = new ReplaySource({ path: recordingPath, speed });
+    this.config.replayPath = recordingPath;
+
+    this.unifiedServer.registerSource('Replay', 'replay', this.replaySource, {
+      path: recordingPath,
+    });
+
+    this.replaySource.on('message', (xml) => {
+      this.handleXmlMessage(xml);
+    });
+
+    const source = this.replaySource;
+    source.on('status', (status) => {
+      if (status === 'connected') {
+        Logger.info('Server', `Replaying ${recordingPath} at ${speed === 'max' ? 'max speed' : `${speed}x`}`);
+      } else if (status === 'disconnected') {
+        const { position, total } = source.getProgress();
+        if (total > 0 && position >= total) {
+          Logger.info('Server', `Replay finished (${total} messages)`);
+        }
+      }
+    });
+
+    this.replaySource.on('error', (err) => {
+      this.emit('error', err);
+    });
+
+    this.replaySource.start();
   }
 
   private startUdpDiscovery(): void {
@@ -682,6 +1311,10 @@ export class Server extends EventEmitter<ServerEvents> {
       this.startTcpSource(host, this.config.tcpPort);
     });
 
+    this.udpDiscovery.on('message', (xml, host) => {
+      this.recorder.record('udp', xml, { host });
+    });
+
     this.udpDiscovery.on('error', (err) => {
       this.emit('error', err);
     });
@@ -695,7 +1328,7 @@ export class Server extends EventEmitter<ServerEvents> {
       this.tcpSource.stop();
     }
 
-    this.tcpSource = new TcpSource({ host, port });
+    this.tcpSource = new TcpSource({ host, port, staleTimeout: this.config.staleTimeout });
 
     this.unifiedServer.registerSource('C123 TCP', 'tcp', this.tcpSource, {
       host,
@@ -703,12 +1336,14 @@ export class Server extends EventEmitter<ServerEvents> {
     });
 
     this.tcpSource.on('message', (xml) => {
+      this.recorder.record('tcp', xml);
       this.handleXmlMessage(xml);
     });
 
     this.tcpSource.on('status', (status) => {
       if (status === 'connected') {
         this.emit('tcpConnected', host);
+        this.scheduleQueueReplay();
       } else if (status === 'disconnected') {
         this.emit('tcpDisconnected');
         // Reset UDP discovery to allow re-discovery
@@ -717,6 +1352,11 @@ export class Server extends EventEmitter<ServerEvents> {
       }
     });
 
+    const source = this.tcpSource;
+    source.on('stale', (stale) => {
+      this.handleTcpStale(stale, source.lastHeartbeat);
+    });
+
     this.tcpSource.on('error', (err) => {
       this.emit('error', err);
     });
@@ -724,6 +1364,50 @@ export class Server extends EventEmitter<ServerEvents> {
     this.tcpSource.start();
   }
 
+  private startFailoverSource(hosts: C123HostConfig[]): void {
+    this.tcpSource?.stop();
+
+    const source = new FailoverSource({
+      hosts: hosts.map((h) => ({ ...h, port: h.port ?? this.config.tcpPort })),
+      staleTimeout: this.config.staleTimeout,
+    });
+    this.tcpSource = source;
+
+    this.unifiedServer.registerSource('C123 TCP', 'tcp', source);
+
+    source.on('message', (xml) => {
+      this.recorder.record('tcp', xml);
+      this.handleXmlMessage(xml);
+    });
+
+    // A switch between healthy hosts keeps the status 'connected', so
+    // scoreboards and the offline queue only see a real outage
+    source.on('status', (status) => {
+      if (status === 'connected') {
+        this.emit('tcpConnected', source.activeHost ?? '');
+        this.scheduleQueueReplay();
+      } else if (status === 'disconnected') {
+        this.emit('tcpDisconnected');
+      }
+    });
+
+    source.on('stale', (stale) => {
+      this.handleTcpStale(stale, source.lastHeartbeat);
+    });
+
+    source.on('failover', (host, previous) => {
+      if (previous !== null) {
+        this.emit('tcpFailover', host, previous);
+      }
+    });
+
+    source.on('error', (err) => {
+      this.emit('error', err);
+    });
+
+    source.start();
+  }
+
   private startXmlSource(): void {
     this.xmlSource = new XmlFileSource({
       path: this.config.xmlPath,
@@ -763,6 +1447,10 @@ export class Server extends EventEmitter<ServerEvents> {
       if (sections.includes('Schedule')) {
         void this.refreshScheduleFingerprint();
       }
+      void this.eventArchive.keepXml(this.config.xmlPath, this.checksStore.getAllChecks()?.fingerprint ?? null);
+      if (sections.includes('Results')) {
+        void this.broadcastRankedResults();
+      }
     });
 
     this.xmlChangeNotifier.on('error', (err) => {
@@ -795,6 +1483,35 @@ export class Server extends EventEmitter<ServerEvents> {
     }
   }
 
+  /**
+   * Broadcast the ranking of the current race's class, if the ranking
+   * settings have a rule for it
+   */
+  private async broadcastRankedResults(): Promise<void> {
+    const raceId = this.eventState.state.currentRaceId;
+    if (!raceId) {
+      return;
+    }
+
+    try {
+      const race = await this.xmlDataService.getRaceDetail(raceId);
+      if (!race) {
+        return;
+      }
+      const options = resolveRankingOptions(getAppSettings().getRanking(), race.classId);
+      if (!options) {
+        return;
+      }
+
+      const ranked = await this.xmlDataService.getRankedResults(raceId, options);
+      if (ranked) {
+        this.unifiedServer.broadcastRankedResults(raceId, ranked);
+      }
+    } catch (err) {
+      Logger.warn('Server', `Could not rank results: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
   /**
    * Re-read the XML once to confirm a suspected event change.
    *
@@ -851,6 +1568,7 @@ export class Server extends EventEmitter<ServerEvents> {
       const parsedMessages = parseXmlMessage(xml);
 
       for (const parsed of parsedMessages) {
+        getMetrics().tcpMessages.inc({ type: parsed.type });
         if (parsed.type === 'unknown') {
           continue;
         }
@@ -858,6 +1576,13 @@ export class Server extends EventEmitter<ServerEvents> {
         // Update internal state (for finish detection, etc.)
         this.eventState.processMessage(parsed);
 
+        // The first OnCourse after a reconnect means the state is fresh
+        // enough to check queued commands against
+        if (parsed.type === 'oncourse' && this.queueReplayTimer) {
+          this.cancelQueueReplay();
+          void this.replayCommandQueue();
+        }
+
         // Broadcast C123 message to all clients
         this.broadcastParsedMessage(parsed);
       }
@@ -876,6 +1601,7 @@ export class Server extends EventEmitter<ServerEvents> {
         break;
       case 'oncourse':
         this.unifiedServer.broadcast(createOnCourse(message.data));
+        this.unifiedServer.broadcastOnCourseProjection();
         break;
       case 'results':
         // Only broadcast results marked as current (active race)
@@ -1,12 +1,26 @@
 import type { WritableSource } from '../sources/types.js';
+import type { JudgeSection } from '../config/types.js';
+import { describeJudgeSection, isGateInSection } from '../config/judgeSections.js';
+import { isPenaltyValue } from './penalties.js';
 import { Logger } from '../utils/logger.js';
 
+/**
+ * Penalty of one boat at one gate: clean, touch or miss
+ */
+export type BoatPenalty = 0 | 2 | 50;
+
+/**
+ * Gate value of a team race: the penalties of the (up to three) boats summed
+ */
+export type TeamPenaltyValue = 0 | 2 | 4 | 6 | 50 | 52 | 54 | 100 | 102 | 150;
+
 /**
  * Penalty values supported by C123
  * - 0, 2, 50: Standard penalty values
+ * - 4, 6, 52, 54, 100, 102, 150: Team race sums
  * - null/undefined: Delete penalty (empty value)
  */
-export type PenaltyValue = 0 | 2 | 50 | null;
+export type PenaltyValue = BoatPenalty | TeamPenaltyValue | null;
 
 /**
  * Reason codes for removing competitor from course
@@ -28,6 +42,8 @@ export interface ScoringRequest {
   bib: string;
   gate: number;
   value: PenaltyValue;
+  /** Team race: value is the sum of the boats' penalties */
+  team?: boolean;
 }
 
 /**
@@ -47,6 +63,57 @@ export interface TimingRequest {
   channelPosition: ChannelPosition;
 }
 
+/**
+ * Kind of command sent through ScoringService
+ */
+export type ScoringCommandType = 'scoring' | 'remove-from-course' | 'timing';
+
+/**
+ * Outcome of one ScoringService call, reported to the command listener
+ */
+export interface ScoringCommandRecord {
+  command: ScoringCommandType;
+  payload: ScoringRequest | RemoveFromCourseRequest | TimingRequest;
+  /** XML written to C123, null if the request failed validation */
+  xml: string | null;
+  success: boolean;
+  /** Validation or write error message */
+  error?: string;
+}
+
+/**
+ * Called once per send attempt, after it succeeded or failed
+ */
+export type ScoringCommandListener = (record: ScoringCommandRecord) => void;
+
+/**
+ * A scoring command that cannot be reverted: unknown (404), or not
+ * revertible (409) because it failed, its previous value is unknown or it
+ * was reverted already
+ */
+export class ScoringRevertError extends Error {
+  constructor(
+    message: string,
+    public statusCode: 404 | 409,
+  ) {
+    super(message);
+    this.name = 'ScoringRevertError';
+  }
+}
+
+/**
+ * Scoring for a gate outside the judge section of the sender
+ */
+export class GateOutsideSectionError extends Error {
+  constructor(
+    public gate: number,
+    public section: JudgeSection,
+  ) {
+    super(`Gate ${gate} is outside section ${describeJudgeSection(section)}`);
+    this.name = 'GateOutsideSectionError';
+  }
+}
+
 /**
  * Service for sending scoring and timing commands to C123.
  *
@@ -54,9 +121,11 @@ export interface TimingRequest {
  */
 export class ScoringService {
   private readonly source: WritableSource;
+  private readonly onCommand: ScoringCommandListener | null;
 
-  constructor(source: WritableSource) {
+  constructor(source: WritableSource, onCommand?: ScoringCommandListener) {
     this.source = source;
+    this.onCommand = onCommand ?? null;
   }
 
   /**
@@ -72,22 +141,25 @@ export class ScoringService {
    * - With raceId: PenaltyCorrection for FINISHED competitors
    *
    * @param request - Scoring request with bib, gate, value, and optional raceId
+   * @param section - Judge section of the sender; gates outside it are rejected
+   * @throws GateOutsideSectionError if the gate is outside the section
    * @throws Error if validation fails or write fails
    */
-  async sendScoring(request: ScoringRequest): Promise<void> {
-    this.validateScoringRequest(request);
-
-    const xml = request.raceId
-      ? this.formatPenaltyCorrectionXml(request)
-      : this.formatScoringXml(request);
+  async sendScoring(request: ScoringRequest, section?: JudgeSection): Promise<void> {
+    await this.send('scoring', request, () => {
+      this.validateScoringRequest(request);
+      if (section && !isGateInSection(section, request.gate)) {
+        throw new GateOutsideSectionError(request.gate, section);
+      }
+
+      if (request.raceId) {
+        Logger.info('ScoringService', `Sending penalty correction: RaceId=${request.raceId} Bib=${request.bib} Gate=${request.gate} Value=${request.value}`);
+        return this.formatPenaltyCorrectionXml(request);
+      }
 
-    if (request.raceId) {
-      Logger.info('ScoringService', `Sending penalty correction: RaceId=${request.raceId} Bib=${request.bib} Gate=${request.gate} Value=${request.value}`);
-    } else {
       Logger.info('ScoringService', `Sending penalty: Bib=${request.bib} Gate=${request.gate} Value=${request.value}`);
-    }
-
-    await this.source.write(xml);
+      return this.formatScoringXml(request);
+    });
   }
 
   /**
@@ -97,12 +169,12 @@ export class ScoringService {
    * @throws Error if validation fails or write fails
    */
   async sendRemoveFromCourse(request: RemoveFromCourseRequest): Promise<void> {
-    this.validateRemoveRequest(request);
+    await this.send('remove-from-course', request, () => {
+      this.validateRemoveRequest(request);
 
-    const xml = this.formatRemoveFromCourseXml(request);
-    Logger.info('ScoringService', `Sending remove: Bib=${request.bib} Reason=${request.reason}`);
-
-    await this.source.write(xml);
+      Logger.info('ScoringService', `Sending remove: Bib=${request.bib} Reason=${request.reason}`);
+      return this.formatRemoveFromCourseXml(request);
+    });
   }
 
   /**
@@ -112,12 +184,40 @@ export class ScoringService {
    * @throws Error if validation fails or write fails
    */
   async sendTiming(request: TimingRequest): Promise<void> {
-    this.validateTimingRequest(request);
+    await this.send('timing', request, () => {
+      this.validateTimingRequest(request);
+
+      Logger.info('ScoringService', `Sending timing: Bib=${request.bib} Position=${request.channelPosition}`);
+      return this.formatTimingXml(request);
+    });
+  }
 
-    const xml = this.formatTimingXml(request);
-    Logger.info('ScoringService', `Sending timing: Bib=${request.bib} Position=${request.channelPosition}`);
+  /**
+   * Validate and format via `build`, write the XML, and report the outcome
+   * to the command listener whether it succeeded or not.
+   */
+  private async send(
+    command: ScoringCommandType,
+    payload: ScoringCommandRecord['payload'],
+    build: () => string
+  ): Promise<void> {
+    let xml: string | null = null;
+
+    try {
+      xml = build();
+      await this.source.write(xml);
+    } catch (err) {
+      this.onCommand?.({
+        command,
+        payload,
+        xml,
+        success: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
 
-    await this.source.write(xml);
+    this.onCommand?.({ command, payload, xml, success: true });
   }
 
   /**
@@ -137,8 +237,12 @@ export class ScoringService {
       throw new Error('Gate must be a number between 1 and 24');
     }
 
-    if (request.value !== null && ![0, 2, 50].includes(request.value)) {
-      throw new Error('Value must be 0, 2, 50, or null (to delete)');
+    if (request.value !== null && !isPenaltyValue(request.value, request.team === true)) {
+      throw new Error(
+        request.team
+          ? 'Team value must be a sum of up to three boat penalties (0, 2, 50), or null (to delete)'
+          : 'Value must be 0, 2, 50, or null (to delete)'
+      );
     }
   }
 
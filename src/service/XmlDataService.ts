@@ -1,6 +1,9 @@
 import crypto from 'node:crypto';
 import fsPromises from 'node:fs/promises';
 import { XMLParser } from 'fast-xml-parser';
+import { getMetrics } from '../metrics/index.js';
+import { computeGateStats, courseGateTypes, type GateStats } from './gateStats.js';
+import { rankResults, selectRankedRaces, type RankedRaceResults, type RankingOptions } from './ranking.js';
 
 /**
  * Parsed participant from XML
@@ -120,6 +123,24 @@ export interface XmlCourseData {
   splits: number[]; // Gate numbers where splits occur (1-indexed)
 }
 
+/**
+ * Gate penalty statistics of one race
+ */
+export interface XmlRaceGateStats extends GateStats {
+  raceId: string;
+  /** Course the race is run on, null if the schedule does not say */
+  courseNr: number | null;
+}
+
+/**
+ * Gate penalty statistics of all races on one course
+ */
+export interface XmlCourseGateStats extends GateStats {
+  courseNr: number;
+  /** Races on this course that have results */
+  raceIds: string[];
+}
+
 /**
  * Merged result combining BR1 and BR2
  */
@@ -576,6 +597,29 @@ export class XmlDataService {
     return merged;
   }
 
+  /**
+   * Get the results of a race's class under a ranking rule: its BR1/BR2 pair
+   * for 'best' and 'sum', all its phases for 'progression'.
+   *
+   * @returns null if the race is not in the schedule
+   */
+  async getRankedResults(raceId: string, options: RankingOptions): Promise<RankedRaceResults | null> {
+    await this.loadIfNeeded();
+    const schedule = this.getScheduleFromCache();
+    const races = selectRankedRaces(schedule, raceId, options.rule);
+    if (races.length === 0) {
+      return null;
+    }
+
+    return {
+      classId: schedule.find((s) => s.raceId === raceId)?.classId ?? '',
+      ranking: options.rule,
+      tieBreak: options.tieBreak ?? 'icf',
+      raceIds: races.map((r) => r.raceId),
+      results: rankResults(races, this.getResultsFromCache(), this.getParticipantsFromCache(), options),
+    };
+  }
+
   /**
    * Get course data with gate configuration and split positions
    */
@@ -584,6 +628,62 @@ export class XmlDataService {
     return this.getCoursesFromCache();
   }
 
+  /**
+   * Get gate penalty statistics of a race
+   *
+   * @returns null if the race has no results
+   */
+  async getGateStats(raceId: string): Promise<XmlRaceGateStats | null> {
+    await this.loadIfNeeded();
+    const rows = this.getResultsFromCache().get(raceId);
+    if (!rows) {
+      return null;
+    }
+
+    const courseNr = this.getScheduleFromCache().find((s) => s.raceId === raceId)?.courseNr ?? null;
+    return {
+      raceId,
+      courseNr,
+      ...computeGateStats(this.toGateStatsRuns(rows), this.getCourseGateTypes(courseNr)),
+    };
+  }
+
+  /**
+   * Get gate penalty statistics over every race run on a course
+   *
+   * @returns null if the course is neither in CourseData nor in the schedule
+   */
+  async getCourseGateStats(courseNr: number): Promise<XmlCourseGateStats | null> {
+    await this.loadIfNeeded();
+    const scheduled = this.getScheduleFromCache().filter((s) => s.courseNr === courseNr);
+    const known = this.getCoursesFromCache().some((c) => c.courseNr === courseNr);
+    if (!known && scheduled.length === 0) {
+      return null;
+    }
+
+    const results = this.getResultsFromCache();
+    const raceIds = scheduled.map((s) => s.raceId).filter((id) => results.has(id));
+    const rows = raceIds.flatMap((id) => results.get(id) ?? []);
+
+    return {
+      courseNr,
+      raceIds,
+      ...computeGateStats(this.toGateStatsRuns(rows), this.getCourseGateTypes(courseNr)),
+    };
+  }
+
+  private toGateStatsRuns(rows: XmlResultRow[]): { gates: string; catId?: string | undefined }[] {
+    const categories = new Map(this.getParticipantsFromCache().map((p) => [p.id, p.catId]));
+    return rows
+      .filter((r) => r.gates)
+      .map((r) => ({ gates: r.gates as string, catId: categories.get(r.id) }));
+  }
+
+  private getCourseGateTypes(courseNr: number | null): ('N' | 'R')[] {
+    const course = this.getCoursesFromCache().find((c) => c.courseNr === courseNr);
+    return course ? courseGateTypes(course.courseConfig) : [];
+  }
+
   /**
    * Load XML file if not already loaded or if it has changed
    */
@@ -609,7 +709,10 @@ export class XmlDataService {
     this.checksum = newChecksum;
     this.lastModified = new Date();
 
+    const endTimer = getMetrics().xmlParseDuration.startTimer();
     const parsed = this.parser.parse(content);
+    endTimer();
+    getMetrics().xmlReloads.inc();
 
     if (!parsed.Canoe123Data) {
       throw new Error('Invalid XML: not a Canoe123 file');
@@ -0,0 +1,100 @@
+import { XmlDataService } from './XmlDataService.js';
+
+/**
+ * Event keys appear in URLs: letters, digits, '-' and '_'
+ */
+const EVENT_KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * XML file registered under an event key
+ */
+export interface XmlEventInfo {
+  key: string;
+  path: string;
+}
+
+/**
+ * Several Canoe123 XML files at once, each under a named event key.
+ *
+ * Multi-day and multi-venue events keep one Canoe123 file per day or venue.
+ * Each registered file gets its own XmlDataService, independent of the main
+ * XML file the server follows. Keys keep their registration order, which is
+ * the order used when combining the files.
+ */
+export class XmlEventRegistry {
+  private readonly events = new Map<string, XmlDataService>();
+  private cacheTtlMs: number | null = null;
+
+  /**
+   * Check whether a string can be used as an event key
+   */
+  static isValidKey(key: string): boolean {
+    return EVENT_KEY_PATTERN.test(key);
+  }
+
+  /**
+   * Register an XML file under a key, replacing the file of an existing key
+   * (which keeps its position)
+   *
+   * @throws Error if the key is invalid
+   */
+  register(key: string, path: string): XmlDataService {
+    if (!XmlEventRegistry.isValidKey(key)) {
+      throw new Error(`Invalid event key: ${key}`);
+    }
+
+    let service = this.events.get(key);
+    if (!service) {
+      service = new XmlDataService();
+      if (this.cacheTtlMs !== null) {
+        service.setCacheTtl(this.cacheTtlMs);
+      }
+      this.events.set(key, service);
+    }
+    service.setPath(path);
+    return service;
+  }
+
+  /**
+   * Remove an event key
+   *
+   * @returns true if the key was registered
+   */
+  unregister(key: string): boolean {
+    return this.events.delete(key);
+  }
+
+  /**
+   * Get the XML data service of an event key
+   */
+  get(key: string): XmlDataService | undefined {
+    return this.events.get(key);
+  }
+
+  /**
+   * Registered keys in registration order
+   */
+  keys(): string[] {
+    return Array.from(this.events.keys());
+  }
+
+  /**
+   * Registered files in registration order
+   */
+  list(): XmlEventInfo[] {
+    return Array.from(this.events.entries()).map(([key, service]) => ({
+      key,
+      path: service.getPath() ?? '',
+    }));
+  }
+
+  /**
+   * Set the cache TTL of all current and future event services
+   */
+  setCacheTtl(ms: number): void {
+    this.cacheTtlMs = ms;
+    for (const service of this.events.values()) {
+      service.setCacheTtl(ms);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { ScoringService, type ScoringRequest, type RemoveFromCourseRequest, type TimingRequest } from '../ScoringService.js';
+import { ScoringService, GateOutsideSectionError, type ScoringRequest, type RemoveFromCourseRequest, type TimingRequest, type ScoringCommandRecord } from '../ScoringService.js';
 import type { WritableSource } from '../../sources/types.js';
 import { EventEmitter } from 'node:events';
 
@@ -125,6 +125,41 @@ describe('ScoringService', () => {
       await expect(service.sendScoring({ bib: '10', gate: 1, value: 0 }))
         .rejects.toThrow('Write failed');
     });
+
+    describe('team races', () => {
+      it('should send team sums for team requests', async () => {
+        await service.sendScoring({ bib: '10', gate: 4, value: 52, team: true });
+        expect(source.writtenMessages[0]).toContain('<Penalty Gate="4" Value="52" />');
+      });
+
+      it('should reject team sums for individual requests', async () => {
+        await expect(service.sendScoring({ bib: '10', gate: 4, value: 52 }))
+          .rejects.toThrow('Value must be 0, 2, 50, or null');
+      });
+
+      it('should reject values that are no sum of boat penalties', async () => {
+        await expect(service.sendScoring({ bib: '10', gate: 4, value: 8 as any, team: true }))
+          .rejects.toThrow('Team value must be a sum of up to three boat penalties');
+      });
+    });
+
+    describe('judge section', () => {
+      const section = { id: 's2', label: 'Section 2', fromGate: 7, toGate: 12 };
+
+      it('should send gates within the section', async () => {
+        await service.sendScoring({ bib: '10', gate: 7, value: 2 }, section);
+        await service.sendScoring({ bib: '10', gate: 12, value: 0 }, section);
+        expect(source.writtenMessages).toHaveLength(2);
+      });
+
+      it('should reject gates outside the section without writing', async () => {
+        const attempt = service.sendScoring({ bib: '10', gate: 3, value: 2 }, section);
+
+        await expect(attempt).rejects.toBeInstanceOf(GateOutsideSectionError);
+        await expect(attempt).rejects.toThrow('Gate 3 is outside section Section 2 (gates 7-12)');
+        expect(source.writtenMessages).toHaveLength(0);
+      });
+    });
   });
 
   describe('sendRemoveFromCourse', () => {
@@ -201,4 +236,44 @@ describe('ScoringService', () => {
       });
     });
   });
+
+  describe('command listener', () => {
+    let records: ScoringCommandRecord[];
+
+    beforeEach(() => {
+      records = [];
+      service = new ScoringService(source, (record) => records.push(record));
+    });
+
+    it('should report successful commands with the XML sent', async () => {
+      await service.sendScoring({ bib: '10', gate: 5, value: 2 });
+      await service.sendRemoveFromCourse({ bib: '11', reason: 'DNF' });
+      await service.sendTiming({ bib: '12', channelPosition: 'Finish' });
+
+      expect(records.map((r) => r.command)).toEqual(['scoring', 'remove-from-course', 'timing']);
+      expect(records.every((r) => r.success)).toBe(true);
+      expect(records[0].xml).toBe(source.writtenMessages[0]);
+      expect(records[0].payload).toEqual({ bib: '10', gate: 5, value: 2 });
+    });
+
+    it('should report write failures with the error', async () => {
+      source.shouldFail = true;
+
+      await expect(service.sendScoring({ bib: '10', gate: 5, value: 50 })).rejects.toThrow('Write failed');
+
+      expect(records).toHaveLength(1);
+      expect(records[0].success).toBe(false);
+      expect(records[0].error).toBe('Write failed');
+      expect(records[0].xml).toContain('<Scoring Bib="10">');
+    });
+
+    it('should report validation failures without XML', async () => {
+      await expect(service.sendTiming({ bib: '', channelPosition: 'Start' })).rejects.toThrow();
+
+      expect(records).toHaveLength(1);
+      expect(records[0].success).toBe(false);
+      expect(records[0].xml).toBeNull();
+      expect(source.writtenMessages).toHaveLength(0);
+    });
+  });
 });
@@ -693,4 +693,114 @@ describe('XmlDataService', () => {
       expect(mergedDay18[0].run2?.total).toBe(81000);
     });
   });
+
+  describe('gate statistics', () => {
+    const courseXml = `<?xml version="1.0"?>
+<Canoe123Data>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <CatId>A</CatId>
+  </Participants>
+  <Participants>
+    <Id>2.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <CatId>U23</CatId>
+  </Participants>
+  <Participants>
+    <Id>3.C1M</Id>
+    <ClassId>C1M</ClassId>
+    <CatId>A</CatId>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_BR1_1</RaceId>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+    <CourseNr>2</CourseNr>
+  </Schedule>
+  <Schedule>
+    <RaceId>C1M_BR1_1</RaceId>
+    <ClassId>C1M</ClassId>
+    <DisId>BR1</DisId>
+    <CourseNr>2</CourseNr>
+  </Schedule>
+  <Schedule>
+    <RaceId>C1M_BR2_1</RaceId>
+    <ClassId>C1M</ClassId>
+    <DisId>BR2</DisId>
+    <CourseNr>2</CourseNr>
+  </Schedule>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>1.K1M</Id>
+    <Gates>  0  2 50</Gates>
+  </Results>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>2.K1M</Id>
+    <Gates>  2  2  0</Gates>
+  </Results>
+  <Results>
+    <RaceId>C1M_BR1_1</RaceId>
+    <Id>3.C1M</Id>
+    <Gates>  0 50  0</Gates>
+  </Results>
+  <CourseData>
+    <CourseNr>2</CourseNr>
+    <CourseConfig>NRSN</CourseConfig>
+  </CourseData>
+  <CourseData>
+    <CourseNr>3</CourseNr>
+    <CourseConfig>NN</CourseConfig>
+  </CourseData>
+</Canoe123Data>`;
+
+    beforeEach(async () => {
+      await fsPromises.writeFile(xmlPath, courseXml);
+      service.setPath(xmlPath);
+    });
+
+    it('computes statistics of one race with gate types and categories', async () => {
+      const stats = await service.getGateStats('K1M_BR1_1');
+
+      expect(stats?.raceId).toBe('K1M_BR1_1');
+      expect(stats?.courseNr).toBe(2);
+      expect(stats?.gates.map((g) => g.type)).toEqual(['N', 'R', 'N']);
+      expect(stats?.gates.map((g) => g.penaltySeconds)).toEqual([2, 4, 50]);
+      expect(stats?.hardestGates).toEqual([3, 2, 1]);
+      expect(stats?.categories.map((c) => [c.catId, c.penaltySeconds])).toEqual([
+        ['A', 52],
+        ['U23', 4],
+      ]);
+    });
+
+    it('returns null for a race without results', async () => {
+      expect(await service.getGateStats('C1M_BR2_1')).toBeNull();
+      expect(await service.getGateStats('NONEXISTENT')).toBeNull();
+    });
+
+    it('aggregates all races on a course', async () => {
+      const stats = await service.getCourseGateStats(2);
+
+      expect(stats?.raceIds).toEqual(['K1M_BR1_1', 'C1M_BR1_1']);
+      expect(stats?.totals.runs).toBe(3);
+      expect(stats?.gates.map((g) => g.misses)).toEqual([0, 1, 1]);
+      expect(stats?.categories.map((c) => [c.catId, c.runs])).toEqual([
+        ['A', 2],
+        ['U23', 1],
+      ]);
+    });
+
+    it('returns empty statistics for a known course without races', async () => {
+      const stats = await service.getCourseGateStats(3);
+
+      expect(stats?.raceIds).toEqual([]);
+      expect(stats?.gates).toHaveLength(2);
+      expect(stats?.totals.runs).toBe(0);
+    });
+
+    it('returns null for an unknown course', async () => {
+      expect(await service.getCourseGateStats(9)).toBeNull();
+    });
+  });
 });
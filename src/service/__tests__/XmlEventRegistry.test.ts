@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { XmlEventRegistry } from '../XmlEventRegistry.js';
+
+describe('XmlEventRegistry', () => {
+  it('registers files under keys in registration order', () => {
+    const registry = new XmlEventRegistry();
+    registry.register('day1', '/data/day1.xml');
+    registry.register('day2', '/data/day2.xml');
+
+    expect(registry.keys()).toEqual(['day1', 'day2']);
+    expect(registry.get('day2')?.getPath()).toBe('/data/day2.xml');
+    expect(registry.get('day3')).toBeUndefined();
+  });
+
+  it('replaces the file of an existing key in place', () => {
+    const registry = new XmlEventRegistry();
+    const first = registry.register('day1', '/data/day1.xml');
+    registry.register('day2', '/data/day2.xml');
+    const second = registry.register('day1', '/data/day1-final.xml');
+
+    expect(second).toBe(first);
+    expect(registry.list()).toEqual([
+      { key: 'day1', path: '/data/day1-final.xml' },
+      { key: 'day2', path: '/data/day2.xml' },
+    ]);
+  });
+
+  it('unregisters keys', () => {
+    const registry = new XmlEventRegistry();
+    registry.register('day1', '/data/day1.xml');
+
+    expect(registry.unregister('day1')).toBe(true);
+    expect(registry.unregister('day1')).toBe(false);
+    expect(registry.keys()).toEqual([]);
+  });
+
+  it('rejects keys that do not fit in a URL segment', () => {
+    const registry = new XmlEventRegistry();
+
+    expect(XmlEventRegistry.isValidKey('day-1_A')).toBe(true);
+    expect(XmlEventRegistry.isValidKey('')).toBe(false);
+    expect(XmlEventRegistry.isValidKey('day 1')).toBe(false);
+    expect(XmlEventRegistry.isValidKey('../day1')).toBe(false);
+    expect(() => registry.register('day/1', '/data/day1.xml')).toThrow('Invalid event key');
+  });
+});
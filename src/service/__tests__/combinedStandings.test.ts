@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fsPromises from 'node:fs/promises';
+import path from 'node:path';
+import os from 'node:os';
+import { XmlDataService } from '../XmlDataService.js';
+import { computeCombinedStandings, mergeParticipants, participantMergeKey } from '../combinedStandings.js';
+import type { CombinedEventSource } from '../combinedStandings.js';
+
+interface Boat {
+  id: string;
+  bib: string;
+  icfId?: string;
+  familyName: string;
+  givenName: string;
+  year: string;
+  total?: number;
+  status?: string;
+}
+
+function dayXml(raceId: string, boats: Boat[]): string {
+  const participants = boats
+    .map(
+      (b) => `
+  <Participants>
+    <Id>${b.id}</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>${b.bib}</EventBib>
+    ${b.icfId ? `<ICFId>${b.icfId}</ICFId>` : ''}
+    <FamilyName>${b.familyName}</FamilyName>
+    <GivenName>${b.givenName}</GivenName>
+    <Club>Club</Club>
+    <Year>${b.year}</Year>
+  </Participants>`
+    )
+    .join('');
+  const results = boats
+    .filter((b) => b.total !== undefined || b.status)
+    .map(
+      (b) => `
+  <Results>
+    <RaceId>${raceId}</RaceId>
+    <Id>${b.id}</Id>
+    <Bib>${b.bib}</Bib>
+    ${b.status ? `<Status>${b.status}</Status>` : `<Time>${b.total}</Time><Pen>0</Pen><Total>${b.total}</Total>`}
+  </Results>`
+    )
+    .join('');
+  return `<?xml version="1.0"?>
+<Canoe123Data>${participants}
+  <Schedule>
+    <RaceId>${raceId}</RaceId>
+    <RaceOrder>1</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>SR</DisId>
+  </Schedule>${results}
+</Canoe123Data>`;
+}
+
+describe('combined standings', () => {
+  let tempDir: string;
+  let events: CombinedEventSource[];
+
+  async function service(name: string, xml: string): Promise<XmlDataService> {
+    const file = path.join(tempDir, name);
+    await fsPromises.writeFile(file, xml);
+    const s = new XmlDataService();
+    s.setPath(file);
+    s.setCacheTtl(0);
+    return s;
+  }
+
+  beforeEach(async () => {
+    tempDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'combined-test-'));
+    const day1 = await service(
+      'day1.xml',
+      dayXml('K1M_SR_1', [
+        { id: '1.K1M', bib: '1', icfId: '12054', familyName: 'PRSKAVEC', givenName: 'Jiří', year: '1993', total: 82000 },
+        { id: '2.K1M', bib: '2', icfId: '12055', familyName: 'FUKSA', givenName: 'Martin', year: '1987', total: 85000 },
+        { id: '3.K1M', bib: '3', familyName: 'NOVAK', givenName: 'Petr', year: '2001', total: 90000 },
+      ])
+    );
+    // Day 2 numbers the same boats differently
+    const day2 = await service(
+      'day2.xml',
+      dayXml('K1M_SR_2', [
+        { id: '7.K1M', bib: '7', icfId: '12054', familyName: 'PRSKAVEC', givenName: 'Jiří', year: '1993', total: 84000 },
+        { id: '8.K1M', bib: '8', icfId: '12055', familyName: 'FUKSA', givenName: 'Martin', year: '1987', total: 80000 },
+        { id: '9.K1M', bib: '9', familyName: 'Novak', givenName: 'Petr', year: '2001', status: 'DNS' },
+        { id: '10.K1M', bib: '10', familyName: 'HRADIL', givenName: 'Vit', year: '1999', total: 79000 },
+      ])
+    );
+    events = [
+      { key: 'day1', service: day1 },
+      { key: 'day2', service: day2 },
+    ];
+  });
+
+  afterEach(async () => {
+    await fsPromises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('identifies boats by ICF ID, or by names and year', () => {
+    const base = { id: '1', classId: 'K1M', bib: '1', familyName: 'NOVAK', givenName: 'Petr', club: '', year: '2001', isTeam: false };
+    expect(participantMergeKey({ ...base, icfId: '42' })).toBe('K1M|icf:42');
+    expect(participantMergeKey(base)).toBe(participantMergeKey({ ...base, id: '9', familyName: 'Novak ' }));
+    expect(participantMergeKey(base)).not.toBe(participantMergeKey({ ...base, classId: 'C1M' }));
+  });
+
+  it('merges participants across event files', async () => {
+    const participants = await mergeParticipants(events);
+
+    expect(participants.map((p) => p.familyName)).toEqual(['PRSKAVEC', 'FUKSA', 'NOVAK', 'HRADIL']);
+    expect(participants[0].entries).toEqual([
+      { key: 'day1', id: '1.K1M', bib: '1' },
+      { key: 'day2', id: '7.K1M', bib: '7' },
+    ]);
+    expect(participants[3].entries).toEqual([{ key: 'day2', id: '10.K1M', bib: '10' }]);
+  });
+
+  it('ranks boats by the sum of their results', async () => {
+    const [k1m] = await computeCombinedStandings(events);
+
+    expect(k1m.classId).toBe('K1M');
+    expect(k1m.events).toEqual(['day1', 'day2']);
+    expect(k1m.entries.map((e) => [e.participant.familyName, e.rank, e.total])).toEqual([
+      ['FUKSA', 1, 165000],
+      ['PRSKAVEC', 2, 166000],
+      ['NOVAK', undefined, undefined],
+      ['HRADIL', undefined, undefined],
+    ]);
+    expect(k1m.entries[2].results).toEqual([
+      { key: 'day1', raceId: 'K1M_SR_1', rank: undefined, total: 90000, status: undefined },
+      { key: 'day2', raceId: 'K1M_SR_2', rank: undefined, total: undefined, status: 'DNS' },
+    ]);
+  });
+
+  it('shares the rank on equal sums', async () => {
+    const tie = await service(
+      'tie.xml',
+      dayXml('K1M_SR_3', [
+        { id: '1.K1M', bib: '1', icfId: '12054', familyName: 'PRSKAVEC', givenName: 'Jiří', year: '1993', total: 80000 },
+        { id: '2.K1M', bib: '2', icfId: '12055', familyName: 'FUKSA', givenName: 'Martin', year: '1987', total: 77000 },
+      ])
+    );
+    const [k1m] = await computeCombinedStandings([events[0], { key: 'tie', service: tie }]);
+
+    expect(k1m.entries.slice(0, 2).map((e) => [e.participant.familyName, e.rank, e.total])).toEqual([
+      ['PRSKAVEC', 1, 162000],
+      ['FUKSA', 1, 162000],
+    ]);
+  });
+
+  it('filters by class', async () => {
+    expect(await computeCombinedStandings(events, 'C1W')).toEqual([]);
+    expect(await computeCombinedStandings(events, 'K1M')).toHaveLength(1);
+  });
+});
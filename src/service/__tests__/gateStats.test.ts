@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { computeGateStats, courseGateTypes } from '../gateStats.js';
+
+describe('courseGateTypes', () => {
+  it('keeps only N and R', () => {
+    expect(courseGateTypes('NNRSNIRE')).toEqual(['N', 'N', 'R', 'N', 'R']);
+  });
+});
+
+describe('computeGateStats', () => {
+  it('counts clean gates, touches and misses per gate', () => {
+    const stats = computeGateStats(
+      [{ gates: '  0  2 50' }, { gates: '  2  2  0' }, { gates: '  0 50   ' }],
+      ['N', 'R', 'N']
+    );
+
+    expect(stats.gates).toEqual([
+      { gate: 1, type: 'N', judged: 3, clean: 2, touches: 1, misses: 0, penaltySeconds: 2, averagePenalty: 0.67 },
+      { gate: 2, type: 'R', judged: 3, clean: 0, touches: 2, misses: 1, penaltySeconds: 54, averagePenalty: 18 },
+      { gate: 3, type: 'N', judged: 2, clean: 1, touches: 0, misses: 1, penaltySeconds: 50, averagePenalty: 25 },
+    ]);
+    expect(stats.hardestGates).toEqual([3, 2, 1]);
+    expect(stats.totals).toEqual({
+      runs: 3,
+      touches: 3,
+      misses: 2,
+      touchSeconds: 6,
+      missSeconds: 100,
+      penaltySeconds: 106,
+    });
+  });
+
+  it('splits team gate values into boat penalties', () => {
+    const stats = computeGateStats([{ gates: ' 52100  6' }]);
+
+    expect(stats.gates.map((g) => [g.touches, g.misses])).toEqual([
+      [1, 1],
+      [0, 2],
+      [3, 0],
+    ]);
+    expect(stats.totals.penaltySeconds).toBe(158);
+  });
+
+  it('lists at most five hardest gates and skips clean ones', () => {
+    const stats = computeGateStats([{ gates: '  2  2  2  2  2  2 50  0' }]);
+
+    expect(stats.hardestGates).toEqual([7, 1, 2, 3, 4]);
+  });
+
+  it('sums penalties per category', () => {
+    const stats = computeGateStats([
+      { gates: '  2  0', catId: 'U23' },
+      { gates: ' 50  2', catId: 'A' },
+      { gates: '  0  0', catId: 'A' },
+      { gates: '  2  2' },
+    ]);
+
+    expect(stats.categories).toEqual([
+      { catId: 'A', runs: 2, touches: 1, misses: 1, touchSeconds: 2, missSeconds: 50, penaltySeconds: 52 },
+      { catId: 'U23', runs: 1, touches: 1, misses: 0, touchSeconds: 2, missSeconds: 0, penaltySeconds: 2 },
+    ]);
+    expect(stats.totals.runs).toBe(4);
+  });
+
+  it('leaves out runs without any judged gate', () => {
+    const stats = computeGateStats([{ gates: '      ' }, { gates: '  0  0' }], ['N', 'N']);
+
+    expect(stats.totals.runs).toBe(1);
+    expect(stats.gates[0].judged).toBe(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { onCourseGateValue, resultsGateValue } from '../gateValues.js';
+
+describe('onCourseGateValue', () => {
+  it('reads comma-separated gates', () => {
+    expect(onCourseGateValue('2,0,50', 1)).toBe(2);
+    expect(onCourseGateValue('2,0,50', 2)).toBe(0);
+    expect(onCourseGateValue('2,0,50', 3)).toBe(50);
+  });
+
+  it('returns null for unjudged gates, including past the end', () => {
+    expect(onCourseGateValue('2,,50', 2)).toBeNull();
+    expect(onCourseGateValue('2,0', 5)).toBeNull();
+    expect(onCourseGateValue('', 1)).toBeNull();
+  });
+
+  it('returns undefined for an invalid gate or value', () => {
+    expect(onCourseGateValue('2,0', 0)).toBeUndefined();
+    expect(onCourseGateValue('x', 1)).toBeUndefined();
+  });
+});
+
+describe('resultsGateValue', () => {
+  it('reads fixed-width gates without shifting past unjudged ones', () => {
+    const gates = '  0  2     0';
+    expect(resultsGateValue(gates, 1)).toBe(0);
+    expect(resultsGateValue(gates, 2)).toBe(2);
+    expect(resultsGateValue(gates, 3)).toBeNull();
+    expect(resultsGateValue(gates, 4)).toBe(0);
+  });
+
+  it('reads three-digit team race values', () => {
+    expect(resultsGateValue(' 52100150', 2)).toBe(100);
+    expect(resultsGateValue(' 52100150', 3)).toBe(150);
+  });
+
+  it('returns null past the end and undefined for gate 0', () => {
+    expect(resultsGateValue('  2', 2)).toBeNull();
+    expect(resultsGateValue('  2', 0)).toBeUndefined();
+  });
+});
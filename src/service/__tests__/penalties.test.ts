@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { isPenaltyValue, parsePenaltyInput, sumBoatPenalties, TEAM_PENALTY_VALUES } from '../penalties.js';
+
+describe('team penalty values', () => {
+  it('are exactly the sums of one to three boat penalties', () => {
+    const sums = new Set<number>();
+    for (const a of [0, 2, 50]) {
+      sums.add(a);
+      for (const b of [0, 2, 50]) {
+        sums.add(a + b);
+        for (const c of [0, 2, 50]) sums.add(a + b + c);
+      }
+    }
+    expect([...TEAM_PENALTY_VALUES].sort((x, y) => x - y)).toEqual([...sums].sort((x, y) => x - y));
+  });
+
+  it('are only valid in team mode', () => {
+    expect(isPenaltyValue(52, true)).toBe(true);
+    expect(isPenaltyValue(52, false)).toBe(false);
+    expect(isPenaltyValue(2, false)).toBe(true);
+    expect(isPenaltyValue(8, true)).toBe(false);
+  });
+
+  it('sums boat penalties', () => {
+    expect(sumBoatPenalties([2, 50])).toBe(52);
+    expect(sumBoatPenalties([50, 50, 50])).toBe(150);
+  });
+});
+
+describe('parsePenaltyInput', () => {
+  it('parses individual values', () => {
+    expect(parsePenaltyInput({ value: 2 })).toEqual({ value: 2, team: false });
+    expect(parsePenaltyInput({ value: '50' })).toEqual({ value: 50, team: false });
+    expect(parsePenaltyInput({ value: null })).toEqual({ value: null, team: false });
+  });
+
+  it('accepts team sums only with team: true', () => {
+    expect(parsePenaltyInput({ value: 100, team: true })).toEqual({ value: 100, team: true });
+    expect(parsePenaltyInput({ value: 100 })).toBe('value must be 0, 2, 50, or null (to delete)');
+    expect(parsePenaltyInput({ value: 8, team: true })).toBe(
+      'value must be a team penalty (sum of up to three of 0, 2, 50) or null (to delete)'
+    );
+  });
+
+  it('sums per-boat penalties into a team value', () => {
+    expect(parsePenaltyInput({ boats: [0, 2, 50] })).toEqual({ value: 52, team: true });
+    expect(parsePenaltyInput({ boats: [50] })).toEqual({ value: 50, team: true });
+  });
+
+  it('rejects invalid boats', () => {
+    const error = 'boats must be an array of 1-3 boat penalties (0, 2 or 50)';
+    expect(parsePenaltyInput({ boats: [] })).toBe(error);
+    expect(parsePenaltyInput({ boats: [0, 0, 0, 0] })).toBe(error);
+    expect(parsePenaltyInput({ boats: [0, 4] })).toBe(error);
+    expect(parsePenaltyInput({ boats: [null] })).toBe(error);
+    expect(parsePenaltyInput({ boats: 52 })).toBe(error);
+    expect(parsePenaltyInput({ boats: [2], value: 2 })).toBe('use either value or boats, not both');
+    expect(parsePenaltyInput({ boats: [2], team: false })).toBe('boats are for team races, not with team: false');
+  });
+
+  it('requires a value', () => {
+    expect(parsePenaltyInput({})).toBe('value is required (use null to delete)');
+    expect(parsePenaltyInput({ value: 2, team: 'yes' })).toBe('team must be a boolean');
+  });
+});
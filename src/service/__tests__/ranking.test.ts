@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import { rankResults, rankingPhase, selectRankedRaces } from '../ranking.js';
+import type { XmlParticipant, XmlResultRow, XmlScheduleItem } from '../XmlDataService.js';
+
+const BR1 = 'K1M_ST_BR1_6';
+const BR2 = 'K1M_ST_BR2_6';
+
+const schedule: XmlScheduleItem[] = [
+  { raceId: BR2, raceOrder: 2, classId: 'K1M', disId: 'BR2' },
+  { raceId: BR1, raceOrder: 1, classId: 'K1M', disId: 'BR1' },
+  { raceId: 'C1W_ST_BR1_7', raceOrder: 3, classId: 'C1W', disId: 'BR1' },
+];
+const brRaces = [schedule[1], schedule[0]];
+
+function participant(bib: string): XmlParticipant {
+  return { id: `${bib}.K1M`, classId: 'K1M', bib, familyName: `BOAT${bib}`, givenName: 'Test', club: 'Club', isTeam: false };
+}
+
+/** Result row without gates, total in seconds */
+function row(raceId: string, bib: string, total?: number, status?: string): XmlResultRow {
+  return {
+    raceId,
+    id: `${bib}.K1M`,
+    startOrder: Number(bib),
+    bib,
+    status,
+    time: total !== undefined ? total * 1000 : undefined,
+    pen: total !== undefined ? 0 : undefined,
+    total: total !== undefined ? total * 1000 : undefined,
+  };
+}
+
+function results(...rows: XmlResultRow[]): Map<string, XmlResultRow[]> {
+  const map = new Map<string, XmlResultRow[]>();
+  for (const r of rows) {
+    map.set(r.raceId, [...(map.get(r.raceId) ?? []), r]);
+  }
+  return map;
+}
+
+const participants = ['1', '2', '3', '4', '5', '6'].map(participant);
+
+describe('ranking', () => {
+  describe('rankingPhase', () => {
+    it('should map disciplines to progression phases', () => {
+      expect(rankingPhase('FIN')).toBe('final');
+      expect(rankingPhase('SEM')).toBe('semi');
+      expect(rankingPhase('BR1')).toBe('heats');
+      expect(rankingPhase(undefined)).toBe('heats');
+    });
+  });
+
+  describe('selectRankedRaces', () => {
+    it('should select the BR pair in race order for best and sum', () => {
+      expect(selectRankedRaces(schedule, BR2, 'best').map((r) => r.raceId)).toEqual([BR1, BR2]);
+      expect(selectRankedRaces(schedule, BR1, 'sum').map((r) => r.raceId)).toEqual([BR1, BR2]);
+    });
+
+    it('should select every race of the class for progression', () => {
+      const withFinal = [...schedule, { raceId: 'K1M_ST_FIN_9', raceOrder: 9, classId: 'K1M', disId: 'FIN' }];
+      expect(selectRankedRaces(withFinal, BR1, 'progression').map((r) => r.raceId)).toEqual([BR1, BR2, 'K1M_ST_FIN_9']);
+    });
+
+    it('should return nothing for an unknown race', () => {
+      expect(selectRankedRaces(schedule, 'NOPE', 'best')).toEqual([]);
+    });
+  });
+
+  describe('best', () => {
+    it('should rank by the better run and leave boats without a valid run unranked', () => {
+      const ranked = rankResults(
+        brRaces,
+        results(row(BR1, '1', 90), row(BR1, '2', 85), row(BR1, '3', undefined, 'DNS'), row(BR2, '1', 84), row(BR2, '2', 88), row(BR2, '3', undefined, 'DNS')),
+        participants,
+        { rule: 'best' }
+      );
+
+      expect(ranked.map((r) => [r.bib, r.rank, r.total, r.status])).toEqual([
+        ['1', 1, 84000, undefined],
+        ['2', 2, 85000, undefined],
+        ['3', undefined, undefined, 'DNS'],
+      ]);
+      expect(ranked[0].familyName).toBe('BOAT1');
+      expect(ranked[0].runs.map((r) => r.raceId)).toEqual([BR1, BR2]);
+    });
+
+    it('should break ties by the other run under ICF rules', () => {
+      const rows = results(row(BR1, '1', 90), row(BR1, '2', 85), row(BR2, '1', 85), row(BR2, '2', 92));
+
+      const icf = rankResults(brRaces, rows, participants, { rule: 'best' });
+      expect(icf.map((r) => [r.bib, r.rank])).toEqual([
+        ['1', 1],
+        ['2', 2],
+      ]);
+
+      const shared = rankResults(brRaces, rows, participants, { rule: 'best', tieBreak: 'shared' });
+      expect(shared.map((r) => r.rank)).toEqual([1, 1]);
+    });
+  });
+
+  describe('sum', () => {
+    it('should rank by the sum of both runs, requiring both', () => {
+      const ranked = rankResults(
+        brRaces,
+        results(row(BR1, '1', 90), row(BR1, '2', 80), row(BR1, '3', 70), row(BR2, '1', 85), row(BR2, '2', 100), row(BR2, '3', undefined, 'DNF')),
+        participants,
+        { rule: 'sum' }
+      );
+
+      expect(ranked.map((r) => [r.bib, r.rank, r.total, r.status])).toEqual([
+        ['1', 1, 175000, undefined],
+        ['2', 2, 180000, undefined],
+        ['3', undefined, undefined, 'DNF'],
+      ]);
+    });
+
+    it('should break ties by the better run under ICF rules', () => {
+      const ranked = rankResults(brRaces, results(row(BR1, '1', 90), row(BR1, '2', 80), row(BR2, '1', 90), row(BR2, '2', 100)), participants, {
+        rule: 'sum',
+      });
+
+      expect(ranked.map((r) => [r.bib, r.rank])).toEqual([
+        ['2', 1],
+        ['1', 2],
+      ]);
+    });
+  });
+
+  it('should rebuild the penalty of a BR2 run from its gates', () => {
+    // Canoe123 reports the better (BR1) run's Pen and Total in the BR2 row
+    const br2: XmlResultRow = { ...row(BR2, '1', 86), pen: 0, total: 86000, gates: '  0  2 50' };
+    const ranked = rankResults(brRaces, results(row(BR1, '1', 86), br2), participants, { rule: 'sum' });
+
+    expect(ranked[0].runs[1]).toMatchObject({ pen: 52, total: 138000 });
+    expect(ranked[0].total).toBe(86000 + 138000);
+  });
+
+  describe('progression', () => {
+    const races: XmlScheduleItem[] = [
+      { raceId: 'K1M_ST_QUA_1', raceOrder: 1, classId: 'K1M', disId: 'QUA' },
+      { raceId: 'K1M_ST_SEM_2', raceOrder: 2, classId: 'K1M', disId: 'SEM' },
+      { raceId: 'K1M_ST_FIN_3', raceOrder: 3, classId: 'K1M', disId: 'FIN' },
+    ];
+    const rows = results(
+      row('K1M_ST_QUA_1', '1', 80),
+      row('K1M_ST_QUA_1', '2', 81),
+      row('K1M_ST_QUA_1', '3', 82),
+      row('K1M_ST_QUA_1', '4', 83),
+      row('K1M_ST_QUA_1', '5', 84),
+      row('K1M_ST_QUA_1', '6', undefined, 'DNS'),
+      row('K1M_ST_SEM_2', '1', 90),
+      row('K1M_ST_SEM_2', '2', 88),
+      row('K1M_ST_SEM_2', '3', 91),
+      row('K1M_ST_SEM_2', '4', 88),
+      row('K1M_ST_FIN_3', '4', 95),
+      row('K1M_ST_FIN_3', '2', 93)
+    );
+
+    it('should rank finalists, then semi-finalists, then the heats', () => {
+      const ranked = rankResults(races, rows, participants, { rule: 'progression', semiQualifiers: 4, finalQualifiers: 2 });
+
+      expect(ranked.map((r) => [r.bib, r.rank, r.phase, r.qualified])).toEqual([
+        ['2', 1, 'final', 'final'],
+        ['4', 2, 'final', 'final'],
+        ['1', 3, 'semi', 'semi'],
+        ['3', 4, 'semi', 'semi'],
+        ['5', 5, 'heats', undefined],
+        ['6', undefined, 'heats', undefined],
+      ]);
+    });
+
+    it('should break semi-final ties by the heats rank under ICF rules', () => {
+      const icf = rankResults(races, rows, participants, { rule: 'progression', finalQualifiers: 1 });
+      // 2 and 4 tie in the semi-final; 2 was faster in the heats
+      expect(icf.filter((r) => r.qualified === 'final').map((r) => r.bib)).toEqual(['2']);
+
+      const shared = rankResults(races, rows, participants, { rule: 'progression', tieBreak: 'shared', finalQualifiers: 1 });
+      expect(shared.filter((r) => r.qualified === 'final').map((r) => r.bib).sort()).toEqual(['2', '4']);
+    });
+
+    it('should break heats ties by the other heat run only', () => {
+      const final: XmlScheduleItem = { raceId: 'K1M_ST_FIN_3', raceOrder: 3, classId: 'K1M', disId: 'FIN' };
+      // 1 and 2 tie on the better heat run; 1 has the better other heat run,
+      // 2's final run must not count as its other run
+      const ranked = rankResults(
+        [...brRaces, final],
+        results(row(BR1, '1', 80), row(BR1, '2', 80), row(BR2, '1', 85), row(BR2, '2', 88), row('K1M_ST_FIN_3', '2', 82)),
+        participants,
+        { rule: 'progression', finalQualifiers: 1 }
+      );
+
+      expect(ranked.filter((r) => r.qualified === 'final').map((r) => r.bib)).toEqual(['1']);
+      expect(ranked.find((r) => r.bib === '1')).toMatchObject({ phase: 'heats', rank: 2 });
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { validateScoringBatch } from '../scoringBatch.js';
+import type { EventStateData } from '../../state/types.js';
+import type { OnCourseCompetitor } from '../../protocol/index.js';
+
+const RACE = 'K1M_ST_BR1_6';
+
+function competitor(bib: string): OnCourseCompetitor {
+  return {
+    bib,
+    name: 'Test',
+    club: '',
+    nat: '',
+    raceId: RACE,
+    raceName: '',
+    startOrder: 1,
+    warning: '',
+    gates: '',
+    completed: false,
+    dtStart: '10:00:00.000',
+    dtFinish: null,
+    pen: 0,
+    time: null,
+    total: null,
+    ttbDiff: '',
+    ttbName: '',
+    rank: 0,
+    position: 1,
+  };
+}
+
+function state(overrides: Partial<EventStateData> = {}): EventStateData {
+  return {
+    timeOfDay: null,
+    raceConfig: { nrSplits: 0, nrGates: 6, gateConfig: 'NNRNNN', gateCaptions: '1,2,3,4,5,6' },
+    schedule: [],
+    currentRaceId: RACE,
+    onCourse: [competitor('10')],
+    results: null,
+    highlightBib: null,
+    scheduleFingerprint: null,
+    ...overrides,
+  };
+}
+
+describe('validateScoringBatch', () => {
+  it('accepts a full gate sheet for a bib on course', () => {
+    const items = [1, 2, 3, 4, 5, 6].map((gate) => ({ bib: '10', gate, value: gate === 3 ? 2 : 0 }));
+
+    const result = validateScoringBatch(items, state());
+
+    expect(result).toEqual({
+      valid: true,
+      requests: items.map((item) => ({ bib: '10', gate: item.gate, value: item.value })),
+    });
+  });
+
+  it('normalizes values and keeps raceId', () => {
+    const result = validateScoringBatch([{ raceId: 'K1W_ST_BR1_7', bib: 5, gate: '2', value: '50' }], state());
+
+    expect(result).toEqual({ valid: true, requests: [{ raceId: 'K1W_ST_BR1_7', bib: '5', gate: 2, value: 50 }] });
+  });
+
+  it('sums per-boat penalties of team items', () => {
+    const result = validateScoringBatch(
+      [
+        { bib: '10', gate: 1, boats: [2, 50, 0] },
+        { bib: '10', gate: 2, value: 100, team: true },
+      ],
+      state()
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      requests: [
+        { bib: '10', gate: 1, value: 52, team: true },
+        { bib: '10', gate: 2, value: 100, team: true },
+      ],
+    });
+  });
+
+  it('reports every invalid item with its index', () => {
+    const result = validateScoringBatch(
+      [{ bib: '10', gate: 1, value: 0 }, { bib: '10', gate: 2, value: 5 }, 'x', { gate: 1, value: 0 }],
+      state()
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        { index: 1, error: 'value must be 0, 2, 50, or null (to delete)' },
+        { index: 2, error: 'item must be an object' },
+        { index: 3, error: 'bib is required' },
+      ],
+    });
+  });
+
+  it('rejects gates beyond the current course', () => {
+    const result = validateScoringBatch([{ bib: '10', gate: 7, value: 0 }], state());
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [{ index: 0, error: 'gate 7 does not exist, the current course has 6 gates' }],
+    });
+  });
+
+  it('checks the gate count for corrections in the current race only', () => {
+    const current = validateScoringBatch([{ raceId: RACE, bib: '3', gate: 8, value: 0 }], state());
+    const other = validateScoringBatch([{ raceId: 'C1M_ST_BR1_6', bib: '3', gate: 8, value: 0 }], state());
+
+    expect(current.valid).toBe(false);
+    expect(other.valid).toBe(true);
+  });
+
+  it('skips the gate count when no RaceConfig was received', () => {
+    const result = validateScoringBatch([{ bib: '10', gate: 20, value: 0 }], state({ raceConfig: null }));
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects on-course items for a bib that is not on course', () => {
+    const result = validateScoringBatch([{ bib: '11', gate: 1, value: 0 }], state());
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [{ index: 0, error: 'bib 11 is not on course (use raceId for a finished competitor)' }],
+    });
+  });
+
+  it('rejects the same bib and gate twice', () => {
+    const result = validateScoringBatch(
+      [
+        { bib: '10', gate: 1, value: 0 },
+        { bib: '10', gate: 1, value: 2 },
+      ],
+      state()
+    );
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [{ index: 1, error: 'duplicate of item 0 (same bib and gate)' }],
+    });
+  });
+});
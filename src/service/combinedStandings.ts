@@ -0,0 +1,167 @@
+import type { XmlDataService, XmlParticipant } from './XmlDataService.js';
+import { collectFederationResults } from '../export/federation.js';
+
+/**
+ * XML data of one part of a combined event (e.g. one day)
+ */
+export interface CombinedEventSource {
+  key: string;
+  service: XmlDataService;
+}
+
+/**
+ * Participant found in one or more event files
+ */
+export interface CombinedParticipant extends XmlParticipant {
+  /** Participant ID and bib in each file the boat is entered in */
+  entries: { key: string; id: string; bib: string }[];
+}
+
+/**
+ * Result of a boat in one event file
+ */
+export interface CombinedEventResult {
+  key: string;
+  raceId: string;
+  rank?: number | undefined;
+  /** Result time in ms, the better run for BR races */
+  total?: number | undefined;
+  /** IRM code when the boat has no valid result */
+  status?: string | undefined;
+}
+
+/**
+ * Combined standing of one boat
+ */
+export interface CombinedEntry {
+  participant: XmlParticipant;
+  /** Results in event order, only for the files the boat has one in */
+  results: CombinedEventResult[];
+  /** Sum of the result times in ms, only with a valid result in every file */
+  total?: number | undefined;
+  rank?: number | undefined;
+}
+
+/**
+ * Combined standings of one class over all event files
+ */
+export interface CombinedClassStandings {
+  classId: string;
+  /** Event keys combined, in order */
+  events: string[];
+  entries: CombinedEntry[];
+}
+
+/**
+ * Identify the same boat across files. Canoe123 numbers participants per
+ * file, so the ICF ID is used where known, the crew names and year otherwise.
+ */
+export function participantMergeKey(p: XmlParticipant): string {
+  if (p.icfId) {
+    return `${p.classId}|icf:${p.icfId}`;
+  }
+  const crew = [p.familyName, p.givenName, p.familyName2 ?? '', p.givenName2 ?? '', p.year ?? '']
+    .map((s) => s.trim().toLocaleUpperCase('cs'))
+    .join('|');
+  return `${p.classId}|${crew}`;
+}
+
+/**
+ * Merge the participants of several event files. A boat entered in more than
+ * one file is listed once, with the data of the first file it appears in.
+ */
+export async function mergeParticipants(events: CombinedEventSource[]): Promise<CombinedParticipant[]> {
+  const merged = new Map<string, CombinedParticipant>();
+
+  for (const { key, service } of events) {
+    for (const p of await service.getParticipants()) {
+      const mergeKey = participantMergeKey(p);
+      const existing = merged.get(mergeKey);
+      if (existing) {
+        existing.entries.push({ key, id: p.id, bib: p.bib });
+      } else {
+        merged.set(mergeKey, { ...p, entries: [{ key, id: p.id, bib: p.bib }] });
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Combine the class results of several event files into overall standings.
+ *
+ * In each file a boat's result in a class is its final result (the better
+ * run of a BR pair); with several races of the class in one file the last one
+ * in race order counts. Boats with a valid result in every file are ranked by
+ * the sum of their times, ties sharing a rank. The others follow unranked,
+ * most valid results first.
+ *
+ * @param classId - Only this class
+ */
+export async function computeCombinedStandings(
+  events: CombinedEventSource[],
+  classId?: string
+): Promise<CombinedClassStandings[]> {
+  const classes = new Map<string, Map<string, CombinedEntry>>();
+  const keys = events.map((e) => e.key);
+
+  for (const { key, service } of events) {
+    const races = (await collectFederationResults(service)).filter((r) => classId === undefined || r.classId === classId);
+
+    // Last race of a class in race order wins within one file
+    const perFile = new Map<string, { classId: string; entry: CombinedEntry; result: CombinedEventResult }>();
+    for (const race of races) {
+      for (const e of race.entries) {
+        if (!e.participant) continue;
+        const mergeKey = participantMergeKey(e.participant);
+        perFile.set(mergeKey, {
+          classId: race.classId,
+          entry: { participant: e.participant, results: [] },
+          result: { key, raceId: race.raceId, rank: e.rank, total: e.total, status: e.status },
+        });
+      }
+    }
+
+    for (const [mergeKey, { classId: raceClassId, entry, result }] of perFile) {
+      const classEntries = classes.get(raceClassId) ?? new Map<string, CombinedEntry>();
+      classes.set(raceClassId, classEntries);
+      const existing = classEntries.get(mergeKey) ?? entry;
+      existing.results.push(result);
+      classEntries.set(mergeKey, existing);
+    }
+  }
+
+  const standings: CombinedClassStandings[] = [];
+  for (const [id, entries] of classes) {
+    standings.push({ classId: id, events: keys, entries: rankCombined(Array.from(entries.values()), keys.length) });
+  }
+  return standings;
+}
+
+function validCount(entry: CombinedEntry): number {
+  return entry.results.filter((r) => r.total !== undefined && !r.status).length;
+}
+
+/**
+ * Sum and rank entries, ranked ones first
+ */
+function rankCombined(entries: CombinedEntry[], eventCount: number): CombinedEntry[] {
+  for (const entry of entries) {
+    if (validCount(entry) === eventCount) {
+      entry.total = entry.results.reduce((sum, r) => sum + (r.total as number), 0);
+    }
+  }
+
+  const ranked = entries.filter((e) => e.total !== undefined).sort((a, b) => (a.total as number) - (b.total as number));
+  ranked.forEach((entry, i) => {
+    const prev = ranked[i - 1];
+    entry.rank = prev && prev.total === entry.total ? prev.rank : i + 1;
+  });
+
+  const unranked = entries
+    .filter((e) => e.total === undefined)
+    .sort((a, b) => validCount(b) - validCount(a) || a.participant.bib.localeCompare(b.participant.bib, undefined, { numeric: true }));
+
+  return [...ranked, ...unranked];
+}
@@ -0,0 +1,173 @@
+import { resultsGateValue } from './gateValues.js';
+
+/**
+ * Number of gates listed in hardestGates
+ */
+export const HARDEST_GATES_COUNT = 5;
+
+/**
+ * One run's input to the statistics
+ */
+export interface GateStatsRun {
+  /** Fixed-width gates string from the XML results */
+  gates: string;
+  /** Participant category (CatId), if known */
+  catId?: string | undefined;
+}
+
+/**
+ * Penalty counts of one gate
+ */
+export interface GateStat {
+  gate: number;
+  /** N (downstream) or R (upstream), null if the course is unknown */
+  type: 'N' | 'R' | null;
+  /** Runs with a judged value at this gate */
+  judged: number;
+  /** Runs through the gate without penalty */
+  clean: number;
+  /** 2s penalties (team runs can have several per gate) */
+  touches: number;
+  /** 50s penalties */
+  misses: number;
+  penaltySeconds: number;
+  /** penaltySeconds per judged run */
+  averagePenalty: number;
+}
+
+/**
+ * Penalty totals over a set of runs
+ */
+export interface PenaltyTotals {
+  runs: number;
+  touches: number;
+  misses: number;
+  touchSeconds: number;
+  missSeconds: number;
+  penaltySeconds: number;
+}
+
+/**
+ * Penalty totals of one participant category
+ */
+export interface CategoryPenaltyTotals extends PenaltyTotals {
+  catId: string;
+}
+
+/**
+ * Gate penalty statistics over a set of runs
+ */
+export interface GateStats {
+  gates: GateStat[];
+  /** Gates with the highest average penalty, hardest first */
+  hardestGates: number[];
+  totals: PenaltyTotals;
+  categories: CategoryPenaltyTotals[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function emptyTotals(): PenaltyTotals {
+  return { runs: 0, touches: 0, misses: 0, touchSeconds: 0, missSeconds: 0, penaltySeconds: 0 };
+}
+
+/**
+ * Gate types of a CourseConfig string. Only N and R are gates, the other
+ * characters are markers between them.
+ */
+export function courseGateTypes(courseConfig: string): ('N' | 'R')[] {
+  return courseConfig.split('').filter((c): c is 'N' | 'R' => c === 'N' || c === 'R');
+}
+
+/**
+ * Compute per-gate penalty counts and totals.
+ *
+ * A gate value is split into boat penalties, so a team gate of 52 counts as
+ * one touch and one miss. Runs without any judged gate (DNS) are left out.
+ *
+ * @param runs - Runs of one race or of several races on the same course
+ * @param gateTypes - Gate types of the course, also fixes the gate count
+ */
+export function computeGateStats(runs: GateStatsRun[], gateTypes: ('N' | 'R')[] = []): GateStats {
+  const nrGates = Math.max(gateTypes.length, ...runs.map((r) => Math.ceil(r.gates.trimEnd().length / 3)));
+  const gates: GateStat[] = Array.from({ length: nrGates }, (_, i) => ({
+    gate: i + 1,
+    type: gateTypes[i] ?? null,
+    judged: 0,
+    clean: 0,
+    touches: 0,
+    misses: 0,
+    penaltySeconds: 0,
+    averagePenalty: 0,
+  }));
+  const totals = emptyTotals();
+  const categories = new Map<string, PenaltyTotals>();
+
+  for (const run of runs) {
+    const runTotals = emptyTotals();
+    let judgedAny = false;
+
+    for (const stat of gates) {
+      const value = resultsGateValue(run.gates, stat.gate);
+      if (value === null || value === undefined) {
+        continue;
+      }
+      judgedAny = true;
+
+      const misses = Math.floor(value / 50);
+      const touches = Math.floor((value % 50) / 2);
+      stat.judged++;
+      stat.clean += value === 0 ? 1 : 0;
+      stat.touches += touches;
+      stat.misses += misses;
+      stat.penaltySeconds += value;
+
+      runTotals.touches += touches;
+      runTotals.misses += misses;
+      runTotals.penaltySeconds += value;
+    }
+
+    if (!judgedAny) {
+      continue;
+    }
+
+    const targets = [totals];
+    if (run.catId) {
+      let category = categories.get(run.catId);
+      if (!category) {
+        category = emptyTotals();
+        categories.set(run.catId, category);
+      }
+      targets.push(category);
+    }
+    for (const target of targets) {
+      target.runs++;
+      target.touches += runTotals.touches;
+      target.misses += runTotals.misses;
+      target.touchSeconds += runTotals.touches * 2;
+      target.missSeconds += runTotals.misses * 50;
+      target.penaltySeconds += runTotals.penaltySeconds;
+    }
+  }
+
+  for (const stat of gates) {
+    stat.averagePenalty = stat.judged > 0 ? round(stat.penaltySeconds / stat.judged) : 0;
+  }
+
+  const hardestGates = gates
+    .filter((g) => g.penaltySeconds > 0)
+    .sort((a, b) => b.averagePenalty - a.averagePenalty || b.misses - a.misses || a.gate - b.gate)
+    .slice(0, HARDEST_GATES_COUNT)
+    .map((g) => g.gate);
+
+  return {
+    gates,
+    hardestGates,
+    totals,
+    categories: Array.from(categories, ([catId, t]) => ({ catId, ...t })).sort((a, b) =>
+      a.catId.localeCompare(b.catId)
+    ),
+  };
+}
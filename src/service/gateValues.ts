@@ -0,0 +1,40 @@
+/**
+ * Gate penalty lookups in the two gate string formats C123 uses.
+ *
+ * Both return null for a gate that has not been judged — distinct from a
+ * clean 0 — and undefined when the string cannot say anything about the gate.
+ */
+
+/**
+ * Gate value from an OnCourse gates string, which is comma-separated
+ * ("2,,50"). Gates past the end of the string have not been judged yet.
+ */
+export function onCourseGateValue(gates: string, gate: number): number | null | undefined {
+  if (gate < 1) {
+    return undefined;
+  }
+  const cell = (gates.split(',')[gate - 1] ?? '').trim();
+  return parseGateCell(cell);
+}
+
+/**
+ * Gate value from a Results/XML gates string, which is fixed-width: three
+ * characters per gate, right-aligned and space-padded. Splitting on whitespace
+ * would drop unjudged gates and shift every later one.
+ */
+export function resultsGateValue(gates: string, gate: number): number | null | undefined {
+  if (gate < 1) {
+    return undefined;
+  }
+  const cellStart = (gate - 1) * 3;
+  const cell = gates.slice(cellStart, cellStart + 3).trim();
+  return parseGateCell(cell);
+}
+
+function parseGateCell(cell: string): number | null | undefined {
+  if (cell === '') {
+    return null;
+  }
+  const value = Number.parseInt(cell, 10);
+  return Number.isNaN(value) ? undefined : value;
+}
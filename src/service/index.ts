@@ -1,9 +1,48 @@
-export { ScoringService } from './ScoringService.js';
+export { ScoringService, ScoringRevertError, GateOutsideSectionError } from './ScoringService.js';
 export type {
+  BoatPenalty,
+  TeamPenaltyValue,
   PenaltyValue,
   RemoveReason,
   ChannelPosition,
   ScoringRequest,
   RemoveFromCourseRequest,
   TimingRequest,
+  ScoringCommandType,
+  ScoringCommandRecord,
+  ScoringCommandListener,
 } from './ScoringService.js';
+export { onCourseGateValue, resultsGateValue } from './gateValues.js';
+export { validateScoringBatch, MAX_SCORING_BATCH_SIZE } from './scoringBatch.js';
+export type { ScoringBatchItemError, ScoringBatchValidation } from './scoringBatch.js';
+export {
+  BOAT_PENALTY_VALUES,
+  TEAM_PENALTY_VALUES,
+  MAX_TEAM_BOATS,
+  isPenaltyValue,
+  sumBoatPenalties,
+  parsePenaltyInput,
+} from './penalties.js';
+export type { ParsedPenalty } from './penalties.js';
+export { computeGateStats, courseGateTypes, HARDEST_GATES_COUNT } from './gateStats.js';
+export type { GateStatsRun, GateStat, GateStats, PenaltyTotals, CategoryPenaltyTotals } from './gateStats.js';
+export { XmlEventRegistry } from './XmlEventRegistry.js';
+export type { XmlEventInfo } from './XmlEventRegistry.js';
+export { computeCombinedStandings, mergeParticipants, participantMergeKey } from './combinedStandings.js';
+export type {
+  CombinedEventSource,
+  CombinedParticipant,
+  CombinedEventResult,
+  CombinedEntry,
+  CombinedClassStandings,
+} from './combinedStandings.js';
+export { rankResults, rankingPhase, selectRankedRaces, RANKING_RULES, TIE_BREAKS } from './ranking.js';
+export type {
+  RankingRule,
+  TieBreak,
+  RankingOptions,
+  RankingPhase,
+  RankedRun,
+  RankedResult,
+  RankedRaceResults,
+} from './ranking.js';
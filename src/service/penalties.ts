@@ -0,0 +1,88 @@
+import type { BoatPenalty, PenaltyValue } from './ScoringService.js';
+
+/**
+ * Penalty values of one boat at one gate
+ */
+export const BOAT_PENALTY_VALUES: readonly BoatPenalty[] = [0, 2, 50];
+
+/**
+ * Boats in a team run (C1/K1/C2 team 3x)
+ */
+export const MAX_TEAM_BOATS = 3;
+
+/**
+ * Gate values possible in a team race: every sum of one to three boat
+ * penalties, e.g. 52 = one touch and one miss, 150 = all three boats missed
+ */
+export const TEAM_PENALTY_VALUES: readonly number[] = [0, 2, 4, 6, 50, 52, 54, 100, 102, 150];
+
+/**
+ * Whether a number is a valid gate penalty, individual or team
+ */
+export function isPenaltyValue(value: number, team: boolean): value is Exclude<PenaltyValue, null> {
+  return (team ? TEAM_PENALTY_VALUES : BOAT_PENALTY_VALUES).includes(value);
+}
+
+/**
+ * Gate value of a team from the penalties of its boats
+ */
+export function sumBoatPenalties(boats: readonly BoatPenalty[]): Exclude<PenaltyValue, null> {
+  return boats.reduce<number>((sum, value) => sum + value, 0) as Exclude<PenaltyValue, null>;
+}
+
+/**
+ * Penalty part of a scoring request body, validated
+ */
+export interface ParsedPenalty {
+  value: PenaltyValue;
+  team: boolean;
+}
+
+/**
+ * Parse the penalty fields of a scoring request body.
+ *
+ * The value comes either from `value` — a team sum if `team` is true — or
+ * from `boats`, the per-boat penalties of a team run, which are summed.
+ *
+ * @returns the penalty, or an error message
+ */
+export function parsePenaltyInput(input: { value?: unknown; boats?: unknown; team?: unknown }): ParsedPenalty | string {
+  const { value, boats, team } = input;
+
+  if (team !== undefined && typeof team !== 'boolean') {
+    return 'team must be a boolean';
+  }
+
+  if (boats !== undefined) {
+    if (value !== undefined) {
+      return 'use either value or boats, not both';
+    }
+    if (team === false) {
+      return 'boats are for team races, not with team: false';
+    }
+    if (
+      !Array.isArray(boats) ||
+      boats.length < 1 ||
+      boats.length > MAX_TEAM_BOATS ||
+      !boats.every((b) => BOAT_PENALTY_VALUES.includes(Number(b) as BoatPenalty) && b !== null && b !== '')
+    ) {
+      return `boats must be an array of 1-${MAX_TEAM_BOATS} boat penalties (0, 2 or 50)`;
+    }
+    return { value: sumBoatPenalties(boats.map((b) => Number(b) as BoatPenalty)), team: true };
+  }
+
+  if (value === undefined) {
+    return 'value is required (use null to delete)';
+  }
+  if (value === null) {
+    return { value: null, team: team === true };
+  }
+
+  const valueNum = Number(value);
+  if (!isPenaltyValue(valueNum, team === true)) {
+    return team === true
+      ? 'value must be a team penalty (sum of up to three of 0, 2, 50) or null (to delete)'
+      : 'value must be 0, 2, 50, or null (to delete)';
+  }
+  return { value: valueNum, team: team === true };
+}
@@ -0,0 +1,357 @@
+import type { XmlParticipant, XmlResultRow, XmlScheduleItem } from './XmlDataService.js';
+import { resultsGateValue } from './gateValues.js';
+import type { RankingRule, TieBreak } from '../config/types.js';
+
+export { RANKING_RULES, TIE_BREAKS, type RankingRule, type TieBreak } from '../config/types.js';
+
+/**
+ * Options of a ranking
+ */
+export interface RankingOptions {
+  rule: RankingRule;
+  /** Default 'icf' */
+  tieBreak?: TieBreak | undefined;
+  /** Progression: boats advancing from the heats to the semi-final */
+  semiQualifiers?: number | undefined;
+  /** Progression: boats advancing to the final, from the semi-final or from the heats without one */
+  finalQualifiers?: number | undefined;
+}
+
+/**
+ * Phase of a progression event
+ */
+export type RankingPhase = 'heats' | 'semi' | 'final';
+
+/**
+ * One run of a ranked boat
+ */
+export interface RankedRun {
+  raceId: string;
+  disId?: string | undefined;
+  time?: number | undefined;
+  pen?: number | undefined;
+  /** Time of this run including its penalties, in ms */
+  total?: number | undefined;
+  /** Rank of the run as reported by Canoe123 */
+  rank?: number | undefined;
+  status?: string | undefined;
+}
+
+/**
+ * Result of one boat under a ranking rule
+ */
+export interface RankedResult {
+  bib: string;
+  participantId: string;
+  familyName: string;
+  givenName: string;
+  familyName2?: string | undefined;
+  givenName2?: string | undefined;
+  club: string;
+  /** Runs in race order */
+  runs: RankedRun[];
+  /** Result the rank is based on, in ms */
+  total?: number | undefined;
+  rank?: number | undefined;
+  /** IRM code when the boat has no valid result */
+  status?: string | undefined;
+  /** Progression: last phase the boat raced in */
+  phase?: RankingPhase | undefined;
+  /** Progression: phase the boat qualified for by the cutoffs */
+  qualified?: 'semi' | 'final' | undefined;
+}
+
+/**
+ * Ranked results of a class
+ */
+export interface RankedRaceResults {
+  classId: string;
+  ranking: RankingRule;
+  tieBreak: TieBreak;
+  /** Races ranked together, in race order */
+  raceIds: string[];
+  results: RankedResult[];
+}
+
+/**
+ * Progression phase of a race by its discipline. Everything before the
+ * semi-final (BR1/BR2, QUA, SR) counts as heats.
+ */
+export function rankingPhase(disId: string | undefined): RankingPhase {
+  switch (disId) {
+    case 'FIN':
+      return 'final';
+    case 'SEM':
+      return 'semi';
+    default:
+      return 'heats';
+  }
+}
+
+/**
+ * Races ranked together with a race: the BR1/BR2 pair for 'best' and 'sum',
+ * every race of the class for 'progression'. In race order.
+ */
+export function selectRankedRaces(schedule: XmlScheduleItem[], raceId: string, rule: RankingRule): XmlScheduleItem[] {
+  const race = schedule.find((s) => s.raceId === raceId);
+  if (!race) {
+    return [];
+  }
+
+  let races: XmlScheduleItem[];
+  if (rule === 'progression' && race.classId) {
+    races = schedule.filter((s) => s.classId === race.classId);
+  } else {
+    const pair = new Set([raceId.replace(/_BR[12]_/, '_BR1_'), raceId.replace(/_BR[12]_/, '_BR2_')]);
+    races = schedule.filter((s) => pair.has(s.raceId));
+  }
+  return races.sort((a, b) => (a.raceOrder ?? Infinity) - (b.raceOrder ?? Infinity));
+}
+
+/**
+ * Rank the boats of several races of one class.
+ *
+ * Ties are broken per ICF rules unless options.tieBreak is 'shared':
+ * - best: by the other run
+ * - sum: by the better run
+ * - progression: by the rank in the previous phase
+ *
+ * In a progression, finalists rank first by their final, then the other
+ * semi-finalists by their semi-final, then everyone else by the heats (the
+ * better heat run). A boat without a valid result in its phase ranks last
+ * within it. Qualification cutoffs mark the boats whose heats or semi-final
+ * rank is within the cutoff.
+ *
+ * @param races - Races to rank, in race order
+ */
+export function rankResults(
+  races: XmlScheduleItem[],
+  results: Map<string, XmlResultRow[]>,
+  participants: XmlParticipant[],
+  options: RankingOptions
+): RankedResult[] {
+  const participantMap = new Map(participants.map((p) => [p.id, p]));
+  const boats = new Map<string, Boat>();
+
+  for (const race of races) {
+    for (const row of results.get(race.raceId) ?? []) {
+      let boat = boats.get(row.id);
+      if (!boat) {
+        const p = participantMap.get(row.id);
+        boat = {
+          result: {
+            bib: row.bib,
+            participantId: row.id,
+            familyName: p?.familyName ?? '',
+            givenName: p?.givenName ?? '',
+            familyName2: p?.familyName2,
+            givenName2: p?.givenName2,
+            club: p?.club ?? '',
+            runs: [],
+          },
+          phases: new Map(),
+        };
+        boats.set(row.id, boat);
+      }
+
+      const run: RankedRun = {
+        raceId: race.raceId,
+        disId: race.disId,
+        time: row.time,
+        ...ownPenalty(row),
+        rank: row.rank,
+        status: row.status || undefined,
+      };
+      boat.result.runs.push(run);
+
+      const phase = rankingPhase(race.disId);
+      boat.phases.set(phase, [...(boat.phases.get(phase) ?? []), run]);
+    }
+  }
+
+  const tieBreak = options.tieBreak ?? 'icf';
+  const list = Array.from(boats.values());
+
+  if (options.rule === 'progression') {
+    return rankProgression(list, tieBreak, options);
+  }
+
+  const runCount = races.length;
+  for (const boat of list) {
+    boat.value = options.rule === 'sum' ? sumOf(boat.result.runs, runCount) : bestOf(boat.result.runs);
+  }
+  const tie = tieBreak === 'icf' ? (options.rule === 'sum' ? compareBestRun : compareOtherRun) : undefined;
+  return rankBoats(list, tie).map((b) => b.result);
+}
+
+interface Boat {
+  result: RankedResult;
+  /** Runs per progression phase */
+  phases: Map<RankingPhase, RankedRun[]>;
+  /** Result under the rule, undefined if not valid */
+  value?: number | undefined;
+  /** Progression: rank in each phase */
+  phaseRanks?: Map<RankingPhase, number> | undefined;
+}
+
+/**
+ * Penalty and total of a run itself.
+ *
+ * In BR2 rows Canoe123 may report the better run's Pen and Total, so both are
+ * rebuilt from Time and the Gates string where possible.
+ */
+function ownPenalty(row: XmlResultRow): { pen: number | undefined; total: number | undefined } {
+  if (row.time === undefined || !row.gates) {
+    return { pen: row.pen, total: row.total };
+  }
+
+  let pen = 0;
+  const gateCount = Math.ceil(row.gates.length / 3);
+  for (let gate = 1; gate <= gateCount; gate++) {
+    pen += resultsGateValue(row.gates, gate) ?? 0;
+  }
+  return { pen, total: row.time + pen * 1000 };
+}
+
+function isValid(run: RankedRun): boolean {
+  return run.total !== undefined && !run.status;
+}
+
+function validTotals(runs: RankedRun[]): number[] {
+  return runs.filter(isValid).map((r) => r.total as number);
+}
+
+function bestOf(runs: RankedRun[]): number | undefined {
+  const totals = validTotals(runs);
+  return totals.length > 0 ? Math.min(...totals) : undefined;
+}
+
+function sumOf(runs: RankedRun[], runCount: number): number | undefined {
+  const totals = validTotals(runs);
+  return totals.length === runCount ? totals.reduce((sum, t) => sum + t, 0) : undefined;
+}
+
+/** ICF tie-break for 'best': the second best run, a missing one losing */
+function compareOtherRun(a: Boat, b: Boat): number {
+  return compareNumbers(secondBestOf(a.result.runs), secondBestOf(b.result.runs));
+}
+
+function secondBestOf(runs: RankedRun[]): number {
+  return validTotals(runs).sort((x, y) => x - y)[1] ?? Infinity;
+}
+
+/** ICF tie-break for 'sum': the better run */
+function compareBestRun(a: Boat, b: Boat): number {
+  return compareNumbers(bestOf(a.result.runs) ?? Infinity, bestOf(b.result.runs) ?? Infinity);
+}
+
+function compareNumbers(a: number, b: number): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+/**
+ * Sort boats by value (valid first) and assign ranks. Boats equal after the
+ * tie-break share a rank. Boats without a valid value get no rank and the
+ * IRM code of their last run with one.
+ */
+function rankBoats(boats: Boat[], tie?: (a: Boat, b: Boat) => number, firstRank = 1): Boat[] {
+  const compare = (a: Boat, b: Boat) => compareNumbers(a.value as number, b.value as number) || (tie ? tie(a, b) : 0);
+
+  const ranked = boats.filter((b) => b.value !== undefined).sort(compare);
+  ranked.forEach((boat, i) => {
+    const prev = ranked[i - 1];
+    boat.result.total = boat.value;
+    boat.result.rank = prev && compare(prev, boat) === 0 ? prev.result.rank : firstRank + i;
+  });
+
+  const unranked = boats
+    .filter((b) => b.value === undefined)
+    .sort(
+      (a, b) =>
+        validTotals(b.result.runs).length - validTotals(a.result.runs).length ||
+        a.result.bib.localeCompare(b.result.bib, undefined, { numeric: true })
+    );
+  for (const boat of unranked) {
+    boat.result.status = boat.result.runs.map((r) => r.status).filter((s) => !!s).at(-1);
+  }
+
+  return [...ranked, ...unranked];
+}
+
+/**
+ * Rank a heats → semi-final → final progression
+ */
+function rankProgression(boats: Boat[], tieBreak: TieBreak, options: RankingOptions): RankedResult[] {
+  const phases: RankingPhase[] = ['heats', 'semi', 'final'];
+  const present = phases.filter((phase) => boats.some((b) => b.phases.has(phase)));
+
+  // Rank every phase on its own first; ties in a phase are broken by the
+  // rank in the previous one
+  for (const [index, phase] of present.entries()) {
+    const previous = present[index - 1];
+    const inPhase = boats.filter((b) => b.phases.has(phase));
+    for (const boat of inPhase) {
+      boat.value = bestOf(boat.phases.get(phase) ?? []);
+    }
+
+    for (const boat of rankBoats(inPhase, phaseTie(tieBreak, phase, previous))) {
+      if (boat.result.rank !== undefined) {
+        boat.phaseRanks ??= new Map();
+        boat.phaseRanks.set(phase, boat.result.rank);
+      }
+      delete boat.result.rank;
+      delete boat.result.total;
+      delete boat.result.status;
+    }
+  }
+
+  // Qualification cutoffs
+  const semiCutoff = present.includes('semi') ? options.semiQualifiers : undefined;
+  const finalCutoff = options.finalQualifiers;
+  const finalFrom = present.includes('semi') ? 'semi' : 'heats';
+  for (const boat of boats) {
+    const heatsRank = boat.phaseRanks?.get('heats');
+    const fromRank = boat.phaseRanks?.get(finalFrom);
+    if (finalCutoff !== undefined && fromRank !== undefined && fromRank <= finalCutoff) {
+      boat.result.qualified = 'final';
+    } else if (semiCutoff !== undefined && heatsRank !== undefined && heatsRank <= semiCutoff) {
+      boat.result.qualified = 'semi';
+    }
+  }
+
+  // Overall: the last phase reached decides the group, groups in phase order
+  const ordered: RankedResult[] = [];
+  for (const phase of [...present].reverse()) {
+    const group = boats.filter((b) => lastPhase(b, present) === phase);
+    for (const boat of group) {
+      boat.value = bestOf(boat.phases.get(phase) ?? []);
+      boat.result.phase = phase;
+    }
+
+    const previous = present[present.indexOf(phase) - 1];
+    ordered.push(...rankBoats(group, phaseTie(tieBreak, phase, previous), ordered.length + 1).map((b) => b.result));
+  }
+  return ordered;
+}
+
+/**
+ * ICF tie-break within a phase: the rank in the previous phase, or the other
+ * run of the first phase itself (never a run from a later phase)
+ */
+function phaseTie(
+  tieBreak: TieBreak,
+  phase: RankingPhase,
+  previous: RankingPhase | undefined
+): ((a: Boat, b: Boat) => number) | undefined {
+  if (tieBreak !== 'icf') {
+    return undefined;
+  }
+  if (!previous) {
+    return (a, b) => compareNumbers(secondBestOf(a.phases.get(phase) ?? []), secondBestOf(b.phases.get(phase) ?? []));
+  }
+  return (a, b) => compareNumbers(a.phaseRanks?.get(previous) ?? Infinity, b.phaseRanks?.get(previous) ?? Infinity);
+}
+
+function lastPhase(boat: Boat, present: RankingPhase[]): RankingPhase {
+  return [...present].reverse().find((phase) => boat.phases.has(phase)) ?? 'heats';
+}
@@ -0,0 +1,146 @@
+import type { EventStateData } from '../state/types.js';
+import type { JudgeSection } from '../config/types.js';
+import { describeJudgeSection, isGateInSection } from '../config/judgeSections.js';
+import type { ScoringRequest } from './ScoringService.js';
+import { parsePenaltyInput } from './penalties.js';
+
+/**
+ * Maximum number of items in one scoring batch
+ */
+export const MAX_SCORING_BATCH_SIZE = 200;
+
+/**
+ * Why one batch item was rejected
+ */
+export interface ScoringBatchItemError {
+  /** Position of the item in the request array */
+  index: number;
+  error: string;
+}
+
+/**
+ * Outcome of validating a scoring batch. Either every item became a request
+ * or at least one error is reported and nothing may be sent.
+ */
+export type ScoringBatchValidation =
+  | { valid: true; requests: ScoringRequest[] }
+  | { valid: false; errors: ScoringBatchItemError[] };
+
+/**
+ * Validate a batch of scoring items before any of them is sent.
+ *
+ * Each item gets the same field checks as POST /api/c123/scoring, plus checks
+ * against the live state:
+ * - the gate must exist on the current course (RaceConfig nrGates), for items
+ *   targeting the current race — RaceConfig only describes that one
+ * - an on-course item (no raceId) needs its bib on course
+ * - the same bib and gate may appear only once per race
+ * - the gate must be within the sender's judge section, if it has one
+ *
+ * @param items - Raw request body items
+ * @param state - Current event state
+ * @param section - Judge section of the sender
+ */
+export function validateScoringBatch(
+  items: unknown[],
+  state: EventStateData,
+  section?: JudgeSection
+): ScoringBatchValidation {
+  const requests: ScoringRequest[] = [];
+  const errors: ScoringBatchItemError[] = [];
+  const seen = new Map<string, number>();
+
+  items.forEach((item, index) => {
+    const parsed = parseScoringItem(item);
+    if (typeof parsed === 'string') {
+      errors.push({ index, error: parsed });
+      return;
+    }
+
+    if (section && !isGateInSection(section, parsed.gate)) {
+      errors.push({ index, error: `Gate ${parsed.gate} is outside section ${describeJudgeSection(section)}` });
+      return;
+    }
+
+    const error = checkAgainstState(parsed, state);
+    if (error) {
+      errors.push({ index, error });
+      return;
+    }
+
+    const key = `${parsed.raceId ?? ''}|${parsed.bib}|${parsed.gate}`;
+    const first = seen.get(key);
+    if (first !== undefined) {
+      errors.push({ index, error: `duplicate of item ${first} (same bib and gate)` });
+      return;
+    }
+    seen.set(key, index);
+    requests.push(parsed);
+  });
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, requests };
+}
+
+/**
+ * Field validation of one item
+ *
+ * @returns the request, or an error message
+ */
+function parseScoringItem(item: unknown): ScoringRequest | string {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return 'item must be an object';
+  }
+  const { bib, gate, value, boats, team, raceId } = item as Record<string, unknown>;
+
+  if (bib === undefined || bib === null || bib === '') {
+    return 'bib is required';
+  }
+  if (gate === undefined || gate === null) {
+    return 'gate is required';
+  }
+  if (value === undefined && boats === undefined) {
+    return 'value is required (use null to delete)';
+  }
+
+  const gateNum = Number(gate);
+  if (!Number.isInteger(gateNum) || gateNum < 1 || gateNum > 24) {
+    return 'gate must be a number between 1 and 24';
+  }
+
+  const penalty = parsePenaltyInput({ value, boats, team });
+  if (typeof penalty === 'string') {
+    return penalty;
+  }
+
+  if (raceId !== undefined && (typeof raceId !== 'string' || raceId.trim() === '')) {
+    return 'raceId must be a non-empty string if provided';
+  }
+
+  const request: ScoringRequest = { bib: String(bib).trim(), gate: gateNum, value: penalty.value };
+  if (raceId !== undefined) {
+    request.raceId = raceId as string;
+  }
+  if (penalty.team) {
+    request.team = true;
+  }
+  return request;
+}
+
+/**
+ * Check one item against the current race
+ *
+ * @returns an error message, or null if the item is fine
+ */
+function checkAgainstState(request: ScoringRequest, state: EventStateData): string | null {
+  if (!request.raceId && !state.onCourse.some((c) => c.bib.trim() === request.bib)) {
+    return `bib ${request.bib} is not on course (use raceId for a finished competitor)`;
+  }
+
+  const targetsCurrentRace = !request.raceId || request.raceId === state.currentRaceId;
+  const nrGates = state.raceConfig?.nrGates;
+  if (targetsCurrentRace && nrGates && request.gate > nrGates) {
+    return `gate ${request.gate} does not exist, the current course has ${nrGates} gates`;
+  }
+
+  return null;
+}
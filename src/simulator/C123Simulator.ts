@@ -0,0 +1,589 @@
+import net from 'node:net';
+import dgram from 'node:dgram';
+import { EventEmitter } from 'node:events';
+import { XmlDataService } from '../service/XmlDataService.js';
+import type { XmlStartlistEntry } from '../service/XmlDataService.js';
+import { Logger } from '../utils/logger.js';
+import {
+  buildOnCourse,
+  buildRaceConfig,
+  buildResults,
+  buildSchedule,
+  buildTimeOfDay,
+  parseCommand,
+  type SimulatedCompetitor,
+  type SimulatedCourse,
+  type SimulatedRace,
+  type SimulatorCommand,
+} from './frames.js';
+
+const DEFAULT_PORT = 27333;
+const DEFAULT_TICK_MS = 1000;
+const DEFAULT_START_INTERVAL_MS = 20000;
+const DEFAULT_RUN_DURATION_MS = 90000;
+const DEFAULT_GATE_CONFIG = 'N'.repeat(24);
+
+/** Ticks between periodic Results frames */
+const RESULTS_EVERY_TICKS = 5;
+/** Ticks between periodic Schedule and RaceConfig frames */
+const CONFIG_EVERY_TICKS = 10;
+/** Ticks a finished competitor stays on course (Completed="Y") */
+const FINISH_LINGER_TICKS = 3;
+
+/**
+ * Configuration for C123Simulator
+ */
+export interface C123SimulatorConfig {
+  /** Event XML file the simulated race data is generated from */
+  xmlPath: string;
+  /** TCP port to serve on (default: 27333) */
+  port?: number;
+  /** UDP port to announce on (default: same as port) */
+  udpPort?: number;
+  /** UDP announcement target address (default: 255.255.255.255). Null disables UDP. */
+  udpAddress?: string | null;
+  /** Race to simulate first (default: first unfinished race in the schedule) */
+  raceId?: string;
+  /** Simulation tick in ms (default: 1000) */
+  tickMs?: number;
+  /** Time between two starts in ms (default: 20000) */
+  startIntervalMs?: number;
+  /** Nominal run duration in ms (default: 90000) */
+  runDurationMs?: number;
+  /** Judge gates automatically as competitors pass them (default: true) */
+  autoPenalties?: boolean;
+}
+
+/**
+ * Events emitted by C123Simulator
+ */
+export interface C123SimulatorEvents {
+  /** TCP server is listening */
+  listening: [port: number];
+  /** Client connected over TCP */
+  clientConnected: [remote: string];
+  /** Client disconnected */
+  clientDisconnected: [remote: string];
+  /** Command received and applied */
+  command: [command: SimulatorCommand, remote: string];
+  /** Current race changed */
+  raceChange: [raceId: string];
+  /** Error occurred */
+  error: [error: Error];
+}
+
+interface RaceRun {
+  race: SimulatedRace;
+  courseNr: number | undefined;
+  startlist: XmlStartlistEntry[];
+}
+
+interface ClientConnection {
+  socket: net.Socket;
+  remote: string;
+  buffer: string;
+}
+
+/**
+ * Canoe123 simulator for offline testing.
+ *
+ * Speaks the Canoe123 side of the protocol: announces itself over UDP,
+ * streams OnCourse/Results/TimeOfDay/RaceConfig/Schedule frames over TCP and
+ * applies the Scoring/PenaltyCorrection/RemoveFromCourse/Timing commands that
+ * ScoringService sends. Race data comes from a real event XML: competitors of
+ * the current race start at a fixed interval, pass the gates and finish,
+ * then the next race in the schedule begins.
+ */
+export class C123Simulator extends EventEmitter<C123SimulatorEvents> {
+  private readonly xmlPath: string;
+  private readonly port: number;
+  private readonly udpPort: number;
+  private readonly udpAddress: string | null;
+  private readonly initialRaceId: string | undefined;
+  private readonly tickMs: number;
+  private readonly startIntervalMs: number;
+  private readonly runDurationMs: number;
+  private readonly autoPenalties: boolean;
+
+  private server: net.Server | null = null;
+  private udpSocket: dgram.Socket | null = null;
+  private tickTimer: NodeJS.Timeout | null = null;
+  private clients: Set<ClientConnection> = new Set();
+
+  private races: RaceRun[] = [];
+  private courses: Map<number, SimulatedCourse> = new Map();
+  private raceIndex = -1;
+  private startQueue: XmlStartlistEntry[] = [];
+  private onCourse: SimulatedCompetitor[] = [];
+  /** Gates set by a Scoring command, never overwritten by auto-judging */
+  private manualGates: Map<string, Set<number>> = new Map();
+  private finished: SimulatedCompetitor[] = [];
+  private nextStartAt = 0;
+  private tickCount = 0;
+
+  constructor(config: C123SimulatorConfig) {
+    super();
+    this.xmlPath = config.xmlPath;
+    this.port = config.port ?? DEFAULT_PORT;
+    this.udpPort = config.udpPort ?? this.port;
+    this.udpAddress = config.udpAddress === undefined ? '255.255.255.255' : config.udpAddress;
+    this.initialRaceId = config.raceId;
+    this.tickMs = config.tickMs ?? DEFAULT_TICK_MS;
+    this.startIntervalMs = config.startIntervalMs ?? DEFAULT_START_INTERVAL_MS;
+    this.runDurationMs = config.runDurationMs ?? DEFAULT_RUN_DURATION_MS;
+    this.autoPenalties = config.autoPenalties ?? true;
+  }
+
+  /**
+   * Load the event, open the TCP server and start the simulation.
+   */
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    await this.loadEvent();
+    this.selectInitialRace();
+
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+    this.server.on('error', (err) => this.emit('error', err));
+
+    if (this.udpAddress) {
+      this.udpSocket = dgram.createSocket('udp4');
+      this.udpSocket.on('error', (err) => this.emit('error', err));
+      this.udpSocket.bind(() => this.udpSocket?.setBroadcast(true));
+    }
+
+    this.tickTimer = setInterval(() => this.tick(), this.tickMs);
+
+    Logger.info('Simulator', `Serving Canoe123 protocol on TCP port ${this.getPort()}`);
+    this.emit('listening', this.getPort());
+  }
+
+  /**
+   * Stop the simulation and close all connections.
+   */
+  async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+
+    this.udpSocket?.close();
+    this.udpSocket = null;
+
+    for (const client of this.clients) {
+      client.socket.destroy();
+    }
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Get the TCP port the simulator listens on
+   */
+  getPort(): number {
+    const addr = this.server?.address();
+    if (addr && typeof addr === 'object') {
+      return addr.port;
+    }
+    return this.port;
+  }
+
+  /**
+   * Get the race currently being simulated
+   */
+  getCurrentRaceId(): string | null {
+    return this.races[this.raceIndex]?.race.raceId ?? null;
+  }
+
+  /**
+   * Competitors currently on course (position order)
+   */
+  getOnCourse(): readonly SimulatedCompetitor[] {
+    return this.onCourse;
+  }
+
+  /**
+   * Competitors finished or removed in the current race
+   */
+  getFinished(): readonly SimulatedCompetitor[] {
+    return this.finished;
+  }
+
+  // ==========================================================================
+  // Event data
+  // ==========================================================================
+
+  private async loadEvent(): Promise<void> {
+    const xml = new XmlDataService();
+    xml.setPath(this.xmlPath);
+
+    const schedule = await xml.getSchedule();
+    const courses = await xml.getCourses();
+
+    for (const course of courses) {
+      // CourseConfig also carries split and marker characters - only N/R are gates
+      const gateConfig = course.courseConfig.replace(/[^NR]/g, '');
+      this.courses.set(course.courseNr, {
+        nrSplits: course.splits.length,
+        gateConfig: gateConfig || DEFAULT_GATE_CONFIG,
+      });
+    }
+
+    const sorted = [...schedule].sort((a, b) => (a.raceOrder ?? 0) - (b.raceOrder ?? 0));
+    for (const item of sorted) {
+      const startlist = (await xml.getStartlist(item.raceId)) ?? [];
+      this.races.push({
+        race: {
+          order: item.raceOrder ?? 0,
+          raceId: item.raceId,
+          classId: item.classId ?? '',
+          name: item.customTitle ?? item.raceId,
+          raceStatus: item.raceStatus ?? 0,
+          startTime: item.time,
+        },
+        courseNr: item.courseNr,
+        startlist: startlist.map((e) => ({ ...e, bib: e.bib.trim() })),
+      });
+    }
+
+    if (!this.races.some((r) => r.startlist.length > 0)) {
+      throw new Error(`No race with competitors found in ${this.xmlPath}`);
+    }
+
+    Logger.info('Simulator', `Loaded ${this.races.length} races from ${this.xmlPath}`);
+  }
+
+  private selectInitialRace(): void {
+    let index: number;
+    if (this.initialRaceId) {
+      index = this.races.findIndex((r) => r.race.raceId === this.initialRaceId);
+      if (index === -1) {
+        throw new Error(`Race ${this.initialRaceId} not found in schedule`);
+      }
+    } else {
+      index = this.races.findIndex((r) => r.race.raceStatus !== 5 && r.startlist.length > 0);
+      if (index === -1) {
+        index = this.races.findIndex((r) => r.startlist.length > 0);
+      }
+    }
+    this.beginRace(index);
+  }
+
+  private beginRace(index: number): void {
+    const run = this.races[index];
+    this.raceIndex = index;
+    this.startQueue = [...run.startlist].sort((a, b) => a.startOrder - b.startOrder);
+    this.onCourse = [];
+    this.finished = [];
+    this.manualGates.clear();
+    this.nextStartAt = Date.now();
+    run.race.raceStatus = 3;
+
+    Logger.info('Simulator', `Race ${run.race.raceId} started (${this.startQueue.length} competitors)`);
+    this.emit('raceChange', run.race.raceId);
+  }
+
+  private get currentRun(): RaceRun {
+    return this.races[this.raceIndex];
+  }
+
+  private get currentCourse(): SimulatedCourse {
+    const courseNr = this.currentRun.courseNr;
+    return (courseNr !== undefined ? this.courses.get(courseNr) : undefined) ?? {
+      nrSplits: 0,
+      gateConfig: DEFAULT_GATE_CONFIG,
+    };
+  }
+
+  // ==========================================================================
+  // Simulation
+  // ==========================================================================
+
+  private tick(): void {
+    const now = Date.now();
+    this.tickCount++;
+
+    // Start the next competitor
+    if (this.startQueue.length > 0 && now >= this.nextStartAt) {
+      this.startCompetitor(this.startQueue.shift()!, now);
+    }
+
+    // Move competitors down the course
+    const nrGates = this.currentCourse.gateConfig.length;
+    for (const c of this.onCourse) {
+      if (c.finishedAt !== null) {
+        continue;
+      }
+      const planned = this.plannedDuration(c.bib);
+      const progress = (now - c.startedAt) / planned;
+      if (this.autoPenalties) {
+        const passed = Math.min(nrGates, Math.floor(progress * (nrGates + 1)));
+        const manual = this.manualGates.get(c.bib);
+        for (let gate = 1; gate <= passed; gate++) {
+          if (c.gates[gate - 1] === null && !manual?.has(gate)) {
+            c.gates[gate - 1] = autoPenalty(c.bib, gate);
+          }
+        }
+      }
+      if (progress >= 1) {
+        this.finishCompetitor(c, c.startedAt + planned);
+      }
+    }
+
+    // Drop competitors who finished a while ago
+    const lingerMs = FINISH_LINGER_TICKS * this.tickMs;
+    this.onCourse = this.onCourse.filter((c) => c.finishedAt === null || now - c.finishedAt < lingerMs);
+
+    // Race over - move on to the next one
+    if (this.startQueue.length === 0 && this.onCourse.length === 0) {
+      this.advanceRace();
+    }
+
+    this.broadcast(buildTimeOfDay(now));
+    this.sendUdp(buildTimeOfDay(now));
+    this.broadcast(buildOnCourse(this.onCourse, now));
+    if (this.tickCount % RESULTS_EVERY_TICKS === 0) {
+      this.broadcastResults();
+    }
+    if (this.tickCount % CONFIG_EVERY_TICKS === 0) {
+      this.broadcast(buildSchedule(this.races.map((r) => r.race)));
+      this.broadcast(buildRaceConfig(this.currentCourse));
+    }
+  }
+
+  private advanceRace(): void {
+    this.currentRun.race.raceStatus = 5;
+
+    const next = this.races.findIndex((r, i) => i > this.raceIndex && r.startlist.length > 0);
+    if (next === -1) {
+      return;
+    }
+
+    this.beginRace(next);
+    this.broadcast(buildSchedule(this.races.map((r) => r.race)));
+    this.broadcast(buildRaceConfig(this.currentCourse));
+    this.broadcastResults();
+  }
+
+  private startCompetitor(entry: XmlStartlistEntry, now: number): void {
+    const run = this.currentRun;
+    const name = entry.familyName2
+      ? `${entry.familyName} ${entry.givenName}/${entry.familyName2} ${entry.givenName2 ?? ''}`.trim()
+      : `${entry.familyName} ${entry.givenName}`.trim();
+
+    this.onCourse.push({
+      bib: entry.bib,
+      participantId: entry.participantId,
+      name,
+      givenName: entry.givenName,
+      familyName: entry.familyName,
+      club: entry.club,
+      startOrder: entry.startOrder,
+      startTime: entry.startTime,
+      raceId: run.race.raceId,
+      raceName: run.race.name,
+      gates: new Array<number | null>(this.currentCourse.gateConfig.length).fill(null),
+      startedAt: now,
+      finishedAt: null,
+    });
+    this.nextStartAt = now + this.startIntervalMs;
+  }
+
+  private finishCompetitor(c: SimulatedCompetitor, at: number): void {
+    c.finishedAt = at;
+    this.finished.push(c);
+    this.broadcastResults();
+  }
+
+  /**
+   * Nominal run duration varied per bib, so results are not all tied
+   */
+  private plannedDuration(bib: string): number {
+    const n = parseInt(bib, 10) || 0;
+    return this.runDurationMs * (0.9 + ((n * 7) % 20) / 100);
+  }
+
+  // ==========================================================================
+  // Commands
+  // ==========================================================================
+
+  private applyCommand(command: SimulatorCommand, remote: string): void {
+    const now = Date.now();
+
+    switch (command.type) {
+      case 'Scoring': {
+        const c = this.onCourse.find((x) => x.bib === command.bib);
+        if (!c || command.gate < 1 || command.gate > c.gates.length) {
+          Logger.warn('Simulator', `Scoring ignored: bib ${command.bib} gate ${command.gate} not on course`);
+          return;
+        }
+        c.gates[command.gate - 1] = command.value;
+        const manual = this.manualGates.get(c.bib) ?? new Set<number>();
+        manual.add(command.gate);
+        this.manualGates.set(c.bib, manual);
+        this.broadcast(buildOnCourse(this.onCourse, now));
+        break;
+      }
+
+      case 'PenaltyCorrection': {
+        const c = this.finished.find((x) => x.bib === command.bib && x.raceId === command.raceId);
+        if (!c || command.gate < 1 || command.gate > c.gates.length) {
+          Logger.warn(
+            'Simulator',
+            `PenaltyCorrection ignored: bib ${command.bib} not finished in ${command.raceId}`
+          );
+          return;
+        }
+        c.gates[command.gate - 1] = command.value;
+        this.broadcastResults();
+        break;
+      }
+
+      case 'RemoveFromCourse': {
+        const index = this.onCourse.findIndex((x) => x.bib === command.bib && x.finishedAt === null);
+        if (index === -1) {
+          Logger.warn('Simulator', `RemoveFromCourse ignored: bib ${command.bib} not on course`);
+          return;
+        }
+        const [c] = this.onCourse.splice(index, 1);
+        c.status = command.reason === 'DNS' ? 'DNS' : 'DNF';
+        this.finished.push(c);
+        this.broadcast(buildOnCourse(this.onCourse, now));
+        this.broadcastResults();
+        break;
+      }
+
+      case 'Timing': {
+        if (command.channelPosition === 'Start') {
+          const queued = this.startQueue.findIndex((e) => e.bib === command.bib);
+          if (queued === -1) {
+            Logger.warn('Simulator', `Start impulse ignored: bib ${command.bib} not in start queue`);
+            return;
+          }
+          const [entry] = this.startQueue.splice(queued, 1);
+          this.startCompetitor(entry, now);
+        } else if (command.channelPosition === 'Finish') {
+          const c = this.onCourse.find((x) => x.bib === command.bib && x.finishedAt === null);
+          if (!c) {
+            Logger.warn('Simulator', `Finish impulse ignored: bib ${command.bib} not on course`);
+            return;
+          }
+          this.finishCompetitor(c, now);
+        }
+        // Split impulses carry no state in the simulation
+        this.broadcast(buildOnCourse(this.onCourse, now));
+        break;
+      }
+    }
+
+    Logger.info('Simulator', `${command.type} from ${remote}: bib ${command.bib}`);
+    this.emit('command', command, remote);
+  }
+
+  // ==========================================================================
+  // Transport
+  // ==========================================================================
+
+  private handleConnection(socket: net.Socket): void {
+    const client: ClientConnection = {
+      socket,
+      remote: `${socket.remoteAddress}:${socket.remotePort}`,
+      buffer: '',
+    };
+    this.clients.add(client);
+    socket.setEncoding('utf8');
+
+    Logger.info('Simulator', `Client connected: ${client.remote}`);
+    this.emit('clientConnected', client.remote);
+
+    socket.on('data', (data: string) => {
+      client.buffer += data;
+      const frames = client.buffer.split('|');
+      client.buffer = frames.pop() ?? '';
+      for (const frame of frames) {
+        if (!frame.trim()) {
+          continue;
+        }
+        const command = parseCommand(frame);
+        if (command) {
+          this.applyCommand(command, client.remote);
+        } else {
+          Logger.debug('Simulator', `Ignoring unsupported frame from ${client.remote}`);
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      this.clients.delete(client);
+      this.emit('clientDisconnected', client.remote);
+    });
+
+    socket.on('error', (err) => {
+      Logger.debug('Simulator', `Client ${client.remote} error: ${err.message}`);
+    });
+
+    // Initial snapshot, like Canoe123 does on connect
+    const now = Date.now();
+    this.send(client, buildSchedule(this.races.map((r) => r.race)));
+    this.send(client, buildRaceConfig(this.currentCourse));
+    this.send(client, this.resultsFrame());
+    this.send(client, buildOnCourse(this.onCourse, now));
+    this.send(client, buildTimeOfDay(now));
+  }
+
+  private resultsFrame(): string {
+    return buildResults(this.currentRun.race, this.finished);
+  }
+
+  private broadcastResults(): void {
+    this.broadcast(this.resultsFrame());
+  }
+
+  private broadcast(xml: string): void {
+    for (const client of this.clients) {
+      this.send(client, xml);
+    }
+  }
+
+  private send(client: ClientConnection, xml: string): void {
+    if (!client.socket.destroyed) {
+      client.socket.write(xml + '|');
+    }
+  }
+
+  private sendUdp(xml: string): void {
+    if (!this.udpSocket || !this.udpAddress) {
+      return;
+    }
+    this.udpSocket.send(xml, this.udpPort, this.udpAddress, (err) => {
+      if (err) {
+        Logger.debug('Simulator', `UDP send failed: ${err.message}`);
+      }
+    });
+  }
+}
+
+/**
+ * Deterministic pseudo-random gate penalty: mostly clean, some touches,
+ * the occasional miss.
+ */
+function autoPenalty(bib: string, gate: number): number {
+  const n = ((parseInt(bib, 10) || 0) * 31 + gate * 17) % 23;
+  if (n === 0) return 50;
+  if (n <= 3) return 2;
+  return 0;
+}
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { C123Simulator } from '../C123Simulator.js';
+import { parseCommand, buildResults } from '../frames.js';
+import { TcpSource } from '../../sources/TcpSource.js';
+import { ScoringService } from '../../service/ScoringService.js';
+import { parseXmlMessage } from '../../protocol/index.js';
+import type { ParsedMessage, OnCourseMessage } from '../../protocol/index.js';
+
+const eventXml = `<?xml version="1.0" standalone="yes"?>
+<Canoe123Data xmlns="http://siwidata.com/Canoe123/Data.xsd">
+  <Participants>
+    <Id>12054.K1M_ST</Id>
+    <ClassId>K1M_ST</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+    <IsTeam>false</IsTeam>
+  </Participants>
+  <Participants>
+    <Id>12055.K1M_ST</Id>
+    <ClassId>K1M_ST</ClassId>
+    <EventBib>2</EventBib>
+    <FamilyName>FUKSA</FamilyName>
+    <GivenName>Martin</GivenName>
+    <Club>DUKLA Praha</Club>
+    <IsTeam>false</IsTeam>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_ST_BR1_6</RaceId>
+    <RaceOrder>101</RaceOrder>
+    <ClassId>K1M_ST</ClassId>
+    <DisId>BR1</DisId>
+    <RaceStatus>0</RaceStatus>
+    <CustomTitle>K1m - 1. jízda</CustomTitle>
+    <CourseNr>1</CourseNr>
+  </Schedule>
+  <CourseData>
+    <CourseNr>1</CourseNr>
+    <CourseConfig>NNRSNN</CourseConfig>
+  </CourseData>
+</Canoe123Data>`;
+
+describe('C123Simulator', () => {
+  let tempDir: string;
+  let simulator: C123Simulator;
+  let source: TcpSource | null = null;
+  let received: ParsedMessage[];
+
+  async function connect(): Promise<TcpSource> {
+    const tcp = new TcpSource({ host: '127.0.0.1', port: simulator.getPort() });
+    tcp.on('message', (xml) => received.push(...parseXmlMessage(xml)));
+    const connected = new Promise<void>((resolve) => {
+      tcp.on('status', (status) => {
+        if (status === 'connected') resolve();
+      });
+    });
+    tcp.start();
+    await connected;
+    source = tcp;
+    return tcp;
+  }
+
+  async function waitFor(predicate: () => boolean, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!predicate()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  function lastOnCourse(): OnCourseMessage | undefined {
+    const msgs = received.filter((m) => m.type === 'oncourse');
+    return msgs[msgs.length - 1]?.data as OnCourseMessage | undefined;
+  }
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'simulator-test-'));
+    const xmlPath = path.join(tempDir, 'event.xml');
+    fs.writeFileSync(xmlPath, eventXml);
+    received = [];
+
+    simulator = new C123Simulator({
+      xmlPath,
+      port: 0,
+      udpAddress: null,
+      tickMs: 50,
+      startIntervalMs: 10000,
+      runDurationMs: 60000,
+      autoPenalties: false,
+    });
+    await simulator.start();
+  });
+
+  afterEach(async () => {
+    source?.stop();
+    source = null;
+    await simulator.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should send an initial snapshot the server can parse', async () => {
+    await connect();
+    await waitFor(() => received.some((m) => m.type === 'timeofday'));
+
+    const types = received.map((m) => m.type);
+    expect(types).toContain('schedule');
+    expect(types).toContain('raceconfig');
+    expect(types).toContain('results');
+    expect(types).toContain('oncourse');
+
+    const raceConfig = received.find((m) => m.type === 'raceconfig')!.data as { nrGates: number; nrSplits: number };
+    expect(raceConfig.nrGates).toBe(5);
+    expect(raceConfig.nrSplits).toBe(1);
+    expect(simulator.getCurrentRaceId()).toBe('K1M_ST_BR1_6');
+  });
+
+  it('should start the first competitor and apply Scoring commands', async () => {
+    const tcp = await connect();
+    await waitFor(() => lastOnCourse()?.competitors.length === 1);
+    expect(lastOnCourse()!.competitors[0].bib).toBe('1');
+    expect(lastOnCourse()!.competitors[0].raceId).toBe('K1M_ST_BR1_6');
+
+    await new ScoringService(tcp).sendScoring({ bib: '1', gate: 3, value: 50 });
+
+    await waitFor(() => lastOnCourse()?.competitors[0]?.pen === 50);
+    expect(lastOnCourse()!.competitors[0].gates).toBe(',,50,,');
+  });
+
+  it('should start and finish competitors on Timing impulses', async () => {
+    const tcp = await connect();
+    const scoring = new ScoringService(tcp);
+    await waitFor(() => lastOnCourse()?.competitors.length === 1);
+
+    await scoring.sendTiming({ bib: '2', channelPosition: 'Start' });
+    await waitFor(() => lastOnCourse()?.competitors.length === 2);
+
+    await scoring.sendTiming({ bib: '1', channelPosition: 'Finish' });
+    await waitFor(() => simulator.getFinished().length === 1);
+    expect(simulator.getFinished()[0].bib).toBe('1');
+    expect(simulator.getFinished()[0].finishedAt).not.toBeNull();
+  });
+
+  it('should record RemoveFromCourse as DNF/DNS result', async () => {
+    const tcp = await connect();
+    await waitFor(() => lastOnCourse()?.competitors.length === 1);
+
+    await new ScoringService(tcp).sendRemoveFromCourse({ bib: '1', reason: 'DNF' });
+
+    await waitFor(() => simulator.getFinished().length === 1);
+    expect(simulator.getFinished()[0].status).toBe('DNF');
+    expect(simulator.getOnCourse()).toHaveLength(0);
+  });
+});
+
+describe('parseCommand', () => {
+  it('should parse all ScoringService command formats', () => {
+    expect(
+      parseCommand('<Canoe123 System="Main"><Scoring Bib="5"><Penalty Gate="3" Value="" /></Scoring></Canoe123>')
+    ).toEqual({ type: 'Scoring', bib: '5', gate: 3, value: null });
+    expect(
+      parseCommand('<Canoe123 System="Main"><PenaltyCorrection RaceId="R1" Bib="5" Gate="2" Value="2" /></Canoe123>')
+    ).toEqual({ type: 'PenaltyCorrection', raceId: 'R1', bib: '5', gate: 2, value: 2 });
+    expect(
+      parseCommand('<Canoe123 System="Main"><RemoveFromCourse Bib="5" Position="1" Reason="DNS" /></Canoe123>')
+    ).toEqual({ type: 'RemoveFromCourse', bib: '5', reason: 'DNS', position: 1 });
+    expect(
+      parseCommand('<Canoe123 System="Main"><Timing Bib="5" ChannelPosition="Finish" HasChannel="1" /></Canoe123>')
+    ).toEqual({ type: 'Timing', bib: '5', channelPosition: 'Finish' });
+  });
+
+  it('should return null for unsupported frames', () => {
+    expect(parseCommand('<Canoe123 System="Main"><TimeOfDay>10:00:00</TimeOfDay></Canoe123>')).toBeNull();
+    expect(parseCommand('not xml')).toBeNull();
+  });
+});
+
+describe('buildResults', () => {
+  it('should rank valid runs by total and use fixed-width gates', () => {
+    const base = {
+      participantId: '', givenName: '', familyName: '', club: '', startOrder: 1,
+      raceId: 'R1', raceName: 'Race', startedAt: 0,
+    };
+    const xml = buildResults({ raceId: 'R1', classId: 'C', name: 'Race' }, [
+      { ...base, bib: '1', name: 'A', gates: [2, 0, null], finishedAt: 80000 },
+      { ...base, bib: '2', name: 'B', gates: [0, 0, 0], finishedAt: 81000 },
+      { ...base, bib: '3', name: 'C', gates: [null, null, null], finishedAt: null, status: 'DNS' },
+    ]);
+
+    const [parsed] = parseXmlMessage(xml);
+    expect(parsed.type).toBe('results');
+    const rows = (parsed.data as { rows: { bib: string; total: string; gates: string; status?: string }[] }).rows;
+    const byBib = Object.fromEntries(rows.map((r) => [r.bib, r]));
+    expect(byBib['2'].total).toBe('81.00');
+    expect(byBib['1'].total).toBe('82.00');
+    expect(byBib['1'].gates).toBe('  2  0   ');
+    expect(byBib['3'].status).toBe('DNS');
+  });
+});
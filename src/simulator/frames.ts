@@ -0,0 +1,277 @@
+import { XMLParser } from 'fast-xml-parser';
+
+/**
+ * Competitor as rendered in OnCourse and Results frames
+ */
+export interface SimulatedCompetitor {
+  bib: string;
+  participantId: string;
+  name: string;
+  givenName: string;
+  familyName: string;
+  club: string;
+  startOrder: number;
+  startTime?: string | undefined;
+  raceId: string;
+  raceName: string;
+  /** Penalty per gate, null = not judged yet */
+  gates: (number | null)[];
+  /** Time of day the run started (ms since epoch) */
+  startedAt: number;
+  /** Time of day the run finished (ms since epoch) */
+  finishedAt: number | null;
+  /** Removed from course: DNS or DNF */
+  status?: 'DNS' | 'DNF' | undefined;
+}
+
+/**
+ * Race as rendered in the Schedule frame
+ */
+export interface SimulatedRace {
+  order: number;
+  raceId: string;
+  classId: string;
+  name: string;
+  raceStatus: number;
+  startTime?: string | undefined;
+}
+
+/**
+ * Course as rendered in the RaceConfig frame
+ */
+export interface SimulatedCourse {
+  nrSplits: number;
+  /** One N (normal) or R (reverse) per gate */
+  gateConfig: string;
+}
+
+/**
+ * Commands a client can send to Canoe123, as produced by ScoringService
+ */
+export type SimulatorCommand =
+  | { type: 'Scoring'; bib: string; gate: number; value: number | null }
+  | { type: 'PenaltyCorrection'; raceId: string; bib: string; gate: number; value: number | null }
+  | { type: 'RemoveFromCourse'; bib: string; reason: string; position: number }
+  | { type: 'Timing'; bib: string; channelPosition: string };
+
+const commandParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseAttributeValue: false,
+});
+
+/**
+ * Wrap frame content in the Canoe123 root element
+ */
+function wrap(content: string): string {
+  return `<Canoe123 System="Main">${content}</Canoe123>`;
+}
+
+function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format ms since epoch as local time of day, e.g. "16:14:00.000"
+ */
+export function formatDayTime(ms: number, withMillis = true): string {
+  const d = new Date(ms);
+  const hh = String(d.getHours()).padStart(2, '0');
+  const mm = String(d.getMinutes()).padStart(2, '0');
+  const ss = String(d.getSeconds()).padStart(2, '0');
+  const base = `${hh}:${mm}:${ss}`;
+  return withMillis ? `${base}.${String(d.getMilliseconds()).padStart(3, '0')}` : base;
+}
+
+/**
+ * Format a duration in ms as seconds with hundredths, e.g. "79.99"
+ */
+export function formatSeconds(ms: number): string {
+  return (Math.floor(ms / 10) / 100).toFixed(2);
+}
+
+/**
+ * Sum of all judged gate penalties
+ */
+export function penaltySum(gates: (number | null)[]): number {
+  return gates.reduce<number>((sum, value) => sum + (value ?? 0), 0);
+}
+
+/**
+ * Build a TimeOfDay frame
+ */
+export function buildTimeOfDay(now: number): string {
+  return wrap(`<TimeOfDay>${formatDayTime(now, false)}</TimeOfDay>`);
+}
+
+/**
+ * Build a Schedule frame
+ */
+export function buildSchedule(races: SimulatedRace[]): string {
+  const items = races
+    .map(
+      (r) =>
+        `<Race Order="${r.order}" RaceId="${escapeXml(r.raceId)}" Race="${escapeXml(r.name)}" ` +
+        `MainTitle="${escapeXml(r.name)}" SubTitle="" ShortTitle="${escapeXml(r.name)}" ` +
+        `RaceStatus="${r.raceStatus}"><StartTime>${escapeXml(r.startTime ?? '')}</StartTime></Race>`
+    )
+    .join('');
+  return wrap(`<Schedule>${items}</Schedule>`);
+}
+
+/**
+ * Build a RaceConfig frame
+ */
+export function buildRaceConfig(course: SimulatedCourse): string {
+  const nrGates = course.gateConfig.length;
+  const captions = Array.from({ length: nrGates }, (_, i) => String(i + 1)).join(',');
+  return wrap(
+    `<RaceConfig NrSplits="${course.nrSplits}" NrGates="${nrGates}" ` +
+      `GateConfig="${course.gateConfig}" GateCaptions="${captions}" />`
+  );
+}
+
+/**
+ * Build an OnCourse frame. Competitors must be ordered by position
+ * (1 = closest to finish).
+ */
+export function buildOnCourse(competitors: SimulatedCompetitor[], now: number): string {
+  const entries = competitors
+    .map((c, index) => {
+      const elapsed = (c.finishedAt ?? now) - c.startedAt;
+      const pen = penaltySum(c.gates);
+      const finished = c.finishedAt !== null;
+      const time = finished ? formatSeconds(elapsed) : String(Math.floor(elapsed / 1000));
+      const total = finished ? formatSeconds(elapsed + pen * 1000) : String(Math.floor(elapsed / 1000) + pen);
+      const gates = c.gates.map((g) => (g === null ? '' : String(g))).join(',');
+
+      return (
+        `<OnCourse Position="${index + 1}">` +
+        `<Participant StartOrder="${c.startOrder}" Bib="${escapeXml(c.bib)}" Id="${escapeXml(c.participantId)}" ` +
+        `Name="${escapeXml(c.name)}" Club="${escapeXml(c.club)}" Nat="" Race="${escapeXml(c.raceName)}" ` +
+        `RaceId="${escapeXml(c.raceId)}" Warning="" />` +
+        `<Result Type="C" Gates="${gates}" Completed="${finished ? 'Y' : 'N'}" ` +
+        `dtStart="${formatDayTime(c.startedAt)}" dtFinish="${finished ? formatDayTime(c.finishedAt!) : ''}" />` +
+        `<Result Type="T" Pen="${pen}" Time="${time}" Total="${total}" TTBDiff="" TTBName="" Rank="0" />` +
+        `</OnCourse>`
+      );
+    })
+    .join('');
+
+  return wrap(`<OnCourse Total="${competitors.length}">${entries}</OnCourse>`);
+}
+
+/**
+ * Build a Results frame for finished (or removed) competitors.
+ *
+ * Valid runs are ranked by total time; DNS/DNF rows follow unranked. Gates
+ * use the fixed-width three-characters-per-gate layout of the XML file.
+ */
+export function buildResults(
+  race: { raceId: string; classId: string; name: string },
+  competitors: SimulatedCompetitor[]
+): string {
+  const totalOf = (c: SimulatedCompetitor) => c.finishedAt! - c.startedAt + penaltySum(c.gates) * 1000;
+
+  const valid = competitors
+    .filter((c) => !c.status && c.finishedAt !== null)
+    .sort((a, b) => totalOf(a) - totalOf(b));
+  const invalid = competitors.filter((c) => c.status);
+  const leaderTotal = valid.length > 0 ? totalOf(valid[0]) : 0;
+
+  const rows = [...valid, ...invalid]
+    .map((c, index) => {
+      const isValid = !c.status;
+      const pen = penaltySum(c.gates);
+      const gates = c.gates.map((g) => (g === null ? '' : String(g)).padStart(3, ' ')).join('');
+      const time = isValid ? formatSeconds(c.finishedAt! - c.startedAt) : '';
+      const total = isValid ? formatSeconds(totalOf(c)) : '';
+      const behind = isValid && index > 0 ? `+${formatSeconds(totalOf(c) - leaderTotal)}` : '';
+      const rank = isValid ? String(index + 1) : '';
+
+      return (
+        `<Row Number="${index + 1}">` +
+        `<Participant Bib="${escapeXml(c.bib)}" Id="${escapeXml(c.participantId)}" Name="${escapeXml(c.name)}" ` +
+        `Club="${escapeXml(c.club)}" Nat="" GivenName="${escapeXml(c.givenName)}" ` +
+        `FamilyName="${escapeXml(c.familyName)}" StartOrder="${c.startOrder}" ` +
+        `StartTime="${escapeXml(c.startTime ?? '')}" />` +
+        `<Result Type="T" Pen="${isValid ? pen : ''}" Gates="${gates}" Time="${time}" Total="${total}" ` +
+        `Rank="${rank}" Behind="${behind}" IRM="${c.status ?? ''}" />` +
+        `</Row>`
+      );
+    })
+    .join('');
+
+  return wrap(
+    `<Results RaceId="${escapeXml(race.raceId)}" ClassId="${escapeXml(race.classId)}" Current="Y" ` +
+      `MainTitle="${escapeXml(race.name)}" SubTitle="">${rows}</Results>`
+  );
+}
+
+/**
+ * Parse a command frame sent by a client.
+ *
+ * @returns the command, or null if the frame is not a supported command
+ */
+export function parseCommand(xml: string): SimulatorCommand | null {
+  let root: Record<string, Record<string, unknown>> | undefined;
+  try {
+    root = commandParser.parse(xml)?.Canoe123;
+  } catch {
+    return null;
+  }
+  if (!root || typeof root !== 'object') {
+    return null;
+  }
+
+  const attr = (el: unknown, name: string): string =>
+    String((el as Record<string, unknown> | undefined)?.[`@_${name}`] ?? '').trim();
+  const penalty = (value: string): number | null => (value === '' ? null : parseInt(value, 10));
+
+  if (root.Scoring) {
+    const el = root.Scoring;
+    return {
+      type: 'Scoring',
+      bib: attr(el, 'Bib'),
+      gate: parseInt(attr(el.Penalty, 'Gate'), 10),
+      value: penalty(attr(el.Penalty, 'Value')),
+    };
+  }
+
+  if (root.PenaltyCorrection) {
+    const el = root.PenaltyCorrection;
+    return {
+      type: 'PenaltyCorrection',
+      raceId: attr(el, 'RaceId'),
+      bib: attr(el, 'Bib'),
+      gate: parseInt(attr(el, 'Gate'), 10),
+      value: penalty(attr(el, 'Value')),
+    };
+  }
+
+  if (root.RemoveFromCourse) {
+    const el = root.RemoveFromCourse;
+    return {
+      type: 'RemoveFromCourse',
+      bib: attr(el, 'Bib'),
+      reason: attr(el, 'Reason'),
+      position: parseInt(attr(el, 'Position'), 10) || 1,
+    };
+  }
+
+  if (root.Timing) {
+    const el = root.Timing;
+    return {
+      type: 'Timing',
+      bib: attr(el, 'Bib'),
+      channelPosition: attr(el, 'ChannelPosition'),
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,11 @@
+export { C123Simulator } from './C123Simulator.js';
+export type { C123SimulatorConfig, C123SimulatorEvents } from './C123Simulator.js';
+export {
+  buildOnCourse,
+  buildRaceConfig,
+  buildResults,
+  buildSchedule,
+  buildTimeOfDay,
+  parseCommand,
+} from './frames.js';
+export type { SimulatedCompetitor, SimulatedCourse, SimulatedRace, SimulatorCommand } from './frames.js';
@@ -0,0 +1,333 @@
+import { EventEmitter } from 'node:events';
+import { TcpSource } from './TcpSource.js';
+import type { LiveSourceEvents, SourceStatus, TcpSourceConfig, WritableSource } from './types.js';
+import { Logger } from '../utils/logger.js';
+
+const DEFAULT_PORT = 27333;
+const DEFAULT_HEARTBEAT_TIMEOUT = 5000;
+const DEFAULT_CHECK_INTERVAL = 1000;
+const DEFAULT_FAILBACK_DELAY = 10000;
+
+/**
+ * One C123 host of a failover group
+ */
+export interface C123HostConfig {
+  /** C123 host address */
+  host: string;
+  /** C123 port (default 27333) */
+  port?: number;
+  /** Lower value wins (default: position in the host list) */
+  priority?: number;
+}
+
+/**
+ * Health of one C123 host, as reported in /api/sources
+ */
+export interface C123HostStatus {
+  host: string;
+  port: number;
+  priority: number;
+  status: SourceStatus;
+  /** Connected and sending TimeOfDay heartbeats */
+  healthy: boolean;
+  /** Messages of this host are forwarded */
+  active: boolean;
+  /** Time of the last TimeOfDay heartbeat (ISO 8601) */
+  lastHeartbeat: string | null;
+}
+
+/**
+ * Configuration for FailoverSource
+ */
+export interface FailoverSourceConfig {
+  /** C123 hosts, primary first */
+  hosts: C123HostConfig[];
+  /** Host is unhealthy after this long without TimeOfDay, in ms (default 5000) */
+  heartbeatTimeout?: number;
+  /** Health check interval in ms (default 1000) */
+  checkInterval?: number;
+  /** How long a recovered higher-priority host must stay healthy before it takes over again, in ms (default 10000) */
+  failbackDelay?: number;
+  /** Initial reconnect delay of each host in ms (default 1000) */
+  initialReconnectDelay?: number;
+  /** Maximum reconnect delay of each host in ms (default 30000) */
+  maxReconnectDelay?: number;
+  /** Reconnect a host after this long without TimeOfDay, in ms (default 10000, 0 disables) */
+  staleTimeout?: number;
+}
+
+/**
+ * Events emitted by FailoverSource:
+ * - 'message': (xml: string) - Raw XML message of the active host
+ * - 'status': (status: SourceStatus) - Status changed ('connected' while any host is active)
+ * - 'error': (error: Error) - Error of any host
+ * - 'stale': (stale: boolean) - No host is healthy any more (true) or one is again (false)
+ * - 'failover': (host: string | null, previous: string | null) - Active host changed ("ip:port", null when none is healthy)
+ */
+export interface FailoverSourceEvents extends LiveSourceEvents {
+  failover: [host: string | null, previous: string | null];
+}
+
+interface HostEntry {
+  host: string;
+  port: number;
+  priority: number;
+  source: TcpSource;
+  lastHeartbeat: number | null;
+  /** Start of the current healthy streak */
+  healthySince: number | null;
+}
+
+/**
+ * Several C123 hosts (primary and hot standby) behind one source.
+ *
+ * Every host is connected at once. A host is healthy while it is connected
+ * and its TimeOfDay heartbeats keep coming; C123 sends one every second. Only
+ * messages of the active host are forwarded, so consumers see a single
+ * uninterrupted stream. When the active host goes silent the healthiest host
+ * with the best priority takes over immediately. A recovered higher-priority
+ * host takes over again only after staying healthy for the failback delay,
+ * so a flapping primary does not bounce the stream back and forth.
+ */
+export class FailoverSource extends EventEmitter<FailoverSourceEvents> implements WritableSource {
+  private readonly heartbeatTimeout: number;
+  private readonly checkInterval: number;
+  private readonly failbackDelay: number;
+  private readonly hosts: HostEntry[];
+
+  private active: HostEntry | null = null;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private _stale = false;
+  private _status: SourceStatus = 'disconnected';
+
+  constructor(config: FailoverSourceConfig) {
+    super();
+    if (config.hosts.length === 0) {
+      throw new Error('FailoverSource needs at least one host');
+    }
+
+    this.heartbeatTimeout = config.heartbeatTimeout ?? DEFAULT_HEARTBEAT_TIMEOUT;
+    this.checkInterval = config.checkInterval ?? DEFAULT_CHECK_INTERVAL;
+    this.failbackDelay = config.failbackDelay ?? DEFAULT_FAILBACK_DELAY;
+
+    this.hosts = config.hosts
+      .map((h, index) => {
+        const port = h.port ?? DEFAULT_PORT;
+        const tcpConfig: TcpSourceConfig = { host: h.host, port };
+        if (config.initialReconnectDelay !== undefined) tcpConfig.initialReconnectDelay = config.initialReconnectDelay;
+        if (config.maxReconnectDelay !== undefined) tcpConfig.maxReconnectDelay = config.maxReconnectDelay;
+        if (config.staleTimeout !== undefined) tcpConfig.staleTimeout = config.staleTimeout;
+        return {
+          host: h.host,
+          port,
+          priority: h.priority ?? index,
+          source: new TcpSource(tcpConfig),
+          lastHeartbeat: null,
+          healthySince: null,
+        };
+      })
+      .sort((a, b) => a.priority - b.priority);
+
+    for (const entry of this.hosts) {
+      this.attach(entry);
+    }
+  }
+
+  get status(): SourceStatus {
+    return this._status;
+  }
+
+  /**
+   * Address of the active host ("ip:port"), null when none is healthy
+   */
+  get activeHost(): string | null {
+    return this.active ? label(this.active) : null;
+  }
+
+  /**
+   * Whether every host went silent after one was active
+   */
+  get isStale(): boolean {
+    return this._stale;
+  }
+
+  /**
+   * Time of the last TimeOfDay heartbeat of any host (ms since epoch)
+   */
+  get lastHeartbeat(): number | null {
+    const times = this.hosts.map((e) => e.source.lastHeartbeat).filter((t) => t !== null);
+    return times.length > 0 ? Math.max(...times) : null;
+  }
+
+  /**
+   * Connect to all hosts and start health checking
+   */
+  start(): void {
+    this.running = true;
+    for (const entry of this.hosts) {
+      entry.source.start();
+    }
+    if (!this.checkTimer) {
+      this.checkTimer = setInterval(() => this.evaluate(), this.checkInterval);
+    }
+  }
+
+  /**
+   * Disconnect from all hosts
+   */
+  stop(): void {
+    this.running = false;
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+    for (const entry of this.hosts) {
+      entry.source.stop();
+      entry.lastHeartbeat = null;
+      entry.healthySince = null;
+    }
+    this.active = null;
+    this.setStatus('disconnected');
+    this.setStale(false);
+  }
+
+  /**
+   * Health of every host, in priority order
+   */
+  getHosts(): C123HostStatus[] {
+    const now = Date.now();
+    return this.hosts.map((entry) => ({
+      host: entry.host,
+      port: entry.port,
+      priority: entry.priority,
+      status: entry.source.status,
+      healthy: this.isHealthy(entry, now),
+      active: entry === this.active,
+      lastHeartbeat: entry.lastHeartbeat !== null ? new Date(entry.lastHeartbeat).toISOString() : null,
+    }));
+  }
+
+  /**
+   * Writes go to the active host only
+   */
+  get isWritable(): boolean {
+    return this.active?.source.isWritable ?? false;
+  }
+
+  /**
+   * Write an XML message to the active host
+   *
+   * @throws Error if no host is active
+   */
+  write(xml: string): Promise<void> {
+    if (!this.active) {
+      return Promise.reject(new Error('Not connected to C123'));
+    }
+    return this.active.source.write(xml);
+  }
+
+  private attach(entry: HostEntry): void {
+    entry.source.on('message', (xml) => {
+      if (xml.includes('<TimeOfDay')) {
+        entry.lastHeartbeat = Date.now();
+        if (!this.active) {
+          this.evaluate();
+        }
+      }
+      if (entry === this.active) {
+        this.emit('message', xml);
+      }
+    });
+
+    entry.source.on('status', (status) => {
+      if (status !== 'connected') {
+        entry.lastHeartbeat = null;
+      }
+      this.evaluate();
+    });
+
+    entry.source.on('error', (err) => {
+      this.emit('error', err);
+    });
+  }
+
+  private isHealthy(entry: HostEntry, now: number): boolean {
+    return (
+      entry.source.status === 'connected' &&
+      entry.lastHeartbeat !== null &&
+      now - entry.lastHeartbeat <= this.heartbeatTimeout
+    );
+  }
+
+  /**
+   * Re-check host health and switch the active host if needed
+   */
+  private evaluate(): void {
+    if (!this.running) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const entry of this.hosts) {
+      if (this.isHealthy(entry, now)) {
+        entry.healthySince ??= now;
+      } else {
+        entry.healthySince = null;
+      }
+    }
+
+    const current = this.active && this.active.healthySince !== null ? this.active : null;
+    // Hosts are sorted by priority, so the first healthy one is the best
+    const best = this.hosts.find((e) => e.healthySince !== null) ?? null;
+
+    let next = current;
+    if (!current) {
+      next = best;
+    } else if (best && best !== current && best.priority < current.priority) {
+      if (now - (best.healthySince as number) >= this.failbackDelay) {
+        next = best;
+      }
+    }
+
+    if (next !== this.active) {
+      const previous = this.active;
+      this.active = next;
+      if (next && previous) {
+        Logger.warn('FailoverSource', `Switching C123 from ${label(previous)} to ${label(next)}`);
+      } else if (next) {
+        Logger.info('FailoverSource', `Using C123 at ${label(next)}`);
+      } else if (previous) {
+        Logger.warn('FailoverSource', `C123 at ${label(previous)} went silent, no healthy host left`);
+      }
+      this.emit('failover', next ? label(next) : null, previous ? label(previous) : null);
+      this.setStale(next === null);
+    }
+
+    if (this.active) {
+      this.setStatus('connected');
+    } else if (this.hosts.some((e) => e.source.status !== 'disconnected')) {
+      this.setStatus('connecting');
+    } else {
+      this.setStatus('disconnected');
+    }
+  }
+
+  private setStale(stale: boolean): void {
+    if (this._stale !== stale) {
+      this._stale = stale;
+      this.emit('stale', stale);
+    }
+  }
+
+  private setStatus(status: SourceStatus): void {
+    if (this._status !== status) {
+      this._status = status;
+      this.emit('status', status);
+    }
+  }
+}
+
+function label(entry: HostEntry): string {
+  return `${entry.host}:${entry.port}`;
+}
@@ -0,0 +1,167 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Origin of a recorded frame
+ */
+export type RecordingSource = 'tcp' | 'udp';
+
+/**
+ * One line of a recording file.
+ *
+ * Same shape as the recordings in c123-protocol-docs, so files produced here
+ * can be fed to the E2E tests and vice versa.
+ */
+export interface RecordingEntry {
+  /** Milliseconds since the recording started */
+  ts: number;
+  /** Where the frame came from */
+  src: RecordingSource;
+  /** Message element (OnCourse, Results, ...) or 'xml' if not recognised */
+  type: string;
+  /** Raw XML frame exactly as received */
+  data: string;
+  /** Optional per-entry metadata (e.g. UDP sender host) */
+  _meta?: Record<string, unknown>;
+}
+
+/**
+ * Configuration for Recorder
+ */
+export interface RecorderConfig {
+  /** Directory for recording files (default: app data dir /recordings) */
+  dir?: string;
+}
+
+/**
+ * Get platform-specific recordings directory path
+ * - Windows: %APPDATA%\c123-server\recordings\
+ * - Linux/macOS: ~/.c123-server/recordings/
+ */
+export function getRecordingsDirectory(): string {
+  if (os.platform() === 'win32') {
+    const appData = process.env.APPDATA || path.join(os.homedir(), 'AppData', 'Roaming');
+    return path.join(appData, 'c123-server', 'recordings');
+  }
+  return path.join(os.homedir(), '.c123-server', 'recordings');
+}
+
+/**
+ * Records raw C123 traffic to a JSONL file for later replay.
+ *
+ * The first line is a `{"_meta": {...}}` header; every following line is a
+ * RecordingEntry. Lines are appended as they arrive, so a crash loses at most
+ * the frame being written.
+ */
+export class Recorder {
+  private readonly dir: string;
+  private stream: fs.WriteStream | null = null;
+  private filePath: string | null = null;
+  private startedAt = 0;
+  private entryCount = 0;
+
+  constructor(config?: RecorderConfig) {
+    this.dir = config?.dir ?? getRecordingsDirectory();
+  }
+
+  /**
+   * Whether a recording is in progress
+   */
+  get isRecording(): boolean {
+    return this.stream !== null;
+  }
+
+  /**
+   * Path of the current (or last) recording file
+   */
+  getPath(): string | null {
+    return this.filePath;
+  }
+
+  /**
+   * Number of entries written to the current recording
+   */
+  getEntryCount(): number {
+    return this.entryCount;
+  }
+
+  /**
+   * Start a new recording file named `rec-<ISO timestamp>.jsonl`.
+   *
+   * @returns path of the created file
+   */
+  start(meta?: Record<string, unknown>): string {
+    if (this.stream && this.filePath) {
+      return this.filePath;
+    }
+
+    fs.mkdirSync(this.dir, { recursive: true });
+
+    const now = new Date();
+    const stamp = now.toISOString().slice(0, 19).replace(/:/g, '-');
+    this.filePath = path.join(this.dir, `rec-${stamp}.jsonl`);
+    this.startedAt = now.getTime();
+    this.entryCount = 0;
+
+    this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+    this.stream.on('error', (err) => {
+      Logger.error('Recorder', `Write failed: ${err.message}`);
+      this.stream = null;
+    });
+    this.stream.write(JSON.stringify({ _meta: { recorded: now.toISOString(), ...meta } }) + '\n');
+
+    Logger.info('Recorder', `Recording to ${this.filePath}`);
+    return this.filePath;
+  }
+
+  /**
+   * Append a raw frame to the recording. No-op when not recording.
+   */
+  record(src: RecordingSource, data: string, meta?: Record<string, unknown>): void {
+    if (!this.stream) {
+      return;
+    }
+
+    const entry: RecordingEntry = {
+      ts: Date.now() - this.startedAt,
+      src,
+      type: detectMessageType(data),
+      data,
+    };
+    if (meta) {
+      entry._meta = meta;
+    }
+
+    this.stream.write(JSON.stringify(entry) + '\n');
+    this.entryCount++;
+  }
+
+  /**
+   * Stop recording and close the file.
+   *
+   * Resolves once everything written so far has been flushed to disk.
+   */
+  stop(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+
+    if (!stream) {
+      return Promise.resolve();
+    }
+
+    Logger.info('Recorder', `Recording stopped (${this.entryCount} entries)`);
+    return new Promise((resolve) => {
+      stream.end(() => resolve());
+    });
+  }
+}
+
+/**
+ * Name of the first element inside the Canoe123 root, e.g. 'OnCourse'.
+ */
+function detectMessageType(xml: string): string {
+  const match = /<Canoe123\b[^>]*>\s*<([A-Za-z][\w]*)/.exec(xml);
+  return match ? match[1] : 'xml';
+}
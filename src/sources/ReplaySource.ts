@@ -0,0 +1,236 @@
+import fsPromises from 'node:fs/promises';
+import { EventEmitter } from 'node:events';
+import type { Source, SourceEvents, SourceStatus } from './types.js';
+import type { RecordingEntry, RecordingSource } from './Recorder.js';
+
+/**
+ * Replay speed: a multiplier of real time, or 'max' for no delays at all
+ */
+export type ReplaySpeed = number | 'max';
+
+/**
+ * Configuration for ReplaySource
+ */
+export interface ReplaySourceConfig {
+  /** Path to a JSONL recording */
+  path: string;
+  /** Playback speed (default: 1) */
+  speed?: ReplaySpeed;
+  /** Also emit recorded UDP frames (default: false, they duplicate TCP data) */
+  includeUdp?: boolean;
+  /** Start over when the end of the recording is reached (default: false) */
+  loop?: boolean;
+}
+
+/**
+ * Replay progress
+ */
+export interface ReplayProgress {
+  /** Entries emitted so far */
+  position: number;
+  /** Total replayable entries in the recording */
+  total: number;
+  /** Recording time of the last emitted entry in ms */
+  ts: number;
+}
+
+/**
+ * Parse a speed value from CLI or API input ('4', '4x', 'max').
+ *
+ * @returns the speed, or null if the value is not valid
+ */
+export function parseReplaySpeed(value: unknown): ReplaySpeed | null {
+  if (value === 'max') {
+    return 'max';
+  }
+  const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/x$/i, ''));
+  return Number.isFinite(num) && num > 0 ? num : null;
+}
+
+/**
+ * Source that plays back a recording made by Recorder.
+ *
+ * Emits the recorded frames as 'message' events with the original timing
+ * scaled by the configured speed, so the rest of the server cannot tell it
+ * apart from a live TcpSource. Status is 'connecting' while the file loads,
+ * 'connected' during playback and 'disconnected' once finished or stopped.
+ */
+export class ReplaySource extends EventEmitter<SourceEvents> implements Source {
+  private readonly path: string;
+  private readonly speed: ReplaySpeed;
+  private readonly includeUdp: boolean;
+  private readonly loop: boolean;
+
+  private entries: RecordingEntry[] = [];
+  private position = 0;
+  private timer: NodeJS.Timeout | NodeJS.Immediate | null = null;
+  private running = false;
+  private _status: SourceStatus = 'disconnected';
+
+  constructor(config: ReplaySourceConfig) {
+    super();
+    this.path = config.path;
+    this.speed = config.speed ?? 1;
+    this.includeUdp = config.includeUdp ?? false;
+    this.loop = config.loop ?? false;
+  }
+
+  get status(): SourceStatus {
+    return this._status;
+  }
+
+  /**
+   * Path of the recording being replayed
+   */
+  getPath(): string {
+    return this.path;
+  }
+
+  /**
+   * Configured playback speed
+   */
+  getSpeed(): ReplaySpeed {
+    return this.speed;
+  }
+
+  /**
+   * Current playback position
+   */
+  getProgress(): ReplayProgress {
+    const last = this.position > 0 ? this.entries[this.position - 1] : undefined;
+    return {
+      position: this.position,
+      total: this.entries.length,
+      ts: last?.ts ?? 0,
+    };
+  }
+
+  private setStatus(status: SourceStatus): void {
+    if (this._status !== status) {
+      this._status = status;
+      this.emit('status', status);
+    }
+  }
+
+  /**
+   * Load the recording and start playback.
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.setStatus('connecting');
+    void this.load();
+  }
+
+  /**
+   * Stop playback.
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+    this.setStatus('disconnected');
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const content = await fsPromises.readFile(this.path, 'utf-8');
+      this.entries = parseRecording(content, this.includeUdp ? ['tcp', 'udp'] : ['tcp']);
+    } catch (err) {
+      this.running = false;
+      this.setStatus('disconnected');
+      this.emit('error', err instanceof Error ? err : new Error(String(err)));
+      return;
+    }
+
+    if (!this.running) {
+      return;
+    }
+
+    this.position = 0;
+    this.setStatus('connected');
+    this.scheduleNext();
+  }
+
+  private scheduleNext(): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.position >= this.entries.length) {
+      if (this.loop && this.entries.length > 0) {
+        this.position = 0;
+      } else {
+        this.running = false;
+        this.setStatus('disconnected');
+        return;
+      }
+    }
+
+    const entry = this.entries[this.position];
+    const prev = this.position > 0 ? this.entries[this.position - 1] : undefined;
+
+    if (this.speed === 'max') {
+      // setImmediate rather than a tight loop, so HTTP and WebSocket traffic
+      // keeps flowing during a max-speed replay.
+      this.timer = setImmediate(() => this.emitEntry(entry));
+    } else {
+      const delay = prev ? Math.max(0, entry.ts - prev.ts) / this.speed : 0;
+      this.timer = setTimeout(() => this.emitEntry(entry), delay);
+    }
+  }
+
+  private emitEntry(entry: RecordingEntry): void {
+    this.timer = null;
+    if (!this.running) {
+      return;
+    }
+
+    this.position++;
+    this.emit('message', entry.data);
+    this.scheduleNext();
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      if (this.speed === 'max') {
+        clearImmediate(this.timer as NodeJS.Immediate);
+      } else {
+        clearTimeout(this.timer as NodeJS.Timeout);
+      }
+      this.timer = null;
+    }
+  }
+}
+
+/**
+ * Parse JSONL recording content into replayable entries.
+ *
+ * Header lines (`_meta` only), entries from other sources and malformed lines
+ * are skipped.
+ */
+export function parseRecording(content: string, sources: RecordingSource[] = ['tcp']): RecordingEntry[] {
+  const entries: RecordingEntry[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      const entry = JSON.parse(line) as Partial<RecordingEntry>;
+      if (
+        typeof entry.data === 'string' &&
+        typeof entry.ts === 'number' &&
+        sources.includes(entry.src as RecordingSource)
+      ) {
+        entries.push(entry as RecordingEntry);
+      }
+    } catch {
+      // Skip malformed lines
+    }
+  }
+
+  return entries;
+}
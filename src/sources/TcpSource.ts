@@ -1,23 +1,31 @@
 import net from 'node:net';
 import { EventEmitter } from 'node:events';
-import type { Source, SourceEvents, SourceStatus, TcpSourceConfig } from './types.js';
+import type { LiveSourceEvents, Source, SourceStatus, TcpSourceConfig } from './types.js';
 import { Logger } from '../utils/logger.js';
+import { getMetrics } from '../metrics/index.js';
 
 const DEFAULT_PORT = 27333;
 const DEFAULT_INITIAL_RECONNECT_DELAY = 1000;
 const DEFAULT_MAX_RECONNECT_DELAY = 30000;
+const DEFAULT_STALE_TIMEOUT = 10000;
 
 /**
  * TCP source for C123 connection.
  *
  * Connects to C123 timing system via TCP, handles pipe-delimited XML messages,
  * and provides automatic reconnection with exponential backoff.
+ *
+ * A half-open connection stays 'connected' while nothing arrives, so a
+ * watchdog expects a TimeOfDay (C123 sends one every second). Without one for
+ * staleTimeout the source is marked stale and the connection is dropped to
+ * force a reconnect. It stays stale until a TimeOfDay arrives again.
  */
-export class TcpSource extends EventEmitter<SourceEvents> implements Source {
+export class TcpSource extends EventEmitter<LiveSourceEvents> implements Source {
   private readonly host: string;
   private readonly port: number;
   private readonly initialReconnectDelay: number;
   private readonly maxReconnectDelay: number;
+  private readonly staleTimeout: number;
 
   private socket: net.Socket | null = null;
   private buffer = '';
@@ -25,6 +33,9 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
   private currentReconnectDelay: number;
   private _status: SourceStatus = 'disconnected';
   private shouldReconnect = false;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private _stale = false;
+  private _lastHeartbeat: number | null = null;
 
   constructor(config: TcpSourceConfig) {
     super();
@@ -32,6 +43,7 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
     this.port = config.port ?? DEFAULT_PORT;
     this.initialReconnectDelay = config.initialReconnectDelay ?? DEFAULT_INITIAL_RECONNECT_DELAY;
     this.maxReconnectDelay = config.maxReconnectDelay ?? DEFAULT_MAX_RECONNECT_DELAY;
+    this.staleTimeout = config.staleTimeout ?? DEFAULT_STALE_TIMEOUT;
     this.currentReconnectDelay = this.initialReconnectDelay;
   }
 
@@ -39,6 +51,20 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
     return this._status;
   }
 
+  /**
+   * Whether TimeOfDay heartbeats stopped and have not come back yet
+   */
+  get isStale(): boolean {
+    return this._stale;
+  }
+
+  /**
+   * Time of the last TimeOfDay heartbeat (ms since epoch), null if none yet
+   */
+  get lastHeartbeat(): number | null {
+    return this._lastHeartbeat;
+  }
+
   private setStatus(status: SourceStatus): void {
     if (this._status !== status) {
       this._status = status;
@@ -62,6 +88,7 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
   stop(): void {
     this.shouldReconnect = false;
     this.clearReconnectTimer();
+    this.clearWatchdog();
 
     if (this.socket) {
       this.socket.destroy();
@@ -70,6 +97,7 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
 
     this.buffer = '';
     this.setStatus('disconnected');
+    this.setStale(false);
   }
 
   private connect(): void {
@@ -89,6 +117,7 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
       Logger.info('TcpSource', `Connected to ${this.host}:${this.port}`);
       this.currentReconnectDelay = this.initialReconnectDelay;
       this.setStatus('connected');
+      this.armWatchdog();
     });
 
     socket.on('data', (data) => {
@@ -97,6 +126,7 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
 
     socket.on('close', () => {
       Logger.info('TcpSource', 'Connection closed');
+      this.clearWatchdog();
       this.socket = null;
       this.setStatus('disconnected');
       this.scheduleReconnect();
@@ -120,11 +150,58 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
     for (const msg of messages) {
       const trimmed = msg.trim();
       if (trimmed) {
+        if (trimmed.includes('<TimeOfDay')) {
+          this.handleHeartbeat();
+        }
         this.emit('message', trimmed);
       }
     }
   }
 
+  private handleHeartbeat(): void {
+    this._lastHeartbeat = Date.now();
+    this.armWatchdog();
+    if (this._stale) {
+      Logger.info('TcpSource', `TimeOfDay from ${this.host}:${this.port} resumed`);
+      this.setStale(false);
+    }
+  }
+
+  /**
+   * (Re)start the stale timer, on connect and on every heartbeat
+   */
+  private armWatchdog(): void {
+    this.clearWatchdog();
+    if (this.staleTimeout <= 0) {
+      return;
+    }
+
+    this.watchdogTimer = setTimeout(() => {
+      this.watchdogTimer = null;
+      if (!this.socket || this._status !== 'connected') {
+        return;
+      }
+      Logger.warn('TcpSource', `No TimeOfDay from ${this.host}:${this.port} for ${this.staleTimeout}ms, reconnecting`);
+      this.setStale(true);
+      // close event will trigger reconnect
+      this.socket.destroy();
+    }, this.staleTimeout);
+  }
+
+  private clearWatchdog(): void {
+    if (this.watchdogTimer) {
+      clearTimeout(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  private setStale(stale: boolean): void {
+    if (this._stale !== stale) {
+      this._stale = stale;
+      this.emit('stale', stale);
+    }
+  }
+
   private scheduleReconnect(): void {
     if (!this.shouldReconnect || this.reconnectTimer) {
       return;
@@ -135,6 +212,7 @@ export class TcpSource extends EventEmitter<SourceEvents> implements Source {
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null;
       if (this.shouldReconnect) {
+        getMetrics().tcpReconnects.inc();
         this.connect();
       }
     }, this.currentReconnectDelay);
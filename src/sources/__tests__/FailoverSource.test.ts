@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import { FailoverSource } from '../FailoverSource.js';
+
+const TIME_OF_DAY = '<Canoe123 System="Main"><TimeOfDay>10:00:00</TimeOfDay></Canoe123>';
+
+/**
+ * Fake C123: accepts connections and can send heartbeats to them
+ */
+class FakeC123 {
+  readonly server = net.createServer();
+  readonly sockets: net.Socket[] = [];
+  readonly received: string[] = [];
+  port = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  async listen(): Promise<void> {
+    this.server.on('connection', (socket) => {
+      this.sockets.push(socket);
+      socket.on('data', (data) => this.received.push(data.toString('utf8')));
+      socket.on('error', () => {});
+    });
+    await new Promise<void>((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        const addr = this.server.address();
+        this.port = typeof addr === 'object' && addr ? addr.port : 0;
+        resolve();
+      });
+    });
+  }
+
+  send(xml: string): void {
+    for (const socket of this.sockets) {
+      if (!socket.destroyed) socket.write(xml + '|');
+    }
+  }
+
+  startHeartbeat(interval = 30): void {
+    this.stopHeartbeat();
+    this.send(TIME_OF_DAY);
+    this.heartbeatTimer = setInterval(() => this.send(TIME_OF_DAY), interval);
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  async waitForConnection(): Promise<void> {
+    await waitFor(() => this.sockets.length > 0);
+  }
+
+  async close(): Promise<void> {
+    this.stopHeartbeat();
+    for (const socket of this.sockets) socket.destroy();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('FailoverSource', () => {
+  let primary: FakeC123;
+  let backup: FakeC123;
+  let source: FailoverSource;
+
+  beforeEach(async () => {
+    primary = new FakeC123();
+    backup = new FakeC123();
+    await primary.listen();
+    await backup.listen();
+  });
+
+  afterEach(async () => {
+    source?.stop();
+    await primary.close();
+    await backup.close();
+  });
+
+  function createSource(failbackDelay = 300): FailoverSource {
+    source = new FailoverSource({
+      hosts: [
+        { host: '127.0.0.1', port: primary.port },
+        { host: '127.0.0.1', port: backup.port },
+      ],
+      heartbeatTimeout: 200,
+      checkInterval: 20,
+      failbackDelay,
+    });
+    return source;
+  }
+
+  it('should reject an empty host list', () => {
+    expect(() => new FailoverSource({ hosts: [] })).toThrow('at least one host');
+  });
+
+  it('should activate the primary and forward only its messages', async () => {
+    createSource();
+    const messages: string[] = [];
+    source.on('message', (xml) => messages.push(xml));
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    primary.startHeartbeat();
+    await waitFor(() => source.activeHost === `127.0.0.1:${primary.port}`);
+    backup.startHeartbeat();
+    await waitFor(() => source.getHosts()[1].healthy);
+
+    backup.send('<Canoe123 System="Main"><OnCourse>backup</OnCourse></Canoe123>');
+    primary.send('<Canoe123 System="Main"><OnCourse>primary</OnCourse></Canoe123>');
+    await waitFor(() => messages.some((m) => m.includes('primary')));
+    expect(messages.some((m) => m.includes('backup'))).toBe(false);
+  });
+
+  it('should not treat a connected host without heartbeats as healthy', async () => {
+    createSource();
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    backup.startHeartbeat();
+    await waitFor(() => source.status === 'connected');
+
+    const hosts = source.getHosts();
+    expect(hosts[0]).toMatchObject({ port: primary.port, status: 'connected', healthy: false, active: false, lastHeartbeat: null });
+    expect(hosts[1]).toMatchObject({ port: backup.port, healthy: true, active: true });
+  });
+
+  it('should fail over to the backup when the primary goes silent', async () => {
+    createSource();
+    const statuses: string[] = [];
+    const failovers: [string | null, string | null][] = [];
+    source.on('status', (status) => statuses.push(status));
+    source.on('failover', (host, previous) => failovers.push([host, previous]));
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    primary.startHeartbeat();
+    await waitFor(() => source.activeHost === `127.0.0.1:${primary.port}`);
+    backup.startHeartbeat();
+    await waitFor(() => source.getHosts()[1].healthy);
+
+    primary.stopHeartbeat();
+    await waitFor(() => source.activeHost === `127.0.0.1:${backup.port}`);
+
+    expect(failovers).toEqual([
+      [`127.0.0.1:${primary.port}`, null],
+      [`127.0.0.1:${backup.port}`, `127.0.0.1:${primary.port}`],
+    ]);
+    // The switch is invisible to consumers of the status
+    expect(source.status).toBe('connected');
+    expect(statuses.filter((s) => s === 'connected')).toHaveLength(1);
+    expect(source.isStale).toBe(false);
+  });
+
+  it('should fail over when the primary connection drops', async () => {
+    createSource();
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    primary.startHeartbeat();
+    await waitFor(() => source.activeHost === `127.0.0.1:${primary.port}`);
+    backup.startHeartbeat();
+    await waitFor(() => source.getHosts()[1].healthy);
+
+    primary.stopHeartbeat();
+    for (const socket of primary.sockets) socket.destroy();
+    await waitFor(() => source.activeHost === `127.0.0.1:${backup.port}`);
+    expect(source.getHosts()[0].healthy).toBe(false);
+  });
+
+  it('should return to the primary only after the failback delay', async () => {
+    createSource(300);
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    backup.startHeartbeat();
+    await waitFor(() => source.activeHost === `127.0.0.1:${backup.port}`);
+
+    const recovered = Date.now();
+    primary.startHeartbeat();
+    await waitFor(() => source.getHosts()[0].healthy);
+    expect(source.activeHost).toBe(`127.0.0.1:${backup.port}`);
+
+    await waitFor(() => source.activeHost === `127.0.0.1:${primary.port}`);
+    expect(Date.now() - recovered).toBeGreaterThanOrEqual(250);
+  });
+
+  it('should report no active host when every host is silent', async () => {
+    createSource();
+    const failovers: (string | null)[] = [];
+    source.on('failover', (host) => failovers.push(host));
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    primary.startHeartbeat();
+    await waitFor(() => source.status === 'connected');
+
+    primary.stopHeartbeat();
+    await waitFor(() => source.status === 'connecting');
+    expect(source.activeHost).toBeNull();
+    expect(source.isWritable).toBe(false);
+    expect(failovers.at(-1)).toBeNull();
+    expect(source.isStale).toBe(true);
+    await expect(source.write('<Canoe123 />')).rejects.toThrow('Not connected to C123');
+  });
+
+  it('should write to the active host only', async () => {
+    createSource();
+    source.start();
+    await primary.waitForConnection();
+    await backup.waitForConnection();
+
+    backup.startHeartbeat();
+    await waitFor(() => source.isWritable);
+
+    await source.write('<Canoe123 System="Main"><Penalty /></Canoe123>');
+    await waitFor(() => backup.received.join('').includes('<Penalty />'));
+    expect(primary.received.join('')).toBe('');
+  });
+
+  it('should honour explicit priorities over list order', async () => {
+    source = new FailoverSource({
+      hosts: [
+        { host: '127.0.0.1', port: primary.port, priority: 2 },
+        { host: '127.0.0.1', port: backup.port, priority: 1 },
+      ],
+    });
+
+    expect(source.getHosts().map((h) => [h.port, h.priority])).toEqual([
+      [backup.port, 1],
+      [primary.port, 2],
+    ]);
+  });
+});
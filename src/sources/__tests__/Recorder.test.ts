@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { Recorder } from '../Recorder.js';
+import { parseRecording } from '../ReplaySource.js';
+
+describe('Recorder', () => {
+  let tempDir: string;
+  let recorder: Recorder;
+
+  const onCourseXml = '<Canoe123 System="Main"><OnCourse Total="0" Position="0" /></Canoe123>';
+  const timeOfDayXml = '<Canoe123 System="Main"><TimeOfDay>10:00:00</TimeOfDay></Canoe123>';
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-test-'));
+    recorder = new Recorder({ dir: tempDir });
+  });
+
+  afterEach(async () => {
+    await recorder.stop();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write a meta header and one JSON line per frame', async () => {
+    const filePath = recorder.start();
+    recorder.record('tcp', onCourseXml);
+    recorder.record('udp', timeOfDayXml, { host: '192.168.1.5' });
+    await recorder.stop();
+
+    expect(path.basename(filePath)).toMatch(/^rec-\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\.jsonl$/);
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n').map((l) => JSON.parse(l));
+    expect(lines).toHaveLength(3);
+    expect(lines[0]._meta.recorded).toBeDefined();
+    expect(lines[1]).toMatchObject({ src: 'tcp', type: 'OnCourse', data: onCourseXml });
+    expect(lines[2]).toMatchObject({ src: 'udp', type: 'TimeOfDay', _meta: { host: '192.168.1.5' } });
+    expect(typeof lines[1].ts).toBe('number');
+  });
+
+  it('should ignore frames when not recording', async () => {
+    recorder.record('tcp', onCourseXml);
+    expect(recorder.isRecording).toBe(false);
+    expect(recorder.getEntryCount()).toBe(0);
+
+    const filePath = recorder.start();
+    recorder.record('tcp', onCourseXml);
+    await recorder.stop();
+    recorder.record('tcp', onCourseXml);
+
+    expect(recorder.getEntryCount()).toBe(1);
+    expect(parseRecording(fs.readFileSync(filePath, 'utf-8'))).toHaveLength(1);
+  });
+
+  it('should keep the current file when started twice', () => {
+    const first = recorder.start();
+    const second = recorder.start();
+    expect(second).toBe(first);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { ReplaySource, parseRecording, parseReplaySpeed } from '../ReplaySource.js';
+import type { SourceStatus } from '../types.js';
+
+function waitForStatus(source: ReplaySource, status: SourceStatus): Promise<void> {
+  return new Promise((resolve) => {
+    source.on('status', (s) => {
+      if (s === status) resolve();
+    });
+  });
+}
+
+describe('ReplaySource', () => {
+  let tempDir: string;
+  let recordingPath: string;
+  let source: ReplaySource | null = null;
+
+  const lines = [
+    JSON.stringify({ _meta: { recorded: '2025-12-28T09:34:10.000Z' } }),
+    JSON.stringify({ ts: 0, src: 'tcp', type: 'TimeOfDay', data: '<Canoe123><TimeOfDay>1</TimeOfDay></Canoe123>' }),
+    JSON.stringify({ ts: 100, src: 'udp', type: 'TimeOfDay', data: '<Canoe123><TimeOfDay>udp</TimeOfDay></Canoe123>' }),
+    'not json',
+    JSON.stringify({ ts: 200, src: 'tcp', type: 'TimeOfDay', data: '<Canoe123><TimeOfDay>2</TimeOfDay></Canoe123>' }),
+  ];
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'replay-test-'));
+    recordingPath = path.join(tempDir, 'rec.jsonl');
+    fs.writeFileSync(recordingPath, lines.join('\n') + '\n');
+  });
+
+  afterEach(() => {
+    source?.stop();
+    source = null;
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should replay TCP frames in order at max speed', async () => {
+    source = new ReplaySource({ path: recordingPath, speed: 'max' });
+
+    const messages: string[] = [];
+    source.on('message', (xml) => messages.push(xml));
+
+    const connected = waitForStatus(source, 'connected');
+    source.start();
+    await connected;
+    await waitForStatus(source, 'disconnected');
+
+    expect(messages).toEqual([
+      '<Canoe123><TimeOfDay>1</TimeOfDay></Canoe123>',
+      '<Canoe123><TimeOfDay>2</TimeOfDay></Canoe123>',
+    ]);
+    expect(source.getProgress()).toEqual({ position: 2, total: 2, ts: 200 });
+  });
+
+  it('should include UDP frames when requested', async () => {
+    source = new ReplaySource({ path: recordingPath, speed: 'max', includeUdp: true });
+
+    const messages: string[] = [];
+    source.on('message', (xml) => messages.push(xml));
+
+    const connected = waitForStatus(source, 'connected');
+    source.start();
+    await connected;
+    await waitForStatus(source, 'disconnected');
+
+    expect(messages).toHaveLength(3);
+  });
+
+  it('should scale recorded delays by speed', async () => {
+    source = new ReplaySource({ path: recordingPath, speed: 4 });
+
+    const connected = waitForStatus(source, 'connected');
+    source.start();
+    await connected;
+    const started = Date.now();
+    await waitForStatus(source, 'disconnected');
+    const elapsed = Date.now() - started;
+
+    // 200ms of recording at 4x is ~50ms
+    expect(elapsed).toBeGreaterThanOrEqual(40);
+    expect(elapsed).toBeLessThan(190);
+  });
+
+  it('should stop emitting after stop()', async () => {
+    source = new ReplaySource({ path: recordingPath, speed: 1 });
+
+    const messages: string[] = [];
+    source.on('message', (xml) => messages.push(xml));
+
+    const connected = waitForStatus(source, 'connected');
+    source.start();
+    await connected;
+    source.stop();
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    expect(messages.length).toBeLessThanOrEqual(1);
+    expect(source.status).toBe('disconnected');
+  });
+
+  it('should emit error for a missing file', async () => {
+    source = new ReplaySource({ path: path.join(tempDir, 'missing.jsonl') });
+
+    const error = new Promise<Error>((resolve) => source!.on('error', resolve));
+    source.start();
+
+    expect((await error).message).toContain('ENOENT');
+    expect(source.status).toBe('disconnected');
+  });
+});
+
+describe('parseRecording', () => {
+  it('should skip header, malformed and non-string entries', () => {
+    const content = [
+      '{"_meta":{}}',
+      '{"ts":0,"src":"tcp","type":"xml","data":"<a/>"}',
+      '{"ts":1,"src":"tcp","type":"xml","data":{"parsed":true}}',
+      '{broken',
+      '',
+    ].join('\n');
+
+    expect(parseRecording(content)).toEqual([{ ts: 0, src: 'tcp', type: 'xml', data: '<a/>' }]);
+  });
+});
+
+describe('parseReplaySpeed', () => {
+  it('should accept numbers, multipliers and max', () => {
+    expect(parseReplaySpeed('4')).toBe(4);
+    expect(parseReplaySpeed('5x')).toBe(5);
+    expect(parseReplaySpeed(0.5)).toBe(0.5);
+    expect(parseReplaySpeed('max')).toBe('max');
+  });
+
+  it('should reject invalid values', () => {
+    expect(parseReplaySpeed('0')).toBeNull();
+    expect(parseReplaySpeed('-2')).toBeNull();
+    expect(parseReplaySpeed('fast')).toBeNull();
+  });
+});
@@ -233,4 +233,91 @@ describe('TcpSource', () => {
     expect(messages).toHaveLength(1);
     expect(messages[0]).toBe('<xml>data</xml>');
   });
+
+  describe('heartbeat watchdog', () => {
+    const TIME_OF_DAY = '<Canoe123 System="Main"><TimeOfDay>10:00:00</TimeOfDay></Canoe123>|';
+
+    it('should mark the source stale and reconnect without TimeOfDay', async () => {
+      source = new TcpSource({ host: '127.0.0.1', port: serverPort, staleTimeout: 100, initialReconnectDelay: 20 });
+
+      const staleChanges: boolean[] = [];
+      source.on('stale', (stale) => staleChanges.push(stale));
+
+      const connections: net.Socket[] = [];
+      const reconnected = new Promise<void>((resolve) => {
+        server.on('connection', (socket) => {
+          connections.push(socket);
+          if (connections.length === 2) resolve();
+        });
+      });
+
+      source.start();
+      await reconnected;
+
+      expect(staleChanges).toEqual([true]);
+      expect(source.isStale).toBe(true);
+    });
+
+    it('should recover when TimeOfDay comes back', async () => {
+      source = new TcpSource({ host: '127.0.0.1', port: serverPort, staleTimeout: 100, initialReconnectDelay: 20 });
+
+      const staleChanges: boolean[] = [];
+      source.on('stale', (stale) => staleChanges.push(stale));
+
+      let connections = 0;
+      const recovered = new Promise<void>((resolve) => {
+        source.on('stale', (stale) => {
+          if (!stale) resolve();
+        });
+      });
+      server.on('connection', (socket) => {
+        // The first connection is half-open: it never sends anything
+        if (++connections > 1) socket.write(TIME_OF_DAY);
+      });
+
+      source.start();
+      await recovered;
+
+      expect(staleChanges).toEqual([true, false]);
+      expect(source.isStale).toBe(false);
+      expect(source.lastHeartbeat).not.toBeNull();
+    });
+
+    it('should stay fresh while TimeOfDay keeps coming', async () => {
+      source = new TcpSource({ host: '127.0.0.1', port: serverPort, staleTimeout: 100 });
+
+      const staleChanges: boolean[] = [];
+      source.on('stale', (stale) => staleChanges.push(stale));
+
+      let connections = 0;
+      let heartbeat: NodeJS.Timeout | null = null;
+      server.on('connection', (socket) => {
+        connections++;
+        socket.write(TIME_OF_DAY);
+        heartbeat = setInterval(() => socket.write(TIME_OF_DAY), 30);
+      });
+
+      source.start();
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      if (heartbeat) clearInterval(heartbeat);
+
+      expect(staleChanges).toEqual([]);
+      expect(connections).toBe(1);
+    });
+
+    it('should be disabled with a zero timeout', async () => {
+      source = new TcpSource({ host: '127.0.0.1', port: serverPort, staleTimeout: 0 });
+
+      const staleChanges: boolean[] = [];
+      source.on('stale', (stale) => staleChanges.push(stale));
+      const connected = new Promise<void>((resolve) => server.once('connection', () => resolve()));
+
+      source.start();
+      await connected;
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(staleChanges).toEqual([]);
+      expect(source.status).toBe('connected');
+    });
+  });
 });
@@ -1,8 +1,14 @@
 export * from './types.js';
 export { TcpSource } from './TcpSource.js';
+export { FailoverSource } from './FailoverSource.js';
+export type { C123HostConfig, C123HostStatus, FailoverSourceConfig, FailoverSourceEvents } from './FailoverSource.js';
 export { UdpDiscovery } from './UdpDiscovery.js';
 export type { UdpDiscoveryConfig, UdpDiscoveryEvents } from './UdpDiscovery.js';
 export { XmlFileSource } from './XmlFileSource.js';
 export type { XmlFileSourceConfig } from './XmlFileSource.js';
 export { FileWatcher } from './FileWatcher.js';
 export type { FileWatcherConfig, FileWatcherEvents, WatchMode } from './FileWatcher.js';
+export { Recorder, getRecordingsDirectory } from './Recorder.js';
+export type { RecorderConfig, RecordingEntry, RecordingSource } from './Recorder.js';
+export { ReplaySource, parseRecording, parseReplaySpeed } from './ReplaySource.js';
+export type { ReplaySourceConfig, ReplaySpeed, ReplayProgress } from './ReplaySource.js';
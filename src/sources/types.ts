@@ -17,6 +17,14 @@ export interface SourceEvents {
   error: [error: Error];
 }
 
+/**
+ * Events of live C123 sources with a heartbeat watchdog:
+ * - 'stale': (stale: boolean) - TimeOfDay heartbeats stopped (true) or came back (false)
+ */
+export interface LiveSourceEvents extends SourceEvents {
+  stale: [stale: boolean];
+}
+
 /**
  * Base interface for all data sources
  */
@@ -51,4 +59,6 @@ export interface TcpSourceConfig {
   initialReconnectDelay?: number;
   /** Maximum reconnect delay in ms (default 30000) */
   maxReconnectDelay?: number;
+  /** Mark the feed stale and reconnect after this long without TimeOfDay, in ms (default 10000, 0 disables) */
+  staleTimeout?: number;
 }
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'node:events';
 import type { ParsedMessage, OnCourseCompetitor, ScheduleRace } from '../protocol/index.js';
-import type { EventStateData, EventStateEvents } from './types.js';
+import type { EventStateData, EventStateEvents, OnCourseProjection, RaceSplits } from './types.js';
 import { Logger } from '../utils/logger.js';
+import { SplitTracker } from './SplitTracker.js';
+import { projectOnCourse } from './projection.js';
 
 const HIGHLIGHT_DURATION_MS = 10000;
 
@@ -15,6 +17,8 @@ const HIGHLIGHT_DURATION_MS = 10000;
  * - On-course competitors
  * - Results
  * - Highlight (recent finish)
+ * - Split times (derived from OnCourse, see SplitTracker)
+ * - Projected ranks of competitors on course (see projectOnCourse)
  */
 export class EventState extends EventEmitter<EventStateEvents> {
   private _state: EventStateData = {
@@ -40,6 +44,7 @@ export class EventState extends EventEmitter<EventStateEvents> {
   // ONCOURSE_TTL_MS window.
   private onCourseByBib: Map<string, { comp: OnCourseCompetitor; seenAt: number }> = new Map();
   private static readonly ONCOURSE_TTL_MS = 10_000;
+  private splitTracker = new SplitTracker();
 
   /**
    * Get the current state (readonly snapshot)
@@ -48,6 +53,21 @@ export class EventState extends EventEmitter<EventStateEvents> {
     return this._state;
   }
 
+  /**
+   * Split times of a race (no competitors if none were recorded)
+   */
+  getSplits(raceId: string): RaceSplits {
+    const nrSplits = raceId === this._state.currentRaceId ? (this._state.raceConfig?.nrSplits ?? 0) : 0;
+    return this.splitTracker.getRace(raceId, nrSplits);
+  }
+
+  /**
+   * Projected ranks of the competitors on course against current Results
+   */
+  getProjection(): OnCourseProjection {
+    return projectOnCourse(this._state);
+  }
+
   /**
    * Process a parsed message and update state
    */
@@ -138,6 +158,15 @@ export class EventState extends EventEmitter<EventStateEvents> {
       }
     }
 
+    // Detect split impulses
+    const nrSplits = this._state.raceConfig?.nrSplits ?? 0;
+    for (const comp of competitors) {
+      const impulse = this.splitTracker.observe(comp, nrSplits);
+      if (impulse) {
+        this.emit('split', impulse);
+      }
+    }
+
     // Merge incoming competitors into the per-bib map
     for (const comp of competitors) {
       this.onCourseByBib.set(comp.bib, { comp, seenAt: now });
@@ -273,6 +302,7 @@ export class EventState extends EventEmitter<EventStateEvents> {
 
     this.previousOnCourse.clear();
     this.onCourseByBib.clear();
+    this.splitTracker.clear();
 
     this._state = {
       timeOfDay: null,
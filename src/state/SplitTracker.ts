@@ -0,0 +1,161 @@
+import type { OnCourseCompetitor } from '../protocol/index.js';
+import type { CompetitorSplits, RaceSplits, SplitImpulse } from './types.js';
+
+/**
+ * Split captured from the OnCourse stream, before ranking
+ */
+interface RawSplit {
+  split: number;
+  time: number;
+  pen: number;
+}
+
+/**
+ * Tracking state of the run a bib is currently on course with
+ */
+interface RunState {
+  raceId: string;
+  dtStart: string | null;
+  lastTtbDiff: string;
+  /** False when the run was first seen after it may have passed a split */
+  tracked: boolean;
+}
+
+interface CompetitorEntry {
+  bib: string;
+  name: string;
+  club: string;
+  startOrder: number;
+  splits: RawSplit[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Derives split times from the OnCourse stream.
+ *
+ * C123 has no split message. When a competitor passes a split, C123 updates
+ * TTBDiff (difference to the time-to-beat) of the running competitor, so a
+ * new non-empty TTBDiff before the finish is taken as a split impulse and
+ * the running time and penalties of that frame are recorded.
+ *
+ * Limitations that follow from this:
+ * - a run without a time to beat (first competitor of a race) has no splits
+ * - a run first seen with TTBDiff already set is not tracked, its split
+ *   numbers would be unknown
+ * - the time is the running time of the first frame showing the impulse,
+ *   not the timing device's exact split time
+ */
+export class SplitTracker {
+  private runs: Map<string, RunState> = new Map();
+  private races: Map<string, Map<string, CompetitorEntry>> = new Map();
+
+  /**
+   * Feed one OnCourse competitor update.
+   *
+   * @param nrSplits - Split points on the current course, 0 if unknown
+   * @returns the impulse if the update is a new split, otherwise null
+   */
+  observe(comp: OnCourseCompetitor, nrSplits: number): SplitImpulse | null {
+    if (!comp.raceId || !comp.dtStart) {
+      return null;
+    }
+
+    let run = this.runs.get(comp.bib);
+    if (!run || run.raceId !== comp.raceId || run.dtStart !== comp.dtStart) {
+      run = { raceId: comp.raceId, dtStart: comp.dtStart, lastTtbDiff: comp.ttbDiff, tracked: comp.ttbDiff === '' };
+      this.runs.set(comp.bib, run);
+      // A new run (e.g. a re-run) replaces any earlier splits of the bib
+      this.races.get(comp.raceId)?.delete(comp.bib);
+      return null;
+    }
+
+    const changed = comp.ttbDiff !== '' && comp.ttbDiff !== run.lastTtbDiff;
+    run.lastTtbDiff = comp.ttbDiff;
+    if (!changed || !run.tracked || comp.dtFinish) {
+      return null;
+    }
+
+    const time = parseFloat(comp.time ?? '');
+    if (!Number.isFinite(time)) {
+      return null;
+    }
+
+    const entries = this.raceEntries(comp.raceId);
+    let entry = entries.get(comp.bib);
+    if (!entry) {
+      entry = { bib: comp.bib, name: comp.name, club: comp.club, startOrder: comp.startOrder, splits: [] };
+      entries.set(comp.bib, entry);
+    }
+
+    const split = entry.splits.length + 1;
+    if (nrSplits > 0 && split > nrSplits) {
+      return null;
+    }
+
+    entry.splits.push({ split, time, pen: comp.pen });
+    return { raceId: comp.raceId, bib: comp.bib, split };
+  }
+
+  /**
+   * Split times of a race with ranks and gaps per split point
+   */
+  getRace(raceId: string, nrSplits = 0): RaceSplits {
+    const entries = this.races.get(raceId);
+    if (!entries) {
+      return { raceId, nrSplits, competitors: [] };
+    }
+
+    // Best total and all totals per split point, for rank and behind
+    const totals = new Map<number, number[]>();
+    for (const entry of entries.values()) {
+      for (const s of entry.splits) {
+        const list = totals.get(s.split) ?? [];
+        list.push(round(s.time + s.pen));
+        totals.set(s.split, list);
+      }
+    }
+
+    const competitors: CompetitorSplits[] = Array.from(entries.values())
+      .sort((a, b) => a.startOrder - b.startOrder)
+      .map((entry) => ({
+        bib: entry.bib,
+        name: entry.name,
+        club: entry.club,
+        startOrder: entry.startOrder,
+        splits: entry.splits.map((s) => {
+          const total = round(s.time + s.pen);
+          const all = totals.get(s.split) ?? [total];
+          return {
+            split: s.split,
+            time: s.time,
+            pen: s.pen,
+            total,
+            rank: all.filter((t) => t < total).length + 1,
+            behind: round(total - Math.min(...all)),
+          };
+        }),
+      }));
+
+    return { raceId, nrSplits, competitors };
+  }
+
+  /**
+   * Forget all runs and split times
+   */
+  clear(): void {
+    this.runs.clear();
+    this.races.clear();
+  }
+
+  private raceEntries(raceId: string): Map<string, CompetitorEntry> {
+    let entries = this.races.get(raceId);
+    if (!entries) {
+      entries = new Map();
+      this.races.set(raceId, entries);
+    }
+    return entries;
+  }
+}
@@ -251,6 +251,35 @@ describe('EventState', () => {
     });
   });
 
+  describe('split detection', () => {
+    it('emits split impulses and keeps split times per race', () => {
+      const splitSpy = vi.fn();
+      state.on('split', splitSpy);
+      state.processMessage({
+        type: 'raceconfig',
+        data: { nrSplits: 2, nrGates: 20, gateConfig: 'N'.repeat(20), gateCaptions: '' },
+      });
+
+      state.processMessage({
+        type: 'oncourse',
+        data: { total: 1, competitors: [createCompetitor('1', 'K1M_ST_BR1', { time: '12' })] },
+      });
+      state.processMessage({
+        type: 'oncourse',
+        data: { total: 1, competitors: [createCompetitor('1', 'K1M_ST_BR1', { time: '35.4', ttbDiff: '-0.80' })] },
+      });
+
+      expect(splitSpy).toHaveBeenCalledWith({ raceId: 'K1M_ST_BR1', bib: '1', split: 1 });
+      expect(state.getSplits('K1M_ST_BR1')).toMatchObject({
+        nrSplits: 2,
+        competitors: [{ bib: '1', splits: [{ split: 1, time: 35.4, rank: 1 }] }],
+      });
+
+      state.reset();
+      expect(state.getSplits('K1M_ST_BR1').competitors).toEqual([]);
+    });
+  });
+
   describe('setHighlightBib', () => {
     it('should manually set highlight', () => {
       state.setHighlightBib('5');
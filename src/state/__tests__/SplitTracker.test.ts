@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SplitTracker } from '../SplitTracker.js';
+import type { OnCourseCompetitor } from '../../protocol/index.js';
+
+function competitor(bib: string, overrides: Partial<OnCourseCompetitor> = {}): OnCourseCompetitor {
+  return {
+    bib,
+    name: `Competitor ${bib}`,
+    club: 'Club',
+    nat: 'CZE',
+    raceId: 'K1M_ST_BR1_6',
+    raceName: 'K1m - 1. jízda',
+    startOrder: Number(bib),
+    warning: '',
+    gates: '',
+    completed: false,
+    dtStart: `10:0${bib}:00.000`,
+    dtFinish: null,
+    pen: 0,
+    time: '10',
+    total: null,
+    ttbDiff: '',
+    ttbName: '',
+    rank: 0,
+    position: 1,
+    ...overrides,
+  };
+}
+
+describe('SplitTracker', () => {
+  let tracker: SplitTracker;
+
+  beforeEach(() => {
+    tracker = new SplitTracker();
+  });
+
+  /** Run one competitor from the start through the given splits */
+  function run(bib: string, splits: Array<{ time: string; pen?: number; ttbDiff: string }>): void {
+    tracker.observe(competitor(bib), 2);
+    for (const s of splits) {
+      tracker.observe(competitor(bib, { time: s.time, pen: s.pen ?? 0, ttbDiff: s.ttbDiff }), 2);
+    }
+  }
+
+  it('records a split when TTBDiff changes before the finish', () => {
+    expect(tracker.observe(competitor('1'), 2)).toBeNull();
+    expect(tracker.observe(competitor('1', { time: '31.5', ttbDiff: '-0.40' }), 2)).toEqual({
+      raceId: 'K1M_ST_BR1_6',
+      bib: '1',
+      split: 1,
+    });
+    // Repeated frames with the same TTBDiff are the same split
+    expect(tracker.observe(competitor('1', { time: '32', ttbDiff: '-0.40' }), 2)).toBeNull();
+    expect(tracker.observe(competitor('1', { time: '60.2', pen: 2, ttbDiff: '+1.10' }), 2)).toMatchObject({ split: 2 });
+
+    expect(tracker.getRace('K1M_ST_BR1_6').competitors[0].splits).toEqual([
+      { split: 1, time: 31.5, pen: 0, total: 31.5, rank: 1, behind: 0 },
+      { split: 2, time: 60.2, pen: 2, total: 62.2, rank: 1, behind: 0 },
+    ]);
+  });
+
+  it('ignores the finish and impulses beyond the number of splits', () => {
+    run('1', [
+      { time: '30', ttbDiff: '-1' },
+      { time: '60', ttbDiff: '-2' },
+      { time: '70', ttbDiff: '-3' },
+    ]);
+    tracker.observe(competitor('1', { time: '90', ttbDiff: '-4', dtFinish: '10:02:30.000' }), 2);
+
+    expect(tracker.getRace('K1M_ST_BR1_6').competitors[0].splits.map((s) => s.split)).toEqual([1, 2]);
+  });
+
+  it('ranks competitors per split and reports the gap to the leader', () => {
+    run('1', [{ time: '31', ttbDiff: '+0.5' }, { time: '61', pen: 2, ttbDiff: '+1.0' }]);
+    run('2', [{ time: '30.25', ttbDiff: '-0.25' }, { time: '62', ttbDiff: '+0.1' }]);
+    run('3', [{ time: '31', ttbDiff: '+0.5' }]);
+
+    const race = tracker.getRace('K1M_ST_BR1_6', 2);
+    expect(race.nrSplits).toBe(2);
+    expect(race.competitors.map((c) => c.bib)).toEqual(['1', '2', '3']);
+    expect(race.competitors.map((c) => [c.splits[0].rank, c.splits[0].behind])).toEqual([
+      [2, 0.75],
+      [1, 0],
+      [2, 0.75],
+    ]);
+    expect(race.competitors[0].splits[1]).toMatchObject({ total: 63, rank: 2, behind: 1 });
+    expect(race.competitors[1].splits[1]).toMatchObject({ total: 62, rank: 1, behind: 0 });
+  });
+
+  it('does not track a run first seen with TTBDiff already set', () => {
+    tracker.observe(competitor('1', { time: '40', ttbDiff: '-0.5' }), 2);
+    tracker.observe(competitor('1', { time: '65', ttbDiff: '+0.2' }), 2);
+
+    expect(tracker.getRace('K1M_ST_BR1_6').competitors).toEqual([]);
+  });
+
+  it('starts over for a new run of the same bib', () => {
+    run('1', [{ time: '30', ttbDiff: '-1' }]);
+    tracker.observe(competitor('1', { dtStart: '11:00:00.000' }), 2);
+
+    expect(tracker.getRace('K1M_ST_BR1_6').competitors).toEqual([]);
+  });
+
+  it('keeps races apart and forgets everything on clear', () => {
+    run('1', [{ time: '30', ttbDiff: '-1' }]);
+    expect(tracker.getRace('C1W_ST_BR1_6').competitors).toEqual([]);
+
+    tracker.clear();
+    expect(tracker.getRace('K1M_ST_BR1_6').competitors).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { projectOnCourse } from '../projection.js';
+import type { EventStateData } from '../types.js';
+import type { OnCourseCompetitor, ResultRow, ResultsMessage } from '../../protocol/index.js';
+
+const RACE_ID = 'K1M_ST_BR1_6';
+
+function competitor(bib: string, overrides: Partial<OnCourseCompetitor> = {}): OnCourseCompetitor {
+  return {
+    bib,
+    name: `Competitor ${bib}`,
+    club: 'Club',
+    nat: 'CZE',
+    raceId: RACE_ID,
+    raceName: 'K1m - 1. jízda',
+    startOrder: 1,
+    warning: '',
+    gates: '',
+    completed: false,
+    dtStart: '10:00:00.000',
+    dtFinish: null,
+    pen: 0,
+    time: null,
+    total: null,
+    ttbDiff: '',
+    ttbName: '',
+    rank: 0,
+    position: 1,
+    ...overrides,
+  };
+}
+
+function row(bib: string, total: string, status?: string): ResultRow {
+  const result: ResultRow = {
+    rank: 0,
+    bib,
+    name: `Competitor ${bib}`,
+    givenName: '',
+    familyName: '',
+    club: 'Club',
+    nat: 'CZE',
+    startOrder: 1,
+    startTime: '',
+    gates: '',
+    pen: 0,
+    time: total,
+    total,
+    behind: '',
+  };
+  if (status) {
+    result.status = status;
+  }
+  return result;
+}
+
+function results(rows: ResultRow[], raceId = RACE_ID): ResultsMessage {
+  return { raceId, classId: 'K1M_ST', isCurrent: true, mainTitle: '', subTitle: '', rows };
+}
+
+function state(onCourse: OnCourseCompetitor[], res: ResultsMessage | null, timeOfDay: string | null = null): EventStateData {
+  return {
+    timeOfDay,
+    raceConfig: null,
+    schedule: [],
+    currentRaceId: RACE_ID,
+    onCourse,
+    results: res,
+    highlightBib: null,
+    scheduleFingerprint: null,
+  };
+}
+
+describe('projectOnCourse', () => {
+  const finished = results([row('1', '80.50'), row('2', '84.00'), row('3', '90.10'), row('4', '', 'DNF')]);
+
+  it('ranks running time plus penalties against finished runs', () => {
+    const projection = projectOnCourse(state([competitor('9', { time: '81', pen: 2 })], finished));
+
+    expect(projection.competitors).toEqual([
+      { bib: '9', raceId: RACE_ID, time: 81, pen: 2, total: 83, projectedRank: 2, behind: 2.5, finished: false },
+    ]);
+  });
+
+  it('projects first place with a negative gap when ahead of the leader', () => {
+    const projection = projectOnCourse(state([competitor('9', { time: '75.2' })], finished));
+
+    expect(projection.competitors[0]).toMatchObject({ projectedRank: 1, behind: -5.3 });
+  });
+
+  it('falls back to the time elapsed since dtStart', () => {
+    const projection = projectOnCourse(state([competitor('9', { dtStart: '10:00:00.000' })], finished, '10:01:25'));
+
+    expect(projection.competitors[0]).toMatchObject({ time: 85, projectedRank: 3 });
+  });
+
+  it('does not compare a finished run with its own Results row', () => {
+    const projection = projectOnCourse(
+      state([competitor('2', { time: '84.00', dtFinish: '10:01:24.000' })], finished)
+    );
+
+    expect(projection.competitors[0]).toMatchObject({ projectedRank: 2, finished: true });
+  });
+
+  it('has no rank without Results of the same race', () => {
+    const other = projectOnCourse(state([competitor('9', { time: '81' })], results([row('1', '70')], 'C1W_ST_BR1_6')));
+    expect(other.competitors[0]).toMatchObject({ projectedRank: null, behind: null });
+
+    const empty = projectOnCourse(state([competitor('9', { time: '81' })], results([])));
+    expect(empty.competitors[0]).toMatchObject({ projectedRank: 1, behind: null });
+  });
+
+  it('leaves out competitors without a known time', () => {
+    expect(projectOnCourse(state([competitor('9', { dtStart: null })], finished)).competitors).toEqual([]);
+  });
+});
@@ -1,2 +1,13 @@
 export { EventState } from './EventState.js';
-export type { EventStateData, EventStateEvents } from './types.js';
+export { SplitTracker } from './SplitTracker.js';
+export { projectOnCourse } from './projection.js';
+export type {
+  EventStateData,
+  EventStateEvents,
+  SplitImpulse,
+  SplitTime,
+  CompetitorSplits,
+  RaceSplits,
+  CompetitorProjection,
+  OnCourseProjection,
+} from './types.js';
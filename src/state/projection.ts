@@ -0,0 +1,85 @@
+import type { OnCourseCompetitor, ResultRow } from '../protocol/index.js';
+import type { CompetitorProjection, EventStateData, OnCourseProjection } from './types.js';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Seconds since midnight of a C123 time of day ("10:35:11.325", "10:35:11")
+ */
+function parseDayTime(value: string | null): number | null {
+  const match = value ? /^(\d{1,2}):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(value.trim()) : null;
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Running time of a competitor in seconds.
+ *
+ * Uses the C123 time when present, otherwise the time elapsed between dtStart
+ * and the last TimeOfDay.
+ */
+function runningTime(comp: OnCourseCompetitor, timeOfDay: string | null): number | null {
+  const time = parseFloat(comp.time ?? '');
+  if (Number.isFinite(time)) {
+    return time;
+  }
+
+  const start = parseDayTime(comp.dtStart);
+  const now = parseDayTime(timeOfDay);
+  if (start === null || now === null) {
+    return null;
+  }
+  // A run across midnight is not worth special handling beyond this
+  return now >= start ? now - start : now + 86400 - start;
+}
+
+/**
+ * Totals of the valid, finished runs in a Results table
+ */
+function resultTotals(rows: ResultRow[], excludeBib: string): number[] {
+  return rows
+    .filter((row) => !row.status && row.bib.trim() !== excludeBib)
+    .map((row) => parseFloat(row.total))
+    .filter((total) => Number.isFinite(total));
+}
+
+/**
+ * Project the rank of every competitor on course against the current Results.
+ *
+ * The total (running time + penalties so far) is compared with the totals of
+ * finished runs in the same race. While a run is in progress the total only
+ * grows, so the projected rank is the best place the run can still reach.
+ * Competitors of a race whose Results are not known get a null rank.
+ */
+export function projectOnCourse(state: Readonly<EventStateData>): OnCourseProjection {
+  const competitors: CompetitorProjection[] = [];
+
+  for (const comp of state.onCourse) {
+    const time = runningTime(comp, state.timeOfDay);
+    if (time === null) {
+      continue;
+    }
+
+    const total = round(time + comp.pen);
+    const comparable = state.results?.raceId === comp.raceId ? state.results : null;
+    const totals = comparable ? resultTotals(comparable.rows, comp.bib.trim()) : [];
+    const leader = totals.length > 0 ? Math.min(...totals) : null;
+
+    competitors.push({
+      bib: comp.bib,
+      raceId: comp.raceId,
+      time: round(time),
+      pen: comp.pen,
+      total,
+      projectedRank: comparable ? totals.filter((t) => t < total).length + 1 : null,
+      behind: leader !== null ? round(total - leader) : null,
+      finished: !!comp.dtFinish,
+    });
+  }
+
+  return { competitors };
+}
@@ -49,4 +49,85 @@ export interface EventStateEvents {
 
   /** Event/schedule changed (different event loaded in C123) */
   scheduleChange: [fingerprint: string];
+
+  /** Competitor passed a split point */
+  split: [impulse: SplitImpulse];
+}
+
+/**
+ * A competitor passing a split point
+ */
+export interface SplitImpulse {
+  raceId: string;
+  bib: string;
+  /** Split number (1-based) */
+  split: number;
+}
+
+/**
+ * Time of one competitor at one split point
+ */
+export interface SplitTime {
+  /** Split number (1-based) */
+  split: number;
+  /** Running time at the split in seconds */
+  time: number;
+  /** Penalty seconds collected up to the split */
+  pen: number;
+  /** time + pen */
+  total: number;
+  /** Rank among all competitors of the race at this split (ties share a rank) */
+  rank: number;
+  /** Seconds behind the leader at this split (0 for the leader) */
+  behind: number;
+}
+
+/**
+ * Split times of one competitor's run
+ */
+export interface CompetitorSplits {
+  bib: string;
+  name: string;
+  club: string;
+  startOrder: number;
+  splits: SplitTime[];
+}
+
+/**
+ * Split analysis of one race
+ */
+export interface RaceSplits {
+  raceId: string;
+  /** Number of split points on the course (from RaceConfig, 0 if unknown) */
+  nrSplits: number;
+  /** Competitors with at least one split, in start order */
+  competitors: CompetitorSplits[];
+}
+
+/**
+ * Where a competitor on course would place if the run ended now
+ */
+export interface CompetitorProjection {
+  bib: string;
+  raceId: string;
+  /** Running time in seconds (final time once finished) */
+  time: number;
+  /** Penalty seconds so far */
+  pen: number;
+  /** time + pen */
+  total: number;
+  /** Rank among the finished runs in Results, null without comparable Results */
+  projectedRank: number | null;
+  /** Seconds behind the Results leader (negative when ahead), null without a leader */
+  behind: number | null;
+  /** Whether the run has finished */
+  finished: boolean;
+}
+
+/**
+ * Projected ranks of everyone on course
+ */
+export interface OnCourseProjection {
+  /** Competitors in OnCourse order; those without a known time are left out */
+  competitors: CompetitorProjection[];
 }
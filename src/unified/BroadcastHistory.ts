@@ -0,0 +1,105 @@
+import * as crypto from 'node:crypto';
+import type { C123Message } from '../protocol/types.js';
+
+/**
+ * A broadcast message with its position in the stream
+ */
+export interface BroadcastEntry {
+  /** Increasing id, starting at 1 */
+  id: number;
+  /** Id to resume from, `<epoch>-<id>` */
+  eventId: string;
+  /** The message, with `seq` set to the id */
+  message: C123Message;
+  /** Serialized message, computed once for all receivers */
+  json: string;
+}
+
+/**
+ * Default number of broadcasts kept for resuming streams
+ */
+export const DEFAULT_HISTORY_SIZE = 500;
+
+/**
+ * Ring buffer of the most recent scoreboard broadcasts.
+ *
+ * Every broadcast gets the next id, stamped on the message as `seq`. Ids
+ * restart at 1 with every history, so the event ids clients resume from are
+ * prefixed with an epoch that is new for every history (i.e. every server
+ * start). A client that reconnects with the last event id it saw (WebSocket
+ * `?since=`, SSE Last-Event-ID) gets the broadcasts it missed, as long as they
+ * are still buffered and the epoch matches.
+ */
+export class BroadcastHistory {
+  private readonly buffer: (BroadcastEntry | undefined)[];
+  private nextId = 1;
+
+  constructor(
+    readonly capacity: number = DEFAULT_HISTORY_SIZE,
+    readonly epoch: string = crypto.randomUUID().slice(0, 8),
+  ) {
+    this.buffer = new Array<BroadcastEntry | undefined>(capacity);
+  }
+
+  /**
+   * Id of the most recent broadcast, 0 if there was none
+   */
+  get lastId(): number {
+    return this.nextId - 1;
+  }
+
+  /**
+   * Store a broadcast and assign its id
+   */
+  record(message: C123Message): BroadcastEntry {
+    const id = this.nextId++;
+    const sequenced: C123Message = { ...message, seq: id };
+    const entry: BroadcastEntry = { id, eventId: this.eventId(id), message: sequenced, json: JSON.stringify(sequenced) };
+    this.buffer[entry.id % this.capacity] = entry;
+    return entry;
+  }
+
+  /**
+   * Event id of a broadcast id, `<epoch>-<id>`
+   */
+  eventId(id: number): string {
+    return `${this.epoch}-${id}`;
+  }
+
+  /**
+   * Broadcasts after the given event id, oldest first.
+   *
+   * @returns the missed entries (possibly none), or null if the event id is
+   * from another epoch (e.g. before a restart) or malformed, or as for since()
+   */
+  resume(eventId: string): BroadcastEntry[] | null {
+    const separator = eventId.lastIndexOf('-');
+    if (separator === -1 || eventId.slice(0, separator) !== this.epoch) {
+      return null;
+    }
+    const id = eventId.slice(separator + 1);
+    return /^\d+$/.test(id) ? this.since(Number(id)) : null;
+  }
+
+  /**
+   * Broadcasts after the given id, oldest first.
+   *
+   * @returns the missed entries (possibly none), or null if some of them are
+   * no longer buffered or the id was never issued
+   */
+  since(id: number): BroadcastEntry[] | null {
+    if (!Number.isInteger(id) || id < 0 || id > this.lastId) {
+      return null;
+    }
+    const oldest = Math.max(1, this.nextId - this.capacity);
+    if (id + 1 < oldest) {
+      return null;
+    }
+
+    const entries: BroadcastEntry[] = [];
+    for (let next = id + 1; next < this.nextId; next++) {
+      entries.push(this.buffer[next % this.capacity]!);
+    }
+    return entries;
+  }
+}
@@ -0,0 +1,146 @@
+import type { Response } from 'express';
+import type { ScoreboardConfig } from '../admin/types.js';
+import type { ClientConfig } from '../config/types.js';
+import type { C123Message } from '../protocol/types.js';
+import { shouldSendToScoreboard } from '../ws/ScoreboardSession.js';
+import type { BroadcastEntry } from './BroadcastHistory.js';
+
+/**
+ * Interval of keep-alive comments, so proxies don't drop an idle stream
+ */
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Reconnect delay suggested to EventSource clients
+ */
+const RETRY_MS = 3000;
+
+/**
+ * Scoreboard filters of an SSE stream: stored client config, overridden by
+ * explicit query parameters
+ */
+export function resolveStreamConfig(stored: ClientConfig | undefined, overrides: ScoreboardConfig): ScoreboardConfig {
+  const config: ScoreboardConfig = {
+    showOnCourse: overrides.showOnCourse ?? stored?.showOnCourse ?? true,
+    showResults: overrides.showResults ?? stored?.showResults ?? true,
+  };
+  const raceFilter = overrides.raceFilter ?? stored?.raceFilter;
+  if (raceFilter && raceFilter.length > 0) {
+    config.raceFilter = [...raceFilter];
+  }
+  return config;
+}
+
+/**
+ * One GET /api/stream connection.
+ *
+ * Receives the same C123Message envelopes as a WebSocket scoreboard, written
+ * as Server-Sent Events. Broadcasts carry their event id (`<epoch>-<seq>`) so the
+ * client can resume with Last-Event-ID; per-connection messages (Connected,
+ * snapshots) are sent without one.
+ */
+export class SseClient {
+  readonly connectedAt = new Date();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(
+    readonly id: string,
+    private readonly res: Response,
+    readonly ipAddress: string,
+    /** Key of the stored client config (explicit clientId or IP) */
+    readonly configKey: string,
+    private config: ScoreboardConfig,
+    /** Query parameter overrides, kept when the stored config changes */
+    private readonly overrides: ScoreboardConfig = {},
+  ) {}
+
+  /**
+   * Send the stream headers and start the keep-alive
+   */
+  open(): void {
+    this.res.status(200);
+    this.res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    this.res.setHeader('Cache-Control', 'no-cache, no-transform');
+    this.res.setHeader('Connection', 'keep-alive');
+    // Stop nginx and similar proxies from buffering the stream
+    this.res.setHeader('X-Accel-Buffering', 'no');
+    this.res.flushHeaders();
+    this.write(`retry: ${RETRY_MS}\n\n`);
+
+    this.heartbeat = setInterval(() => this.write(': ping\n\n'), HEARTBEAT_INTERVAL_MS);
+    this.heartbeat.unref();
+  }
+
+  /**
+   * Whether the stream is still writable
+   */
+  isConnected(): boolean {
+    return !this.closed && !this.res.writableEnded && !this.res.destroyed;
+  }
+
+  /**
+   * Current filters
+   */
+  getConfig(): ScoreboardConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Re-apply filters after the stored client config changed
+   */
+  applyStoredConfig(stored: ClientConfig | undefined): void {
+    this.config = resolveStreamConfig(stored, this.overrides);
+  }
+
+  /**
+   * Send a broadcast, if it passes the filters
+   */
+  sendBroadcast(entry: BroadcastEntry): void {
+    if (shouldSendToScoreboard(entry.message, this.config)) {
+      this.write(`id: ${entry.eventId}\ndata: ${entry.json}\n\n`);
+    }
+  }
+
+  /**
+   * Send a message that is not part of the resumable stream, if it passes
+   * the filters
+   */
+  send(message: C123Message): void {
+    if (shouldSendToScoreboard(message, this.config)) {
+      this.write(`data: ${JSON.stringify(message)}\n\n`);
+    }
+  }
+
+  /**
+   * End the stream
+   */
+  close(): void {
+    this.stopHeartbeat();
+    if (!this.closed) {
+      this.closed = true;
+      this.res.end();
+    }
+  }
+
+  /**
+   * Release resources after the client went away
+   */
+  dispose(): void {
+    this.closed = true;
+    this.stopHeartbeat();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  private write(chunk: string): void {
+    if (this.isConnected()) {
+      this.res.write(chunk);
+    }
+  }
+}
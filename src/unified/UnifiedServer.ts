@@ -4,24 +4,67 @@ import { WebSocketServer as WsServer, WebSocket } from 'ws';
 import { EventEmitter } from 'node:events';
 import { fileURLToPath } from 'node:url';
 import path from 'node:path';
+import fs from 'node:fs';
 import type { ScoreboardConfig } from '../admin/types.js';
-import type { C123Message, C123XmlChange, C123XmlMismatch, C123ForceRefresh, C123LogEntry, C123Connected, C123ScoringEvent, C123Schedule, XmlSection, LogLevel, C123ClientState, C123ChecksChanged, C123FlagChanged } from '../protocol/types.js';
+import type { C123Message, C123XmlChange, C123XmlMismatch, C123ForceRefresh, C123LogEntry, C123Connected, C123ScoringEvent, C123Schedule, XmlSection, LogLevel, C123ClientState, C123ChecksChanged, C123FlagChanged, C123SplitTimes, C123OnCourseProjection, C123SourceStale, C123RankedResults } from '../protocol/types.js';
 import type { MismatchState } from '../xml/XmlMismatchDetector.js';
 import { getLogBuffer, type LogEntry, type LogFilterOptions } from '../utils/LogBuffer.js';
-import { ScoreboardSession } from '../ws/ScoreboardSession.js';
+import { ScoreboardSession, parseTransportParams, type SessionTransport } from '../ws/ScoreboardSession.js';
+import { BroadcastHistory, type BroadcastEntry } from './BroadcastHistory.js';
+import { createOnCourse, createRaceConfig, createResults, createSchedule, createTimeOfDay } from '../protocol/factory.js';
+import { decodeMsgPack } from '../protocol/msgpack.js';
+import { SseClient, resolveStreamConfig } from './SseClient.js';
 import { Logger } from '../utils/logger.js';
 import type { EventState } from '../state/EventState.js';
+import type { SplitImpulse } from '../state/types.js';
 import type { Source } from '../sources/types.js';
+import { FailoverSource, type C123HostStatus } from '../sources/FailoverSource.js';
+import { TcpSource } from '../sources/TcpSource.js';
+import { getRecordingsDirectory } from '../sources/Recorder.js';
+import { parseReplaySpeed } from '../sources/ReplaySource.js';
 import type { XmlDataService } from '../service/XmlDataService.js';
-import type { Server as C123Server } from '../server.js';
+import { XmlEventRegistry } from '../service/XmlEventRegistry.js';
+import { computeCombinedStandings, mergeParticipants, type CombinedEventSource } from '../service/combinedStandings.js';
+import { GateOutsideSectionError, ScoringRevertError, type ScoringRequest } from '../service/ScoringService.js';
+import { validateScoringBatch, MAX_SCORING_BATCH_SIZE } from '../service/scoringBatch.js';
+import { parsePenaltyInput } from '../service/penalties.js';
+import type { RankedRaceResults, RankingOptions } from '../service/ranking.js';
+import type { Server as C123Server, WriteCommandContext } from '../server.js';
 import type { LivePusher } from '../live/LivePusher.js';
 import { LiveClient, type LiveClientConfig } from '../live/LiveClient.js';
 import type { CreateEventRequest, EventStatus } from '../live/types.js';
 import type { XmlChangeNotifier } from '../xml/XmlChangeNotifier.js';
-import { getAppSettings, WindowsConfigDetector } from '../config/index.js';
-import type { ClientConfig } from '../config/types.js';
+import {
+  getAppSettings,
+  parseJudgeSections,
+  parseQualifiers,
+  parseRankingSettings,
+  publicSettings,
+  RANKING_RULES,
+  resolveRankingOptions,
+  TIE_BREAKS,
+  WindowsConfigDetector,
+} from '../config/index.js';
+import type { AuthRole, ClientConfig, JudgeSection, RankingRule, TieBreak } from '../config/types.js';
+import { authenticate, extractCredential, hasRole } from '../auth/authenticate.js';
 import { APP_VERSION, compareVersions } from '../utils/appVersion.js';
 import type { ChecksStore } from '../checks/ChecksStore.js';
+import type { AuditLog } from '../audit/AuditLog.js';
+import type { AuditQuery } from '../audit/types.js';
+import type { EventArchive } from '../archive/EventArchive.js';
+import type { QueuedCommand } from '../queue/types.js';
+import { getMetrics, PROMETHEUS_CONTENT_TYPE } from '../metrics/index.js';
+import {
+  buildDayStartlistExport,
+  buildResultsExport,
+  buildStartlistExport,
+  collectFederationResults,
+  renderCzechRankingCsv,
+  renderDocumentCsv,
+  renderIcfResultsXml,
+  renderPdf,
+  type ExportDocument,
+} from '../export/index.js';
 
 // Get admin-ui directory path (works for both dev and dist)
 const __filename = fileURLToPath(import.meta.url);
@@ -51,9 +94,11 @@ export interface UnifiedServerEvents {
   error: [error: Error];
 }
 
+type SourceType = 'tcp' | 'udp' | 'xml' | 'replay';
+
 interface RegisteredSource {
   name: string;
-  type: 'tcp' | 'udp' | 'xml';
+  type: SourceType;
   source: Source;
   host?: string;
   port?: number;
@@ -62,11 +107,15 @@ interface RegisteredSource {
 
 interface SourceStatusInfo {
   name: string;
-  type: 'tcp' | 'udp' | 'xml';
+  type: SourceType;
   status: string;
   host?: string;
   port?: number;
   path?: string;
+  /** C123 sources: TimeOfDay heartbeats stopped */
+  stale?: boolean;
+  /** Every C123 host of a failover source, in priority order */
+  hosts?: C123HostStatus[];
 }
 
 interface ServerStatusResponse {
@@ -100,12 +149,18 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
   private readonly app: Express;
   private httpServer: HttpServer | null = null;
   private wss: WsServer | null = null;
+  /** Accepts the upgrades that never compress, without offering permessage-deflate */
+  private plainWss: WsServer | null = null;
   private startTime: number = Date.now();
 
   // WebSocket sessions for scoreboards
   private sessions: Map<string, ScoreboardSession> = new Map();
   private clientIdCounter = 0;
 
+  // Server-Sent Events streams (GET /api/stream) and their resume buffer
+  private sseClients: Map<string, SseClient> = new Map();
+  private readonly broadcastHistory = new BroadcastHistory();
+
   // Admin dashboard WebSocket connections (for log streaming only)
   private adminConnections: Set<WebSocket> = new Set();
 
@@ -130,10 +185,14 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
   private eventState: EventState | null = null;
   private sources: RegisteredSource[] = [];
   private xmlDataService: XmlDataService | null = null;
+  private xmlEvents: XmlEventRegistry | null = null;
   private c123Server: C123Server | null = null;
   private lastMismatchState: MismatchState | null = null;
+  private c123Stale = false;
   private livePusher: LivePusher | null = null;
   private checksStore: ChecksStore | null = null;
+  private auditLog: AuditLog | null = null;
+  private eventArchive: EventArchive | null = null;
 
   constructor(config?: UnifiedServerConfig) {
     super();
@@ -216,12 +275,33 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     this.checksStore = store;
   }
 
+  /**
+   * Register the XML files kept under event keys (/api/events)
+   */
+  setXmlEventRegistry(registry: XmlEventRegistry): void {
+    this.xmlEvents = registry;
+  }
+
+  /**
+   * Register AuditLog for the write command audit trail
+   */
+  setAuditLog(auditLog: AuditLog): void {
+    this.auditLog = auditLog;
+  }
+
+  /**
+   * Register EventArchive for past events (/api/archive)
+   */
+  setEventArchive(archive: EventArchive): void {
+    this.eventArchive = archive;
+  }
+
   /**
    * Register a data source for status reporting
    */
   registerSource(
     name: string,
-    type: 'tcp' | 'udp' | 'xml',
+    type: SourceType,
     source: Source,
     meta?: { host?: string; port?: number; path?: string }
   ): void {
@@ -239,6 +319,13 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     });
   }
 
+  /**
+   * Remove a data source from status reporting (e.g. when replay replaces TCP)
+   */
+  unregisterSource(name: string): void {
+    this.sources = this.sources.filter((s) => s.name !== name);
+  }
+
   /**
    * Start the unified server
    */
@@ -259,15 +346,30 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       // Create HTTP server from Express app
       this.httpServer = createServer(this.app);
 
-      // Create WebSocket server attached to HTTP server
-      this.wss = new WsServer({ noServer: true });
+      // Create WebSocket servers attached to HTTP server
+      // permessage-deflate is offered only to scoreboards that may compress
+      // (?compress=1 or, without ?compress=, the 'deflate' capability later
+      // on). Admin dashboards and ?compress=0 sessions are upgraded without
+      // it, so ws never compresses their frames.
+      this.wss = new WsServer({ noServer: true, perMessageDeflate: { threshold: 256 } });
+      this.plainWss = new WsServer({ noServer: true });
 
       // Handle WebSocket upgrade requests
       this.httpServer.on('upgrade', (request, socket, head) => {
         const url = new URL(request.url || '/', `http://${request.headers.host}`);
 
         if (url.pathname === '/ws') {
-          this.wss!.handleUpgrade(request, socket, head, (ws) => {
+          const isAdmin = url.searchParams.get('admin') === '1';
+          const rejection = this.authorizeUpgrade(request, isAdmin);
+          if (rejection) {
+            Logger.warn('Unified', `WebSocket rejected (${rejection}) from ${this.extractClientIp(request)}`);
+            socket.write(`HTTP/1.1 ${rejection} ${rejection === 401 ? 'Unauthorized' : 'Forbidden'}\r\n\r\n`);
+            socket.destroy();
+            return;
+          }
+          const mayCompress = !isAdmin && parseTransportParams(url.searchParams).compress !== false;
+          const upgrader = mayCompress ? this.wss! : this.plainWss!;
+          upgrader.handleUpgrade(request, socket, head, (ws) => {
             this.wss!.emit('connection', ws, request);
           });
         } else {
@@ -280,7 +382,15 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
         const url = new URL(request.url || '/', `http://${request.headers.host}`);
         const isAdmin = url.searchParams.get('admin') === '1';
         const clientId = url.searchParams.get('clientId') || undefined;
-        this.handleWebSocketConnection(ws, request, isAdmin, clientId);
+        const since = url.searchParams.get('since');
+        this.handleWebSocketConnection(
+          ws,
+          request,
+          isAdmin,
+          clientId,
+          since || undefined,
+          parseTransportParams(url.searchParams),
+        );
       });
 
       this.httpServer.on('error', (err) => {
@@ -311,9 +421,15 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       // Clear log broadcast callback
       Logger.setBroadcastCallback(null);
 
+      // End SSE streams, the HTTP server won't close while they are open
+      for (const client of this.sseClients.values()) {
+        client.close();
+      }
+      this.sseClients.clear();
+
       // Close all WebSocket connections
       if (this.wss) {
-        for (const client of this.wss.clients) {
+        for (const client of [...this.wss.clients, ...(this.plainWss?.clients ?? [])]) {
           client.terminate();
         }
 
@@ -325,6 +441,8 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
 
         this.wss.close();
         this.wss = null;
+        this.plainWss?.close();
+        this.plainWss = null;
       }
 
       this.httpServer.close(() => {
@@ -425,6 +543,11 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
         count++;
       }
     }
+    for (const client of this.sseClients.values()) {
+      if (client.configKey === configKey) {
+        client.applyStoredConfig(config);
+      }
+    }
 
     Logger.debug('Unified', `Pushed config to ${count} session(s) for configKey ${configKey}`);
     return count;
@@ -438,18 +561,34 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
   }
 
   /**
-   * Broadcast a C123 message to all connected clients
+   * Broadcast a C123 message to all connected clients.
+   * The message is stamped with the next sequence number and kept for resuming.
    */
   broadcast(message: C123Message): void {
+    const entry = this.broadcastHistory.record(message);
     for (const [clientId, session] of this.sessions) {
       if (session.isConnected()) {
-        session.send(message);
+        session.send(entry.message);
       } else {
         // Clean up dead connections
         this.sessions.delete(clientId);
         this.emit('disconnection', clientId);
       }
     }
+    this.publishToStreams(entry);
+  }
+
+  /**
+   * Send a recorded scoreboard broadcast to all SSE streams
+   */
+  private publishToStreams(entry: BroadcastEntry): void {
+    for (const [id, client] of this.sseClients) {
+      if (client.isConnected()) {
+        client.sendBroadcast(entry);
+      } else {
+        this.sseClients.delete(id);
+      }
+    }
   }
 
   /**
@@ -465,11 +604,11 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       },
     };
 
-    const json = JSON.stringify(message);
+    const entry = this.broadcastHistory.record(message);
 
     for (const [clientId, session] of this.sessions) {
       if (session.isConnected()) {
-        session.sendRaw(json);
+        session.sendRaw(entry.json);
       } else {
         // Clean up dead connections
         this.sessions.delete(clientId);
@@ -477,6 +616,8 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       }
     }
 
+    this.publishToStreams(entry);
+
     Logger.debug('Unified', `Broadcast XML change: ${sections.join(', ')} to ${this.sessions.size} clients`);
   }
 
@@ -498,27 +639,65 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       },
     };
 
-    const json = JSON.stringify(message);
+    const entry = this.broadcastHistory.record(message);
 
     for (const [clientId, session] of this.sessions) {
       if (session.isConnected()) {
-        session.sendRaw(json);
+        session.sendRaw(entry.json);
       } else {
         this.sessions.delete(clientId);
         this.emit('disconnection', clientId);
       }
     }
 
+    this.publishToStreams(entry);
+
     // Also send to admin connections
     for (const ws of this.adminConnections) {
       if (ws.readyState === WebSocket.OPEN) {
-        ws.send(json);
+        ws.send(entry.json);
       }
     }
 
     Logger.debug('Unified', `Broadcast XML mismatch (detected=${state.detected}) to ${this.sessions.size} clients`);
   }
 
+  /**
+   * Broadcast that the C123 feed went stale or recovered, so scoreboards can
+   * grey out their live indicators
+   *
+   * @param lastHeartbeat - Time of the last TimeOfDay (ms since epoch)
+   */
+  broadcastSourceStale(stale: boolean, lastHeartbeat: number | null): void {
+    this.c123Stale = stale;
+
+    const message: C123SourceStale = {
+      type: 'SourceStale',
+      timestamp: new Date().toISOString(),
+      data: {
+        stale,
+        lastHeartbeat: lastHeartbeat !== null ? new Date(lastHeartbeat).toISOString() : null,
+      },
+    };
+    this.broadcast(message);
+
+    Logger.debug('Unified', `Broadcast SourceStale (stale=${stale}) to ${this.sessions.size} clients`);
+  }
+
+  /**
+   * Broadcast the ranked results of a race's class
+   */
+  broadcastRankedResults(raceId: string, ranked: RankedRaceResults): void {
+    const message: C123RankedResults = {
+      type: 'RankedResults',
+      timestamp: new Date().toISOString(),
+      data: { ...ranked, raceId },
+    };
+    this.broadcast(message);
+
+    Logger.debug('Unified', `Broadcast RankedResults (${raceId}, ${ranked.ranking}) to ${this.sessions.size} clients`);
+  }
+
   /**
    * Broadcast a force refresh command to all connected clients
    * This tells clients to reload their data and UI
@@ -530,12 +709,12 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       data: reason !== undefined ? { reason } : {},
     };
 
-    const json = JSON.stringify(message);
+    const entry = this.broadcastHistory.record(message);
     let sentCount = 0;
 
     for (const [clientId, session] of this.sessions) {
       if (session.isConnected()) {
-        session.sendRaw(json);
+        session.sendRaw(entry.json);
         sentCount++;
       } else {
         // Clean up dead connections
@@ -544,6 +723,8 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       }
     }
 
+    this.publishToStreams(entry);
+
     Logger.info('Unified', `Broadcast ForceRefresh to ${sentCount} clients${reason ? `: ${reason}` : ''}`);
     return sentCount;
   }
@@ -681,6 +862,42 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     Logger.debug('Unified', `Broadcast FlagChanged: ${data.event} race=${data.raceId}`);
   }
 
+  /**
+   * Broadcast the split times of a race after a competitor passed a split
+   */
+  broadcastSplitTimes(impulse: SplitImpulse): void {
+    if (!this.eventState) {
+      return;
+    }
+
+    const message: C123SplitTimes = {
+      type: 'SplitTimes',
+      timestamp: new Date().toISOString(),
+      data: {
+        ...this.eventState.getSplits(impulse.raceId),
+        latest: { bib: impulse.bib, split: impulse.split },
+      },
+    };
+    this.broadcast(message);
+    Logger.debug('Unified', `Broadcast SplitTimes: race=${impulse.raceId} bib=${impulse.bib} split=${impulse.split}`);
+  }
+
+  /**
+   * Broadcast projected ranks of the competitors on course
+   */
+  broadcastOnCourseProjection(): void {
+    if (!this.eventState) {
+      return;
+    }
+
+    const message: C123OnCourseProjection = {
+      type: 'OnCourseProjection',
+      timestamp: new Date().toISOString(),
+      data: this.eventState.getProjection(),
+    };
+    this.broadcast(message);
+  }
+
   /**
    * Broadcast default assets change to all connected clients
    * @param clearedKeys - Asset keys that were cleared (will be sent as null)
@@ -831,12 +1048,16 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * @param request - HTTP request (for IP extraction)
    * @param isAdmin - True if this is an admin dashboard connection (for log streaming only)
    * @param explicitClientId - Explicit clientId from URL query param (if provided)
+   * @param since - Last event id (`<epoch>-<seq>`) the client saw before reconnecting (?since=)
+   * @param transport - Encoding and compression from the URL (?encoding=, ?compress=)
    */
   private handleWebSocketConnection(
     ws: WebSocket,
     request?: IncomingMessage,
     isAdmin = false,
     explicitClientId?: string,
+    since?: string,
+    transport?: Partial<SessionTransport>,
   ): void {
     // Admin connections are for log streaming only - don't create ScoreboardSession
     if (isAdmin) {
@@ -886,6 +1107,9 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       explicitClientId,
       defaultAssets,
     );
+    if (transport) {
+      session.setRequestedTransport(transport);
+    }
     this.sessions.set(sessionId, session);
 
     const clientIdInfo = explicitClientId ? `clientId=${explicitClientId}` : `IP=${ipAddress}`;
@@ -895,20 +1119,11 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     // Notify admin dashboard about new client
     this.broadcastClientsUpdate();
 
+    // Broadcasts missed since the client's last event id, null if it can't resume
+    const missed = since !== undefined ? this.broadcastHistory.resume(since) : null;
+
     // Send Connected message to scoreboard
-    const tcpSource = this.sources.find((s) => s.type === 'tcp');
-    const c123Connected = tcpSource?.source.status === 'connected';
-    const xmlLoaded = this.xmlDataService?.hasData() ?? false;
-    const connectedMsg: C123Connected = {
-      type: 'Connected',
-      timestamp: new Date().toISOString(),
-      data: {
-        version: VERSION,
-        c123Connected,
-        xmlLoaded,
-      },
-    };
-    session.sendRaw(JSON.stringify(connectedMsg));
+    session.sendRaw(JSON.stringify(this.createConnectedMessage(missed !== null)));
 
     // Send ConfigPush if there's stored config for this client
     if (storedConfig) {
@@ -916,8 +1131,19 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       Logger.debug('Unified', `Sent ConfigPush to ${sessionId}`, storedConfig);
     }
 
-    // Send Schedule if available from EventState
-    if (this.eventState && this.eventState.state.schedule.length > 0) {
+    if (missed) {
+      for (const entry of missed) {
+        session.send(entry.message);
+      }
+      Logger.info('Unified', `Resumed ${sessionId} from ${since} (${missed.length} missed)`);
+    } else if (since !== undefined) {
+      // Gap too large, unknown seq or another epoch: the client gets the whole current state
+      for (const message of this.createSnapshotMessages()) {
+        session.send(message);
+      }
+      Logger.info('Unified', `Cannot resume ${sessionId} from ${since}, sent snapshot`);
+    } else if (this.eventState && this.eventState.state.schedule.length > 0) {
+      // Send Schedule if available from EventState
       const scheduleMsg: C123Schedule = {
         type: 'Schedule',
         timestamp: new Date().toISOString(),
@@ -933,8 +1159,8 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     settings.updateClientLastSeen(configKey);
 
     // Handle incoming messages
-    ws.on('message', (data) => {
-      this.handleWebSocketMessage(session, data);
+    ws.on('message', (data, isBinary) => {
+      this.handleWebSocketMessage(session, data, isBinary);
     });
 
     ws.on('close', () => {
@@ -954,6 +1180,55 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     });
   }
 
+  /**
+   * Connected message for a new scoreboard connection
+   *
+   * @param resumed - Whether missed broadcasts follow
+   */
+  private createConnectedMessage(resumed: boolean): C123Connected {
+    const tcpSource = this.sources.find((s) => s.type === 'tcp');
+    const data: C123Connected['data'] = {
+      version: VERSION,
+      c123Connected: tcpSource?.source.status === 'connected',
+      xmlLoaded: this.xmlDataService?.hasData() ?? false,
+      epoch: this.broadcastHistory.epoch,
+      seq: this.broadcastHistory.lastId,
+    };
+    if (this.c123Stale) {
+      data.c123Stale = true;
+    }
+    if (resumed) {
+      data.resumed = true;
+    }
+    return { type: 'Connected', timestamp: new Date().toISOString(), data };
+  }
+
+  /**
+   * Current event state as C123 messages, for clients that could not resume
+   */
+  private createSnapshotMessages(): C123Message[] {
+    const state = this.eventState?.state;
+    if (!state) {
+      return [];
+    }
+
+    const messages: C123Message[] = [];
+    if (state.timeOfDay) {
+      messages.push(createTimeOfDay({ time: state.timeOfDay }));
+    }
+    if (state.schedule.length > 0) {
+      messages.push(createSchedule({ races: state.schedule }));
+    }
+    if (state.raceConfig) {
+      messages.push(createRaceConfig(state.raceConfig));
+    }
+    messages.push(createOnCourse({ total: state.onCourse.length, competitors: state.onCourse }));
+    if (state.results) {
+      messages.push(createResults(state.results));
+    }
+    return messages;
+  }
+
   /**
    * Extract client IP address from WebSocket request
    */
@@ -993,12 +1268,71 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
   }
 
   /**
-   * Handle incoming WebSocket message from client
+   * Config key of the client behind an HTTP request: the explicit clientId
+   * sent as X-Client-Id, otherwise the IP address
+   */
+  private extractClientKey(req: Request): string {
+    return req.get('X-Client-Id')?.trim() || this.extractClientIp(req);
+  }
+
+  /**
+   * Judge section of the caller.
+   *
+   * A section bound to the caller's token wins. Otherwise the section
+   * assigned to its IP address, and only without one the section of the
+   * X-Client-Id it sends: any client can send any ID, so the header must not
+   * lift a restriction that the IP address carries.
+   */
+  private judgeSectionFor(req: Request, res: Response): JudgeSection | undefined {
+    const settings = getAppSettings();
+    const tokenSection = res.locals.authSection as string | undefined;
+    if (tokenSection !== undefined) {
+      return settings.getJudgeSections().find((s) => s.id === tokenSection);
+    }
+    return (
+      settings.getJudgeSectionForClient(this.extractClientIp(req)) ??
+      settings.getJudgeSectionForClient(this.extractClientKey(req))
+    );
+  }
+
+  /**
+   * Audit and permission context of a C123 write command.
+   *
+   * Once judge sections are configured, only clients with a section may write
+   * (and admins authenticated by token, i.e. the race office). Otherwise a
+   * judge could leave their section by posing as an unassigned client. An
+   * admin role from the PIN or from anonymous access does not count: both are
+   * shared by everybody who may use them.
+   *
+   * @returns the context, or null after responding with 403
+   */
+  private writeContext(req: Request, res: Response): WriteCommandContext | null {
+    const context: WriteCommandContext = { clientIp: this.extractClientIp(req) };
+    const section = this.judgeSectionFor(req, res);
+    if (section) {
+      context.section = section;
+      return context;
+    }
+
+    const settings = getAppSettings();
+    const authenticatedAdmin =
+      settings.getAuthConfig().enabled && res.locals.authRole === 'admin' && res.locals.authViaToken === true;
+    if (settings.getJudgeSections().length > 0 && !authenticatedAdmin) {
+      res.status(403).json({ error: 'Forbidden', detail: 'Writing requires a judge section once sections are configured' });
+      return null;
+    }
+    return context;
+  }
+
+  /**
+   * Handle incoming WebSocket message from client.
+   * Binary frames are MessagePack, text frames JSON.
    */
-  private handleWebSocketMessage(session: ScoreboardSession, data: unknown): void {
+  private handleWebSocketMessage(session: ScoreboardSession, data: unknown, isBinary = false): void {
     try {
-      const messageStr = data instanceof Buffer ? data.toString('utf-8') : String(data);
-      const message = JSON.parse(messageStr);
+      const message = isBinary && data instanceof Buffer
+        ? (decodeMsgPack(data) as Record<string, unknown>)
+        : JSON.parse(data instanceof Buffer ? data.toString('utf-8') : String(data));
 
       // Handle ClientState message
       if (message.type === 'ClientState' && message.data) {
@@ -1025,9 +1359,18 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     this.app.use(express.json({ limit: '50mb' }));
 
     // CORS headers
-    this.app.use((_req: Request, res: Response, next: NextFunction) => {
-      res.header('Access-Control-Allow-Origin', '*');
-      res.header('Access-Control-Allow-Headers', 'Content-Type');
+    this.app.use((req: Request, res: Response, next: NextFunction) => {
+      const { allowedOrigins } = getAppSettings().getAuthConfig();
+      const origin = req.headers.origin;
+      if (allowedOrigins.includes('*')) {
+        res.header('Access-Control-Allow-Origin', '*');
+      } else {
+        res.header('Vary', 'Origin');
+        if (origin && allowedOrigins.includes(origin)) {
+          res.header('Access-Control-Allow-Origin', origin);
+        }
+      }
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Client-Id');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
       next();
     });
@@ -1037,90 +1380,160 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       res.sendStatus(204);
     });
 
+    // Authentication (after OPTIONS, so preflight requests stay anonymous)
+    this.app.use('/api', this.authenticateRequest.bind(this));
+    const judge = this.requireRole('judge');
+    const admin = this.requireRole('admin');
+
+    // Prometheus scrape endpoint (outside /api, same credentials)
+    this.app.get('/metrics', this.authenticateRequest.bind(this), this.handleMetrics.bind(this));
+
     // Discovery endpoint (for autodiscovery by scoreboards)
     this.app.get('/api/discover', this.handleDiscover.bind(this));
+    this.app.get('/api/auth', this.handleGetAuth.bind(this));
 
     // API routes
     this.app.get('/api/status', this.handleStatus.bind(this));
     this.app.get('/api/update-check', this.handleUpdateCheck.bind(this));
     this.app.get('/api/sources', this.handleSources.bind(this));
     this.app.get('/api/scoreboards', this.handleScoreboards.bind(this));
-    this.app.post('/api/scoreboards/:id/config', this.handleScoreboardConfig.bind(this));
-
-    // XML REST API routes
-    this.app.get('/api/xml/status', this.handleXmlStatus.bind(this));
-    this.app.get('/api/xml/schedule', this.handleXmlSchedule.bind(this));
-    this.app.get('/api/xml/participants', this.handleXmlParticipants.bind(this));
-    this.app.get('/api/xml/races', this.handleXmlRaces.bind(this));
-    this.app.get('/api/xml/races/:id', this.handleXmlRaceDetail.bind(this));
-    this.app.get('/api/xml/races/:id/startlist', this.handleXmlRaceStartlist.bind(this));
-    this.app.get('/api/xml/races/:id/results', this.handleXmlRaceResults.bind(this));
-    this.app.get('/api/xml/races/:id/results/:run', this.handleXmlRaceResultsByRun.bind(this));
-    this.app.get('/api/xml/courses', this.handleXmlCourses.bind(this));
+    this.app.get('/api/stream', this.requireRole('scoreboard'), this.handleStream.bind(this));
+    this.app.post('/api/scoreboards/:id/config', admin, this.handleScoreboardConfig.bind(this));
+
+    // XML REST API routes, for the main XML file and scoped to the files
+    // registered under event keys and to archived events
+    const xmlScopes: [string, ((req: Request, res: Response, next: NextFunction) => void)[]][] = [
+      ['/api/xml', []],
+      ['/api/events/:key/xml', [this.resolveXmlEvent.bind(this)]],
+      ['/api/archive/:archiveId/xml', [this.resolveArchivedEvent.bind(this)]],
+    ];
+    for (const [base, scope] of xmlScopes) {
+      this.app.get(`${base}/status`, ...scope, this.handleXmlStatus.bind(this));
+      this.app.get(`${base}/schedule`, ...scope, this.handleXmlSchedule.bind(this));
+      this.app.get(`${base}/participants`, ...scope, this.handleXmlParticipants.bind(this));
+      this.app.get(`${base}/races`, ...scope, this.handleXmlRaces.bind(this));
+      this.app.get(`${base}/races/:id`, ...scope, this.handleXmlRaceDetail.bind(this));
+      this.app.get(`${base}/races/:id/startlist`, ...scope, this.handleXmlRaceStartlist.bind(this));
+      this.app.get(`${base}/races/:id/results`, ...scope, this.handleXmlRaceResults.bind(this));
+      this.app.get(`${base}/races/:id/results/:run`, ...scope, this.handleXmlRaceResultsByRun.bind(this));
+      this.app.get(`${base}/races/:id/gate-stats`, ...scope, this.handleXmlRaceGateStats.bind(this));
+      this.app.get(`${base}/courses`, ...scope, this.handleXmlCourses.bind(this));
+      this.app.get(`${base}/courses/:courseNr/gate-stats`, ...scope, this.handleXmlCourseGateStats.bind(this));
+    }
     this.app.get('/api/xml/mismatch', this.handleXmlMismatch.bind(this));
 
+    // XML files under event keys (multi-day events) and combined standings
+    this.app.get('/api/events', this.handleGetXmlEvents.bind(this));
+    this.app.post('/api/events', admin, this.handleRegisterXmlEvent.bind(this));
+    this.app.delete('/api/events/:key', admin, this.handleRemoveXmlEvent.bind(this));
+    this.app.get('/api/combined/participants', this.handleCombinedParticipants.bind(this));
+    this.app.get('/api/combined/results', this.handleCombinedResults.bind(this));
+
+    // Archived past events (read-only)
+    this.app.get('/api/archive', this.handleGetArchive.bind(this));
+    this.app.get('/api/archive/:id', this.handleGetArchivedEvent.bind(this));
+    this.app.get('/api/archive/:id/checks', this.handleGetArchivedChecks.bind(this));
+    this.app.get('/api/archive/:id/audit', judge, this.handleGetArchivedAudit.bind(this));
+
+    // Printable exports
+    this.app.get('/api/export/races/:id/results.pdf', this.handleExportRaceResults.bind(this, 'pdf'));
+    this.app.get('/api/export/races/:id/results.csv', this.handleExportRaceResults.bind(this, 'csv'));
+    this.app.get('/api/export/races/:id/startlist.pdf', this.handleExportRaceStartlist.bind(this, 'pdf'));
+    this.app.get('/api/export/races/:id/startlist.csv', this.handleExportRaceStartlist.bind(this, 'csv'));
+    this.app.get('/api/export/startlists.pdf', this.handleExportDayStartlists.bind(this, 'pdf'));
+    this.app.get('/api/export/startlists.csv', this.handleExportDayStartlists.bind(this, 'csv'));
+    this.app.get('/api/export/federation/icf.xml', this.handleExportFederation.bind(this, 'icf'));
+    this.app.get('/api/export/federation/cz.csv', this.handleExportFederation.bind(this, 'cz'));
+
+    // Live race analytics
+    this.app.get('/api/races/:id/splits', this.handleGetRaceSplits.bind(this));
+
     // Config API routes
     this.app.get('/api/config', this.handleGetConfig.bind(this));
     this.app.get('/api/config/xml', this.handleGetXmlConfig.bind(this));
-    this.app.post('/api/config/xml', this.handleSetXmlConfig.bind(this));
-    this.app.post('/api/config/xml/autodetect', this.handleToggleAutodetect.bind(this));
-    this.app.get('/api/config/xml/detect', this.handleDetectXml.bind(this));
+    this.app.post('/api/config/xml', admin, this.handleSetXmlConfig.bind(this));
+    this.app.post('/api/config/xml/autodetect', admin, this.handleToggleAutodetect.bind(this));
+    this.app.get('/api/config/xml/detect', admin, this.handleDetectXml.bind(this));
 
     // Event API routes
     this.app.get('/api/event', this.handleGetEvent.bind(this));
-    this.app.post('/api/event', this.handleSetEvent.bind(this));
+    this.app.post('/api/event', admin, this.handleSetEvent.bind(this));
 
     // Broadcast API routes
-    this.app.post('/api/broadcast/refresh', this.handleBroadcastRefresh.bind(this));
+    this.app.post('/api/broadcast/refresh', admin, this.handleBroadcastRefresh.bind(this));
 
     // Logs API route
-    this.app.get('/api/logs', this.handleGetLogs.bind(this));
+    this.app.get('/api/logs', admin, this.handleGetLogs.bind(this));
 
     // Client management API routes
-    this.app.get('/api/clients', this.handleGetClients.bind(this));
-    this.app.put('/api/clients/:ip/config', this.handleSetClientConfig.bind(this));
-    this.app.put('/api/clients/:ip/label', this.handleSetClientLabel.bind(this));
-    this.app.delete('/api/clients/:ip', this.handleDeleteClient.bind(this));
-    this.app.post('/api/clients/:ip/refresh', this.handleRefreshClient.bind(this));
+    this.app.get('/api/clients', admin, this.handleGetClients.bind(this));
+    this.app.put('/api/clients/:ip/config', admin, this.handleSetClientConfig.bind(this));
+    this.app.put('/api/clients/:ip/label', admin, this.handleSetClientLabel.bind(this));
+    this.app.delete('/api/clients/:ip', admin, this.handleDeleteClient.bind(this));
+    this.app.post('/api/clients/:ip/refresh', admin, this.handleRefreshClient.bind(this));
 
     // Custom parameters API routes
     this.app.get('/api/config/custom-params', this.handleGetCustomParams.bind(this));
-    this.app.put('/api/config/custom-params', this.handleSetCustomParams.bind(this));
+    this.app.put('/api/config/custom-params', admin, this.handleSetCustomParams.bind(this));
+
+    // Judge sections API routes
+    this.app.get('/api/config/judge-sections', this.handleGetJudgeSections.bind(this));
+    this.app.put('/api/config/judge-sections', admin, this.handleSetJudgeSections.bind(this));
+
+    // Ranking API routes
+    this.app.get('/api/config/ranking', this.handleGetRanking.bind(this));
+    this.app.put('/api/config/ranking', admin, this.handleSetRanking.bind(this));
 
     // Default assets API routes
     this.app.get('/api/config/assets', this.handleGetAssets.bind(this));
-    this.app.put('/api/config/assets', this.handleSetAssets.bind(this));
-    this.app.delete('/api/config/assets/:key', this.handleDeleteAsset.bind(this));
+    this.app.put('/api/config/assets', admin, this.handleSetAssets.bind(this));
+    this.app.delete('/api/config/assets/:key', admin, this.handleDeleteAsset.bind(this));
 
     // C123 Write API (Scoring, RemoveFromCourse, Timing)
-    this.app.post('/api/c123/scoring', this.handleC123Scoring.bind(this));
-    this.app.post('/api/c123/remove-from-course', this.handleC123RemoveFromCourse.bind(this));
-    this.app.post('/api/c123/timing', this.handleC123Timing.bind(this));
+    this.app.post('/api/c123/scoring', judge, this.handleC123Scoring.bind(this));
+    this.app.post('/api/c123/scoring/batch', judge, this.handleC123ScoringBatch.bind(this));
+    this.app.post('/api/c123/scoring/:commandId/revert', judge, this.handleC123ScoringRevert.bind(this));
+    this.app.post('/api/c123/remove-from-course', judge, this.handleC123RemoveFromCourse.bind(this));
+    this.app.post('/api/c123/timing', judge, this.handleC123Timing.bind(this));
+    this.app.get('/api/c123/audit', judge, this.handleC123Audit.bind(this));
+    this.app.get('/api/c123/queue', judge, this.handleGetQueue.bind(this));
+    this.app.post('/api/c123/queue/replay', judge, this.handleReplayQueue.bind(this));
+    this.app.post('/api/c123/queue/:id/send', judge, this.handleSendQueued.bind(this));
+    this.app.delete('/api/c123/queue/:id', judge, this.handleDiscardQueued.bind(this));
+
+    // Record & Replay API
+    this.app.get('/api/recordings', this.handleGetRecordings.bind(this));
+    this.app.get('/api/recording', this.handleGetRecording.bind(this));
+    this.app.post('/api/recording/start', admin, this.handleStartRecording.bind(this));
+    this.app.post('/api/recording/stop', admin, this.handleStopRecording.bind(this));
+    this.app.get('/api/replay', this.handleGetReplay.bind(this));
+    this.app.post('/api/replay/start', admin, this.handleStartReplay.bind(this));
+    this.app.post('/api/replay/stop', admin, this.handleStopReplay.bind(this));
 
     // Live-Mini API
-    this.app.get('/api/live/status', this.handleLiveStatus.bind(this));
-    this.app.post('/api/live/connect', this.handleLiveConnect.bind(this));
-    this.app.post('/api/live/disconnect', this.handleLiveDisconnect.bind(this));
-    this.app.post('/api/live/reconnect', this.handleLiveReconnect.bind(this));
-    this.app.post('/api/live/pause', this.handleLivePause.bind(this));
-    this.app.post('/api/live/force-push-xml', this.handleLiveForceXml.bind(this));
-    this.app.post('/api/live/transition', this.handleLiveTransition.bind(this));
-    this.app.patch('/api/live/config', this.handleLiveConfig.bind(this));
-    this.app.post('/api/live/events', this.handleLiveListEvents.bind(this));
-    this.app.post('/api/live/delete-event', this.handleLiveDeleteEvent.bind(this));
+    this.app.get('/api/live/status', admin, this.handleLiveStatus.bind(this));
+    this.app.post('/api/live/connect', admin, this.handleLiveConnect.bind(this));
+    this.app.post('/api/live/disconnect', admin, this.handleLiveDisconnect.bind(this));
+    this.app.post('/api/live/reconnect', admin, this.handleLiveReconnect.bind(this));
+    this.app.post('/api/live/pause', admin, this.handleLivePause.bind(this));
+    this.app.post('/api/live/force-push-xml', admin, this.handleLiveForceXml.bind(this));
+    this.app.post('/api/live/transition', admin, this.handleLiveTransition.bind(this));
+    this.app.patch('/api/live/config', admin, this.handleLiveConfig.bind(this));
+    this.app.post('/api/live/events', admin, this.handleLiveListEvents.bind(this));
+    this.app.post('/api/live/delete-event', admin, this.handleLiveDeleteEvent.bind(this));
 
     // Penalty Checks API
     // Collection routes first — they are literal paths and must not be
     // shadowed by the :raceId parameter routes below.
     this.app.get('/api/checks', this.handleGetAllChecks.bind(this));
-    this.app.post('/api/checks/new-event', this.handleNewEvent.bind(this));
+    this.app.post('/api/checks/new-event', admin, this.handleNewEvent.bind(this));
     this.app.get('/api/checks/:raceId', this.handleGetChecks.bind(this));
-    this.app.put('/api/checks/:raceId/check', this.handleSetCheck.bind(this));
-    this.app.delete('/api/checks/:raceId/check', this.handleRemoveCheck.bind(this));
-    this.app.delete('/api/checks/:raceId', this.handleClearChecks.bind(this));
-    this.app.post('/api/checks/:raceId/flag', this.handleCreateFlag.bind(this));
-    this.app.patch('/api/checks/:raceId/flag/:id', this.handleResolveFlag.bind(this));
-    this.app.delete('/api/checks/:raceId/flag/:id', this.handleDeleteFlag.bind(this));
+    this.app.put('/api/checks/:raceId/check', judge, this.handleSetCheck.bind(this));
+    this.app.delete('/api/checks/:raceId/check', judge, this.handleRemoveCheck.bind(this));
+    this.app.delete('/api/checks/:raceId', admin, this.handleClearChecks.bind(this));
+    this.app.post('/api/checks/:raceId/flag', judge, this.handleCreateFlag.bind(this));
+    this.app.patch('/api/checks/:raceId/flag/:id', judge, this.handleResolveFlag.bind(this));
+    this.app.delete('/api/checks/:raceId/flag/:id', judge, this.handleDeleteFlag.bind(this));
 
     // Health check
     this.app.get('/health', (_req: Request, res: Response) => {
@@ -1139,6 +1552,75 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     });
   }
 
+  // ==========================================================================
+  // Authentication
+  // ==========================================================================
+
+  /**
+   * Resolve the caller's role for every /api request.
+   *
+   * Without a role (bad credential, or anonymous access disabled) only
+   * discovery and /api/auth stay reachable, so scoreboards can still find the
+   * server and the dashboard can tell the user to log in.
+   */
+  private authenticateRequest(req: Request, res: Response, next: NextFunction): void {
+    const identity = authenticate(extractCredential(req), getAppSettings().getAuthConfig());
+    if (!identity) {
+      res.status(401).json({ error: 'Invalid token or PIN' });
+      return;
+    }
+
+    res.locals.authRole = identity.role;
+    res.locals.authLabel = identity.label;
+    res.locals.authSection = identity.judgeSection;
+    res.locals.authViaToken = identity.viaToken === true;
+
+    if (identity.role === null && req.path !== '/discover' && req.path !== '/auth') {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    next();
+  }
+
+  /**
+   * Route middleware rejecting callers below the given role
+   */
+  private requireRole(required: AuthRole): (req: Request, res: Response, next: NextFunction) => void {
+    return (_req: Request, res: Response, next: NextFunction) => {
+      if (!hasRole(res.locals.authRole as AuthRole | null, required)) {
+        res.status(403).json({ error: 'Forbidden', detail: `Requires ${required} role` });
+        return;
+      }
+      next();
+    };
+  }
+
+  /**
+   * Check a WebSocket upgrade request. Admin dashboard connections need the
+   * admin role, scoreboards the scoreboard role.
+   *
+   * @returns HTTP status to reject the upgrade with, or null if allowed
+   */
+  private authorizeUpgrade(request: IncomingMessage, isAdmin: boolean): 401 | 403 | null {
+    const identity = authenticate(extractCredential(request), getAppSettings().getAuthConfig());
+    if (!identity || identity.role === null) {
+      return 401;
+    }
+    return hasRole(identity.role, isAdmin ? 'admin' : 'scoreboard') ? null : 403;
+  }
+
+  /**
+   * GET /api/auth - Whether auth is enabled and the caller's role
+   */
+  private handleGetAuth(_req: Request, res: Response): void {
+    const config = getAppSettings().getAuthConfig();
+    res.json({
+      enabled: config.enabled,
+      role: res.locals.authRole ?? null,
+      label: res.locals.authLabel ?? null,
+    });
+  }
+
   /**
    * GET /api/discover - Discovery endpoint for autodiscovery
    * Returns minimal info for quick identification by scoreboards.
@@ -1166,6 +1648,96 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     });
   }
 
+  /**
+   * GET /api/stream - Scoreboard messages as Server-Sent Events.
+   *
+   * Filters come from the stored client config (by ?clientId=, X-Client-Id
+   * or IP) and can be overridden with ?raceFilter=, ?showOnCourse= and
+   * ?showResults=. A client reconnecting with Last-Event-ID (header or
+   * ?lastEventId=) gets the broadcasts it missed instead of a fresh snapshot.
+   */
+  private handleStream(req: Request, res: Response): void {
+    const overrides: ScoreboardConfig = {};
+    for (const key of ['showOnCourse', 'showResults'] as const) {
+      const raw = req.query[key];
+      if (raw === undefined) continue;
+      if (raw !== 'true' && raw !== 'false') {
+        res.status(400).json({ error: `${key} must be true or false` });
+        return;
+      }
+      overrides[key] = raw === 'true';
+    }
+    if (typeof req.query.raceFilter === 'string') {
+      overrides.raceFilter = req.query.raceFilter
+        .split(',')
+        .map((id) => id.trim())
+        .filter((id) => id !== '');
+    }
+
+    const rawLastId = req.get('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : '');
+    const missed = rawLastId ? this.broadcastHistory.resume(rawLastId) : null;
+
+    const explicitClientId = typeof req.query.clientId === 'string' ? req.query.clientId.trim() : '';
+    const configKey = explicitClientId || this.extractClientKey(req);
+    const settings = getAppSettings();
+    const config = resolveStreamConfig(settings.getClientConfig(configKey), overrides);
+
+    const streamId = `stream-${++this.clientIdCounter}`;
+    const client = new SseClient(streamId, res, this.extractClientIp(req), configKey, config, overrides);
+    this.sseClients.set(streamId, client);
+    client.open();
+
+    client.send(this.createConnectedMessage(missed !== null));
+
+    if (missed) {
+      for (const entry of missed) {
+        client.sendBroadcast(entry);
+      }
+      Logger.info('Unified', `SSE stream resumed: ${streamId} (${configKey}, ${missed.length} missed)`);
+    } else if (rawLastId) {
+      for (const message of this.createSnapshotMessages()) {
+        client.send(message);
+      }
+      Logger.info('Unified', `SSE stream connected: ${streamId} (${configKey}, cannot resume, sent snapshot)`);
+    } else {
+      if (this.eventState && this.eventState.state.schedule.length > 0) {
+        client.send({
+          type: 'Schedule',
+          timestamp: new Date().toISOString(),
+          data: { races: this.eventState.state.schedule },
+        });
+      }
+      Logger.info('Unified', `SSE stream connected: ${streamId} (${configKey})`);
+    }
+
+    settings.updateClientLastSeen(configKey);
+
+    res.on('close', () => {
+      client.dispose();
+      if (this.sseClients.delete(streamId)) {
+        Logger.info('Unified', `SSE stream disconnected: ${streamId}`);
+      }
+    });
+  }
+
+  /**
+   * GET /metrics - Prometheus metrics in the text exposition format
+   */
+  private handleMetrics(_req: Request, res: Response): void {
+    const metrics = getMetrics();
+    const tcpConnected = this.sources.some((s) => s.type === 'tcp' && s.source.status === 'connected');
+    metrics.tcpConnected.set(tcpConnected ? 1 : 0);
+    metrics.scoreboardSessions.set(this.sessions.size);
+
+    const live = this.livePusher?.getStatus();
+    metrics.liveCircuitBreakerOpen.set(live?.circuitBreaker.isOpen ? 1 : 0);
+    metrics.liveConsecutiveFailures.set(live?.circuitBreaker.consecutiveFailures ?? 0);
+
+    // Set directly, res.type() would reorder the content type parameters
+    res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.end(metrics.render());
+  }
+
   /**
    * GET /api/status - Overall server status
    */
@@ -1350,21 +1922,89 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       if (s.host !== undefined) info.host = s.host;
       if (s.port !== undefined) info.port = s.port;
       if (s.path !== undefined) info.path = s.path;
+      if (s.source instanceof TcpSource || s.source instanceof FailoverSource) {
+        info.stale = s.source.isStale;
+      }
+      if (s.source instanceof FailoverSource) {
+        // host/port follow the active host
+        const hosts = s.source.getHosts();
+        const active = hosts.find((h) => h.active);
+        if (active) {
+          info.host = active.host;
+          info.port = active.port;
+        }
+        info.hosts = hosts;
+      }
       return info;
     });
   }
 
+  /**
+   * XML data service of the request: the event key's file on
+   * /api/events/:key/xml routes, the archived file on /api/archive/:id/xml
+   * routes, the main XML file otherwise
+   */
+  private xmlServiceFor(res: Response): XmlDataService | null {
+    return (res.locals.xmlDataService as XmlDataService | undefined) ?? this.xmlDataService;
+  }
+
+  /**
+   * Middleware for /api/events/:key/xml routes - picks the event key's file
+   */
+  private resolveXmlEvent(req: Request, res: Response, next: NextFunction): void {
+    if (!this.xmlEvents) {
+      res.status(503).json({ error: 'XML events not available' });
+      return;
+    }
+
+    const service = this.xmlEvents.get(String(req.params.key));
+    if (!service) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+
+    res.locals.xmlDataService = service;
+    next();
+  }
+
+  /**
+   * Middleware for /api/archive/:id/xml routes - picks the archived XML file
+   */
+  private resolveArchivedEvent(req: Request, res: Response, next: NextFunction): void {
+    if (!this.eventArchive) {
+      res.status(503).json({ error: 'Event archive not available' });
+      return;
+    }
+
+    // Not :id, which the race routes below it use
+    const id = String(req.params.archiveId);
+    if (!this.eventArchive.get(id)) {
+      res.status(404).json({ error: 'Archived event not found' });
+      return;
+    }
+
+    const service = this.eventArchive.getXmlService(id);
+    if (!service) {
+      res.status(404).json({ error: 'Archived event has no XML file' });
+      return;
+    }
+
+    res.locals.xmlDataService = service;
+    next();
+  }
+
   /**
    * GET /api/xml/status - XML data availability and stats
    */
   private async handleXmlStatus(_req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
-      const status = await this.xmlDataService.getStatus();
+      const status = await xmlDataService.getStatus();
       res.json(status);
     } catch (err) {
       res.status(500).json({
@@ -1377,13 +2017,14 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * GET /api/xml/schedule - Race schedule
    */
   private async handleXmlSchedule(_req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
-      const schedule = await this.xmlDataService.getSchedule();
+      const schedule = await xmlDataService.getSchedule();
       res.json({ schedule });
     } catch (err) {
       res.status(500).json({
@@ -1396,13 +2037,14 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * GET /api/xml/participants - All participants
    */
   private async handleXmlParticipants(_req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
-      const participants = await this.xmlDataService.getParticipants();
+      const participants = await xmlDataService.getParticipants();
       res.json({ participants });
     } catch (err) {
       res.status(500).json({
@@ -1415,13 +2057,14 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * GET /api/xml/races - List of all races
    */
   private async handleXmlRaces(_req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
-      const races = await this.xmlDataService.getRaces();
+      const races = await xmlDataService.getRaces();
       res.json({ races });
     } catch (err) {
       res.status(500).json({
@@ -1434,13 +2077,14 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * GET /api/xml/courses - Course data with gate configuration and splits
    */
   private async handleXmlCourses(_req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
-      const courses = await this.xmlDataService.getCourses();
+      const courses = await xmlDataService.getCourses();
       res.json({ courses });
     } catch (err) {
       res.status(500).json({
@@ -1453,14 +2097,15 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * GET /api/xml/races/:id - Race detail
    */
   private async handleXmlRaceDetail(req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
       const { id } = req.params;
-      const race = await this.xmlDataService.getRaceDetail(id);
+      const race = await xmlDataService.getRaceDetail(id);
 
       if (!race) {
         res.status(404).json({ error: 'Race not found' });
@@ -1479,14 +2124,15 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * GET /api/xml/races/:id/startlist - Race startlist
    */
   private async handleXmlRaceStartlist(req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
 
     try {
       const { id } = req.params;
-      const startlist = await this.xmlDataService.getStartlist(id);
+      const startlist = await xmlDataService.getStartlist(id);
 
       if (!startlist) {
         res.status(404).json({ error: 'Race not found' });
@@ -1502,10 +2148,12 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
   }
 
   /**
-   * GET /api/xml/races/:id/results - Race results (with optional ?merged=true)
+   * GET /api/xml/races/:id/results - Race results (with optional ?merged=true
+   * or ?ranking=best|sum|progression)
    */
   private async handleXmlRaceResults(req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
@@ -1514,19 +2162,42 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       const { id } = req.params;
       const merged = req.query.merged === 'true';
 
-      if (merged) {
-        const race = await this.xmlDataService.getRaceDetail(id);
+      if (req.query.ranking !== undefined) {
+        const race = await xmlDataService.getRaceDetail(id);
         if (!race) {
           res.status(404).json({ error: 'Race not found' });
           return;
         }
 
-        const results = await this.xmlDataService.getMergedResults(id);
-        res.json({ results, merged: true, classId: race.classId });
+        const options = this.queryRankingOptions(req, race.classId);
+        if (typeof options === 'string') {
+          res.status(400).json({ error: options });
+          return;
+        }
+
+        const ranked = await xmlDataService.getRankedResults(id, options);
+        if (!ranked) {
+          res.status(404).json({ error: 'Race not found' });
+          return;
+        }
+
+        res.json(ranked);
         return;
       }
 
-      const results = await this.xmlDataService.getResultsWithParticipants(id);
+      if (merged) {
+        const race = await xmlDataService.getRaceDetail(id);
+        if (!race) {
+          res.status(404).json({ error: 'Race not found' });
+          return;
+        }
+
+        const results = await xmlDataService.getMergedResults(id);
+        res.json({ results, merged: true, classId: race.classId });
+        return;
+      }
+
+      const results = await xmlDataService.getResultsWithParticipants(id);
 
       if (!results) {
         res.status(404).json({ error: 'Race not found or no results' });
@@ -1541,11 +2212,50 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     }
   }
 
+  /**
+   * Ranking options from the `ranking`, `tieBreak`, `semi` and `final` query
+   * parameters, defaulting to the configured ranking of the class
+   *
+   * @returns the options, or an error message
+   */
+  private queryRankingOptions(req: Request, classId: string): RankingOptions | string {
+    const { ranking, tieBreak, semi, final } = req.query;
+
+    const rule = typeof ranking === 'string' ? ranking : '';
+    if (!(RANKING_RULES as readonly string[]).includes(rule)) {
+      return `ranking must be one of: ${RANKING_RULES.join(', ')}`;
+    }
+    const options = resolveRankingOptions(getAppSettings().getRanking(), classId, rule as RankingRule) as RankingOptions;
+
+    if (tieBreak !== undefined) {
+      if (typeof tieBreak !== 'string' || !(TIE_BREAKS as readonly string[]).includes(tieBreak)) {
+        return `tieBreak must be one of: ${TIE_BREAKS.join(', ')}`;
+      }
+      options.tieBreak = tieBreak as TieBreak;
+    }
+    for (const [name, value, key] of [
+      ['semi', semi, 'semiQualifiers'],
+      ['final', final, 'finalQualifiers'],
+    ] as const) {
+      if (value === undefined) {
+        continue;
+      }
+      const count = parseQualifiers(name, value);
+      if (typeof count === 'string') {
+        return count;
+      }
+      options[key] = count;
+    }
+
+    return options;
+  }
+
   /**
    * GET /api/xml/races/:id/results/:run - Race results for specific run (BR1 or BR2)
    */
   private async handleXmlRaceResultsByRun(req: Request, res: Response): Promise<void> {
-    if (!this.xmlDataService) {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
       res.status(503).json({ error: 'XML data service not available' });
       return;
     }
@@ -1559,13 +2269,13 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
         return;
       }
 
-      const race = await this.xmlDataService.getRaceDetail(id);
+      const race = await xmlDataService.getRaceDetail(id);
       if (!race) {
         res.status(404).json({ error: 'Race not found' });
         return;
       }
 
-      const races = await this.xmlDataService.getRaces();
+      const races = await xmlDataService.getRaces();
       const targetRace = races.find((r) => r.classId === race.classId && r.disId === runUpper);
 
       if (!targetRace) {
@@ -1573,7 +2283,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
         return;
       }
 
-      const results = await this.xmlDataService.getResultsWithParticipants(targetRace.raceId);
+      const results = await xmlDataService.getResultsWithParticipants(targetRace.raceId);
 
       if (!results) {
         res.status(404).json({ error: 'No results available for this run' });
@@ -1588,6 +2298,63 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     }
   }
 
+  /**
+   * GET /api/xml/races/:id/gate-stats - Penalty statistics per gate of a race
+   */
+  private async handleXmlRaceGateStats(req: Request, res: Response): Promise<void> {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
+      res.status(503).json({ error: 'XML data service not available' });
+      return;
+    }
+
+    try {
+      const stats = await xmlDataService.getGateStats(String(req.params.id));
+      if (!stats) {
+        res.status(404).json({ error: 'Race not found or no results' });
+        return;
+      }
+
+      res.json(stats);
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * GET /api/xml/courses/:courseNr/gate-stats - Penalty statistics per gate
+   * over all races on a course
+   */
+  private async handleXmlCourseGateStats(req: Request, res: Response): Promise<void> {
+    const xmlDataService = this.xmlServiceFor(res);
+    if (!xmlDataService) {
+      res.status(503).json({ error: 'XML data service not available' });
+      return;
+    }
+
+    const courseNr = Number(req.params.courseNr);
+    if (!Number.isInteger(courseNr) || courseNr < 1) {
+      res.status(400).json({ error: 'courseNr must be a positive integer' });
+      return;
+    }
+
+    try {
+      const stats = await xmlDataService.getCourseGateStats(courseNr);
+      if (!stats) {
+        res.status(404).json({ error: 'Course not found' });
+        return;
+      }
+
+      res.json(stats);
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * GET /api/xml/mismatch - Current XML mismatch status
    */
@@ -1597,6 +2364,9 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
 
   /**
    * GET /api/config - Get all configuration
+   *
+   * Open to every role, so credentials are left out: tokens, the PIN and the
+   * live API key.
    */
   private handleGetConfig(_req: Request, res: Response): void {
     const settings = getAppSettings().get();
@@ -1607,7 +2377,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     };
 
     res.json({
-      settings,
+      settings: publicSettings(settings),
       xml: xmlInfo,
       isWindows: WindowsConfigDetector.isWindows(),
       settingsPath: getAppSettings().getPath(),
@@ -1977,6 +2747,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
             custom: storedConfig.custom,
             clientId: storedConfig.clientId,
             assets: storedConfig.assets,
+            judgeSection: storedConfig.judgeSection,
           }
         : null,
       clientState: firstSession?.getClientState() ?? null,
@@ -2072,9 +2843,19 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       config.clientId = config.clientId.trim();
     }
 
+    // Judge section is stored separately: null clears it, which a partial
+    // merge cannot express
+    const judgeSection = (config as { judgeSection?: unknown }).judgeSection;
+    if (judgeSection !== undefined && judgeSection !== null) {
+      if (typeof judgeSection !== 'string' || !getAppSettings().getJudgeSections().some((s) => s.id === judgeSection)) {
+        res.status(400).json({ error: 'judgeSection must be the id of a judge section or null' });
+        return;
+      }
+    }
+
     // Remove metadata fields from config (server-managed)
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { label, lastSeen, ...configToSave } = config;
+    const { label, lastSeen, judgeSection: _judgeSection, ...configToSave } = config;
 
     // Track which asset keys are being cleared (set to null)
     const clearedAssetKeys: Array<'logoUrl' | 'partnerLogoUrl' | 'footerImageUrl'> = [];
@@ -2089,6 +2870,9 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
 
     // Save configuration
     const settings = getAppSettings();
+    if (judgeSection !== undefined) {
+      settings.setClientJudgeSection(ip, judgeSection as string | null);
+    }
     const savedConfig = settings.setClientConfig(ip, configToSave);
 
     // Push to online clients (with cleared asset keys so they get null values)
@@ -2451,6 +3235,87 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     });
   }
 
+  // ==========================================================================
+  // Judge Sections API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/config/judge-sections - Get judge sections
+   *
+   * Also returns the section assigned to the requesting client, so a judge
+   * tablet can show only its own gates.
+   */
+  private handleGetJudgeSections(req: Request, res: Response): void {
+    const settings = getAppSettings();
+
+    res.json({
+      sections: settings.getJudgeSections(),
+      assigned: this.judgeSectionFor(req, res) ?? null,
+    });
+  }
+
+  /**
+   * PUT /api/config/judge-sections - Replace judge sections
+   *
+   * Body: { sections: JudgeSection[] }
+   * Clients assigned to a removed section lose their assignment.
+   */
+  private handleSetJudgeSections(req: Request, res: Response): void {
+    const sections = parseJudgeSections(req.body?.sections);
+    if (typeof sections === 'string') {
+      res.status(400).json({ error: sections });
+      return;
+    }
+
+    getAppSettings().setJudgeSections(sections);
+    Logger.info('Unified', `Judge sections updated: ${sections.length} section(s)`);
+
+    res.json({ success: true, sections });
+  }
+
+  // ==========================================================================
+  // Ranking API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/config/ranking - Get ranking rules
+   */
+  private handleGetRanking(_req: Request, res: Response): void {
+    res.json({ ranking: getAppSettings().getRanking() });
+  }
+
+  /**
+   * PUT /api/config/ranking - Replace ranking rules
+   *
+   * Body: { ranking: RankingSettings }
+   * Rankings are broadcast for classes that have a rule (or with a default rule).
+   */
+  private handleSetRanking(req: Request, res: Response): void {
+    const ranking = parseRankingSettings(req.body?.ranking);
+    if (typeof ranking === 'string') {
+      res.status(400).json({ error: ranking });
+      return;
+    }
+
+    getAppSettings().setRanking(ranking);
+    Logger.info('Unified', `Ranking rules updated: ${ranking.rule ?? 'no default rule'}, ${Object.keys(ranking.classes ?? {}).length} class rule(s)`);
+
+    res.json({ success: true, ranking });
+  }
+
+  /**
+   * Judge section named by the `section` query parameter
+   *
+   * @returns the section, undefined without the parameter, null if unknown
+   */
+  private querySection(req: Request): JudgeSection | null | undefined {
+    const id = req.query.section;
+    if (typeof id !== 'string' || id === '') {
+      return undefined;
+    }
+    return getAppSettings().getJudgeSections().find((s) => s.id === id) ?? null;
+  }
+
   // ==========================================================================
   // C123 Write API Handlers (Scoring)
   // ==========================================================================
@@ -2459,11 +3324,13 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * POST /api/c123/scoring - Send penalty command to C123
    *
    * Body: { bib: string, gate: number, value: 0 | 2 | 50, raceId?: string }
+   *   or, for team races: { ..., value: <sum>, team: true } / { ..., boats: [0, 2, 50] }
    *
    * Value meanings:
    * - 0: Clean pass (no penalty)
    * - 2: Touch (+2 seconds)
    * - 50: Missed/not taken (+50 seconds)
+   * - Team races: sum of the boats' penalties at the gate (e.g. 52, 100, 150)
    *
    * Mode:
    * - Without raceId: Scoring for competitors ON COURSE
@@ -2475,7 +3342,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
-    if (!this.c123Server.isScoringAvailable()) {
+    if (!this.c123Server.isScoringAvailable() && !this.c123Server.isOfflineQueueEnabled()) {
       res.status(503).json({
         error: 'Not connected to C123',
         detail: 'TCP connection to C123 is not established',
@@ -2483,7 +3350,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
-    const { bib, gate, value, raceId } = req.body;
+    const { bib, gate, value, boats, team, raceId } = req.body;
 
     // Validate required fields
     if (bib === undefined || bib === null || bib === '') {
@@ -2496,7 +3363,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
-    if (value === undefined) {
+    if (value === undefined && boats === undefined) {
       res.status(400).json({ error: 'value is required (use null to delete)' });
       return;
     }
@@ -2510,15 +3377,19 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
-    // Validate penalty value (null = delete penalty)
-    const valueNum = value === null ? null : Number(value);
-    if (valueNum !== null && ![0, 2, 50].includes(valueNum)) {
+    // Validate penalty value (null = delete penalty); team races may send
+    // per-boat penalties, which are summed
+    const penalty = parsePenaltyInput({ value, boats, team });
+    if (typeof penalty === 'string') {
       res.status(400).json({
-        error: 'value must be 0, 2, 50, or null (to delete)',
-        detail: '0 = clean, 2 = touch (+2s), 50 = missed (+50s), null = delete',
+        error: penalty,
+        detail: penalty.startsWith('value must')
+          ? '0 = clean, 2 = touch (+2s), 50 = missed (+50s), null = delete; team races sum the boats'
+          : undefined,
       });
       return;
     }
+    const valueNum = penalty.value;
 
     // Validate raceId if provided
     if (raceId !== undefined && (typeof raceId !== 'string' || raceId.trim() === '')) {
@@ -2528,16 +3399,36 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
+    const context = this.writeContext(req, res);
+    if (!context) {
+      return;
+    }
+
     try {
-      const scoringRequest = raceId
-        ? { raceId: String(raceId), bib: String(bib), gate: gateNum, value: valueNum as 0 | 2 | 50 | null }
-        : { bib: String(bib), gate: gateNum, value: valueNum as 0 | 2 | 50 | null };
-      await this.c123Server.sendScoring(scoringRequest);
+      const scoringRequest: ScoringRequest = raceId
+        ? { raceId: String(raceId), bib: String(bib), gate: gateNum, value: valueNum }
+        : { bib: String(bib), gate: gateNum, value: valueNum };
+      if (penalty.team) {
+        scoringRequest.team = true;
+      }
+
+      const teamError = await this.c123Server.checkTeamScoring(scoringRequest);
+      if (teamError) {
+        res.status(400).json({ error: teamError });
+        return;
+      }
+
+      if (this.c123Server.shouldQueueCommands()) {
+        this.respondQueued(res, this.c123Server.queueCommand('scoring', scoringRequest, context));
+        return;
+      }
+
+      const entry = await this.c123Server.sendScoring(scoringRequest, context);
 
       // Broadcast scoring event to admin connections
       const penaltyDetails = raceId
-        ? { gate: gateNum, value: valueNum as 0 | 2 | 50 | null, raceId: String(raceId) }
-        : { gate: gateNum, value: valueNum as 0 | 2 | 50 | null };
+        ? { gate: gateNum, value: valueNum, raceId: String(raceId) }
+        : { gate: gateNum, value: valueNum };
       this.broadcastScoringEvent({
         eventType: 'penalty',
         bib: String(bib),
@@ -2576,12 +3467,19 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
 
       res.json({
         success: true,
+        commandId: entry.id,
         raceId: raceId ? String(raceId) : undefined,
         bib: String(bib),
         gate: gateNum,
         value: valueNum,
+        team: penalty.team || undefined,
+        previousValue: entry.previousValue,
       });
     } catch (err) {
+      if (err instanceof GateOutsideSectionError) {
+        res.status(403).json({ error: 'Gate outside judge section', detail: err.message });
+        return;
+      }
       Logger.error('Unified', 'Scoring error', err);
       res.status(500).json({
         error: err instanceof Error ? err.message : 'Unknown error',
@@ -2589,6 +3487,169 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     }
   }
 
+  /**
+   * POST /api/c123/scoring/:commandId/revert - Undo a scoring command
+   *
+   * Sends the gate value remembered from before the command. The commandId
+   * is the one returned by POST /api/c123/scoring (= audit entry ID).
+   */
+  private async handleC123ScoringRevert(req: Request, res: Response): Promise<void> {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    if (!this.c123Server.isScoringAvailable()) {
+      res.status(503).json({
+        error: 'Not connected to C123',
+        detail: 'TCP connection to C123 is not established',
+      });
+      return;
+    }
+
+    const commandId = String(req.params.commandId);
+    const context = this.writeContext(req, res);
+    if (!context) {
+      return;
+    }
+
+    try {
+      const entry = await this.c123Server.revertScoring(commandId, context);
+      const payload = entry.payload as ScoringRequest;
+
+      // The gate changed again, so a check made in between is stale
+      this.afterScoringSent(payload, entry.raceId);
+
+      res.json({
+        success: true,
+        commandId: entry.id,
+        revertOf: commandId,
+        raceId: payload.raceId,
+        bib: payload.bib,
+        gate: payload.gate,
+        value: payload.value,
+        previousValue: entry.previousValue,
+      });
+    } catch (err) {
+      if (err instanceof ScoringRevertError) {
+        res.status(err.statusCode).json({ error: err.message });
+        return;
+      }
+      if (err instanceof GateOutsideSectionError) {
+        res.status(403).json({ error: 'Gate outside judge section', detail: err.message });
+        return;
+      }
+      Logger.error('Unified', 'Scoring revert error', err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * POST /api/c123/scoring/batch - Send many scoring commands at once
+   *
+   * Body: { items: ScoringRequest[] }
+   *
+   * Every item is validated before anything is sent, so one bad item rejects
+   * the whole batch. A valid batch is sent in order with a result per item;
+   * a failed write does not stop the items after it.
+   */
+  private async handleC123ScoringBatch(req: Request, res: Response): Promise<void> {
+    if (!this.c123Server || !this.eventState) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    if (!this.c123Server.isScoringAvailable() && !this.c123Server.isOfflineQueueEnabled()) {
+      res.status(503).json({
+        error: 'Not connected to C123',
+        detail: 'TCP connection to C123 is not established',
+      });
+      return;
+    }
+
+    const items: unknown = req.body?.items;
+    if (!Array.isArray(items) || items.length === 0) {
+      res.status(400).json({ error: 'items must be a non-empty array' });
+      return;
+    }
+    if (items.length > MAX_SCORING_BATCH_SIZE) {
+      res.status(400).json({ error: `items must not contain more than ${MAX_SCORING_BATCH_SIZE} entries` });
+      return;
+    }
+
+    const context = this.writeContext(req, res);
+    if (!context) {
+      return;
+    }
+    const validation = validateScoringBatch(items, this.eventState.state, context.section);
+    if (!validation.valid) {
+      res.status(400).json({ error: 'Batch validation failed', errors: validation.errors });
+      return;
+    }
+
+    const teamErrors: { index: number; error: string }[] = [];
+    for (const [index, request] of validation.requests.entries()) {
+      const error = await this.c123Server.checkTeamScoring(request);
+      if (error) {
+        teamErrors.push({ index, error });
+      }
+    }
+    if (teamErrors.length > 0) {
+      res.status(400).json({ error: 'Batch validation failed', errors: teamErrors });
+      return;
+    }
+
+    if (this.c123Server.shouldQueueCommands()) {
+      const queued = validation.requests.map((request) => this.c123Server!.queueCommand('scoring', request, context));
+      res.status(202).json({
+        success: true,
+        queued: true,
+        results: queued.map((q, index) => ({ index, queued: true, id: q.id, ...q.payload })),
+      });
+      return;
+    }
+
+    const results: Record<string, unknown>[] = [];
+    for (const [index, request] of validation.requests.entries()) {
+      try {
+        const entry = await this.c123Server.sendScoring(request, context);
+        this.afterScoringSent(request, entry.raceId);
+        results.push({ index, success: true, commandId: entry.id, ...request, previousValue: entry.previousValue });
+      } catch (err) {
+        results.push({ index, success: false, ...request, error: err instanceof Error ? err.message : String(err) });
+      }
+    }
+
+    const failed = results.filter((r) => !r.success).length;
+    if (failed > 0) {
+      Logger.warn('Unified', `Scoring batch: ${failed} of ${results.length} commands failed`);
+    }
+    res.json({ success: failed === 0, sent: results.length - failed, failed, results });
+  }
+
+  /**
+   * Broadcast a sent scoring command to admin connections and invalidate the
+   * penalty check it made stale
+   */
+  private afterScoringSent(request: ScoringRequest, raceId: string | null): void {
+    this.broadcastScoringEvent({
+      eventType: 'penalty',
+      bib: request.bib,
+      details: request.raceId
+        ? { gate: request.gate, value: request.value, raceId: request.raceId }
+        : { gate: request.gate, value: request.value },
+    });
+
+    if (this.checksStore && raceId) {
+      const invalidated = this.checksStore.invalidateCheck(raceId, request.bib, request.gate);
+      if (invalidated) {
+        Logger.info('Unified', `Check invalidated: bib=${request.bib} gate=${request.gate} race=${raceId}`);
+      }
+    }
+  }
+
   /**
    * POST /api/c123/remove-from-course - Remove competitor from course
    *
@@ -2605,7 +3666,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
-    if (!this.c123Server.isScoringAvailable()) {
+    if (!this.c123Server.isScoringAvailable() && !this.c123Server.isOfflineQueueEnabled()) {
       res.status(503).json({
         error: 'Not connected to C123',
         detail: 'TCP connection to C123 is not established',
@@ -2649,6 +3710,11 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       }
     }
 
+    const context = this.writeContext(req, res);
+    if (!context) {
+      return;
+    }
+
     try {
       const request: { bib: string; reason: 'DNS' | 'DNF' | 'CAP'; position?: number } = {
         bib: String(bib),
@@ -2657,7 +3723,13 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       if (positionNum !== undefined) {
         request.position = positionNum;
       }
-      await this.c123Server.sendRemoveFromCourse(request);
+
+      if (this.c123Server.shouldQueueCommands()) {
+        this.respondQueued(res, this.c123Server.queueCommand('remove-from-course', request, context));
+        return;
+      }
+
+      await this.c123Server.sendRemoveFromCourse(request, context);
 
       const finalPosition = positionNum ?? 1;
 
@@ -2693,7 +3765,7 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
-    if (!this.c123Server.isScoringAvailable()) {
+    if (!this.c123Server.isScoringAvailable() && !this.c123Server.isOfflineQueueEnabled()) {
       res.status(503).json({
         error: 'Not connected to C123',
         detail: 'TCP connection to C123 is not established',
@@ -2727,11 +3799,23 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
+    const context = this.writeContext(req, res);
+    if (!context) {
+      return;
+    }
+
     try {
-      await this.c123Server.sendTiming({
+      const timingRequest = {
         bib: String(bib),
         channelPosition: normalizedPosition as 'Start' | 'Finish' | 'Split1' | 'Split2',
-      });
+      };
+
+      if (this.c123Server.shouldQueueCommands()) {
+        this.respondQueued(res, this.c123Server.queueCommand('timing', timingRequest, context));
+        return;
+      }
+
+      await this.c123Server.sendTiming(timingRequest, context);
 
       // Broadcast scoring event to admin connections
       this.broadcastScoringEvent({
@@ -2753,29 +3837,717 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
     }
   }
 
-  // ==========================================================================
-  // Live-Mini API Handlers
-  // ==========================================================================
-
   /**
-   * GET /api/live/status - Get current Live-Mini pusher status
+   * GET /api/c123/audit - Audit trail of write commands for the current event
+   *
+   * Query: ?raceId=...&bib=...&limit=... (all optional), newest first
    */
-  private handleLiveStatus(_req: Request, res: Response): void {
-    if (!this.livePusher) {
-      res.status(503).json({ error: 'Live-Mini pusher not available' });
+  private handleC123Audit(req: Request, res: Response): void {
+    if (!this.auditLog) {
+      res.status(503).json({ error: 'Audit log not available' });
       return;
     }
 
-    const status = this.livePusher.getStatus();
-    const settings = getAppSettings();
-    const liveConfig = settings.getLiveConfig();
-    res.json({ status, apiKey: liveConfig.apiKey || null });
+    const { raceId, bib, limit } = req.query;
+
+    let limitNum: number | undefined;
+    if (limit !== undefined) {
+      limitNum = Number(limit);
+      if (!Number.isInteger(limitNum) || limitNum < 1) {
+        res.status(400).json({ error: 'limit must be a positive integer' });
+        return;
+      }
+    }
+
+    const query: AuditQuery = {};
+    if (typeof raceId === 'string' && raceId !== '') {
+      query.raceId = raceId;
+    }
+    if (typeof bib === 'string' && bib !== '') {
+      query.bib = bib.trim();
+    }
+    if (limitNum !== undefined) {
+      query.limit = limitNum;
+    }
+
+    const entries = this.auditLog.query(query);
+    res.json({ count: entries.length, entries });
   }
 
   /**
-   * POST /api/live/events - List events on a live server (proxy to avoid CORS)
-   *
-   * Body: { serverUrl: string, masterKey?: string }
+   * Respond 202 for a command held in the offline queue
+   */
+  private respondQueued(res: Response, queued: QueuedCommand): void {
+    res.status(202).json({
+      success: true,
+      queued: true,
+      id: queued.id,
+      ...queued.payload,
+    });
+  }
+
+  /**
+   * GET /api/c123/queue - Commands held while C123 was not writable
+   */
+  private handleGetQueue(_req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    const queue = this.c123Server.getCommandQueue();
+    res.json({
+      enabled: this.c123Server.isOfflineQueueEnabled(),
+      replaying: queue.isReplaying,
+      pending: queue.pendingCount,
+      commands: queue.getAll(),
+    });
+  }
+
+  /**
+   * POST /api/c123/queue/replay - Replay pending commands now
+   */
+  private async handleReplayQueue(_req: Request, res: Response): Promise<void> {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    if (!this.c123Server.isScoringAvailable()) {
+      res.status(503).json({
+        error: 'Not connected to C123',
+        detail: 'TCP connection to C123 is not established',
+      });
+      return;
+    }
+
+    await this.c123Server.replayCommandQueue();
+    const queue = this.c123Server.getCommandQueue();
+    res.json({ success: true, pending: queue.pendingCount, commands: queue.getAll() });
+  }
+
+  /**
+   * POST /api/c123/queue/:id/send - Send a queued command now, even if it
+   * was held back because of a conflict
+   */
+  private async handleSendQueued(req: Request, res: Response): Promise<void> {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    const id = String(req.params.id);
+    if (!this.c123Server.getCommandQueue().get(id)) {
+      res.status(404).json({ error: 'Queued command not found' });
+      return;
+    }
+
+    if (!this.c123Server.isScoringAvailable()) {
+      res.status(503).json({
+        error: 'Not connected to C123',
+        detail: 'TCP connection to C123 is not established',
+      });
+      return;
+    }
+
+    try {
+      const sent = await this.c123Server.sendQueuedCommand(id);
+      res.json({ success: true, id: sent.id });
+    } catch (err) {
+      Logger.error('Unified', 'Queued command error', err);
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * DELETE /api/c123/queue/:id - Discard a queued command
+   */
+  private handleDiscardQueued(req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    const id = String(req.params.id);
+    if (!this.c123Server.getCommandQueue().remove(id)) {
+      res.status(404).json({ error: 'Queued command not found' });
+      return;
+    }
+
+    Logger.info('Unified', `Discarded queued command ${id}`);
+    res.json({ success: true });
+  }
+
+  // ==========================================================================
+  // Race Analytics API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/races/:id/splits - Split times, split ranks and gaps of a race
+   *
+   * With ?split=N only competitors that passed split N are returned, ordered
+   * by their rank there (intermediate standings).
+   */
+  private handleGetRaceSplits(req: Request, res: Response): void {
+    if (!this.eventState) {
+      res.status(503).json({ error: 'Event state not available' });
+      return;
+    }
+
+    let split: number | undefined;
+    if (req.query.split !== undefined) {
+      split = Number(req.query.split);
+      if (!Number.isInteger(split) || split < 1) {
+        res.status(400).json({ error: 'split must be a positive integer' });
+        return;
+      }
+    }
+
+    const splits = this.eventState.getSplits(String(req.params.id));
+    if (split !== undefined) {
+      const at = (c: (typeof splits.competitors)[number]) => c.splits.find((s) => s.split === split);
+      splits.competitors = splits.competitors
+        .filter((c) => at(c))
+        .sort((a, b) => at(a)!.rank - at(b)!.rank);
+    }
+
+    res.json(splits);
+  }
+
+  // ==========================================================================
+  // XML Events API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/events - XML files registered under event keys. File paths
+   * reveal the timing PC's layout and go to admins only.
+   */
+  private async handleGetXmlEvents(_req: Request, res: Response): Promise<void> {
+    if (!this.xmlEvents) {
+      res.status(503).json({ error: 'XML events not available' });
+      return;
+    }
+
+    try {
+      const isAdmin = hasRole(res.locals.authRole as AuthRole | null, 'admin');
+      const events: { key: string; path?: string; available: boolean; eventName: string | null }[] = [];
+      for (const { key, path: xmlPath } of this.xmlEvents.list()) {
+        const service = this.xmlEvents.get(key)!;
+        const status = await service.getStatus();
+        const event: (typeof events)[number] = { key, available: status.available, eventName: await service.getEventName() };
+        if (isAdmin) {
+          event.path = xmlPath;
+        }
+        events.push(event);
+      }
+      res.json({ events });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * POST /api/events - Register an XML file under an event key
+   *
+   * Body: { key, path }. Re-registering a key replaces its file.
+   */
+  private handleRegisterXmlEvent(req: Request, res: Response): void {
+    if (!this.xmlEvents) {
+      res.status(503).json({ error: 'XML events not available' });
+      return;
+    }
+
+    const { key, path: xmlPath } = (req.body ?? {}) as { key?: unknown; path?: unknown };
+    if (typeof key !== 'string' || !XmlEventRegistry.isValidKey(key)) {
+      res.status(400).json({ error: 'key must be 1-64 letters, digits, - or _' });
+      return;
+    }
+    if (typeof xmlPath !== 'string' || xmlPath === '') {
+      res.status(400).json({ error: 'path is required' });
+      return;
+    }
+
+    const existed = this.xmlEvents.get(key) !== undefined;
+    this.xmlEvents.register(key, xmlPath);
+    getAppSettings().setXmlEvent(key, xmlPath);
+    Logger.info('Unified', `${existed ? 'Replaced' : 'Registered'} XML event ${key}: ${xmlPath}`);
+
+    res.status(existed ? 200 : 201).json({ success: true, event: { key, path: xmlPath } });
+  }
+
+  /**
+   * DELETE /api/events/:key - Remove an event key
+   */
+  private handleRemoveXmlEvent(req: Request, res: Response): void {
+    if (!this.xmlEvents) {
+      res.status(503).json({ error: 'XML events not available' });
+      return;
+    }
+
+    const key = String(req.params.key);
+    if (!this.xmlEvents.unregister(key)) {
+      res.status(404).json({ error: 'Event not found' });
+      return;
+    }
+    getAppSettings().removeXmlEvent(key);
+    Logger.info('Unified', `Removed XML event ${key}`);
+
+    res.json({ success: true });
+  }
+
+  /**
+   * Event files selected by ?events=day1,day2 (all registered by default)
+   *
+   * @returns null after sending an error response
+   */
+  private selectCombinedEvents(req: Request, res: Response): CombinedEventSource[] | null {
+    if (!this.xmlEvents) {
+      res.status(503).json({ error: 'XML events not available' });
+      return null;
+    }
+
+    const keys =
+      typeof req.query.events === 'string' && req.query.events !== ''
+        ? req.query.events.split(',').map((k) => k.trim())
+        : this.xmlEvents.keys();
+    if (keys.length === 0) {
+      res.status(404).json({ error: 'No events registered' });
+      return null;
+    }
+
+    const events: CombinedEventSource[] = [];
+    for (const key of keys) {
+      // Each file counts once; a repeated key would double every total
+      if (events.some((e) => e.key === key)) {
+        res.status(400).json({ error: `Event listed twice: ${key}` });
+        return null;
+      }
+      const service = this.xmlEvents.get(key);
+      if (!service) {
+        res.status(404).json({ error: `Event not found: ${key}` });
+        return null;
+      }
+      events.push({ key, service });
+    }
+    return events;
+  }
+
+  /**
+   * GET /api/combined/participants - Participants of several event files,
+   * each boat listed once (?events=day1,day2)
+   */
+  private async handleCombinedParticipants(req: Request, res: Response): Promise<void> {
+    const events = this.selectCombinedEvents(req, res);
+    if (!events) {
+      return;
+    }
+
+    try {
+      const participants = await mergeParticipants(events);
+      res.json({ events: events.map((e) => e.key), participants });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * GET /api/combined/results - Overall standings per class over several
+   * event files (?events=day1,day2&classId=K1M)
+   */
+  private async handleCombinedResults(req: Request, res: Response): Promise<void> {
+    const events = this.selectCombinedEvents(req, res);
+    if (!events) {
+      return;
+    }
+
+    try {
+      const classId = typeof req.query.classId === 'string' && req.query.classId !== '' ? req.query.classId : undefined;
+      const classes = await computeCombinedStandings(events, classId);
+      if (classId !== undefined && classes.length === 0) {
+        res.status(404).json({ error: 'Class not found or no results' });
+        return;
+      }
+      res.json({ events: events.map((e) => e.key), classes });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  // ==========================================================================
+  // Event Archive API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/archive - Archived past events, newest first
+   */
+  private handleGetArchive(_req: Request, res: Response): void {
+    if (!this.eventArchive) {
+      res.status(503).json({ error: 'Event archive not available' });
+      return;
+    }
+
+    res.json({ events: this.eventArchive.list() });
+  }
+
+  /**
+   * GET /api/archive/:id - One archived event
+   */
+  private handleGetArchivedEvent(req: Request, res: Response): void {
+    if (!this.eventArchive) {
+      res.status(503).json({ error: 'Event archive not available' });
+      return;
+    }
+
+    const info = this.eventArchive.get(String(req.params.id));
+    if (!info) {
+      res.status(404).json({ error: 'Archived event not found' });
+      return;
+    }
+
+    res.json(info);
+  }
+
+  /**
+   * GET /api/archive/:id/checks - Penalty checks of an archived event
+   */
+  private handleGetArchivedChecks(req: Request, res: Response): void {
+    if (!this.eventArchive) {
+      res.status(503).json({ error: 'Event archive not available' });
+      return;
+    }
+
+    const id = String(req.params.id);
+    if (!this.eventArchive.get(id)) {
+      res.status(404).json({ error: 'Archived event not found' });
+      return;
+    }
+
+    const data = this.eventArchive.getChecks(id);
+    res.json({
+      xmlFilename: data?.xmlFilename ?? null,
+      fingerprint: data?.fingerprint ?? null,
+      races: data?.races ?? {},
+    });
+  }
+
+  /**
+   * GET /api/archive/:id/audit - Audit trail of an archived event, newest first
+   */
+  private handleGetArchivedAudit(req: Request, res: Response): void {
+    if (!this.eventArchive) {
+      res.status(503).json({ error: 'Event archive not available' });
+      return;
+    }
+
+    const id = String(req.params.id);
+    if (!this.eventArchive.get(id)) {
+      res.status(404).json({ error: 'Archived event not found' });
+      return;
+    }
+
+    const entries = this.eventArchive.getAudit(id);
+    res.json({ count: entries.length, entries });
+  }
+
+  // ==========================================================================
+  // Export API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/export/races/:id/results.pdf|csv - Printable result list of a race
+   */
+  private async handleExportRaceResults(format: 'pdf' | 'csv', req: Request, res: Response): Promise<void> {
+    if (!this.xmlDataService) {
+      res.status(503).json({ error: 'XML data service not available' });
+      return;
+    }
+
+    const raceId = String(req.params.id);
+    try {
+      const doc = await buildResultsExport(this.xmlDataService, raceId);
+      if (!doc) {
+        res.status(404).json({ error: 'Race not found' });
+        return;
+      }
+
+      this.sendExport(res, format, `${raceId}-results`, doc);
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * GET /api/export/races/:id/startlist.pdf|csv - Startlist of a race
+   */
+  private async handleExportRaceStartlist(format: 'pdf' | 'csv', req: Request, res: Response): Promise<void> {
+    if (!this.xmlDataService) {
+      res.status(503).json({ error: 'XML data service not available' });
+      return;
+    }
+
+    const raceId = String(req.params.id);
+    try {
+      const doc = await buildStartlistExport(this.xmlDataService, raceId);
+      if (!doc) {
+        res.status(404).json({ error: 'Race not found' });
+        return;
+      }
+
+      this.sendExport(res, format, `${raceId}-startlist`, doc);
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * GET /api/export/startlists.pdf|csv - Start sheets of all races of a day
+   *
+   * ?date=YYYY-MM-DD selects the day, default is today (or the first day of
+   * the schedule if no race runs today).
+   */
+  private async handleExportDayStartlists(format: 'pdf' | 'csv', req: Request, res: Response): Promise<void> {
+    if (!this.xmlDataService) {
+      res.status(503).json({ error: 'XML data service not available' });
+      return;
+    }
+
+    const date = req.query.date;
+    if (date !== undefined && (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+      res.status(400).json({ error: 'date must be in YYYY-MM-DD format' });
+      return;
+    }
+
+    try {
+      const { day, document } = await buildDayStartlistExport(this.xmlDataService, date);
+      this.sendExport(res, format, day ? `startlists-${day}` : 'startlists', document);
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * GET /api/export/federation/icf.xml|cz.csv - Final results of all classes
+   * in a federation interchange format
+   */
+  private async handleExportFederation(format: 'icf' | 'cz', _req: Request, res: Response): Promise<void> {
+    if (!this.xmlDataService) {
+      res.status(503).json({ error: 'XML data service not available' });
+      return;
+    }
+
+    try {
+      const races = await collectFederationResults(this.xmlDataService);
+      if (format === 'icf') {
+        const eventName = (await this.xmlDataService.getEventName()) ?? '';
+        res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="results-icf.xml"');
+        res.send(renderIcfResultsXml(eventName, races));
+        return;
+      }
+
+      // BOM like the other CSV downloads, the file is opened in a Czech spreadsheet
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="results-cz.csv"');
+      res.send('\uFEFF' + renderCzechRankingCsv(races));
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Send an export as PDF (inline, so a browser opens it for printing) or as
+   * a CSV download. CSV gets a UTF-8 BOM so Excel detects the encoding.
+   */
+  private sendExport(res: Response, format: 'pdf' | 'csv', name: string, doc: ExportDocument): void {
+    const filename = name.replace(/[^A-Za-z0-9_.-]/g, '_');
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+      res.send(renderPdf(doc));
+      return;
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send('\uFEFF' + renderDocumentCsv(doc));
+  }
+
+  // ==========================================================================
+  // Record & Replay API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/recordings - List recording files in the recordings directory
+   */
+  private handleGetRecordings(_req: Request, res: Response): void {
+    const dir = getRecordingsDirectory();
+    let recordings: Array<{ name: string; path: string; size: number; modified: string }> = [];
+
+    try {
+      recordings = fs
+        .readdirSync(dir)
+        .filter((name) => name.endsWith('.jsonl'))
+        .map((name) => {
+          const filePath = path.join(dir, name);
+          const stat = fs.statSync(filePath);
+          return { name, path: filePath, size: stat.size, modified: stat.mtime.toISOString() };
+        })
+        .sort((a, b) => b.modified.localeCompare(a.modified));
+    } catch {
+      // Directory does not exist yet - nothing recorded
+    }
+
+    res.json({ dir, recordings });
+  }
+
+  /**
+   * GET /api/recording - Recording status
+   */
+  private handleGetRecording(_req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    res.json(this.c123Server.getRecordingStatus());
+  }
+
+  /**
+   * POST /api/recording/start - Start recording C123 traffic
+   */
+  private handleStartRecording(_req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    try {
+      this.c123Server.startRecording();
+      res.json({ success: true, ...this.c123Server.getRecordingStatus() });
+    } catch (err) {
+      res.status(500).json({
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * POST /api/recording/stop - Stop recording
+   */
+  private async handleStopRecording(_req: Request, res: Response): Promise<void> {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    await this.c123Server.stopRecording();
+    res.json({ success: true, ...this.c123Server.getRecordingStatus() });
+  }
+
+  /**
+   * GET /api/replay - Replay status
+   */
+  private handleGetReplay(_req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    res.json(this.c123Server.getReplayStatus());
+  }
+
+  /**
+   * POST /api/replay/start - Replace live C123 data with a recording
+   *
+   * Body: { file: string, speed?: number | 'max' }
+   * `file` is either a name from GET /api/recordings or an absolute path.
+   */
+  private handleStartReplay(req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    const { file, speed } = req.body ?? {};
+
+    if (!file || typeof file !== 'string') {
+      res.status(400).json({ error: 'file is required' });
+      return;
+    }
+
+    const replaySpeed = speed === undefined ? 1 : parseReplaySpeed(speed);
+    if (replaySpeed === null) {
+      res.status(400).json({ error: "speed must be a positive number or 'max'" });
+      return;
+    }
+
+    // Bare names are looked up in the recordings directory; anything else
+    // must be an absolute path.
+    const filePath = path.isAbsolute(file)
+      ? file
+      : path.join(getRecordingsDirectory(), path.basename(file));
+
+    if (!fs.existsSync(filePath)) {
+      res.status(404).json({ error: 'Recording not found', detail: filePath });
+      return;
+    }
+
+    this.c123Server.startReplay(filePath, replaySpeed);
+    res.json({ success: true, ...this.c123Server.getReplayStatus() });
+  }
+
+  /**
+   * POST /api/replay/stop - Stop replay and return to live C123 data
+   */
+  private handleStopReplay(_req: Request, res: Response): void {
+    if (!this.c123Server) {
+      res.status(503).json({ error: 'Server not available' });
+      return;
+    }
+
+    this.c123Server.stopReplay();
+    res.json({ success: true, ...this.c123Server.getReplayStatus() });
+  }
+
+  // ==========================================================================
+  // Live-Mini API Handlers
+  // ==========================================================================
+
+  /**
+   * GET /api/live/status - Get current Live-Mini pusher status
+   */
+  private handleLiveStatus(_req: Request, res: Response): void {
+    if (!this.livePusher) {
+      res.status(503).json({ error: 'Live-Mini pusher not available' });
+      return;
+    }
+
+    const status = this.livePusher.getStatus();
+    const settings = getAppSettings();
+    const liveConfig = settings.getLiveConfig();
+    res.json({ status, apiKey: liveConfig.apiKey || null });
+  }
+
+  /**
+   * POST /api/live/events - List events on a live server (proxy to avoid CORS)
+   *
+   * Body: { serverUrl: string, masterKey?: string }
    */
   private async handleLiveListEvents(req: Request, res: Response): Promise<void> {
     const { serverUrl, masterKey } = req.body;
@@ -3427,8 +5199,14 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
       return;
     }
 
+    const section = this.querySection(req);
+    if (section === null) {
+      res.status(400).json({ error: `Unknown judge section: ${req.query.section}` });
+      return;
+    }
+
     const { raceId } = req.params;
-    const { checks, flags } = this.checksStore.getChecks(raceId);
+    const { checks, flags } = this.checksStore.getChecks(raceId, section);
 
     res.json({ checks, flags });
   }
@@ -3440,14 +5218,20 @@ export class UnifiedServer extends EventEmitter<UnifiedServerEvents> {
    * Serving that from the per-race route would take one request per race in
    * the schedule; the store already holds them all in one object.
    */
-  private handleGetAllChecks(_req: Request, res: Response): void {
+  private handleGetAllChecks(req: Request, res: Response): void {
     if (!this.checksStore) {
       Logger.warn('Unified', 'Checks API: ChecksStore not initialized');
       res.status(503).json({ error: 'Checks service not available' });
       return;
     }
 
-    const data = this.checksStore.getAllChecks();
+    const section = this.querySection(req);
+    if (section === null) {
+      res.status(400).json({ error: `Unknown judge section: ${req.query.section}` });
+      return;
+    }
+
+    const data = this.checksStore.getAllChecks(section);
 
     if (!data) {
       Logger.debug('Unified', 'GET /api/checks: no checks file loaded');
@@ -0,0 +1,144 @@
+/**
+ * Integration tests for the read-only archive of past events
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { EventArchive } from '../../archive/EventArchive.js';
+import type { ArchivedEventInfo } from '../../archive/types.js';
+import { resetAppSettings } from '../../config/index.js';
+
+function eventXml(title: string, raceId: string): string {
+  return `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>${title}</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>1</EventBib>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+  </Participants>
+  <Schedule>
+    <RaceId>${raceId}</RaceId>
+    <RaceOrder>1</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+  </Schedule>
+  <Results>
+    <RaceId>${raceId}</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>82000</Time>
+    <Pen>2</Pen>
+    <Total>84000</Total>
+    <Rnk>1</Rnk>
+  </Results>
+</Canoe123Data>`;
+}
+
+describe('Event Archive API', () => {
+  let server: UnifiedServer;
+  let baseUrl: string;
+  let tempDir: string;
+  let archive: EventArchive;
+  let archived: ArchivedEventInfo;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'archive-api-test-'));
+    process.env.HOME = tempDir;
+
+    const xmlPath = join(tempDir, 'cup.xml');
+    const auditPath = join(tempDir, 'cup.xml.audit.jsonl');
+    writeFileSync(xmlPath, eventXml('Czech Cup', 'K1M_ST_BR1_6'));
+    writeFileSync(auditPath, JSON.stringify({ id: 'a1', command: 'scoring', bib: '1', success: true }) + '\n');
+
+    archive = new EventArchive({ dir: join(tempDir, 'archive') });
+    archived = (await archive.archive({
+      reason: 'xml-path-change',
+      xmlPath,
+      checks: {
+        xmlFilename: 'cup.xml',
+        fingerprint: null,
+        lastModified: '2026-10-17T12:00:00.000Z',
+        races: { K1M_ST_BR1_6: { checks: { '1:3': { checkedAt: '2026-10-17T10:05:00.000Z', value: 2 } }, flags: [] } },
+      },
+      auditPath,
+      settings: null,
+    }))!;
+
+    // The live file has moved on to the next event
+    writeFileSync(xmlPath, eventXml('Next Event', 'C1W_ST_BR1_7'));
+    const xmlDataService = new XmlDataService();
+    xmlDataService.setPath(xmlPath);
+
+    server = new UnifiedServer({ port: 0 });
+    server.setXmlDataService(xmlDataService);
+    server.setEventArchive(archive);
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  it('lists archived events', async () => {
+    const res = await fetch(`${baseUrl}/api/archive`);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ events: [archived] });
+  });
+
+  it('returns one archived event', async () => {
+    const res = await fetch(`${baseUrl}/api/archive/${archived.id}`);
+
+    expect(await res.json()).toMatchObject({ id: archived.id, eventName: 'Czech Cup' });
+    expect((await fetch(`${baseUrl}/api/archive/nope`)).status).toBe(404);
+  });
+
+  it('serves archived results through the XML routes', async () => {
+    const races = await fetch(`${baseUrl}/api/archive/${archived.id}/xml/races`);
+    const { races: list } = (await races.json()) as { races: { raceId: string }[] };
+    expect(list.map((r) => r.raceId)).toEqual(['K1M_ST_BR1_6']);
+
+    const results = await fetch(`${baseUrl}/api/archive/${archived.id}/xml/races/K1M_ST_BR1_6/results`);
+    expect(results.status).toBe(200);
+
+    // The live XML routes show the current event
+    const live = await fetch(`${baseUrl}/api/xml/races`);
+    const liveRaces = ((await live.json()) as { races: { raceId: string }[] }).races;
+    expect(liveRaces.map((r) => r.raceId)).toEqual(['C1W_ST_BR1_7']);
+  });
+
+  it('returns 404 for the XML of an unknown archive', async () => {
+    const res = await fetch(`${baseUrl}/api/archive/nope/xml/races`);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Archived event not found' });
+  });
+
+  it('serves archived checks and audit entries', async () => {
+    const checks = await fetch(`${baseUrl}/api/archive/${archived.id}/checks`);
+    expect(await checks.json()).toMatchObject({ xmlFilename: 'cup.xml', races: { K1M_ST_BR1_6: { flags: [] } } });
+
+    const audit = await fetch(`${baseUrl}/api/archive/${archived.id}/audit`);
+    expect(await audit.json()).toMatchObject({ count: 1, entries: [{ id: 'a1' }] });
+  });
+
+  it('has no write routes', async () => {
+    const res = await fetch(`${baseUrl}/api/archive/${archived.id}`, { method: 'DELETE' });
+
+    expect(res.status).toBe(404);
+    expect(archive.list()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Integration tests for optional authentication and roles.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { ChecksStore } from '../../checks/ChecksStore.js';
+import { getAppSettings, resetAppSettings } from '../../config/index.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonResponse = Record<string, any>;
+
+function connect(url: string): Promise<{ opened: boolean; status?: number }> {
+  return new Promise((resolve) => {
+    const ws = new WebSocket(url);
+    ws.on('open', () => {
+      ws.close();
+      resolve({ opened: true });
+    });
+    ws.on('unexpected-response', (_req, res) => {
+      resolve({ opened: false, status: res.statusCode });
+    });
+    ws.on('error', () => resolve({ opened: false }));
+  });
+}
+
+describe('Authentication', () => {
+  let server: UnifiedServer;
+  let store: ChecksStore;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'auth-api-test-'));
+    process.env.HOME = tempDir;
+
+    store = new ChecksStore();
+    store.loadForFile('test-event.xml');
+
+    server = new UnifiedServer({ port: 0 });
+    await server.start();
+    server.setChecksStore(store);
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    store.destroy();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  function enableAuth(overrides: Record<string, unknown> = {}): void {
+    getAppSettings().updateAuthConfig({
+      enabled: true,
+      tokens: [
+        { token: 'admin-token', role: 'admin' },
+        { token: 'judge-token', role: 'judge' },
+      ],
+      pin: '4321',
+      ...overrides,
+    });
+  }
+
+  function auth(token: string): { headers: Record<string, string> } {
+    return { headers: { Authorization: `Bearer ${token}` } };
+  }
+
+  describe('when disabled (default)', () => {
+    it('leaves every endpoint open', async () => {
+      const res = await fetch(`${baseUrl}/api/clients`);
+      expect(res.status).toBe(200);
+
+      const info = (await (await fetch(`${baseUrl}/api/auth`)).json()) as JsonResponse;
+      expect(info).toEqual({ enabled: false, role: 'admin', label: null });
+    });
+
+    it('allows any CORS origin', async () => {
+      const res = await fetch(`${baseUrl}/api/status`, { headers: { Origin: 'http://example.com' } });
+      expect(res.headers.get('access-control-allow-origin')).toBe('*');
+    });
+  });
+
+  describe('when enabled', () => {
+    beforeEach(() => enableAuth());
+
+    it('keeps read endpoints open to anonymous scoreboards', async () => {
+      expect((await fetch(`${baseUrl}/api/status`)).status).toBe(200);
+      expect((await fetch(`${baseUrl}/api/checks`)).status).toBe(200);
+    });
+
+    it('leaves credentials out of the configuration', async () => {
+      getAppSettings().updateLiveConfig({ apiKey: 'live-secret' });
+      for (const res of [await fetch(`${baseUrl}/api/config`), await fetch(`${baseUrl}/api/config`, auth('admin-token'))]) {
+        expect(res.status).toBe(200);
+        const text = await res.text();
+        expect(text).not.toContain('admin-token');
+        expect(text).not.toContain('4321');
+        expect(text).not.toContain('live-secret');
+        expect((JSON.parse(text) as JsonResponse).settings.auth).toEqual({ enabled: true, tokens: [], anonymousRole: 'scoreboard', allowedOrigins: ['*'] });
+      }
+    });
+
+    it('requires admin for config, clients and live endpoints', async () => {
+      expect((await fetch(`${baseUrl}/api/clients`)).status).toBe(403);
+      expect((await fetch(`${baseUrl}/api/live/status`, auth('judge-token'))).status).toBe(403);
+      expect((await fetch(`${baseUrl}/api/clients`, auth('admin-token'))).status).toBe(200);
+
+      const res = await fetch(`${baseUrl}/api/event`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'Hacked' }),
+      });
+      expect(res.status).toBe(403);
+      expect(((await res.json()) as JsonResponse).detail).toBe('Requires admin role');
+    });
+
+    it('requires judge for the Write API and checks', async () => {
+      const body = { method: 'PUT', body: JSON.stringify({ bib: '1', gate: 1, value: 0 }) };
+
+      const anonymous = await fetch(`${baseUrl}/api/checks/K1M_BR1/check`, {
+        ...body,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      expect(anonymous.status).toBe(403);
+
+      const judge = await fetch(`${baseUrl}/api/checks/K1M_BR1/check`, {
+        ...body,
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer judge-token' },
+      });
+      expect(judge.status).toBe(200);
+
+      const scoring = await fetch(`${baseUrl}/api/c123/scoring`, { method: 'POST' });
+      expect(scoring.status).toBe(403);
+    });
+
+    it('accepts the PIN as judge', async () => {
+      const info = (await (await fetch(`${baseUrl}/api/auth`, auth('4321'))).json()) as JsonResponse;
+      expect(info).toEqual({ enabled: true, role: 'judge', label: 'PIN' });
+    });
+
+    it('rejects an unknown token with 401', async () => {
+      const res = await fetch(`${baseUrl}/api/status`, auth('bogus'));
+      expect(res.status).toBe(401);
+    });
+
+    it('requires a credential for everything but discovery when anonymous access is off', async () => {
+      getAppSettings().updateAuthConfig({ anonymousRole: null });
+
+      expect((await fetch(`${baseUrl}/api/status`)).status).toBe(401);
+      expect((await fetch(`${baseUrl}/api/discover`)).status).toBe(200);
+      expect((await fetch(`${baseUrl}/api/status`, auth('judge-token'))).status).toBe(200);
+    });
+
+    it('restricts CORS to allowed origins', async () => {
+      getAppSettings().updateAuthConfig({ allowedOrigins: ['http://scoreboard.local'] });
+
+      const allowed = await fetch(`${baseUrl}/api/status`, { headers: { Origin: 'http://scoreboard.local' } });
+      expect(allowed.headers.get('access-control-allow-origin')).toBe('http://scoreboard.local');
+
+      const other = await fetch(`${baseUrl}/api/status`, { headers: { Origin: 'http://evil.example' } });
+      expect(other.headers.get('access-control-allow-origin')).toBeNull();
+    });
+
+    it('requires admin for ?admin=1 WebSocket connections', async () => {
+      const wsUrl = `ws://localhost:${server.getPort()}/ws`;
+
+      expect(await connect(`${wsUrl}?admin=1`)).toEqual({ opened: false, status: 403 });
+      expect(await connect(`${wsUrl}?admin=1&token=bogus`)).toEqual({ opened: false, status: 401 });
+      expect((await connect(`${wsUrl}?admin=1&token=admin-token`)).opened).toBe(true);
+      expect((await connect(wsUrl)).opened).toBe(true);
+    });
+  });
+});
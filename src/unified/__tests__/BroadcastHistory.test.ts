@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { BroadcastHistory } from '../BroadcastHistory.js';
+import type { C123ForceRefresh } from '../../protocol/types.js';
+
+function message(reason: string): C123ForceRefresh {
+  return { type: 'ForceRefresh', timestamp: '2026-01-01T00:00:00.000Z', data: { reason } };
+}
+
+describe('BroadcastHistory', () => {
+  it('assigns increasing ids starting at 1', () => {
+    const history = new BroadcastHistory(10);
+    expect(history.lastId).toBe(0);
+
+    expect(history.record(message('a')).id).toBe(1);
+    expect(history.record(message('b')).id).toBe(2);
+    expect(history.lastId).toBe(2);
+  });
+
+  it('stamps the id on the message as seq', () => {
+    const history = new BroadcastHistory(10);
+    const original = message('a');
+    const entry = history.record(original);
+
+    expect(entry.message).toEqual({ ...original, seq: 1 });
+    expect(JSON.parse(entry.json)).toEqual({ ...original, seq: 1 });
+    expect(original.seq).toBeUndefined();
+  });
+
+  it('returns the entries after an id', () => {
+    const history = new BroadcastHistory(10);
+    for (const reason of ['a', 'b', 'c']) {
+      history.record(message(reason));
+    }
+
+    expect(history.since(1)!.map((e) => e.id)).toEqual([2, 3]);
+    expect(history.since(0)!.map((e) => e.id)).toEqual([1, 2, 3]);
+    expect(history.since(3)).toEqual([]);
+  });
+
+  it('returns null once missed entries have been overwritten', () => {
+    const history = new BroadcastHistory(3);
+    for (let i = 0; i < 5; i++) {
+      history.record(message(String(i)));
+    }
+
+    // Ids 3-5 are buffered
+    expect(history.since(2)!.map((e) => e.id)).toEqual([3, 4, 5]);
+    expect(history.since(1)).toBeNull();
+  });
+
+  it('resumes from event ids of its own epoch only', () => {
+    const history = new BroadcastHistory(10, 'boot1');
+    for (const reason of ['a', 'b', 'c']) {
+      history.record(message(reason));
+    }
+
+    expect(history.record(message('d')).eventId).toBe('boot1-4');
+    expect(history.resume('boot1-2')!.map((e) => e.id)).toEqual([3, 4]);
+    // Same seq, but issued before a restart
+    expect(history.resume('boot0-2')).toBeNull();
+    expect(history.resume('2')).toBeNull();
+    expect(history.resume('boot1-x')).toBeNull();
+    expect(new BroadcastHistory(10).epoch).not.toBe(new BroadcastHistory(10).epoch);
+  });
+
+  it('returns null for ids it never issued', () => {
+    const history = new BroadcastHistory(3);
+    history.record(message('a'));
+
+    expect(history.since(7)).toBeNull();
+    expect(history.since(-1)).toBeNull();
+    expect(history.since(Number.NaN)).toBeNull();
+  });
+});
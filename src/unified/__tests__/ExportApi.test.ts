@@ -0,0 +1,149 @@
+/**
+ * Integration tests for the printable export endpoints
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { resetAppSettings } from '../../config/index.js';
+
+const xml = `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>Czech Cup</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha, z.s.</Club>
+  </Participants>
+  <Schedule>
+    <RaceId>K1M_BR1_1</RaceId>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+    <CustomTitle>K1m - 1st run</CustomTitle>
+    <StartTime>2024-04-06T08:30:00+02:00</StartTime>
+  </Schedule>
+  <Results>
+    <RaceId>K1M_BR1_1</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>80000</Time>
+    <Pen>2</Pen>
+    <Total>82000</Total>
+    <Rnk>1</Rnk>
+    <Gates>  0  2</Gates>
+  </Results>
+</Canoe123Data>`;
+
+describe('Export API', () => {
+  let server: UnifiedServer;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'export-api-test-'));
+    process.env.HOME = tempDir;
+
+    const xmlPath = join(tempDir, 'event.xml');
+    writeFileSync(xmlPath, xml);
+    const xmlDataService = new XmlDataService();
+    xmlDataService.setPath(xmlPath);
+
+    server = new UnifiedServer({ port: 0 });
+    server.setXmlDataService(xmlDataService);
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  it('serves the result list as PDF for printing', async () => {
+    const res = await fetch(`${baseUrl}/api/export/races/K1M_BR1_1/results.pdf`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('application/pdf');
+    expect(res.headers.get('content-disposition')).toBe('inline; filename="K1M_BR1_1-results.pdf"');
+    const body = Buffer.from(await res.arrayBuffer());
+    expect(body.subarray(0, 8).toString()).toBe('%PDF-1.4');
+  });
+
+  it('serves the result list as CSV download with a BOM', async () => {
+    const res = await fetch(`${baseUrl}/api/export/races/K1M_BR1_1/results.csv`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/csv; charset=utf-8');
+    expect(res.headers.get('content-disposition')).toBe('attachment; filename="K1M_BR1_1-results.csv"');
+    const body = Buffer.from(await res.arrayBuffer()).toString('utf-8');
+    expect(body.startsWith('﻿Rank,Bib,Name,Club,')).toBe(true);
+    expect(body).toContain('1.,1,PRSKAVEC Jiří,"USK Praha, z.s.",,,80.00,2,82.00,,0 2\r\n');
+  });
+
+  it('serves the startlist of a race', async () => {
+    const res = await fetch(`${baseUrl}/api/export/races/K1M_BR1_1/startlist.csv`);
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-disposition')).toBe('attachment; filename="K1M_BR1_1-startlist.csv"');
+    const body = Buffer.from(await res.arrayBuffer()).toString('utf-8');
+    expect(body).toBe('\uFEFFNo.,Bib,Start,Name,Club\r\n0,1,,PRSKAVEC Jiří,"USK Praha, z.s."\r\n');
+  });
+
+  it('serves the start sheets of a day', async () => {
+    const pdf = await fetch(`${baseUrl}/api/export/startlists.pdf?date=2024-04-06`);
+    expect(pdf.status).toBe(200);
+    expect(pdf.headers.get('content-disposition')).toBe('inline; filename="startlists-2024-04-06.pdf"');
+
+    const csv = await fetch(`${baseUrl}/api/export/startlists.csv?date=2024-04-06`);
+    const body = Buffer.from(await csv.arrayBuffer()).toString('utf-8');
+    expect(body.split('\r\n')[0]).toBe('\uFEFFRaceId,No.,Bib,Start,Name,Club');
+  });
+
+  it('rejects a malformed date', async () => {
+    const res = await fetch(`${baseUrl}/api/export/startlists.pdf?date=6.4.2024`);
+
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'date must be in YYYY-MM-DD format' });
+  });
+
+  it('serves federation results as XML and a Czech ranking CSV with a BOM', async () => {
+    const icf = await fetch(`${baseUrl}/api/export/federation/icf.xml`);
+    expect(icf.status).toBe(200);
+    expect(icf.headers.get('content-type')).toBe('application/xml; charset=utf-8');
+    expect(await icf.text()).toContain('<Race RaceId="K1M_BR1_1" ClassId="K1M" Title="K1m - 1st run">');
+
+    const cz = await fetch(`${baseUrl}/api/export/federation/cz.csv`);
+    expect(cz.status).toBe(200);
+    expect(cz.headers.get('content-disposition')).toBe('attachment; filename="results-cz.csv"');
+    const body = Buffer.from(await cz.arrayBuffer()).toString('utf-8');
+    expect(body.startsWith('\uFEFFRaceId;')).toBe(true);
+    expect(body).toContain('K1M_BR1_1;K1M;;1;1;;PRSKAVEC;Jiří;;;;USK Praha, z.s.;80,00;2;82,00;;;;82,00;');
+  });
+
+  it('returns 404 for an unknown race', async () => {
+    const res = await fetch(`${baseUrl}/api/export/races/C1W_BR1_1/results.pdf`);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Race not found' });
+  });
+
+  it('returns 503 without XML data service', async () => {
+    const bare = new UnifiedServer({ port: 0 });
+    await bare.start();
+    try {
+      const res = await fetch(`http://localhost:${bare.getPort()}/api/export/races/K1M_BR1_1/results.csv`);
+      expect(res.status).toBe(503);
+    } finally {
+      await bare.stop();
+    }
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Integration tests for judge sections: configuration, client assignment and
+ * the per-section checks view.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { ChecksStore } from '../../checks/ChecksStore.js';
+import { resetAppSettings } from '../../config/index.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonResponse = Record<string, any>;
+
+const SECTIONS = [
+  { id: 's1', label: 'Section 1', fromGate: 1, toGate: 6 },
+  { id: 's2', label: 'Section 2', fromGate: 7, toGate: 12 },
+];
+
+describe('Judge Sections API', () => {
+  let server: UnifiedServer;
+  let store: ChecksStore;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'judge-sections-api-test-'));
+    process.env.HOME = tempDir;
+
+    store = new ChecksStore();
+    store.loadForFile('test-event.xml');
+
+    server = new UnifiedServer({ port: 0 });
+    await server.start();
+    server.setChecksStore(store);
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    store.destroy();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  function putJson(path: string, body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('stores sections and reports the section of the requesting client', async () => {
+    expect((await putJson('/api/config/judge-sections', { sections: SECTIONS })).status).toBe(200);
+    expect((await putJson('/api/clients/tablet-2/config', { judgeSection: 's2' })).status).toBe(200);
+
+    const mine = (await (
+      await fetch(`${baseUrl}/api/config/judge-sections`, { headers: { 'X-Client-Id': 'tablet-2' } })
+    ).json()) as JsonResponse;
+    expect(mine).toEqual({ sections: SECTIONS, assigned: SECTIONS[1] });
+
+    const other = (await (await fetch(`${baseUrl}/api/config/judge-sections`)).json()) as JsonResponse;
+    expect(other.assigned).toBeNull();
+  });
+
+  it('rejects invalid sections and unknown assignments', async () => {
+    const invalid = await putJson('/api/config/judge-sections', { sections: [{ id: 's1', fromGate: 8, toGate: 2 }] });
+    expect(invalid.status).toBe(400);
+
+    const unknown = await putJson('/api/clients/tablet-2/config', { judgeSection: 's9' });
+    expect(unknown.status).toBe(400);
+    expect(((await unknown.json()) as JsonResponse).error).toBe('judgeSection must be the id of a judge section or null');
+  });
+
+  it('clears an assignment with null', async () => {
+    await putJson('/api/config/judge-sections', { sections: SECTIONS });
+    await putJson('/api/clients/tablet-2/config', { judgeSection: 's2', label: 'Tablet 2' });
+    await putJson('/api/clients/tablet-2/config', { judgeSection: null });
+
+    const clients = (await (await fetch(`${baseUrl}/api/clients`)).json()) as JsonResponse;
+    const tablet = clients.clients.find((c: JsonResponse) => c.configKey === 'tablet-2');
+    expect(tablet.serverConfig.judgeSection).toBeUndefined();
+  });
+
+  it('filters the checks view by section', async () => {
+    await putJson('/api/config/judge-sections', { sections: SECTIONS });
+    store.setCheck('K1M_BR1', '1', 3, 2);
+    store.setCheck('K1M_BR1', '1', 9, 0);
+
+    const race = (await (await fetch(`${baseUrl}/api/checks/K1M_BR1?section=s2`)).json()) as JsonResponse;
+    expect(Object.keys(race.checks)).toEqual(['1:9']);
+
+    const all = (await (await fetch(`${baseUrl}/api/checks?section=s1`)).json()) as JsonResponse;
+    expect(Object.keys(all.races.K1M_BR1.checks)).toEqual(['1:3']);
+
+    const unknown = await fetch(`${baseUrl}/api/checks/K1M_BR1?section=s9`);
+    expect(unknown.status).toBe(400);
+  });
+});
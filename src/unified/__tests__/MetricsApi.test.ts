@@ -0,0 +1,82 @@
+/**
+ * Integration tests for the Prometheus metrics endpoint
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { getAppSettings, resetAppSettings } from '../../config/index.js';
+import { getMetrics, resetMetrics } from '../../metrics/index.js';
+
+describe('Metrics API', () => {
+  let server: UnifiedServer;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    resetMetrics();
+    tempDir = mkdtempSync(join(tmpdir(), 'metrics-api-test-'));
+    process.env.HOME = tempDir;
+
+    server = new UnifiedServer({ port: 0 });
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+    resetMetrics();
+  });
+
+  it('serves metrics in the Prometheus text format', async () => {
+    getMetrics().tcpMessages.inc({ type: 'oncourse' });
+    getMetrics().writeCommands.inc({ command: 'scoring', result: 'success' });
+
+    const res = await fetch(`${baseUrl}/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/plain; version=0.0.4; charset=utf-8');
+
+    const body = await res.text();
+    expect(body).toContain('# TYPE c123_tcp_messages_total counter');
+    expect(body).toContain('c123_tcp_messages_total{type="oncourse"} 1');
+    expect(body).toContain('c123_write_commands_total{command="scoring",result="success"} 1');
+    expect(body).toContain('c123_tcp_connected 0');
+    expect(body).toContain('c123_live_circuit_breaker_open 0');
+  });
+
+  it('reports connected scoreboard sessions', async () => {
+    const client = new WebSocket(`ws://localhost:${server.getPort()}/ws`);
+    await new Promise<void>((resolve, reject) => {
+      client.on('open', () => resolve());
+      client.on('error', reject);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const body = await (await fetch(`${baseUrl}/metrics`)).text();
+    expect(body).toContain('c123_scoreboard_sessions 1');
+
+    client.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+
+  it('requires credentials when auth is enabled', async () => {
+    getAppSettings().updateAuthConfig({
+      enabled: true,
+      anonymousRole: null,
+      tokens: [{ token: 'viewer-token', role: 'viewer' }],
+    });
+
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(401);
+
+    const res = await fetch(`${baseUrl}/metrics`, { headers: { Authorization: 'Bearer viewer-token' } });
+    expect(res.status).toBe(200);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Integration tests for ranked results and the ranking configuration
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { resetAppSettings } from '../../config/index.js';
+import type { C123Message } from '../../protocol/types.js';
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type JsonResponse = Record<string, any>;
+
+function participant(bib: string, familyName: string): string {
+  return `
+  <Participants>
+    <Id>${bib}.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>${bib}</EventBib>
+    <FamilyName>${familyName}</FamilyName>
+    <GivenName>Test</GivenName>
+    <Club>Club</Club>
+  </Participants>`;
+}
+
+function result(raceId: string, bib: string, time: number): string {
+  return `
+  <Results>
+    <RaceId>${raceId}</RaceId>
+    <Id>${bib}.K1M</Id>
+    <Bib>${bib}</Bib>
+    <Time>${time}</Time>
+    <Pen>0</Pen>
+    <Total>${time}</Total>
+  </Results>`;
+}
+
+// Tied on the better run (85 s); boat 1 has the better other run
+const xml = `<?xml version="1.0"?>
+<Canoe123Data>${participant('1', 'PRSKAVEC')}${participant('2', 'FUKSA')}
+  <Schedule>
+    <RaceId>K1M_ST_BR1_6</RaceId>
+    <RaceOrder>1</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>BR1</DisId>
+  </Schedule>
+  <Schedule>
+    <RaceId>K1M_ST_BR2_6</RaceId>
+    <RaceOrder>2</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>BR2</DisId>
+  </Schedule>${result('K1M_ST_BR1_6', '1', 90000)}${result('K1M_ST_BR1_6', '2', 85000)}${result('K1M_ST_BR2_6', '1', 85000)}${result('K1M_ST_BR2_6', '2', 92000)}
+</Canoe123Data>`;
+
+describe('Ranking API', () => {
+  let server: UnifiedServer;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'ranking-api-test-'));
+    process.env.HOME = tempDir;
+
+    const xmlPath = join(tempDir, 'event.xml');
+    writeFileSync(xmlPath, xml);
+    const xmlDataService = new XmlDataService();
+    xmlDataService.setPath(xmlPath);
+
+    server = new UnifiedServer({ port: 0 });
+    server.setXmlDataService(xmlDataService);
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  async function getJson(path: string): Promise<[number, JsonResponse]> {
+    const res = await fetch(`${baseUrl}${path}`);
+    return [res.status, (await res.json()) as JsonResponse];
+  }
+
+  function putJson(path: string, body: unknown): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it('ranks both runs of a race with ICF tie-breaks', async () => {
+    const [status, body] = await getJson('/api/xml/races/K1M_ST_BR2_6/results?ranking=best');
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ classId: 'K1M', ranking: 'best', tieBreak: 'icf', raceIds: ['K1M_ST_BR1_6', 'K1M_ST_BR2_6'] });
+    expect(body.results.map((r: JsonResponse) => [r.familyName, r.rank, r.total])).toEqual([
+      ['PRSKAVEC', 1, 85000],
+      ['FUKSA', 2, 85000],
+    ]);
+  });
+
+  it('applies query parameters over the configured defaults', async () => {
+    expect((await putJson('/api/config/ranking', { ranking: { rule: 'best', tieBreak: 'shared' } })).status).toBe(200);
+
+    const [, shared] = await getJson('/api/xml/races/K1M_ST_BR1_6/results?ranking=best');
+    expect(shared.tieBreak).toBe('shared');
+    expect(shared.results.map((r: JsonResponse) => r.rank)).toEqual([1, 1]);
+
+    const [, icf] = await getJson('/api/xml/races/K1M_ST_BR1_6/results?ranking=sum&tieBreak=icf');
+    expect(icf.results.map((r: JsonResponse) => [r.familyName, r.total])).toEqual([
+      ['PRSKAVEC', 175000],
+      ['FUKSA', 177000],
+    ]);
+  });
+
+  it('defaults query parameters to the ranking of the class', async () => {
+    const ranking = { rule: 'sum', classes: { K1M: { rule: 'best', tieBreak: 'shared' } } };
+    expect((await putJson('/api/config/ranking', { ranking })).status).toBe(200);
+
+    const [, body] = await getJson('/api/xml/races/K1M_ST_BR1_6/results?ranking=best');
+    expect(body.tieBreak).toBe('shared');
+    expect(body.results.map((r: JsonResponse) => r.rank)).toEqual([1, 1]);
+  });
+
+  it('rejects invalid ranking parameters and unknown races', async () => {
+    expect(await getJson('/api/xml/races/K1M_ST_BR1_6/results?ranking=fastest')).toEqual([
+      400,
+      { error: 'ranking must be one of: best, sum, progression' },
+    ]);
+    expect(await getJson('/api/xml/races/K1M_ST_BR1_6/results?ranking=progression&final=0')).toEqual([
+      400,
+      { error: 'final must be a positive integer' },
+    ]);
+    expect((await getJson('/api/xml/races/NOPE/results?ranking=best'))[0]).toBe(404);
+  });
+
+  it('stores and validates the ranking settings', async () => {
+    const ranking = { rule: 'best', classes: { K1M: { rule: 'progression', finalQualifiers: 6 } }, finalQualifiers: 10 };
+    const res = await putJson('/api/config/ranking', { ranking });
+    expect(res.status).toBe(200);
+    expect(await getJson('/api/config/ranking')).toEqual([200, { ranking }]);
+
+    const invalid = await putJson('/api/config/ranking', { ranking: { classes: { K1M: { rule: 'fastest' } } } });
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as JsonResponse).error).toBe('classes.K1M.rule must be one of: best, sum, progression');
+
+    const shorthand = await putJson('/api/config/ranking', { ranking: { classes: { K1M: 'sum' } } });
+    expect(((await shorthand.json()) as JsonResponse).error).toBe('classes.K1M must be an object');
+
+    const qualifiers = await putJson('/api/config/ranking', {
+      ranking: { classes: { K1M: { rule: 'progression', semiQualifiers: 0 } } },
+    });
+    expect(((await qualifiers.json()) as JsonResponse).error).toBe('classes.K1M.semiQualifiers must be a positive integer');
+  });
+
+  it('broadcasts RankedResults to scoreboards', async () => {
+    const service = new XmlDataService();
+    service.setPath(join(tempDir, 'event.xml'));
+    const ranked = await service.getRankedResults('K1M_ST_BR1_6', { rule: 'best' });
+    expect(ranked).not.toBeNull();
+
+    const client = new WebSocket(`ws://localhost:${server.getPort()}/ws`);
+    const messages: C123Message[] = [];
+    client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise<void>((resolve) => client.on('open', () => resolve()));
+
+    server.broadcastRankedResults('K1M_ST_BR1_6', ranked!);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(messages.find((m) => m.type === 'RankedResults')).toMatchObject({
+      type: 'RankedResults',
+      data: { raceId: 'K1M_ST_BR1_6', ranking: 'best', classId: 'K1M', results: [{ bib: '1', rank: 1 }, { bib: '2', rank: 2 }] },
+    });
+
+    client.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+});
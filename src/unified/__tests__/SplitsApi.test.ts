@@ -0,0 +1,134 @@
+/**
+ * Integration tests for split times (REST and SplitTimes broadcast)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WebSocket } from 'ws';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { EventState } from '../../state/EventState.js';
+import { resetAppSettings } from '../../config/index.js';
+import type { C123Message, OnCourseCompetitor } from '../../protocol/index.js';
+
+const RACE_ID = 'K1M_ST_BR1_6';
+
+function competitor(bib: string, time: string, ttbDiff: string): OnCourseCompetitor {
+  return {
+    bib,
+    name: `Competitor ${bib}`,
+    club: 'Club',
+    nat: 'CZE',
+    raceId: RACE_ID,
+    raceName: 'K1m - 1. jízda',
+    startOrder: Number(bib),
+    warning: '',
+    gates: '',
+    completed: false,
+    dtStart: '10:00:00.000',
+    dtFinish: null,
+    pen: 0,
+    time,
+    total: null,
+    ttbDiff,
+    ttbName: '',
+    rank: 0,
+    position: 1,
+  };
+}
+
+describe('Splits API', () => {
+  let server: UnifiedServer;
+  let eventState: EventState;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'splits-api-test-'));
+    process.env.HOME = tempDir;
+
+    eventState = new EventState();
+    server = new UnifiedServer({ port: 0 });
+    server.setEventState(eventState);
+    eventState.on('split', (impulse) => server.broadcastSplitTimes(impulse));
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    eventState.destroy();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  /** Start a competitor and pass split 1 at the given time */
+  function passSplit(bib: string, time: string, ttbDiff: string): void {
+    eventState.processMessage({ type: 'oncourse', data: { total: 1, competitors: [competitor(bib, '5', '')] } });
+    eventState.processMessage({ type: 'oncourse', data: { total: 1, competitors: [competitor(bib, time, ttbDiff)] } });
+  }
+
+  it('returns an empty list for a race without splits', async () => {
+    const res = await fetch(`${baseUrl}/api/races/${RACE_ID}/splits`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ raceId: RACE_ID, nrSplits: 0, competitors: [] });
+  });
+
+  it('returns split times with ranks and gaps', async () => {
+    passSplit('1', '31.20', '+0.40');
+    passSplit('2', '30.80', '-0.40');
+
+    const res = await fetch(`${baseUrl}/api/races/${RACE_ID}/splits`);
+    const body = await res.json();
+
+    expect(body.competitors).toEqual([
+      expect.objectContaining({ bib: '1', splits: [{ split: 1, time: 31.2, pen: 0, total: 31.2, rank: 2, behind: 0.4 }] }),
+      expect.objectContaining({ bib: '2', splits: [{ split: 1, time: 30.8, pen: 0, total: 30.8, rank: 1, behind: 0 }] }),
+    ]);
+  });
+
+  it('orders by rank at the requested split', async () => {
+    passSplit('1', '31.20', '+0.40');
+    passSplit('2', '30.80', '-0.40');
+
+    const body = await (await fetch(`${baseUrl}/api/races/${RACE_ID}/splits?split=1`)).json();
+    expect(body.competitors.map((c: { bib: string }) => c.bib)).toEqual(['2', '1']);
+
+    const none = await (await fetch(`${baseUrl}/api/races/${RACE_ID}/splits?split=2`)).json();
+    expect(none.competitors).toEqual([]);
+  });
+
+  it('rejects an invalid split number', async () => {
+    const res = await fetch(`${baseUrl}/api/races/${RACE_ID}/splits?split=zero`);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'split must be a positive integer' });
+  });
+
+  it('broadcasts SplitTimes to scoreboards', async () => {
+    const client = new WebSocket(`ws://localhost:${server.getPort()}/ws`);
+    const messages: C123Message[] = [];
+    client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise<void>((resolve) => client.on('open', () => resolve()));
+
+    passSplit('1', '31.20', '+0.40');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    const splitTimes = messages.find((m) => m.type === 'SplitTimes');
+    expect(splitTimes).toMatchObject({
+      type: 'SplitTimes',
+      data: {
+        raceId: RACE_ID,
+        latest: { bib: '1', split: 1 },
+        competitors: [{ bib: '1', splits: [{ split: 1, rank: 1 }] }],
+      },
+    });
+    expect(splitTimes?.seq).toBeGreaterThan(0);
+
+    client.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Integration tests for the Server-Sent Events stream
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { getAppSettings, resetAppSettings } from '../../config/index.js';
+import type { C123Message, C123Results, C123TimeOfDay } from '../../protocol/types.js';
+
+interface StreamEvent {
+  id?: string;
+  message: C123Message;
+}
+
+function timeOfDay(time: string): C123TimeOfDay {
+  return { type: 'TimeOfDay', timestamp: new Date().toISOString(), data: { time } };
+}
+
+function results(raceId: string): C123Results {
+  return {
+    type: 'Results',
+    timestamp: new Date().toISOString(),
+    data: { raceId, classId: 'K1M', isCurrent: true, mainTitle: raceId, subTitle: '', rows: [] },
+  };
+}
+
+/**
+ * Open stream that collects parsed events
+ */
+class StreamReader {
+  readonly events: StreamEvent[] = [];
+  private buffer = '';
+
+  constructor(readonly response: Response) {
+    void this.pump();
+  }
+
+  private async pump(): Promise<void> {
+    const reader = this.response.body!.getReader();
+    const decoder = new TextDecoder();
+    try {
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        this.buffer += decoder.decode(value, { stream: true });
+        let end: number;
+        while ((end = this.buffer.indexOf('\n\n')) !== -1) {
+          this.parse(this.buffer.slice(0, end));
+          this.buffer = this.buffer.slice(end + 2);
+        }
+      }
+    } catch {
+      // Connection dropped
+    }
+  }
+
+  private parse(block: string): void {
+    let id: string | undefined;
+    let data: string | undefined;
+    for (const line of block.split('\n')) {
+      if (line.startsWith('id: ')) id = line.slice(4);
+      if (line.startsWith('data: ')) data = line.slice(6);
+    }
+    if (data !== undefined) {
+      this.events.push(id !== undefined ? { id, message: JSON.parse(data) } : { message: JSON.parse(data) });
+    }
+  }
+
+  async waitFor(count: number): Promise<StreamEvent[]> {
+    const deadline = Date.now() + 2000;
+    while (this.events.length < count) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for ${count} events, got ${this.events.length}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return this.events;
+  }
+}
+
+describe('Stream API', () => {
+  let server: UnifiedServer;
+  let baseUrl: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'stream-api-test-'));
+    process.env.HOME = tempDir;
+
+    server = new UnifiedServer({ port: 0 });
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    // Ends the open streams
+    await server.stop();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  async function open(query = '', headers: Record<string, string> = {}): Promise<StreamReader> {
+    const response = await fetch(`${baseUrl}/api/stream${query}`, { headers });
+    return new StreamReader(response);
+  }
+
+  it('sends Connected and then broadcasts with ids', async () => {
+    const stream = await open();
+    expect(stream.response.headers.get('content-type')).toContain('text/event-stream');
+
+    await stream.waitFor(1);
+    server.broadcast(timeOfDay('10:00:00'));
+    server.broadcast(timeOfDay('10:00:01'));
+
+    const events = await stream.waitFor(3);
+    expect(events[0].message.type).toBe('Connected');
+    expect(events[0].id).toBeUndefined();
+    const epoch = events[1].id!.split('-')[0];
+    expect(events.slice(1).map((e) => e.id)).toEqual([`${epoch}-1`, `${epoch}-2`]);
+    expect(events[2].message).toMatchObject({ type: 'TimeOfDay', data: { time: '10:00:01' } });
+  });
+
+  it('applies the stored client config filters', async () => {
+    getAppSettings().setClientConfig('overlay', { showOnCourse: false, raceFilter: ['K1M_ST_BR1_6'] });
+
+    const stream = await open('?clientId=overlay');
+    await stream.waitFor(1);
+    server.broadcast({ type: 'OnCourse', timestamp: new Date().toISOString(), data: { total: 0, competitors: [] } });
+    server.broadcast(results('C1W_ST_BR1_7'));
+    server.broadcast(results('K1M_ST_BR1_6'));
+
+    const events = await stream.waitFor(2);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(events.map((e) => e.message.type)).toEqual(['Connected', 'Results']);
+    expect((events[1].message as C123Results).data.raceId).toBe('K1M_ST_BR1_6');
+  });
+
+  it('lets query parameters override the stored filters', async () => {
+    getAppSettings().setClientConfig('overlay', { showResults: false });
+
+    const stream = await open('?clientId=overlay&showResults=true&raceFilter=K1M_ST_BR1_6');
+    await stream.waitFor(1);
+    server.broadcast(results('C1W_ST_BR1_7'));
+    server.broadcast(results('K1M_ST_BR1_6'));
+
+    const events = await stream.waitFor(2);
+    expect((events[1].message as C123Results).data.raceId).toBe('K1M_ST_BR1_6');
+  });
+
+  it('rejects invalid filter values', async () => {
+    const res = await fetch(`${baseUrl}/api/stream?showResults=maybe`);
+    expect(res.status).toBe(400);
+  });
+
+  it('resumes after Last-Event-ID with the missed broadcasts', async () => {
+    const first = await open();
+    await first.waitFor(1);
+    server.broadcast(timeOfDay('10:00:00'));
+    const [, broadcast] = await first.waitFor(2);
+    const epoch = broadcast.id!.split('-')[0];
+    expect(broadcast.id).toBe(`${epoch}-1`);
+
+    server.broadcast(timeOfDay('10:00:01'));
+    server.broadcast(timeOfDay('10:00:02'));
+
+    const resumed = await open('', { 'Last-Event-ID': broadcast.id! });
+    const events = await resumed.waitFor(3);
+    expect(events[0].message.type).toBe('Connected');
+    expect(events.slice(1).map((e) => e.id)).toEqual([`${epoch}-2`, `${epoch}-3`]);
+  });
+
+  it('sends a snapshot for a Last-Event-ID from before a restart', async () => {
+    const first = await open();
+    await first.waitFor(1);
+    server.broadcast(timeOfDay('10:00:00'));
+    const [, broadcast] = await first.waitFor(2);
+
+    await server.stop();
+    server = new UnifiedServer({ port: 0 });
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+    server.broadcast(timeOfDay('10:05:00'));
+    server.broadcast(timeOfDay('10:05:01'));
+
+    const stream = await open('', { 'Last-Event-ID': broadcast.id! });
+    const [connected] = await stream.waitFor(1);
+    expect(connected.message).toMatchObject({ type: 'Connected', data: { seq: 2 } });
+    expect(connected.message.type === 'Connected' && connected.message.data.resumed).toBeFalsy();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    // The seq 2 broadcast of the new server is not replayed as if missed
+    expect(stream.events.filter((e) => e.id !== undefined)).toEqual([]);
+  });
+
+  it('starts fresh when the Last-Event-ID is unknown', async () => {
+    const stream = await open('?lastEventId=999');
+    await stream.waitFor(1);
+    server.broadcast(timeOfDay('10:00:00'));
+
+    const events = await stream.waitFor(2);
+    expect(events[1].id).toMatch(/^[0-9a-f]{8}-1$/);
+  });
+
+  it('follows client config changes', async () => {
+    const stream = await open('?clientId=overlay');
+    await stream.waitFor(1);
+
+    getAppSettings().setClientConfig('overlay', { showResults: false });
+    server.pushConfigToConfigKey('overlay');
+    server.broadcast(results('K1M_ST_BR1_6'));
+    server.broadcast(timeOfDay('10:00:00'));
+
+    const events = await stream.waitFor(2);
+    expect(events[1].message.type).toBe('TimeOfDay');
+  });
+});
@@ -4,7 +4,9 @@ import { UnifiedServer } from '../UnifiedServer.js';
 import { EventState } from '../../state/EventState.js';
 import { EventEmitter } from 'node:events';
 import type { Source, SourceEvents, SourceStatus } from '../../sources/types.js';
+import { FailoverSource } from '../../sources/FailoverSource.js';
 import type { C123Message } from '../../protocol/types.js';
+import { decodeMsgPack, encodeMsgPack } from '../../protocol/msgpack.js';
 import { getLogBuffer, resetLogBuffer } from '../../utils/LogBuffer.js';
 import { Logger } from '../../utils/logger.js';
 
@@ -174,6 +176,26 @@ describe('UnifiedServer', () => {
 
         mockSource.stop();
       });
+
+      it('should list every host of a failover source', async () => {
+        const failover = new FailoverSource({
+          hosts: [
+            { host: '192.168.1.100', port: 27333 },
+            { host: '192.168.1.101', port: 27334 },
+          ],
+        });
+        server.registerSource('C123 TCP', 'tcp', failover);
+
+        const response = await fetch(`http://localhost:${port}/api/sources`);
+        const data = (await response.json()) as { sources: Record<string, unknown>[] };
+
+        expect(data.sources[0]).toMatchObject({ name: 'C123 TCP', status: 'disconnected' });
+        expect(data.sources[0].host).toBeUndefined();
+        expect(data.sources[0].hosts).toEqual([
+          { host: '192.168.1.100', port: 27333, priority: 0, status: 'disconnected', healthy: false, active: false, lastHeartbeat: null },
+          { host: '192.168.1.101', port: 27334, priority: 1, status: 'disconnected', healthy: false, active: false, lastHeartbeat: null },
+        ]);
+      });
     });
 
     describe('GET /api/scoreboards', () => {
@@ -461,6 +483,299 @@ describe('UnifiedServer', () => {
     });
   });
 
+  describe('WebSocket resume', () => {
+    let server: UnifiedServer;
+    let port: number;
+
+    beforeEach(async () => {
+      server = new UnifiedServer({ port: 0 });
+      await server.start();
+      port = server.getPort();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    function timeOfDay(time: string): C123Message {
+      return { type: 'TimeOfDay', timestamp: new Date().toISOString(), data: { time } };
+    }
+
+    async function connect(query = ''): Promise<{ client: WebSocket; messages: C123Message[] }> {
+      const client = new WebSocket(`ws://localhost:${port}/ws${query}`);
+      const messages: C123Message[] = [];
+      client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise<void>((resolve) => client.on('open', () => resolve()));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return { client, messages };
+    }
+
+    async function close(client: WebSocket): Promise<void> {
+      client.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    it('stamps broadcasts with increasing seq and reports the latest in Connected', async () => {
+      server.broadcast(timeOfDay('10:00:00'));
+
+      const { client, messages } = await connect();
+      expect(messages[0]).toMatchObject({ type: 'Connected', data: { epoch: expect.any(String), seq: 1 } });
+      expect(messages[0].seq).toBeUndefined();
+
+      server.broadcast(timeOfDay('10:00:01'));
+      server.broadcastXmlChange(['Results'], 'abc');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(messages.slice(1).map((m) => m.seq)).toEqual([2, 3]);
+      await close(client);
+    });
+
+    it('sends the broadcasts missed since ?since=', async () => {
+      server.broadcast(timeOfDay('10:00:00'));
+      server.broadcast(timeOfDay('10:00:01'));
+      server.broadcastForceRefresh('test');
+
+      const { client: first, messages: connected } = await connect();
+      const epoch = connected[0].type === 'Connected' ? connected[0].data.epoch : undefined;
+      await close(first);
+
+      const { client, messages } = await connect(`?since=${epoch}-1`);
+
+      expect(messages[0]).toMatchObject({ type: 'Connected', data: { seq: 3, resumed: true } });
+      expect(messages.slice(1).map((m) => [m.type, m.seq])).toEqual([
+        ['TimeOfDay', 2],
+        ['ForceRefresh', 3],
+      ]);
+      await close(client);
+    });
+
+    it('falls back to a snapshot when the gap is too large', async () => {
+      const eventState = new EventState();
+      eventState.processMessage({ type: 'timeofday', data: { time: '10:30:00' } });
+      server.setEventState(eventState);
+
+      for (let i = 0; i < 510; i++) {
+        server.broadcast(timeOfDay('10:00:00'));
+      }
+
+      const { client, messages } = await connect(`?since=${server['broadcastHistory'].eventId(2)}`);
+
+      expect(messages[0]).toMatchObject({ type: 'Connected', data: { seq: 510 } });
+      expect(messages[0].type === 'Connected' && messages[0].data.resumed).toBeFalsy();
+      expect(messages.slice(1).map((m) => m.type)).toEqual(['TimeOfDay', 'OnCourse']);
+      expect(messages[1]).toMatchObject({ data: { time: '10:30:00' } });
+      expect(messages.every((m) => m.seq === undefined)).toBe(true);
+      await close(client);
+    });
+
+    it('falls back to a snapshot for an unknown seq', async () => {
+      server.setEventState(new EventState());
+      const { client, messages } = await connect(`?since=${server['broadcastHistory'].eventId(42)}`);
+
+      expect(messages.map((m) => m.type)).toEqual(['Connected', 'OnCourse']);
+      await close(client);
+    });
+
+    it('falls back to a snapshot for a seq from before a restart', async () => {
+      server.broadcast(timeOfDay('10:00:00'));
+      const { client: before, messages: beforeRestart } = await connect();
+      const connected = beforeRestart[0];
+      const since = connected.type === 'Connected' ? `${connected.data.epoch}-${connected.data.seq}` : '';
+      await close(before);
+
+      await server.stop();
+      server = new UnifiedServer({ port: 0 });
+      await server.start();
+      port = server.getPort();
+      server.setEventState(new EventState());
+      // The new server has issued seq 1-3 again, after the client's seq 1
+      for (let i = 0; i < 3; i++) {
+        server.broadcast(timeOfDay('10:05:00'));
+      }
+
+      const { client, messages } = await connect(`?since=${since}`);
+
+      expect(messages[0].type === 'Connected' && messages[0].data.resumed).toBeFalsy();
+      expect(messages.map((m) => m.type)).toEqual(['Connected', 'OnCourse']);
+      await close(client);
+    });
+  });
+
+  describe('OnCourseProjection', () => {
+    let server: UnifiedServer;
+    let port: number;
+
+    beforeEach(async () => {
+      server = new UnifiedServer({ port: 0 });
+      await server.start();
+      port = server.getPort();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('broadcasts projected ranks from the event state', async () => {
+      const eventState = new EventState();
+      eventState.processMessage({
+        type: 'results',
+        data: {
+          raceId: 'K1M_ST_BR1_6',
+          classId: 'K1M_ST',
+          isCurrent: true,
+          mainTitle: '',
+          subTitle: '',
+          rows: [{ rank: 1, bib: '1', name: '', givenName: '', familyName: '', club: '', nat: '', startOrder: 1, startTime: '', gates: '', pen: 0, time: '80.00', total: '80.00', behind: '' }],
+        },
+      });
+      eventState.processMessage({
+        type: 'oncourse',
+        data: {
+          total: 1,
+          competitors: [{ bib: '9', name: '', club: '', nat: '', raceId: 'K1M_ST_BR1_6', raceName: '', startOrder: 9, warning: '', gates: '', completed: false, dtStart: '10:00:00.000', dtFinish: null, pen: 2, time: '70', total: null, ttbDiff: '', ttbName: '', rank: 0, position: 1 }],
+        },
+      });
+      server.setEventState(eventState);
+
+      const client = new WebSocket(`ws://localhost:${port}/ws`);
+      const messages: C123Message[] = [];
+      client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise<void>((resolve) => client.on('open', () => resolve()));
+
+      server.broadcastOnCourseProjection();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(messages.find((m) => m.type === 'OnCourseProjection')?.data).toEqual({
+        competitors: [
+          { bib: '9', raceId: 'K1M_ST_BR1_6', time: 70, pen: 2, total: 72, projectedRank: 1, behind: -8, finished: false },
+        ],
+      });
+      client.close();
+      eventState.destroy();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+  });
+
+  describe('SourceStale', () => {
+    let server: UnifiedServer;
+    let port: number;
+
+    beforeEach(async () => {
+      server = new UnifiedServer({ port: 0 });
+      await server.start();
+      port = server.getPort();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it('broadcasts stale and recovered C123 data', async () => {
+      const client = new WebSocket(`ws://localhost:${port}/ws`);
+      const messages: C123Message[] = [];
+      client.on('message', (data) => messages.push(JSON.parse(data.toString())));
+      await new Promise<void>((resolve) => client.on('open', () => resolve()));
+
+      server.broadcastSourceStale(true, Date.parse('2025-01-02T10:31:00.012Z'));
+      server.broadcastSourceStale(false, Date.parse('2025-01-02T10:31:15.000Z'));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(messages.filter((m) => m.type === 'SourceStale').map((m) => m.data)).toEqual([
+        { stale: true, lastHeartbeat: '2025-01-02T10:31:00.012Z' },
+        { stale: false, lastHeartbeat: '2025-01-02T10:31:15.000Z' },
+      ]);
+      client.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    it('flags stale data in the Connected message', async () => {
+      server.broadcastSourceStale(true, null);
+
+      const client = new WebSocket(`ws://localhost:${port}/ws`);
+      const connected = new Promise<C123Message>((resolve) => {
+        client.on('message', (data) => {
+          const message = JSON.parse(data.toString()) as C123Message;
+          if (message.type === 'Connected') resolve(message);
+        });
+      });
+
+      expect((await connected).data).toMatchObject({ c123Stale: true });
+      client.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+  });
+
+  describe('WebSocket transport', () => {
+    let server: UnifiedServer;
+    let port: number;
+
+    beforeEach(async () => {
+      server = new UnifiedServer({ port: 0 });
+      await server.start();
+      port = server.getPort();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    async function open(client: WebSocket): Promise<void> {
+      await new Promise<void>((resolve) => client.on('open', () => resolve()));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    it('sends MessagePack binary frames with ?encoding=msgpack', async () => {
+      const client = new WebSocket(`ws://localhost:${port}/ws?encoding=msgpack`);
+      const frames: { data: Buffer; isBinary: boolean }[] = [];
+      client.on('message', (data, isBinary) => frames.push({ data: data as Buffer, isBinary }));
+      await open(client);
+
+      server.broadcast({ type: 'TimeOfDay', timestamp: new Date().toISOString(), data: { time: '10:00:00' } });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(frames.every((f) => f.isBinary)).toBe(true);
+      expect(frames.map((f) => (decodeMsgPack(f.data) as C123Message).type)).toEqual(['Connected', 'TimeOfDay']);
+      client.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    it('accepts a MessagePack ClientState and switches transport', async () => {
+      const client = new WebSocket(`ws://localhost:${port}/ws`);
+      await open(client);
+
+      client.send(encodeMsgPack({ type: 'ClientState', data: { current: {}, capabilities: ['msgpack', 'deflate'] } }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(server.getSessions()[0].getTransport()).toEqual({ encoding: 'msgpack', compress: true });
+      client.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    it('negotiates permessage-deflate', async () => {
+      const client = new WebSocket(`ws://localhost:${port}/ws?compress=1`);
+      await open(client);
+
+      expect(client.extensions).toContain('permessage-deflate');
+      expect(server.getSessions()[0].getTransport().compress).toBe(true);
+      client.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    it('does not negotiate permessage-deflate for admin and ?compress=0 connections', async () => {
+      const admin = new WebSocket(`ws://localhost:${port}/ws?admin=1`);
+      const uncompressed = new WebSocket(`ws://localhost:${port}/ws?compress=0`);
+      await Promise.all([open(admin), open(uncompressed)]);
+
+      expect(admin.extensions).toBe('');
+      expect(uncompressed.extensions).toBe('');
+      expect(server.getSessions()).toHaveLength(1);
+
+      admin.close();
+      uncompressed.close();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+  });
+
   describe('session management', () => {
     let server: UnifiedServer;
     let port: number;
@@ -0,0 +1,216 @@
+/**
+ * Integration tests for XML files under event keys and combined standings
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UnifiedServer } from '../UnifiedServer.js';
+import { XmlDataService } from '../../service/XmlDataService.js';
+import { XmlEventRegistry } from '../../service/XmlEventRegistry.js';
+import { getAppSettings, resetAppSettings } from '../../config/index.js';
+
+function dayXml(title: string, raceId: string, total: number): string {
+  return `<?xml version="1.0"?>
+<Canoe123Data>
+  <MainTitle>${title}</MainTitle>
+  <Participants>
+    <Id>1.K1M</Id>
+    <ClassId>K1M</ClassId>
+    <EventBib>1</EventBib>
+    <ICFId>12054</ICFId>
+    <FamilyName>PRSKAVEC</FamilyName>
+    <GivenName>Jiří</GivenName>
+    <Club>USK Praha</Club>
+  </Participants>
+  <Schedule>
+    <RaceId>${raceId}</RaceId>
+    <RaceOrder>1</RaceOrder>
+    <ClassId>K1M</ClassId>
+    <DisId>SR</DisId>
+  </Schedule>
+  <Results>
+    <RaceId>${raceId}</RaceId>
+    <Id>1.K1M</Id>
+    <Bib>1</Bib>
+    <Time>${total}</Time>
+    <Pen>0</Pen>
+    <Total>${total}</Total>
+    <Rnk>1</Rnk>
+  </Results>
+</Canoe123Data>`;
+}
+
+describe('XML Events API', () => {
+  let server: UnifiedServer;
+  let baseUrl: string;
+  let tempDir: string;
+  let registry: XmlEventRegistry;
+  let day1Path: string;
+  let day2Path: string;
+
+  const post = (body: unknown) =>
+    fetch(`${baseUrl}/api/events`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(async () => {
+    resetAppSettings();
+    tempDir = mkdtempSync(join(tmpdir(), 'xml-events-api-test-'));
+    process.env.HOME = tempDir;
+
+    const mainPath = join(tempDir, 'main.xml');
+    day1Path = join(tempDir, 'day1.xml');
+    day2Path = join(tempDir, 'day2.xml');
+    writeFileSync(mainPath, dayXml('Main', 'K1M_SR_9', 70000));
+    writeFileSync(day1Path, dayXml('Day 1', 'K1M_SR_1', 82000));
+    writeFileSync(day2Path, dayXml('Day 2', 'K1M_SR_2', 84000));
+
+    const xmlDataService = new XmlDataService();
+    xmlDataService.setPath(mainPath);
+    registry = new XmlEventRegistry();
+
+    server = new UnifiedServer({ port: 0 });
+    server.setXmlDataService(xmlDataService);
+    server.setXmlEventRegistry(registry);
+    await server.start();
+    baseUrl = `http://localhost:${server.getPort()}`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    if (existsSync(tempDir)) {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+    resetAppSettings();
+  });
+
+  it('registers XML files under event keys and saves them', async () => {
+    expect((await post({ key: 'day1', path: day1Path })).status).toBe(201);
+    expect((await post({ key: 'day2', path: day2Path })).status).toBe(201);
+
+    const res = await fetch(`${baseUrl}/api/events`);
+    expect(await res.json()).toEqual({
+      events: [
+        { key: 'day1', path: day1Path, available: true, eventName: 'Day 1' },
+        { key: 'day2', path: day2Path, available: true, eventName: 'Day 2' },
+      ],
+    });
+    expect(getAppSettings().getXmlEvents()).toEqual({ day1: day1Path, day2: day2Path });
+  });
+
+  it('lists file paths to admins only', async () => {
+    registry.register('day1', day1Path);
+    getAppSettings().updateAuthConfig({
+      enabled: true,
+      tokens: [{ token: 'admin-token', role: 'admin' }],
+      anonymousRole: 'viewer',
+    });
+
+    const anonymous = await fetch(`${baseUrl}/api/events`);
+    expect(await anonymous.json()).toEqual({ events: [{ key: 'day1', available: true, eventName: 'Day 1' }] });
+
+    const admin = await fetch(`${baseUrl}/api/events`, { headers: { Authorization: 'Bearer admin-token' } });
+    expect(((await admin.json()) as { events: { path?: string }[] }).events[0].path).toBe(day1Path);
+  });
+
+    it('replaces the file of a registered key', async () => {
+    await post({ key: 'day1', path: day2Path });
+    const res = await post({ key: 'day1', path: day1Path });
+
+    expect(res.status).toBe(200);
+    expect(registry.list()).toEqual([{ key: 'day1', path: day1Path }]);
+  });
+
+  it('rejects invalid keys and missing paths', async () => {
+    expect((await post({ key: 'day 1', path: day1Path })).status).toBe(400);
+    expect((await post({ key: 'day1' })).status).toBe(400);
+  });
+
+  it('scopes the XML routes to the event key', async () => {
+    registry.register('day1', day1Path);
+    registry.register('day2', day2Path);
+
+    const scoped = await fetch(`${baseUrl}/api/events/day2/xml/races`);
+    const { races } = (await scoped.json()) as { races: { raceId: string }[] };
+    expect(races.map((r) => r.raceId)).toEqual(['K1M_SR_2']);
+
+    const results = await fetch(`${baseUrl}/api/events/day1/xml/races/K1M_SR_1/results`);
+    expect(results.status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/events/day1/xml/races/K1M_SR_2/results`)).status).toBe(404);
+
+    // The main XML file is unaffected
+    const main = await fetch(`${baseUrl}/api/xml/races`);
+    const mainRaces = ((await main.json()) as { races: { raceId: string }[] }).races;
+    expect(mainRaces.map((r) => r.raceId)).toEqual(['K1M_SR_9']);
+  });
+
+  it('returns 404 for an unknown event key', async () => {
+    const res = await fetch(`${baseUrl}/api/events/day3/xml/races`);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'Event not found' });
+  });
+
+  it('removes an event key', async () => {
+    await post({ key: 'day1', path: day1Path });
+
+    expect((await fetch(`${baseUrl}/api/events/day1`, { method: 'DELETE' })).status).toBe(200);
+    expect((await fetch(`${baseUrl}/api/events/day1`, { method: 'DELETE' })).status).toBe(404);
+    expect(getAppSettings().getXmlEvents()).toEqual({});
+    expect((await fetch(`${baseUrl}/api/events/day1/xml/races`)).status).toBe(404);
+  });
+
+  it('merges participants across event files', async () => {
+    registry.register('day1', day1Path);
+    registry.register('day2', day2Path);
+
+    const res = await fetch(`${baseUrl}/api/combined/participants`);
+    const data = (await res.json()) as { events: string[]; participants: { familyName: string; entries: unknown[] }[] };
+
+    expect(data.events).toEqual(['day1', 'day2']);
+    expect(data.participants).toHaveLength(1);
+    expect(data.participants[0].entries).toHaveLength(2);
+  });
+
+  it('serves combined standings of selected event files', async () => {
+    registry.register('day1', day1Path);
+    registry.register('day2', day2Path);
+
+    const res = await fetch(`${baseUrl}/api/combined/results?events=day2,day1&classId=K1M`);
+    const data = (await res.json()) as {
+      events: string[];
+      classes: { classId: string; entries: { rank: number; total: number; results: { key: string }[] }[] }[];
+    };
+
+    expect(data.events).toEqual(['day2', 'day1']);
+    expect(data.classes[0].classId).toBe('K1M');
+    expect(data.classes[0].entries[0]).toMatchObject({ rank: 1, total: 166000 });
+    expect(data.classes[0].entries[0].results.map((r) => r.key)).toEqual(['day2', 'day1']);
+  });
+
+  it('returns 404 for unknown events or classes in combined standings', async () => {
+    registry.register('day1', day1Path);
+
+    expect((await fetch(`${baseUrl}/api/combined/results?events=day1,day9`)).status).toBe(404);
+  });
+
+  it('rejects an event file listed twice in combined standings', async () => {
+    registry.register('day1', day1Path);
+
+    const res = await fetch(`${baseUrl}/api/combined/results?events=day1,day1`);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Event listed twice: day1' });
+    expect((await fetch(`${baseUrl}/api/combined/results?classId=C1W`)).status).toBe(404);
+  });
+
+  it('returns 404 when no events are registered', async () => {
+    const res = await fetch(`${baseUrl}/api/combined/results`);
+
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'No events registered' });
+  });
+});
@@ -1,2 +1,5 @@
 export { UnifiedServer } from './UnifiedServer.js';
 export type { UnifiedServerConfig, UnifiedServerEvents } from './UnifiedServer.js';
+export { BroadcastHistory, DEFAULT_HISTORY_SIZE } from './BroadcastHistory.js';
+export type { BroadcastEntry } from './BroadcastHistory.js';
+export { SseClient, resolveStreamConfig } from './SseClient.js';
@@ -0,0 +1,73 @@
+import type { C123Delta, C123Message } from '../protocol/types.js';
+import { createJsonPatch } from '../protocol/json-patch.js';
+
+/**
+ * ClientState capability that enables delta-encoded messages
+ */
+export const DELTA_CAPABILITY = 'delta';
+
+/**
+ * Deltas sent before the next full message (keyframe) of the same type
+ */
+export const DEFAULT_KEYFRAME_INTERVAL = 30;
+
+type DeltaTarget = C123Delta['data']['target'];
+
+interface StreamState {
+  /** Data of the last message sent, as the client sees it */
+  data: unknown;
+  seq: number;
+  deltasSinceKeyframe: number;
+}
+
+/**
+ * Turns a session's OnCourse and Results messages into deltas against the
+ * previous message of the same type.
+ *
+ * A full message (keyframe) is sent first, every `keyframeInterval` deltas,
+ * and whenever a patch would not be smaller than the full data. Broadcasts
+ * without a seq cannot be referenced by a later delta and always go out whole.
+ */
+export class DeltaEncoder {
+  private readonly streams = new Map<DeltaTarget, StreamState>();
+
+  constructor(private readonly keyframeInterval: number = DEFAULT_KEYFRAME_INTERVAL) {}
+
+  /**
+   * Message to send instead of the given one
+   */
+  encode(message: C123Message): C123Message {
+    if (message.type !== 'OnCourse' && message.type !== 'Results') {
+      return message;
+    }
+    if (message.seq === undefined) {
+      this.streams.delete(message.type);
+      return message;
+    }
+
+    // Compare what the client will parse, not the in-memory objects
+    const json = JSON.stringify(message.data);
+    const data: unknown = JSON.parse(json);
+    const previous = this.streams.get(message.type);
+
+    if (previous && previous.deltasSinceKeyframe < this.keyframeInterval) {
+      const ops = createJsonPatch(previous.data, data);
+      if (JSON.stringify(ops).length < json.length) {
+        this.streams.set(message.type, {
+          data,
+          seq: message.seq,
+          deltasSinceKeyframe: previous.deltasSinceKeyframe + 1,
+        });
+        return {
+          type: 'Delta',
+          timestamp: message.timestamp,
+          seq: message.seq,
+          data: { target: message.type, baseSeq: previous.seq, ops },
+        };
+      }
+    }
+
+    this.streams.set(message.type, { data, seq: message.seq, deltasSinceKeyframe: 0 });
+    return message;
+  }
+}
@@ -2,6 +2,57 @@ import type { WebSocket } from 'ws';
 import type { ScoreboardConfig } from '../admin/types.js';
 import type { C123Message, C123ConfigPush } from '../protocol/types.js';
 import type { ClientConfig, AssetUrls } from '../config/types.js';
+import { encodeMsgPack } from '../protocol/msgpack.js';
+import { DeltaEncoder, DELTA_CAPABILITY } from './DeltaEncoder.js';
+
+/**
+ * Capability that switches a session to MessagePack binary frames
+ */
+export const MSGPACK_CAPABILITY = 'msgpack';
+
+/**
+ * Capability that turns on permessage-deflate compression for a session
+ */
+export const DEFLATE_CAPABILITY = 'deflate';
+
+/**
+ * Wire encoding of outgoing messages
+ */
+export type MessageEncoding = 'json' | 'msgpack';
+
+/**
+ * How messages are put on the wire for one session
+ */
+export interface SessionTransport {
+  /** JSON text frames (default) or MessagePack binary frames */
+  encoding: MessageEncoding;
+  /** Compress frames with permessage-deflate, if the client negotiated it */
+  compress: boolean;
+}
+
+/**
+ * Read transport options from /ws query parameters.
+ *
+ * `encoding=json|msgpack` and `compress=1|0` (also true/false). Missing or
+ * unknown values are left out, so capabilities can still decide.
+ */
+export function parseTransportParams(params: URLSearchParams): Partial<SessionTransport> {
+  const transport: Partial<SessionTransport> = {};
+
+  const encoding = params.get('encoding');
+  if (encoding === 'json' || encoding === 'msgpack') {
+    transport.encoding = encoding;
+  }
+
+  const compress = params.get('compress');
+  if (compress === '1' || compress === 'true') {
+    transport.compress = true;
+  } else if (compress === '0' || compress === 'false') {
+    transport.compress = false;
+  }
+
+  return transport;
+}
 
 /**
  * Client state as reported by the client via ClientState message
@@ -31,6 +82,38 @@ export interface SessionInfo {
   hasExplicitId: boolean;
   config: ScoreboardConfig;
   clientState?: ClientReportedState | undefined;
+  transport: SessionTransport;
+}
+
+/**
+ * Whether a message passes a scoreboard's filters (showOnCourse, showResults,
+ * raceFilter). Shared by WebSocket sessions and SSE streams.
+ */
+export function shouldSendToScoreboard(message: C123Message, config: ScoreboardConfig): boolean {
+  // OnCourse filtering (the projection is derived from OnCourse)
+  if ((message.type === 'OnCourse' || message.type === 'OnCourseProjection') && config.showOnCourse === false) {
+    return false;
+  }
+
+  // Results filtering
+  if (message.type === 'Results' && config.showResults === false) {
+    return false;
+  }
+
+  // Race filter for Results, SplitTimes and OnCourse
+  if (config.raceFilter && config.raceFilter.length > 0) {
+    if (message.type === 'Results' || message.type === 'SplitTimes') {
+      const raceId = message.data.raceId;
+      if (!config.raceFilter.includes(raceId)) {
+        return false;
+      }
+    }
+    // Note: OnCourse doesn't have a single raceId, competitors may be from different races
+    // For now, we don't filter OnCourse by race - let the client handle it
+  }
+
+  // Always send TimeOfDay, Schedule, RaceConfig, Connected, Error
+  return true;
 }
 
 /**
@@ -58,6 +141,11 @@ export class ScoreboardSession {
   private clientState: ClientReportedState | undefined;
   private serverConfig: ClientConfig | undefined;
   private defaultAssets: AssetUrls | undefined;
+  /** Set while the client has negotiated the 'delta' capability */
+  private deltaEncoder: DeltaEncoder | null = null;
+  /** Transport options from the connection URL, these win over capabilities */
+  private requestedTransport: Partial<SessionTransport> = {};
+  private transport: SessionTransport = { encoding: 'json', compress: false };
 
   constructor(
     id: string,
@@ -102,6 +190,7 @@ export class ScoreboardSession {
       hasExplicitId: this.hasExplicitId,
       config: { ...this.config },
       clientState: this.clientState ? { ...this.clientState } : undefined,
+      transport: { ...this.transport },
     };
   }
 
@@ -154,8 +243,16 @@ export class ScoreboardSession {
       return;
     }
 
+    const outgoing = this.deltaEncoder ? this.deltaEncoder.encode(message) : message;
     this.lastActivity = new Date();
-    this.ws.send(JSON.stringify(message));
+    this.write(outgoing);
+  }
+
+  /**
+   * Whether OnCourse and Results are sent as deltas
+   */
+  usesDeltas(): boolean {
+    return this.deltaEncoder !== null;
   }
 
   /**
@@ -166,37 +263,56 @@ export class ScoreboardSession {
       return;
     }
     this.lastActivity = new Date();
-    this.ws.send(message);
+    this.write(message);
   }
 
   /**
-   * Check if message should be sent based on config filters
+   * Get the current wire encoding and compression
    */
-  private shouldSendMessage(message: C123Message): boolean {
-    // OnCourse filtering
-    if (message.type === 'OnCourse' && this.config.showOnCourse === false) {
-      return false;
-    }
+  getTransport(): SessionTransport {
+    return { ...this.transport };
+  }
 
-    // Results filtering
-    if (message.type === 'Results' && this.config.showResults === false) {
-      return false;
-    }
+  /**
+   * Set transport options requested in the connection URL (?encoding=,
+   * ?compress=). Options set here take precedence over capabilities listed
+   * in later ClientState messages.
+   */
+  setRequestedTransport(transport: Partial<SessionTransport>): void {
+    this.requestedTransport = { ...transport };
+    this.updateTransport();
+  }
 
-    // Race filter for Results and OnCourse
-    if (this.config.raceFilter && this.config.raceFilter.length > 0) {
-      if (message.type === 'Results') {
-        const raceId = message.data.raceId;
-        if (!this.config.raceFilter.includes(raceId)) {
-          return false;
-        }
-      }
-      // Note: OnCourse doesn't have a single raceId, competitors may be from different races
-      // For now, we don't filter OnCourse by race - let the client handle it
+  private updateTransport(): void {
+    const capabilities = this.clientState?.capabilities ?? [];
+    this.transport = {
+      encoding: this.requestedTransport.encoding ?? (capabilities.includes(MSGPACK_CAPABILITY) ? 'msgpack' : 'json'),
+      compress: this.requestedTransport.compress ?? capabilities.includes(DEFLATE_CAPABILITY),
+    };
+  }
+
+  /**
+   * Put one message on the wire using the session transport.
+   *
+   * Pre-serialized JSON (sendRaw) is parsed again for MessagePack sessions.
+   * Compression is always passed explicitly, because ws would otherwise
+   * compress every large frame once the extension is negotiated.
+   */
+  private write(message: object | string): void {
+    const { encoding, compress } = this.transport;
+    if (encoding === 'msgpack') {
+      const value: unknown = typeof message === 'string' ? JSON.parse(message) : message;
+      this.ws.send(encodeMsgPack(value), { binary: true, compress });
+    } else {
+      this.ws.send(typeof message === 'string' ? message : JSON.stringify(message), { compress });
     }
+  }
 
-    // Always send TimeOfDay, Schedule, RaceConfig, Connected, Error
-    return true;
+  /**
+   * Check if message should be sent based on config filters
+   */
+  private shouldSendMessage(message: C123Message): boolean {
+    return shouldSendToScoreboard(message, this.config);
   }
 
   // =========================================================================
@@ -218,7 +334,13 @@ export class ScoreboardSession {
   }
 
   /**
-   * Update client state (from ClientState message)
+   * Update client state (from ClientState message).
+   *
+   * Listing the 'delta' capability enables delta encoding. Every ClientState
+   * starts over with keyframes, so a client that lost track of its base
+   * messages can resync by sending ClientState again. The 'msgpack' and
+   * 'deflate' capabilities select the transport, unless the connection URL
+   * already did.
    */
   setClientState(state: {
     current: Record<string, unknown>;
@@ -231,6 +353,8 @@ export class ScoreboardSession {
       capabilities: state.capabilities,
       lastUpdated: new Date().toISOString(),
     };
+    this.deltaEncoder = state.capabilities?.includes(DELTA_CAPABILITY) ? new DeltaEncoder() : null;
+    this.updateTransport();
     this.lastActivity = new Date();
   }
 
@@ -368,6 +492,6 @@ export class ScoreboardSession {
     };
 
     this.lastActivity = new Date();
-    this.ws.send(JSON.stringify(message));
+    this.write(message);
   }
 }
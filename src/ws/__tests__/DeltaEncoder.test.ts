@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { DeltaEncoder } from '../DeltaEncoder.js';
+import { applyJsonPatch } from '../../protocol/json-patch.js';
+import type { C123Delta, C123Message, C123OnCourse, OnCourseCompetitor } from '../../protocol/types.js';
+
+function competitor(bib: string, time: string): OnCourseCompetitor {
+  return {
+    bib,
+    name: `Competitor ${bib}`,
+    club: 'Club',
+    nat: 'CZE',
+    raceId: 'K1M_ST_BR1_6',
+    raceName: 'K1m - střední trať',
+    startOrder: Number(bib),
+    warning: '',
+    gates: '0,0,2,,,',
+    completed: false,
+    dtStart: '10:00:00.000',
+    dtFinish: null,
+    pen: 2,
+    time,
+    total: time,
+    ttbDiff: '',
+    ttbName: '',
+    rank: 0,
+    position: 1,
+  };
+}
+
+function onCourse(seq: number | undefined, time: string): C123OnCourse {
+  const message: C123OnCourse = {
+    type: 'OnCourse',
+    timestamp: '2026-01-01T10:00:00.000Z',
+    data: { total: 2, competitors: [competitor('1', time), competitor('2', '10')] },
+  };
+  if (seq !== undefined) {
+    message.seq = seq;
+  }
+  return message;
+}
+
+describe('DeltaEncoder', () => {
+  it('sends the first message whole and later ones as deltas', () => {
+    const encoder = new DeltaEncoder();
+
+    expect(encoder.encode(onCourse(1, '50'))).toEqual(onCourse(1, '50'));
+
+    const delta = encoder.encode(onCourse(2, '51')) as C123Delta;
+    expect(delta.type).toBe('Delta');
+    expect(delta.seq).toBe(2);
+    expect(delta.data.target).toBe('OnCourse');
+    expect(delta.data.baseSeq).toBe(1);
+    expect(delta.data.ops).toEqual([
+      { op: 'replace', path: '/competitors/0/time', value: '51' },
+      { op: 'replace', path: '/competitors/0/total', value: '51' },
+    ]);
+  });
+
+  it('produces deltas that rebuild the original data', () => {
+    const encoder = new DeltaEncoder();
+    let base = (encoder.encode(onCourse(1, '50')) as C123OnCourse).data;
+
+    for (let seq = 2; seq < 6; seq++) {
+      const next = onCourse(seq, String(48 + seq));
+      next.data.competitors[1].dtFinish = seq > 3 ? '10:01:00.000' : null;
+      const delta = encoder.encode(next) as C123Delta;
+      base = applyJsonPatch(base, delta.data.ops);
+      expect(base).toEqual(JSON.parse(JSON.stringify(next.data)));
+    }
+  });
+
+  it('sends a keyframe after the configured number of deltas', () => {
+    const encoder = new DeltaEncoder(2);
+    const types = [1, 2, 3, 4, 5].map((seq) => encoder.encode(onCourse(seq, String(seq))).type);
+
+    expect(types).toEqual(['OnCourse', 'Delta', 'Delta', 'OnCourse', 'Delta']);
+  });
+
+  it('sends the full message when the patch would not be smaller', () => {
+    const encoder = new DeltaEncoder();
+    encoder.encode(onCourse(1, '50'));
+
+    const replaced = onCourse(2, '50');
+    replaced.data.competitors = [competitor('7', '1'), competitor('8', '2')];
+    replaced.data.competitors.forEach((c) => {
+      c.name = 'Someone Else';
+      c.club = 'Another Club';
+      c.raceId = 'C1W_ST_BR1_7';
+      c.raceName = 'C1ž';
+    });
+
+    expect(encoder.encode(replaced).type).toBe('OnCourse');
+  });
+
+  it('keeps separate bases for OnCourse and Results', () => {
+    const encoder = new DeltaEncoder();
+    const results = (seq: number): C123Message => ({
+      type: 'Results',
+      timestamp: '2026-01-01T10:00:00.000Z',
+      seq,
+      data: { raceId: 'K1M_ST_BR1_6', classId: 'K1M_ST', isCurrent: true, mainTitle: 'K1m', subTitle: '', rows: [] },
+    });
+
+    encoder.encode(onCourse(1, '50'));
+    expect(encoder.encode(results(2)).type).toBe('Results');
+    expect((encoder.encode(onCourse(3, '51')) as C123Delta).data.baseSeq).toBe(1);
+    expect((encoder.encode(results(4)) as C123Delta).data).toEqual({ target: 'Results', baseSeq: 2, ops: [] });
+  });
+
+  it('passes other messages and messages without seq through unchanged', () => {
+    const encoder = new DeltaEncoder();
+    const time: C123Message = { type: 'TimeOfDay', timestamp: '2026-01-01T10:00:00.000Z', seq: 1, data: { time: '10:00:00' } };
+
+    expect(encoder.encode(time)).toBe(time);
+
+    encoder.encode(onCourse(2, '50'));
+    expect(encoder.encode(onCourse(undefined, '51')).type).toBe('OnCourse');
+    // The unsequenced message reset the base
+    expect(encoder.encode(onCourse(3, '52')).type).toBe('OnCourse');
+  });
+});
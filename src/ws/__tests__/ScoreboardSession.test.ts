@@ -1,6 +1,8 @@
 import { describe, test, expect, vi } from 'vitest';
-import { ScoreboardSession } from '../ScoreboardSession.js';
+import { ScoreboardSession, parseTransportParams } from '../ScoreboardSession.js';
+import { decodeMsgPack } from '../../protocol/msgpack.js';
 import type { ClientConfig } from '../../config/types.js';
+import type { C123Message, OnCourseCompetitor } from '../../protocol/types.js';
 
 // Mock WebSocket with typed send
 interface MockWebSocket {
@@ -352,6 +354,21 @@ describe('ScoreboardSession', () => {
       expect(ws.send).not.toHaveBeenCalled();
     });
 
+    test('should filter OnCourseProjection messages when showOnCourse is false', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50', {
+        showOnCourse: false,
+      });
+
+      session.send({
+        type: 'OnCourseProjection',
+        timestamp: new Date().toISOString(),
+        data: { competitors: [] },
+      });
+
+      expect(ws.send).not.toHaveBeenCalled();
+    });
+
     test('should filter Results messages when showResults is false', () => {
       const ws = createMockWebSocket();
       const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50', {
@@ -389,5 +406,156 @@ describe('ScoreboardSession', () => {
 
       expect(ws.send).toHaveBeenCalledTimes(1);
     });
+
+    test('should apply raceFilter to SplitTimes', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50', {
+        raceFilter: ['K1M_ST_BR1'],
+      });
+
+      for (const raceId of ['C1W_ST_BR1', 'K1M_ST_BR1']) {
+        session.send({
+          type: 'SplitTimes',
+          timestamp: new Date().toISOString(),
+          data: { raceId, nrSplits: 2, competitors: [], latest: { bib: '1', split: 1 } },
+        });
+      }
+
+      expect(ws.send).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(ws.send.mock.calls[0][0] as string).data.raceId).toBe('K1M_ST_BR1');
+    });
+  });
+
+  describe('delta encoding', () => {
+    function timeOfDay(seq: number): C123Message {
+      return { type: 'TimeOfDay', timestamp: new Date().toISOString(), seq, data: { time: '10:00:00' } };
+    }
+
+    function onCourse(seq: number, total: number): C123Message {
+      const competitor = { bib: '1', name: 'NOVÁK Jan', club: 'USK Praha', raceId: 'K1M_ST_BR1_6' } as OnCourseCompetitor;
+      return { type: 'OnCourse', timestamp: new Date().toISOString(), seq, data: { total, competitors: [competitor] } };
+    }
+
+    function sentTypes(ws: MockWebSocket): string[] {
+      return ws.send.mock.calls.map(([json]) => (JSON.parse(json as string) as C123Message).type);
+    }
+
+    test('sends full messages unless the client has the delta capability', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50');
+      session.setClientState({ current: {}, capabilities: ['configPush'] });
+
+      session.send(onCourse(1, 0));
+      session.send(onCourse(2, 1));
+
+      expect(session.usesDeltas()).toBe(false);
+      expect(sentTypes(ws)).toEqual(['OnCourse', 'OnCourse']);
+    });
+
+    test('sends deltas after negotiating the delta capability', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50');
+      session.setClientState({ current: {}, capabilities: ['configPush', 'delta'] });
+
+      session.send(onCourse(1, 0));
+      session.send(timeOfDay(2));
+      session.send(onCourse(3, 1));
+
+      expect(session.usesDeltas()).toBe(true);
+      expect(sentTypes(ws)).toEqual(['OnCourse', 'TimeOfDay', 'Delta']);
+      expect(JSON.parse(ws.send.mock.calls[2][0] as string).data).toEqual({
+        target: 'OnCourse',
+        baseSeq: 1,
+        ops: [{ op: 'replace', path: '/total', value: 1 }],
+      });
+    });
+
+    test('starts over with a keyframe after another ClientState', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50');
+      session.setClientState({ current: {}, capabilities: ['delta'] });
+
+      session.send(onCourse(1, 0));
+      session.setClientState({ current: {}, capabilities: ['delta'] });
+      session.send(onCourse(2, 1));
+
+      expect(sentTypes(ws)).toEqual(['OnCourse', 'OnCourse']);
+    });
+
+    test('does not encode messages dropped by filters', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50', { showOnCourse: false });
+      session.setClientState({ current: {}, capabilities: ['delta'] });
+
+      session.send(onCourse(1, 0));
+      session.setConfig({ showOnCourse: true });
+      session.send(onCourse(2, 1));
+
+      expect(sentTypes(ws)).toEqual(['OnCourse']);
+    });
+  });
+
+  describe('transport', () => {
+    function timeOfDay(): C123Message {
+      return { type: 'TimeOfDay', timestamp: new Date().toISOString(), data: { time: '10:00:00' } };
+    }
+
+    test('sends uncompressed JSON by default', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50');
+
+      session.send(timeOfDay());
+
+      expect(session.getTransport()).toEqual({ encoding: 'json', compress: false });
+      expect(JSON.parse(ws.send.mock.calls[0][0] as string).type).toBe('TimeOfDay');
+      expect(ws.send.mock.calls[0][1]).toEqual({ compress: false });
+    });
+
+    test('switches to MessagePack and compression via capabilities', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50');
+      session.setClientState({ current: {}, capabilities: ['msgpack', 'deflate'] });
+
+      session.send(timeOfDay());
+      session.sendRaw(JSON.stringify({ type: 'ForceRefresh', timestamp: 'now', data: {} }));
+
+      expect(session.getInfo().transport).toEqual({ encoding: 'msgpack', compress: true });
+      const [data, options] = ws.send.mock.calls[0];
+      expect(Buffer.isBuffer(data)).toBe(true);
+      expect(options).toEqual({ binary: true, compress: true });
+      expect(decodeMsgPack(data as Buffer)).toMatchObject({ type: 'TimeOfDay', data: { time: '10:00:00' } });
+      expect(decodeMsgPack(ws.send.mock.calls[1][0] as Buffer)).toMatchObject({ type: 'ForceRefresh' });
+    });
+
+    test('encodes ConfigPush with the session transport', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50', undefined, { displayRows: 8 });
+      session.setRequestedTransport({ encoding: 'msgpack' });
+
+      session.sendConfigPush();
+
+      expect(decodeMsgPack(ws.send.mock.calls[0][0] as Buffer)).toMatchObject({
+        type: 'ConfigPush',
+        data: { displayRows: 8 },
+      });
+    });
+
+    test('URL options take precedence over capabilities', () => {
+      const ws = createMockWebSocket();
+      const session = new ScoreboardSession('client-1', asWs(ws), '192.168.1.50');
+      session.setRequestedTransport({ encoding: 'json', compress: true });
+      session.setClientState({ current: {}, capabilities: ['msgpack'] });
+
+      expect(session.getTransport()).toEqual({ encoding: 'json', compress: true });
+    });
+
+    test('parses query parameters', () => {
+      expect(parseTransportParams(new URLSearchParams('encoding=msgpack&compress=1'))).toEqual({
+        encoding: 'msgpack',
+        compress: true,
+      });
+      expect(parseTransportParams(new URLSearchParams('compress=false'))).toEqual({ compress: false });
+      expect(parseTransportParams(new URLSearchParams('encoding=xml&compress=maybe'))).toEqual({});
+    });
   });
 });
@@ -1,3 +1,4 @@
 export * from './types.js';
 export * from './WebSocketServer.js';
 export * from './ScoreboardSession.js';
+export * from './DeltaEncoder.js';